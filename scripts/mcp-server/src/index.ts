@@ -9,12 +9,33 @@ import {
   ListToolsRequestSchema,
   type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { Storage } from './storage.js';
-import type { Card, CreateCardInput, UpdateCardInput, KnowledgeGraph, KnowledgeGraphNode, KnowledgeGraphEdge, DashboardStats } from './types.js';
+import {
+  Storage,
+  DEFAULT_DECK_ID,
+  getClozeIndices,
+  getDayStart,
+  getNextDayStart,
+  isCardAvailable,
+  toDayKey,
+} from './storage.js';
+import type { Card, CreateCardInput, DeckSettings, StudyMode, UpdateCardInput, KnowledgeGraph, KnowledgeGraphNode, KnowledgeGraphEdge, DashboardStats, ForecastDay } from './types.js';
 
 // Initialize storage
 const storage = new Storage(process.env.WORDSLASH_STORAGE_PATH);
 
+// Study settings shared by create_deck and update_deck
+const DECK_SETTINGS_PROPERTIES = {
+  newCardsPerDay: {
+    type: 'number',
+    description: 'New cards to learn per day in this deck (overrides wordslash.newCardsPerDay)',
+  },
+  studyMode: {
+    type: 'string',
+    enum: ['loop', 'studyUntilEmpty', 'dueOnly', 'quiz', 'dictation'],
+    description: 'Study mode used when the deck is opened in the flashcard panel',
+  },
+};
+
 // Define available tools
 const tools: Tool[] = [
   {
@@ -45,9 +66,13 @@ const tools: Tool[] = [
           items: { type: 'string' },
           description: 'Filter cards that have ALL of these tags (AND logic)',
         },
+        deck: {
+          type: 'string',
+          description: 'Filter cards by deck name or ID',
+        },
         type: {
           type: 'string',
-          enum: ['word', 'phrase', 'sentence'],
+          enum: ['word', 'phrase', 'sentence', 'cloze'],
           description: 'Filter by card type',
         },
         createdAfter: {
@@ -108,12 +133,13 @@ const tools: Tool[] = [
       properties: {
         term: {
           type: 'string',
-          description: 'The word, phrase, or sentence to learn (required)',
+          description:
+            'The word, phrase, or sentence to learn (required). A sentence with {{c1::...}} markers becomes one cloze card per number.',
         },
         type: {
           type: 'string',
-          enum: ['word', 'phrase', 'sentence'],
-          description: 'Card type (auto-inferred from word count if not provided)',
+          enum: ['word', 'phrase', 'sentence', 'cloze'],
+          description: 'Card type (auto-inferred from cloze markers or word count if not provided)',
         },
         phonetic: {
           type: 'string',
@@ -158,13 +184,18 @@ const tools: Tool[] = [
           items: { type: 'string' },
           description: 'Tags for categorization',
         },
+        deck: {
+          type: 'string',
+          description: 'Deck name (created if missing; default deck when omitted)',
+        },
       },
       required: ['term'],
     },
   },
   {
     name: 'update_card',
-    description: 'Update an existing vocabulary card',
+    description:
+      'Update an existing vocabulary card. On cloze cards term and example are read-only, and the back and tags are shared with the sibling cards.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -172,6 +203,7 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Card ID to update (required)',
         },
+        term: { type: 'string', description: 'Corrected term (previous versions stay in the card history)' },
         phonetic: { type: 'string' },
         morphemes: { type: 'array', items: { type: 'string' } },
         example: { type: 'string' },
@@ -183,6 +215,7 @@ const tools: Tool[] = [
         antonyms: { type: 'array', items: { type: 'string' } },
         notes: { type: 'string' },
         tags: { type: 'array', items: { type: 'string' } },
+        deck: { type: 'string', description: 'Deck name to move the card to (created if missing)' },
       },
       required: ['id'],
     },
@@ -228,6 +261,90 @@ const tools: Tool[] = [
       required: ['confirm'],
     },
   },
+  {
+    name: 'suspend_card',
+    description: 'Suspend a card: it keeps its progress but is never scheduled until unsuspended',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Card ID to suspend',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'unsuspend_card',
+    description: 'Unsuspend a card so it is scheduled again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Card ID to unsuspend',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'bury_card',
+    description: 'Bury a card: hide it from scheduling until the next day',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Card ID to bury',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'list_decks',
+    description: 'List decks with their study settings and card counts. Cards without a deck belong to the default deck.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'create_deck',
+    description: 'Create a deck with optional study settings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Deck name (required, unique)',
+        },
+        ...DECK_SETTINGS_PROPERTIES,
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'update_deck',
+    description: "Rename a deck or change its study settings",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Deck ID or current name (required)',
+        },
+        name: {
+          type: 'string',
+          description: 'New deck name',
+        },
+        ...DECK_SETTINGS_PROPERTIES,
+      },
+      required: ['id'],
+    },
+  },
   {
     name: 'list_events',
     description: 'List review events (learning history). Events are read-only.',
@@ -271,10 +388,15 @@ const tools: Tool[] = [
   },
   {
     name: 'get_dashboard_stats',
-    description: 'Get comprehensive dashboard statistics including card counts, review history, retention rate, and streak data',
+    description: 'Get comprehensive dashboard statistics including card counts, review history, retention rate, streak data, and a forecast of reviews due per upcoming day (learning vs. mature)',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        forecastDays: {
+          type: 'number',
+          description: 'Number of upcoming days in the review forecast, e.g. 30 or 90 (default: 30, max: 365)',
+        },
+      },
     },
   },
   {
@@ -331,6 +453,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           tag,
           tags,
           tagsMatchAll,
+          deck,
           type: cardType,
           createdAfter,
           createdBefore,
@@ -345,6 +468,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           tag?: string;
           tags?: string[];
           tagsMatchAll?: string[];
+          deck?: string;
           type?: 'word' | 'phrase' | 'sentence';
           createdAfter?: string;
           createdBefore?: string;
@@ -408,6 +532,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           result = result.filter((c) => tagsMatchAll.every(t => c.tags?.includes(t)));
         }
 
+        // Apply deck filter
+        if (deck) {
+          const found = await storage.getDeck(deck);
+          if (!found) {
+            return {
+              content: [{ type: 'text', text: `Deck not found: ${deck}` }],
+              isError: true,
+            };
+          }
+          result = result.filter((c) => (c.deckId ?? DEFAULT_DECK_ID) === found.id);
+        }
+
         // Apply card type filter
         if (cardType) {
           result = result.filter((c) => c.type === cardType);
@@ -461,6 +597,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               front: c.front,
               back: c.back,
               tags: c.tags,
+              deckId: c.deckId,
               version: c.version,
               createdAt: new Date(c.createdAt).toISOString(),
               updatedAt: new Date(c.updatedAt).toISOString(),
@@ -473,6 +610,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             phonetic: c.front.phonetic,
             translation: c.back?.translation,
             tags: c.tags,
+            deckId: c.deckId,
             version: c.version,
             createdAt: new Date(c.createdAt).toISOString(),
           };
@@ -532,6 +670,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        if (input.type === 'cloze' && getClozeIndices(input.term).length === 0) {
+          return {
+            content: [{ type: 'text', text: 'Error: cloze cards need {{c1::...}} markers in term' }],
+            isError: true,
+          };
+        }
+
         // Check for existing card with same term
         const existing = await storage.getCardByTerm(input.term);
         if (existing) {
@@ -546,13 +691,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const card = await storage.createCard(input);
+        const deck = input.deck ? await storage.getOrCreateDeck(input.deck) : undefined;
+        const cards = await storage.createCards(input, deck?.id);
 
         return {
           content: [
             {
               type: 'text',
-              text: `Card created successfully:\n${JSON.stringify(card, null, 2)}`,
+              text:
+                cards.length === 1
+                  ? `Card created successfully:\n${JSON.stringify(cards[0], null, 2)}`
+                  : `Created ${cards.length} cloze cards:\n${JSON.stringify(cards, null, 2)}`,
             },
           ],
         };
@@ -568,7 +717,31 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const card = await storage.updateCard(id, updates);
+        // Check first so a missing card does not create its deck
+        const existingCard = await storage.getCard(id);
+        if (!existingCard) {
+          return {
+            content: [{ type: 'text', text: `Card not found: ${id}` }],
+            isError: true,
+          };
+        }
+
+        // A cloze card's term and example come from the sentence shared with
+        // its siblings, which is edited in the extension
+        if (existingCard.cloze && (updates.term !== undefined || updates.example !== undefined)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Error: the term and example of a cloze card cannot be changed here; edit the sentence in the WordSlash dashboard',
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const deck = updates.deck ? await storage.getOrCreateDeck(updates.deck) : undefined;
+        const card = await storage.updateCard(id, updates, deck?.id);
 
         if (!card) {
           return {
@@ -611,6 +784,42 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'suspend_card':
+      case 'unsuspend_card':
+      case 'bury_card': {
+        const { id } = (args || {}) as { id: string };
+
+        if (!id) {
+          return {
+            content: [{ type: 'text', text: 'Error: id is required' }],
+            isError: true,
+          };
+        }
+
+        const changes =
+          name === 'bury_card'
+            ? { buriedUntil: getNextDayStart(Date.now()) }
+            : { suspended: name === 'suspend_card' };
+        const card = await storage.setCardScheduling(id, changes);
+
+        if (!card) {
+          return {
+            content: [{ type: 'text', text: `Card not found: ${id}` }],
+            isError: true,
+          };
+        }
+
+        const status =
+          name === 'bury_card'
+            ? `buried until ${new Date(card.buriedUntil!).toISOString()}`
+            : card.suspended
+              ? 'suspended'
+              : 'unsuspended';
+        return {
+          content: [{ type: 'text', text: `Card ${id} ${status}` }],
+        };
+      }
+
       case 'delete_cards_batch': {
         const { ids, search, tag, confirm } = (args || {}) as {
           ids?: string[];
@@ -699,6 +908,77 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'list_decks': {
+        const decks = await storage.getDecks();
+        const cards = await storage.getCards();
+        const counts = new Map<string, number>();
+        for (const card of cards.values()) {
+          const deckId = card.deckId && decks.has(card.deckId) ? card.deckId : DEFAULT_DECK_ID;
+          counts.set(deckId, (counts.get(deckId) ?? 0) + 1);
+        }
+
+        const result = Array.from(decks.values()).map((deck) => ({
+          id: deck.id,
+          name: deck.name,
+          newCardsPerDay: deck.newCardsPerDay,
+          studyMode: deck.studyMode,
+          cardCount: counts.get(deck.id) ?? 0,
+        }));
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ count: result.length, decks: result }, null, 2) }],
+        };
+      }
+
+      case 'create_deck':
+      case 'update_deck': {
+        const { id, ...settings } = (args || {}) as { id?: string } & DeckSettings;
+
+        const settingsError = validateDeckSettings(settings);
+        if (settingsError) {
+          return {
+            content: [{ type: 'text', text: `Error: ${settingsError}` }],
+            isError: true,
+          };
+        }
+
+        const existing = id ? await storage.getDeck(id) : null;
+        if (name === 'update_deck' && !existing) {
+          return {
+            content: [{ type: 'text', text: id ? `Deck not found: ${id}` : 'Error: id is required' }],
+            isError: true,
+          };
+        }
+
+        if (name === 'create_deck' && !settings.name?.trim()) {
+          return {
+            content: [{ type: 'text', text: 'Error: name is required' }],
+            isError: true,
+          };
+        }
+
+        const sameName = settings.name ? await storage.getDeck(settings.name) : null;
+        if (sameName && sameName.id !== existing?.id) {
+          return {
+            content: [{ type: 'text', text: `A deck named "${sameName.name}" already exists (id: ${sameName.id})` }],
+            isError: true,
+          };
+        }
+
+        const deck = existing
+          ? await storage.updateDeck(existing.id, settings)
+          : await storage.createDeck({ ...settings, name: settings.name ?? '' });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Deck ${existing ? 'updated' : 'created'} successfully:\n${JSON.stringify(deck, null, 2)}`,
+            },
+          ],
+        };
+      }
+
       case 'list_events': {
         const { cardId, limit = 100 } = (args || {}) as { cardId?: string; limit?: number };
 
@@ -791,7 +1071,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_dashboard_stats': {
-        const stats = await generateDashboardStats();
+        const { forecastDays = 30 } = (args || {}) as { forecastDays?: number };
+
+        if (!Number.isInteger(forecastDays) || forecastDays < 1 || forecastDays > 365) {
+          return {
+            content: [{ type: 'text', text: 'Error: forecastDays must be a whole number from 1 to 365' }],
+            isError: true,
+          };
+        }
+
+        const stats = await generateDashboardStats(forecastDays);
         return {
           content: [
             {
@@ -836,6 +1125,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 });
 
 // Start the server
+/**
+ * Check the study settings of create_deck and update_deck
+ * Returns error message if invalid, null if valid
+ */
+function validateDeckSettings(settings: DeckSettings): string | null {
+  const modes: StudyMode[] = ['loop', 'studyUntilEmpty', 'dueOnly', 'quiz', 'dictation'];
+  if (
+    settings.newCardsPerDay !== undefined &&
+    (!Number.isInteger(settings.newCardsPerDay) || settings.newCardsPerDay < 0)
+  ) {
+    return 'newCardsPerDay must be a non-negative whole number';
+  }
+  if (settings.studyMode !== undefined && !modes.includes(settings.studyMode)) {
+    return `studyMode must be one of ${modes.join(', ')}`;
+  }
+  return null;
+}
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -846,20 +1153,23 @@ async function main() {
 /**
  * Generate dashboard statistics from cards and events
  */
-async function generateDashboardStats(): Promise<DashboardStats> {
+async function generateDashboardStats(forecastDays = 30): Promise<DashboardStats> {
   const cards = await storage.getCards();
   const events = await storage.readAllEvents();
   const index = await storage.readIndex();
+  // Review states saved by the extension; the forecast only falls back to an
+  // estimate from the review log without them
+  const srsStates = index?.srsStates;
   
   const now = Date.now();
-  const todayStart = new Date().setHours(0, 0, 0, 0);
+  const todayStart = getDayStart(now);
   
   // Calculate card counts
   const activeCards = Array.from(cards.values());
   const totalCards = activeCards.length;
   
   // Card type distribution
-  const cardsByType = { word: 0, phrase: 0, sentence: 0 };
+  const cardsByType = { word: 0, phrase: 0, sentence: 0, cloze: 0 };
   for (const card of activeCards) {
     cardsByType[card.type]++;
   }
@@ -879,10 +1189,10 @@ async function generateDashboardStats(): Promise<DashboardStats> {
   const retentionRate = totalReviews > 0 ? positiveRatings / totalReviews : 0;
   
   // Calculate streak (consecutive days with reviews)
-  const currentStreak = calculateStreak(events);
+  const currentStreak = calculateStreak(events, now);
   
   // Reviews per day (last 30 days)
-  const reviewsPerDay = calculateReviewsPerDay(events, 30);
+  const reviewsPerDay = calculateReviewsPerDay(events, 30, now);
   
   // Count due, new, learned, mastered cards
   let dueCards = 0;
@@ -891,6 +1201,7 @@ async function generateDashboardStats(): Promise<DashboardStats> {
   let masteredCards = 0;
   let totalEaseFactor = 0;
   let easeFactorCount = 0;
+  const upcoming: Array<{ dueAt: number; mature: boolean }> = [];
   
   // Build SRS state from events
   const eventsByCard = new Map<string, typeof events>();
@@ -902,9 +1213,12 @@ async function generateDashboardStats(): Promise<DashboardStats> {
   
   for (const card of activeCards) {
     const cardEvents = eventsByCard.get(card.id) || [];
+    const available = isCardAvailable(card, now);
     
     if (cardEvents.length === 0) {
-      newCards++;
+      if (available) {
+        newCards++;
+      }
     } else {
       learnedCards++;
       
@@ -944,12 +1258,28 @@ async function generateDashboardStats(): Promise<DashboardStats> {
       
       // Check if due
       const dueAt = lastEvent.ts + interval * 24 * 60 * 60 * 1000;
-      if (dueAt <= now) {
+      if (available && dueAt <= now) {
         dueCards++;
       }
+      
+      // Buried cards come due again once they are unburied
+      if (!srsStates && !card.suspended) {
+        upcoming.push({ dueAt: Math.max(dueAt, card.buriedUntil ?? 0), mature: interval >= 21 });
+      }
     }
   }
   
+  for (const srs of Object.values(srsStates ?? {})) {
+    const card = cards.get(srs.cardId);
+    if (!card || card.suspended || srs.phase === 'new') {
+      continue;
+    }
+    upcoming.push({
+      dueAt: isCardAvailable(card, now) ? srs.dueAt : Math.max(srs.dueAt, card.buriedUntil ?? 0),
+      mature: srs.phase === 'review' && srs.intervalDays >= 21,
+    });
+  }
+  
   const averageEaseFactor = easeFactorCount > 0 ? totalEaseFactor / easeFactorCount : 2.5;
   
   return {
@@ -966,64 +1296,81 @@ async function generateDashboardStats(): Promise<DashboardStats> {
     cardsByType,
     ratingsDistribution,
     reviewsPerDay,
+    forecast: calculateForecast(upcoming, forecastDays, now),
   };
 }
 
 /**
- * Calculate current streak (consecutive days with reviews)
+ * Count reviews due per day for the next N days, starting today
  */
-function calculateStreak(events: { ts: number }[]): number {
-  if (events.length === 0) return 0;
+function calculateForecast(
+  upcoming: Array<{ dueAt: number; mature: boolean }>,
+  days: number,
+  now: number
+): ForecastDay[] {
+  const result: ForecastDay[] = [];
+  const dayByDate = new Map<string, ForecastDay>();
   
-  // Get unique review dates
-  const reviewDates = new Set<string>();
-  for (const event of events) {
-    const date = new Date(event.ts).toISOString().split('T')[0];
-    reviewDates.add(date);
+  for (let i = 0; i < days; i++) {
+    const date = toDayKey(now, i);
+    const day = { date, learning: 0, mature: 0 };
+    result.push(day);
+    dayByDate.set(date, day);
   }
   
-  const sortedDates = Array.from(reviewDates).sort().reverse();
-  if (sortedDates.length === 0) return 0;
+  for (const { dueAt, mature } of upcoming) {
+    // Overdue reviews count towards today
+    const day = dueAt <= now ? result[0] : dayByDate.get(toDayKey(dueAt));
+    if (day) {
+      day[mature ? 'mature' : 'learning']++;
+    }
+  }
   
-  // Check if today or yesterday has a review
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return result;
+}
+
+/**
+ * Calculate current streak (consecutive study days with reviews)
+ */
+function calculateStreak(events: { ts: number }[], now: number): number {
+  if (events.length === 0) return 0;
   
-  if (sortedDates[0] !== today && sortedDates[0] !== yesterday) {
-    return 0; // Streak broken
+  // Get unique review days
+  const reviewDays = new Set<string>();
+  for (const event of events) {
+    reviewDays.add(toDayKey(event.ts));
   }
   
-  let streak = 1;
-  for (let i = 1; i < sortedDates.length; i++) {
-    const prevDate = new Date(sortedDates[i - 1]);
-    const currDate = new Date(sortedDates[i]);
-    const diffDays = Math.floor((prevDate.getTime() - currDate.getTime()) / (24 * 60 * 60 * 1000));
-    
-    if (diffDays === 1) {
-      streak++;
-    } else {
-      break;
-    }
+  // The streak may end today or yesterday
+  let offset = reviewDays.has(toDayKey(now)) ? 0 : -1;
+  let streak = 0;
+  while (reviewDays.has(toDayKey(now, offset))) {
+    streak++;
+    offset--;
   }
   
   return streak;
 }
 
 /**
- * Calculate reviews per day for the last N days
+ * Calculate reviews per study day for the last N days
  */
-function calculateReviewsPerDay(events: { ts: number }[], days: number): Array<{ date: string; count: number }> {
+function calculateReviewsPerDay(
+  events: { ts: number }[],
+  days: number,
+  now: number
+): Array<{ date: string; count: number }> {
   const result: Array<{ date: string; count: number }> = [];
   const countByDate = new Map<string, number>();
   
   for (const event of events) {
-    const date = new Date(event.ts).toISOString().split('T')[0];
+    const date = toDayKey(event.ts);
     countByDate.set(date, (countByDate.get(date) || 0) + 1);
   }
   
   // Generate last N days
   for (let i = days - 1; i >= 0; i--) {
-    const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const date = toDayKey(now, -i);
     result.push({
       date,
       count: countByDate.get(date) || 0,
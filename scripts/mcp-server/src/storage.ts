@@ -5,12 +5,28 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { randomUUID } from 'crypto';
-import type { Card, CardIndex, CreateCardInput, ReviewEvent, UpdateCardInput } from './types.js';
+import type {
+  Card,
+  CardIndex,
+  CardType,
+  CreateCardInput,
+  Deck,
+  DeckSettings,
+  LogEvent,
+  ReviewEvent,
+  UpdateCardInput,
+} from './types.js';
 
 const CARDS_FILE = 'cards.jsonl';
 const EVENTS_FILE = 'events.jsonl';
+const DECKS_FILE = 'decks.jsonl';
 const INDEX_FILE = 'index.json';
 
+// Deck of cards without a deckId (matches the extension)
+export const DEFAULT_DECK_ID = 'default';
+const DEFAULT_DECK_NAME = 'Default';
+const DEFAULT_DAY_ROLLOVER_HOUR = 4;
+
 /**
  * Get the default storage path for WordSlash data
  */
@@ -29,16 +45,92 @@ export function getDefaultStoragePath(): string {
   }
 }
 
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+/**
+ * Distinct {{cN::...}} numbers in a sentence, ascending (matches the extension)
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = Number(match[1]);
+    if (index > 0) {
+      indices.add(index);
+    }
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
 /**
- * Infer card type from term word count
+ * Answer of one cloze number; deletions sharing a number are joined
  */
-function inferCardType(term: string): 'word' | 'phrase' | 'sentence' {
+function getClozeAnswer(text: string, index: number): string {
+  return [...text.matchAll(CLOZE_PATTERN)]
+    .filter((match) => Number(match[1]) === index)
+    .map((match) => match[2].trim())
+    .join(' … ');
+}
+
+/**
+ * Infer card type: 'cloze' with {{c1::...}} markers, else from term word count
+ */
+function inferCardType(term: string): CardType {
+  if (getClozeIndices(term).length > 0) return 'cloze';
   const wordCount = term.trim().split(/\s+/).length;
   if (wordCount === 1) return 'word';
   if (wordCount <= 4) return 'phrase';
   return 'sentence';
 }
 
+/**
+ * Whether a card may be scheduled: neither suspended nor buried past `now`
+ */
+export function isCardAvailable(card: Card, now: number): boolean {
+  return !card.suspended && !(card.buriedUntil !== undefined && card.buriedUntil > now);
+}
+
+/**
+ * Local hour at which a new study day starts (WORDSLASH_DAY_ROLLOVER_HOUR,
+ * matching the extension's wordslash.dayRolloverHour setting)
+ */
+export function getDayRolloverHour(): number {
+  const hour = Number(process.env.WORDSLASH_DAY_ROLLOVER_HOUR);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_DAY_ROLLOVER_HOUR;
+}
+
+/**
+ * Start of the study day containing `ts`
+ */
+export function getDayStart(ts: number, rolloverHour = getDayRolloverHour()): number {
+  const date = new Date(ts);
+  if (date.getHours() < rolloverHour) {
+    date.setDate(date.getDate() - 1);
+  }
+  date.setHours(rolloverHour, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Start of the study day after the one containing `now`, when buried cards come back
+ */
+export function getNextDayStart(now: number, rolloverHour = getDayRolloverHour()): number {
+  const date = new Date(getDayStart(now, rolloverHour));
+  date.setDate(date.getDate() + 1);
+  date.setHours(rolloverHour, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Local date (YYYY-MM-DD) of the study day `offset` days after the one containing `ts`
+ */
+export function toDayKey(ts: number, offset = 0, rolloverHour = getDayRolloverHour()): string {
+  const date = new Date(getDayStart(ts, rolloverHour));
+  date.setDate(date.getDate() + offset);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Storage class for managing WordSlash data files
  */
@@ -133,13 +225,40 @@ export class Storage {
   }
 
   /**
-   * Create a new card
+   * Create a new card, in the given deck or the default deck.
+   * A cloze sentence becomes one card per {{cN::...}} number: the sentence
+   * moves to the example, each card's term is its answer and the siblings
+   * share a cloze noteId (as in the extension).
    */
-  async createCard(input: CreateCardInput): Promise<Card> {
+  async createCards(input: CreateCardInput, deckId?: string): Promise<Card[]> {
+    const type = input.type || inferCardType(input.term);
+    if (type !== 'cloze') {
+      const card = this.buildCard(input, type, deckId);
+      await this.appendCard(card);
+      return [card];
+    }
+
+    const sentence = input.term.trim();
+    const noteId = randomUUID();
+    const cards = getClozeIndices(sentence).map((index): Card => ({
+      ...this.buildCard(
+        { ...input, term: getClozeAnswer(sentence, index), example: sentence },
+        type,
+        deckId
+      ),
+      cloze: { noteId, index },
+    }));
+    for (const card of cards) {
+      await this.appendCard(card);
+    }
+    return cards;
+  }
+
+  private buildCard(input: CreateCardInput, type: CardType, deckId?: string): Card {
     const now = Date.now();
-    const card: Card = {
+    return {
       id: randomUUID(),
-      type: input.type || inferCardType(input.term),
+      type,
       front: {
         term: input.term.trim(),
         phonetic: input.phonetic?.trim(),
@@ -156,19 +275,19 @@ export class Storage {
         notes: input.notes?.trim(),
       },
       tags: input.tags?.map(t => t.trim()).filter(Boolean),
+      deckId,
       createdAt: now,
       updatedAt: now,
       version: 1,
     };
-
-    await this.appendCard(card);
-    return card;
   }
 
   /**
-   * Update an existing card
+   * Update an existing card, moving it to deckId when given.
+   * The sentence translation, back and tags of a cloze card are shared by its
+   * siblings, so they are carried over to them.
    */
-  async updateCard(id: string, updates: UpdateCardInput): Promise<Card | null> {
+  async updateCard(id: string, updates: UpdateCardInput, deckId?: string): Promise<Card | null> {
     const existing = await this.getCard(id);
     if (!existing) {
       return null;
@@ -179,6 +298,7 @@ export class Storage {
       ...existing,
       front: {
         ...existing.front,
+        term: updates.term?.trim() || existing.front.term,
         phonetic: updates.phonetic?.trim() ?? existing.front.phonetic,
         morphemes: updates.morphemes?.map(m => m.trim()).filter(Boolean) ?? existing.front.morphemes,
         example: updates.example?.trim() ?? existing.front.example,
@@ -194,14 +314,35 @@ export class Storage {
         notes: updates.notes?.trim() ?? existing.back?.notes,
       },
       tags: updates.tags?.map(t => t.trim()).filter(Boolean) ?? existing.tags,
+      deckId: deckId ?? existing.deckId,
       updatedAt: now,
       version: existing.version + 1,
     };
 
     await this.appendCard(updated);
+    if (updated.cloze) {
+      await this.syncClozeSiblings(updated);
+    }
     return updated;
   }
 
+  private async syncClozeSiblings(edited: Card): Promise<void> {
+    const cards = await this.getCards();
+    for (const sibling of cards.values()) {
+      if (sibling.cloze?.noteId !== edited.cloze?.noteId || sibling.id === edited.id) {
+        continue;
+      }
+      await this.appendCard({
+        ...sibling,
+        front: { ...sibling.front, exampleCn: edited.front.exampleCn },
+        back: edited.back,
+        tags: edited.tags,
+        updatedAt: edited.updatedAt,
+        version: sibling.version + 1,
+      });
+    }
+  }
+
   /**
    * Delete a card (soft delete)
    */
@@ -222,6 +363,29 @@ export class Storage {
     return true;
   }
 
+  /**
+   * Suspend, unsuspend or bury a card by appending a new version
+   */
+  async setCardScheduling(
+    id: string,
+    changes: Pick<Card, 'suspended' | 'buriedUntil'>
+  ): Promise<Card | null> {
+    const existing = await this.getCard(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: Card = {
+      ...existing,
+      ...changes,
+      updatedAt: Date.now(),
+      version: existing.version + 1,
+    };
+
+    await this.appendCard(updated);
+    return updated;
+  }
+
   /**
    * Append a card to cards.jsonl
    */
@@ -229,15 +393,123 @@ export class Storage {
     await this.appendLine(CARDS_FILE, JSON.stringify(card));
   }
 
+  // ============================================
+  // Deck Operations
+  // ============================================
+
+  /**
+   * Get the latest version of each deck, the default deck first
+   */
+  async getDecks(): Promise<Map<string, Deck>> {
+    const entries = await this.readJsonl<Deck>(DECKS_FILE);
+    const latest = new Map<string, Deck>([
+      [
+        DEFAULT_DECK_ID,
+        { id: DEFAULT_DECK_ID, name: DEFAULT_DECK_NAME, createdAt: 0, updatedAt: 0, version: 0 },
+      ],
+    ]);
+
+    for (const deck of entries) {
+      const existing = latest.get(deck.id);
+      if (!existing || deck.version >= existing.version) {
+        latest.set(deck.id, deck);
+      }
+    }
+
+    return latest;
+  }
+
+  /**
+   * Get a deck by ID or name (case-insensitive)
+   */
+  async getDeck(idOrName: string): Promise<Deck | null> {
+    const decks = await this.getDecks();
+    const normalized = idOrName.toLowerCase().trim();
+    const byId = decks.get(idOrName);
+    if (byId) {
+      return byId;
+    }
+
+    for (const deck of decks.values()) {
+      if (deck.name.toLowerCase().trim() === normalized) {
+        return deck;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a new deck
+   */
+  async createDeck(settings: DeckSettings & { name: string }): Promise<Deck> {
+    const now = Date.now();
+    const deck: Deck = {
+      id: randomUUID(),
+      name: settings.name.trim(),
+      newCardsPerDay: settings.newCardsPerDay,
+      studyMode: settings.studyMode,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
+
+    await this.appendLine(DECKS_FILE, JSON.stringify(deck));
+    return deck;
+  }
+
+  /**
+   * Get a deck by name, creating it if missing
+   */
+  async getOrCreateDeck(name: string): Promise<Deck> {
+    return (await this.getDeck(name)) ?? (await this.createDeck({ name }));
+  }
+
+  /**
+   * Update a deck's name or study settings by appending a new version
+   */
+  async updateDeck(id: string, settings: DeckSettings): Promise<Deck | null> {
+    const existing = (await this.getDecks()).get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: Deck = {
+      ...existing,
+      name: settings.name?.trim() || existing.name,
+      newCardsPerDay: settings.newCardsPerDay ?? existing.newCardsPerDay,
+      studyMode: settings.studyMode ?? existing.studyMode,
+      updatedAt: Date.now(),
+      version: existing.version + 1,
+    };
+
+    await this.appendLine(DECKS_FILE, JSON.stringify(updated));
+    return updated;
+  }
+
   // ============================================
   // Events Operations (Read-only)
   // ============================================
 
   /**
-   * Read all review events
+   * Read all review events, skipping undo events and the reviews they cancel,
+   * and reviews made before the card's latest reset
    */
   async readAllEvents(): Promise<ReviewEvent[]> {
-    return this.readJsonl<ReviewEvent>(EVENTS_FILE);
+    const events = await this.readJsonl<LogEvent>(EVENTS_FILE);
+    const undoneIds = new Set<string>();
+    const resetAt = new Map<string, number>();
+    for (const event of events) {
+      if (event.kind === 'undo') {
+        undoneIds.add(event.targetEventId);
+      } else if (event.kind === 'reset') {
+        resetAt.set(event.cardId, Math.max(resetAt.get(event.cardId) ?? 0, event.ts));
+      }
+    }
+    return events.filter(
+      (e): e is ReviewEvent =>
+        e.kind === 'review' && !undoneIds.has(e.id) && e.ts > (resetAt.get(e.cardId) ?? -Infinity)
+    );
   }
 
   /**
@@ -279,7 +551,10 @@ export class Storage {
       cardEventMap.get(event.cardId)!.push(event);
     }
 
-    for (const [cardId] of cards) {
+    for (const [cardId, card] of cards) {
+      if (!isCardAvailable(card, now)) {
+        continue;
+      }
       const cardEvents = cardEventMap.get(cardId) || [];
       if (cardEvents.length === 0) {
         newCount++;
@@ -294,6 +569,8 @@ export class Storage {
       cardCount: cards.size,
       dueCount,
       newCount,
+      // Keep the review states saved by the extension
+      srsStates: (await this.readIndex())?.srsStates,
       updatedAt: now,
     };
 
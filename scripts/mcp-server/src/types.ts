@@ -1,10 +1,12 @@
 // Type definitions for WordSlash data
 // Mirrors the types from the main extension
 
-export type CardType = 'word' | 'phrase' | 'sentence';
+export type CardType = 'word' | 'phrase' | 'sentence' | 'cloze';
 
 export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
 
+export type CardDirection = 'forward' | 'reverse';
+
 export interface CardContext {
   langId?: string;
   filePath?: string;
@@ -38,19 +40,81 @@ export interface Card {
   createdAt: number;
   updatedAt: number;
   deleted?: boolean;
+  /** Suspended cards keep their progress but are never scheduled */
+  suspended?: boolean;
+  /** Buried cards are hidden from scheduling until this time (ms) */
+  buriedUntil?: number;
+  /** Set on cloze cards; siblings from the same sentence share a noteId */
+  cloze?: { noteId: string; index: number };
+  /** Review directions (defaults to forward) */
+  directions?: CardDirection | 'both';
+  /** Deck the card belongs to (the default deck when omitted) */
+  deckId?: string;
+  version: number;
+}
+
+export type StudyMode = 'loop' | 'studyUntilEmpty' | 'dueOnly' | 'quiz' | 'dictation';
+
+/**
+ * A named group of cards with its own study settings (decks.jsonl)
+ */
+export interface Deck {
+  id: string;
+  name: string;
+  /** New cards to learn per day (defaults to the extension setting) */
+  newCardsPerDay?: number;
+  /** Study mode used when the deck is opened */
+  studyMode?: StudyMode;
+  createdAt: number;
+  updatedAt: number;
   version: number;
 }
 
+export interface DeckSettings {
+  name?: string;
+  newCardsPerDay?: number;
+  studyMode?: StudyMode;
+}
+
 export interface ReviewEvent {
   id: string;
   cardId: string;
   ts: number;
   kind: 'review';
   rating: ReviewRating;
-  mode: 'flashcard' | 'quickpeek';
+  mode: 'flashcard' | 'quickpeek' | 'quiz' | 'dictation';
   durationMs?: number;
+  /** Direction that was reviewed (omitted for forward) */
+  direction?: CardDirection;
+  /** What the learner typed before revealing the back (typed answer mode) */
+  typedAnswer?: string;
+}
+
+/**
+ * Tombstone written by the extension when a review is undone
+ */
+export interface UndoEvent {
+  id: string;
+  cardId: string;
+  ts: number;
+  kind: 'undo';
+  targetEventId: string;
+}
+
+/**
+ * Written by the extension when a card's progress is reset
+ */
+export interface ResetEvent {
+  id: string;
+  cardId: string;
+  ts: number;
+  kind: 'reset';
 }
 
+export type LogEvent = ReviewEvent | UndoEvent | ResetEvent;
+
+export type SrsPhase = 'new' | 'learning' | 'review' | 'relearning';
+
 export interface SrsState {
   cardId: string;
   dueAt: number;
@@ -59,13 +123,16 @@ export interface SrsState {
   reps: number;
   lapses: number;
   lastReviewAt?: number;
+  phase?: SrsPhase;
 }
 
 export interface CardIndex {
   version: number;
-  cardCount: number;
-  dueCount: number;
-  newCount: number;
+  cardCount?: number;
+  dueCount?: number;
+  newCount?: number;
+  /** Review states saved by the extension, keyed by review direction */
+  srsStates?: Record<string, SrsState>;
   updatedAt: number;
 }
 
@@ -83,9 +150,12 @@ export interface CreateCardInput {
   antonyms?: string[];
   notes?: string;
   tags?: string[];
+  /** Deck name (created if missing) */
+  deck?: string;
 }
 
 export interface UpdateCardInput {
+  term?: string;
   phonetic?: string;
   morphemes?: string[];
   example?: string;
@@ -97,6 +167,8 @@ export interface UpdateCardInput {
   antonyms?: string[];
   notes?: string;
   tags?: string[];
+  /** Deck name to move the card to (created if missing) */
+  deck?: string;
 }
 
 // ============================================
@@ -118,6 +190,7 @@ export interface DashboardStats {
     word: number;
     phrase: number;
     sentence: number;
+    cloze: number;
   };
   ratingsDistribution: {
     again: number;
@@ -126,6 +199,16 @@ export interface DashboardStats {
     easy: number;
   };
   reviewsPerDay: Array<{ date: string; count: number }>;
+  /** Reviews due per upcoming day, starting today (overdue reviews count today) */
+  forecast: ForecastDay[];
+}
+
+export interface ForecastDay {
+  date: string;
+  /** Learning and young reviews (interval < 21 days) */
+  learning: number;
+  /** Mature reviews (interval >= 21 days) */
+  mature: number;
 }
 
 // ============================================
@@ -2,8 +2,13 @@
 // This module contains VS Code API calls
 
 import * as vscode from 'vscode';
-import { createCard, type CardFront, type CardContext } from '../storage/schema';
+import { createCard, type Card, type CardFront, type CardContext } from '../storage/schema';
 import { JsonlStorage } from '../storage/storage';
+import { createClozeCards, getClozeIndices } from '../storage/cloze';
+import { getCardVersions } from '../storage/cardHistory';
+import { getBackContentGenerator } from '../common/config';
+import { applyGeneratedContent, hasEmptyBack } from '../llm/generator';
+import { logError } from '../common/logger';
 
 /**
  * Options for extracting term from editor
@@ -109,6 +114,10 @@ export async function executeAddCard(
     return false;
   }
 
+  if (getClozeIndices(result.term).length > 0) {
+    return addClozeCards(storage, result);
+  }
+
   // Create card
   const front: CardFront = {
     term: result.term,
@@ -123,6 +132,32 @@ export async function executeAddCard(
   try {
     await storage.appendCard(card);
     vscode.window.showInformationMessage(`WordSlash: Added "${result.term}" to flashcards.`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`WordSlash: Failed to save card - ${message}`);
+    return false;
+  }
+
+  if (hasEmptyBack(card)) {
+    await generateCardContent(storage, card);
+  }
+  return true;
+}
+
+/**
+ * Add one card per {{cN::...}} deletion of a selected cloze sentence
+ */
+async function addClozeCards(storage: JsonlStorage, result: ExtractResult): Promise<boolean> {
+  const cards = createClozeCards({
+    type: 'cloze',
+    front: { term: result.term, example: result.term, context: result.context },
+  });
+
+  try {
+    await storage.appendCards(cards);
+    vscode.window.showInformationMessage(
+      `WordSlash: Added a cloze sentence with ${cards.length} card(s) to flashcards.`
+    );
     return true;
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -130,3 +165,33 @@ export async function executeAddCard(
     return false;
   }
 }
+
+/**
+ * Fill in a new card's back with the configured content generator, if any.
+ * The card is already saved, so failures only produce a warning.
+ */
+async function generateCardContent(storage: JsonlStorage, card: Card): Promise<void> {
+  const generator = getBackContentGenerator(storage);
+  if (!generator) {
+    return;
+  }
+
+  try {
+    const content = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `WordSlash: Generating content for "${card.front.term}"...`,
+      },
+      () => generator.generate(card)
+    );
+    // Re-read the card so edits or a delete made while generating are kept
+    const latest = getCardVersions(await storage.readAllCards(), card.id).pop();
+    if (content && latest && !latest.deleted) {
+      await storage.appendCard(applyGeneratedContent(latest, content));
+    }
+  } catch (error) {
+    logError('Error generating card content', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showWarningMessage(`WordSlash: Could not generate card content - ${message}`);
+  }
+}
@@ -10,6 +10,8 @@ export interface BackupData {
   exportedAt: number;
   cards: unknown[];
   events: unknown[];
+  /** Deck versions (missing in backups made before decks) */
+  decks?: unknown[];
 }
 
 /**
@@ -20,6 +22,7 @@ export async function executeExportBackup(storage: JsonlStorage): Promise<void>
     // Read all data
     const cards = await storage.readAllCards();
     const events = await storage.readAllEvents();
+    const decks = await storage.readAllDecks();
 
     if (cards.length === 0 && events.length === 0) {
       vscode.window.showWarningMessage('WordSlash: No data to export');
@@ -32,6 +35,7 @@ export async function executeExportBackup(storage: JsonlStorage): Promise<void>
       exportedAt: Date.now(),
       cards,
       events,
+      decks,
     };
 
     // Generate default filename with date
@@ -139,6 +143,22 @@ export async function executeImportBackup(storage: JsonlStorage): Promise<void>
       }
     }
 
+    // Import decks (only if newer version or new)
+    const existingDeckVersions = new Map<string, number>();
+    for (const deck of await storage.readAllDecks()) {
+      existingDeckVersions.set(
+        deck.id,
+        Math.max(existingDeckVersions.get(deck.id) ?? 0, deck.version)
+      );
+    }
+    for (const deck of backup.decks ?? []) {
+      const typedDeck = deck as { id: string; version: number };
+      const existingVersion = existingDeckVersions.get(typedDeck.id);
+      if (existingVersion === undefined || typedDeck.version > existingVersion) {
+        await storage.appendDeck(deck as Parameters<typeof storage.appendDeck>[0]);
+      }
+    }
+
     // Import events (skip duplicates by id)
     let importedEvents = 0;
     for (const event of backup.events) {
@@ -0,0 +1,152 @@
+// Command: Start a custom study session over a filtered part of the deck
+// Asks for the filter criteria and a card limit, then opens the flashcard panel
+
+import * as vscode from 'vscode';
+import type { JsonlStorage } from '../storage/storage';
+import type { CardIndex, CardType } from '../storage/schema';
+import {
+  countCustomStudyReviews,
+  describeCustomStudy,
+  type CustomStudyFilter,
+} from '../srs/customStudy';
+import { buildConfiguredIndex } from '../common/config';
+import { DEFAULT_CUSTOM_STUDY_LIMIT } from '../common/constants';
+import { FlashcardPanel } from '../webview/panel';
+
+type Criterion = 'tags' | 'types' | 'lapses' | 'added' | 'due';
+
+const STRUGGLING_MIN_LAPSES = 2;
+const ADDED_WITHIN_DAYS = 7;
+const DUE_WITHIN_DAYS = 3;
+
+/**
+ * Execute the custom study command
+ * Returns the filter the session was started with, or null if cancelled
+ */
+export async function executeCustomStudy(
+  storage: JsonlStorage,
+  context: vscode.ExtensionContext
+): Promise<CustomStudyFilter | null> {
+  const cards = await storage.readAllCards();
+  const events = await storage.readAllEvents();
+  const { index } = await buildConfiguredIndex(storage, cards, events);
+
+  // Step 1: Pick the criteria to combine
+  const criteria = await vscode.window.showQuickPick(
+    [
+      { label: '$(tag) Tags...', description: 'Cards with any of the chosen tags', value: 'tags' },
+      {
+        label: '$(symbol-class) Card types...',
+        description: 'Words, phrases, ...',
+        value: 'types',
+      },
+      {
+        label: '$(warning) Struggling cards',
+        description: `Lapses ≥ ${STRUGGLING_MIN_LAPSES}`,
+        value: 'lapses',
+      },
+      {
+        label: '$(calendar) Added this week',
+        description: `Created in the last ${ADDED_WITHIN_DAYS} days`,
+        value: 'added',
+      },
+      {
+        label: '$(clock) Due soon',
+        description: `Due in the next ${DUE_WITHIN_DAYS} days`,
+        value: 'due',
+      },
+    ] as { label: string; description: string; value: Criterion }[],
+    {
+      canPickMany: true,
+      placeHolder: 'Select the criteria cards must match (none for all cards)',
+      title: 'WordSlash: Custom Study',
+    }
+  );
+  if (!criteria) {
+    return null; // User cancelled
+  }
+
+  const filter: CustomStudyFilter = { limit: DEFAULT_CUSTOM_STUDY_LIMIT };
+  const chosen = new Set(criteria.map((item) => item.value));
+
+  // Step 2: Pick tags and types
+  if (chosen.has('tags')) {
+    const tags = await pickMany(getTags(index), 'Select tags', 'No cards have tags yet.');
+    if (!tags) {
+      return null;
+    }
+    filter.tags = tags;
+  }
+  if (chosen.has('types')) {
+    const types = await pickMany(getTypes(index), 'Select card types', 'No cards yet.');
+    if (!types) {
+      return null;
+    }
+    filter.types = types as CardType[];
+  }
+  if (chosen.has('lapses')) {
+    filter.minLapses = STRUGGLING_MIN_LAPSES;
+  }
+  if (chosen.has('added')) {
+    filter.addedWithinDays = ADDED_WITHIN_DAYS;
+  }
+  if (chosen.has('due')) {
+    filter.dueWithinDays = DUE_WITHIN_DAYS;
+  }
+
+  const matching = countCustomStudyReviews(index, filter, Date.now());
+  if (matching === 0) {
+    vscode.window.showInformationMessage(
+      `WordSlash: No cards match ${describeCustomStudy(filter)}.`
+    );
+    return null;
+  }
+
+  // Step 3: Ask for the session limit
+  const limitText = await vscode.window.showInputBox({
+    title: 'WordSlash: Custom Study',
+    prompt: `${matching} card(s) match ${describeCustomStudy(filter)}. How many reviews?`,
+    value: String(Math.min(matching, DEFAULT_CUSTOM_STUDY_LIMIT)),
+    validateInput: (value) =>
+      /^[1-9]\d*$/.test(value.trim()) ? null : 'Enter a positive whole number',
+  });
+  if (limitText === undefined) {
+    return null;
+  }
+  filter.limit = Number(limitText.trim());
+
+  await FlashcardPanel.startCustomStudy(context.extensionUri, storage, context, filter);
+  return filter;
+}
+
+/**
+ * Multi-select quick pick over a list of values; null when cancelled or empty
+ */
+async function pickMany(
+  values: string[],
+  placeHolder: string,
+  emptyMessage: string
+): Promise<string[] | null> {
+  if (values.length === 0) {
+    vscode.window.showInformationMessage(`WordSlash: ${emptyMessage}`);
+    return null;
+  }
+  const picked = await vscode.window.showQuickPick(values, {
+    canPickMany: true,
+    placeHolder,
+    title: 'WordSlash: Custom Study',
+  });
+  return picked && picked.length > 0 ? picked : null;
+}
+
+function getTags(index: CardIndex): string[] {
+  const tags = new Set<string>();
+  for (const card of index.cards.values()) {
+    card.tags?.forEach((tag) => tags.add(tag));
+  }
+  return [...tags].sort();
+}
+
+function getTypes(index: CardIndex): string[] {
+  return [...new Set([...index.cards.values()].map((card) => card.type))].sort();
+}
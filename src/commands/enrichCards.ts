@@ -0,0 +1,116 @@
+// Command: Fill in incomplete cards with the configured content generator
+// Uses VS Code withProgress API for progress display
+
+import * as vscode from 'vscode';
+import type { JsonlStorage } from '../storage/storage';
+import {
+  enrichCards,
+  findIncompleteCards,
+  rebaseEnrichedCards,
+  type EnrichResult,
+} from '../llm/enrich';
+import { buildConfiguredIndex, getBackContentGenerator } from '../common/config';
+import { logError, logInfo, logWarn } from '../common/logger';
+import { FlashcardPanel } from '../webview/panel';
+
+/**
+ * Execute the enrich incomplete cards command
+ * Generates missing translations, explanations and phonetics and appends new card versions
+ */
+export async function executeEnrichCards(storage: JsonlStorage): Promise<EnrichResult | null> {
+  const generator = getBackContentGenerator(storage);
+  if (!generator) {
+    const choice = await vscode.window.showWarningMessage(
+      'WordSlash: No card content generator is configured. Set "wordslash.dictionary.path" or enable "wordslash.llm.enabled" to enrich cards.',
+      'Open Settings'
+    );
+    if (choice === 'Open Settings') {
+      vscode.commands.executeCommand('workbench.action.openSettings', 'wordslash');
+    }
+    return null;
+  }
+
+  const cards = await storage.readAllCards();
+  const events = await storage.readAllEvents();
+  const { index } = await buildConfiguredIndex(storage, cards, events);
+  const incomplete = findIncompleteCards(index);
+
+  if (incomplete.length === 0) {
+    vscode.window.showInformationMessage(
+      'WordSlash: Every card already has a translation, explanation and phonetic.'
+    );
+    return null;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `WordSlash: Generate missing content for ${incomplete.length} card(s)?`,
+    { modal: true, detail: 'Only blank fields are filled in; existing content is kept.' },
+    'Enrich'
+  );
+  if (choice !== 'Enrich') {
+    return null;
+  }
+
+  const result = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'WordSlash: Enriching cards...',
+      cancellable: true,
+    },
+    (progress, token) =>
+      enrichCards(incomplete, generator, {
+        onProgress: (done, total) => {
+          progress.report({ message: `${done}/${total}`, increment: 100 / total });
+        },
+        isCancelled: () => token.isCancellationRequested,
+      })
+  );
+
+  try {
+    // Keep whatever finished, even when cancelled. The run can take minutes,
+    // so apply the filled fields to the cards as they are now.
+    const rebased = rebaseEnrichedCards(result.updated, await storage.readAllCards());
+    result.updated = rebased.updated;
+    result.filled = rebased.filled;
+    await storage.appendCards(result.updated);
+    FlashcardPanel.currentPanel?.notifyDataChanged();
+    logInfo(`Enriched ${result.updated.length} cards`);
+  } catch (error) {
+    logError('Failed to save enriched cards', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`WordSlash: Failed to save enriched cards - ${message}`);
+    return null;
+  }
+
+  for (const failure of result.failed) {
+    logWarn(`Could not enrich "${failure.term}": ${failure.error}`);
+  }
+  showEnrichResult(result, incomplete.length);
+  return result;
+}
+
+/**
+ * Summarize what was filled in
+ */
+function showEnrichResult(result: EnrichResult, total: number): void {
+  const fields = Object.entries(result.filled)
+    .map(([field, count]) => `${field} ${count}`)
+    .join(', ');
+  const parts = [`Enriched ${result.updated.length} of ${total} card(s)`];
+  if (fields) {
+    parts[0] += ` (${fields})`;
+  }
+  if (result.failed.length > 0) {
+    parts.push(`${result.failed.length} failed (see the WordSlash output)`);
+  }
+  if (result.cancelled) {
+    parts.push(`cancelled with ${result.skipped} left`);
+  }
+
+  const message = `WordSlash: ${parts.join('; ')}.`;
+  if (result.failed.length > 0) {
+    vscode.window.showWarningMessage(message);
+  } else {
+    vscode.window.showInformationMessage(message);
+  }
+}
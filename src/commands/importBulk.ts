@@ -5,7 +5,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import type { JsonlStorage } from '../storage/storage';
 import { parseBulkImportJson, processBulkImport } from '../storage/bulkImport';
-import { buildIndex } from '../storage/indexer';
+import { buildConfiguredIndex } from '../common/config';
 import type { BulkImportResult } from '../storage/schema';
 
 /**
@@ -47,13 +47,23 @@ export async function executeImportBulk(storage: JsonlStorage): Promise<BulkImpo
         progress.report({ message: 'Parsing JSON...', increment: 10 });
         const template = parseBulkImportJson(fileContent);
 
-        // Read existing cards
+        // Read existing cards and decks
         progress.report({ message: 'Loading existing cards...', increment: 10 });
         const existingCards = await storage.readAllCards();
+        const existingDecks = await storage.readAllDecks();
 
         // Process import
         progress.report({ message: 'Processing cards...', increment: 20 });
-        const { newCards, updatedCards, result } = processBulkImport(template, existingCards);
+        const { newCards, updatedCards, newDecks, result } = processBulkImport(
+          template,
+          existingCards,
+          existingDecks
+        );
+
+        // Create the decks the cards were imported into
+        for (const deck of newDecks) {
+          await storage.appendDeck(deck);
+        }
 
         // Write new cards
         const totalCards = newCards.length + updatedCards.length;
@@ -81,8 +91,8 @@ export async function executeImportBulk(storage: JsonlStorage): Promise<BulkImpo
         // Rebuild index
         progress.report({ message: 'Rebuilding index...', increment: 10 });
         const allCards = await storage.readAllCards();
-        const allEvents = await storage.readAllEvents();
-        const index = buildIndex(allCards, allEvents);
+        const allEvents = await storage.readReviewEvents();
+        const { index } = await buildConfiguredIndex(storage, allCards, allEvents);
 
         // Save index
         await storage.atomicWriteJson('index.json', {
@@ -94,7 +104,7 @@ export async function executeImportBulk(storage: JsonlStorage): Promise<BulkImpo
         });
 
         // Show result message
-        showImportResult(result);
+        showImportResult(result, newDecks.map((deck) => deck.name));
 
         return result;
       } catch (error) {
@@ -114,7 +124,7 @@ export async function executeImportBulk(storage: JsonlStorage): Promise<BulkImpo
 /**
  * Show import result in VS Code notification
  */
-function showImportResult(result: BulkImportResult): void {
+function showImportResult(result: BulkImportResult, createdDecks: string[]): void {
   const parts: string[] = [];
 
   if (result.imported > 0) {
@@ -126,6 +136,9 @@ function showImportResult(result: BulkImportResult): void {
   if (result.skipped > 0) {
     parts.push(`${result.skipped} skipped`);
   }
+  if (createdDecks.length > 0) {
+    parts.push(`new deck(s): ${createdDecks.join(', ')}`);
+  }
 
   const message = parts.length > 0 ? parts.join(', ') : 'No cards processed';
 
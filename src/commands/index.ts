@@ -1,3 +1,7 @@
 export { executeAddCard, getTermFromEditor, type ExtractOptions, type ExtractResult } from './addCard';
 export { executeImportBulk } from './importBulk';
 export { executeExportTemplate } from './exportTemplate';
+export { executeOptimizeScheduler } from './optimizeScheduler';
+export { executeEnrichCards } from './enrichCards';
+export { executeCustomStudy } from './customStudy';
+export { executeManageDecks } from './manageDecks';
@@ -0,0 +1,212 @@
+// Command: Create decks and edit their names, study settings and cards
+// Deck versions are appended to decks.jsonl like card versions
+
+import * as vscode from 'vscode';
+import type { JsonlStorage } from '../storage/storage';
+import {
+  createDeck,
+  updateCard,
+  updateDeck,
+  type Card,
+  type Deck,
+  type StudyMode,
+} from '../storage/schema';
+import { getLatestCards } from '../storage/indexer';
+import { getCardDeckId, getLatestDecks, validateDeckName } from '../storage/decks';
+import { getNewCardsPerDay } from '../common/config';
+import { FlashcardPanel } from '../webview/panel';
+
+type DeckAction = 'rename' | 'newCards' | 'studyMode' | 'moveTagged';
+
+const STUDY_MODE_LABELS: Record<StudyMode, string> = {
+  loop: '🔄 Loop',
+  studyUntilEmpty: '📚 Until Done',
+  dueOnly: '⏰ Due Only',
+  quiz: '🎯 Quiz',
+  dictation: '🎧 Dictation',
+};
+
+/**
+ * Execute the manage decks command
+ * Returns the created or edited deck, or null if cancelled
+ */
+export async function executeManageDecks(storage: JsonlStorage): Promise<Deck | null> {
+  const decks = getLatestDecks(await storage.readAllDecks());
+
+  // Step 1: Pick a deck or create one
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: '$(add) New deck...', description: '', deck: undefined as Deck | undefined },
+      ...[...decks.values()].map((deck) => ({
+        label: `$(package) ${deck.name}`,
+        description: describeDeckSettings(deck),
+        deck,
+      })),
+    ],
+    { placeHolder: 'Select a deck to edit, or create one', title: 'WordSlash: Manage Decks' }
+  );
+  if (!picked) {
+    return null; // User cancelled
+  }
+
+  let saved: Deck | null;
+  if (!picked.deck) {
+    saved = await createNewDeck(storage, decks);
+  } else {
+    saved = await editDeck(storage, decks, picked.deck);
+  }
+
+  if (saved) {
+    await FlashcardPanel.currentPanel?.notifyDecksChanged();
+  }
+  return saved;
+}
+
+async function createNewDeck(
+  storage: JsonlStorage,
+  decks: Map<string, Deck>
+): Promise<Deck | null> {
+  const name = await vscode.window.showInputBox({
+    title: 'WordSlash: New Deck',
+    prompt: 'Deck name',
+    validateInput: (value) => validateDeckName(value, decks.values()),
+  });
+  if (name === undefined) {
+    return null;
+  }
+
+  const deck = createDeck({ name: name.trim() });
+  await storage.appendDeck(deck);
+  vscode.window.showInformationMessage(
+    `WordSlash: Created deck "${deck.name}". Move tagged cards into it from Manage Decks, ` +
+      'or import cards with a "deck" field.'
+  );
+  return deck;
+}
+
+async function editDeck(
+  storage: JsonlStorage,
+  decks: Map<string, Deck>,
+  deck: Deck
+): Promise<Deck | null> {
+  const action = await vscode.window.showQuickPick(
+    [
+      { label: '$(edit) Rename...', value: 'rename' },
+      {
+        label: '$(sparkle) New cards per day...',
+        description: `${deck.newCardsPerDay ?? `${getNewCardsPerDay()} (setting)`}`,
+        value: 'newCards',
+      },
+      {
+        label: '$(play) Study mode...',
+        description: deck.studyMode ? STUDY_MODE_LABELS[deck.studyMode] : "Panel's mode",
+        value: 'studyMode',
+      },
+      { label: '$(tag) Move cards with tags...', value: 'moveTagged' },
+    ] as { label: string; description?: string; value: DeckAction }[],
+    { placeHolder: `Edit deck "${deck.name}"`, title: 'WordSlash: Manage Decks' }
+  );
+  if (!action) {
+    return null;
+  }
+
+  let updated: Deck | null = null;
+  switch (action.value) {
+    case 'rename': {
+      const name = await vscode.window.showInputBox({
+        title: 'WordSlash: Rename Deck',
+        value: deck.name,
+        validateInput: (value) => validateDeckName(value, decks.values(), deck.id),
+      });
+      updated = name === undefined ? null : updateDeck(deck, { name: name.trim() });
+      break;
+    }
+    case 'newCards': {
+      const limit = await vscode.window.showInputBox({
+        title: 'WordSlash: New Cards per Day',
+        prompt: 'New cards to learn per day in this deck (empty for wordslash.newCardsPerDay)',
+        value: deck.newCardsPerDay?.toString() ?? '',
+        validateInput: (value) =>
+          !value.trim() || /^\d+$/.test(value.trim()) ? null : 'Enter a whole number',
+      });
+      if (limit !== undefined) {
+        const newCardsPerDay = limit.trim() ? Number(limit.trim()) : undefined;
+        updated = { ...updateDeck(deck, {}), newCardsPerDay };
+      }
+      break;
+    }
+    case 'studyMode': {
+      const mode = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Panel's mode",
+            description: 'Use the mode chosen for all decks',
+            mode: undefined,
+          },
+          ...(Object.keys(STUDY_MODE_LABELS) as StudyMode[]).map((value) => ({
+            label: STUDY_MODE_LABELS[value],
+            description: '',
+            mode: value as StudyMode | undefined,
+          })),
+        ],
+        { placeHolder: `Study mode of "${deck.name}"`, title: 'WordSlash: Manage Decks' }
+      );
+      updated = mode ? { ...updateDeck(deck, {}), studyMode: mode.mode } : null;
+      break;
+    }
+    case 'moveTagged':
+      return moveTaggedCards(storage, decks, deck);
+  }
+
+  if (updated) {
+    await storage.appendDeck(updated);
+    vscode.window.showInformationMessage(`WordSlash: Updated deck "${updated.name}".`);
+  }
+  return updated;
+}
+
+/**
+ * Move every card with any of the chosen tags into a deck
+ */
+async function moveTaggedCards(
+  storage: JsonlStorage,
+  decks: Map<string, Deck>,
+  deck: Deck
+): Promise<Deck | null> {
+  const cards = [...getLatestCards(await storage.readAllCards()).values()];
+  const tags = [...new Set(cards.flatMap((card) => card.tags ?? []))].sort();
+  if (tags.length === 0) {
+    vscode.window.showInformationMessage('WordSlash: No cards have tags yet.');
+    return null;
+  }
+
+  const picked = await vscode.window.showQuickPick(tags, {
+    canPickMany: true,
+    placeHolder: `Move cards with any of these tags to "${deck.name}"`,
+    title: 'WordSlash: Manage Decks',
+  });
+  if (!picked || picked.length === 0) {
+    return null;
+  }
+
+  const moved: Card[] = cards
+    .filter((card) => card.tags?.some((tag) => picked.includes(tag)))
+    .filter((card) => getCardDeckId(card, decks) !== deck.id)
+    .map((card) => updateCard(card, { deckId: deck.id }));
+  await storage.appendCards(moved);
+  vscode.window.showInformationMessage(
+    `WordSlash: Moved ${moved.length} card(s) to "${deck.name}".`
+  );
+  return deck;
+}
+
+function describeDeckSettings(deck: Deck): string {
+  const parts: string[] = [];
+  if (deck.newCardsPerDay !== undefined) {
+    parts.push(`${deck.newCardsPerDay} new/day`);
+  }
+  if (deck.studyMode) {
+    parts.push(STUDY_MODE_LABELS[deck.studyMode]);
+  }
+  return parts.join(' · ');
+}
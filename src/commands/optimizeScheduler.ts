@@ -0,0 +1,102 @@
+// Command: Optimize FSRS scheduler parameters from the review log
+// Uses VS Code withProgress API for progress display
+
+import * as vscode from 'vscode';
+import type { JsonlStorage } from '../storage/storage';
+import type { FsrsParameters } from '../storage/schema';
+import { optimizeFsrsWeights, type OptimizerMetrics } from '../srs/optimizer';
+import { readFsrsParameters } from '../common/config';
+import { FSRS_PARAMS_FILE } from '../common/constants';
+import { logError, logInfo } from '../common/logger';
+import { FlashcardPanel } from '../webview/panel';
+
+/**
+ * Execute the optimize scheduler command
+ * Fits FSRS weights offline, reports before/after metrics and asks to apply them
+ */
+export async function executeOptimizeScheduler(storage: JsonlStorage): Promise<boolean> {
+  const events = await storage.readReviewEvents();
+  const current = await readFsrsParameters(storage);
+
+  const result = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'WordSlash: Optimizing scheduler parameters...',
+      cancellable: true,
+    },
+    async (progress, token) => {
+      let reported = 0;
+      try {
+        return await optimizeFsrsWeights(events, {
+          initialWeights: current?.weights,
+          onProgress: (fraction) => {
+            const percent = Math.round(fraction * 100);
+            progress.report({ message: `${percent}%`, increment: percent - reported });
+            reported = percent;
+          },
+          isCancelled: () => token.isCancellationRequested,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showWarningMessage(`WordSlash: Cannot optimize parameters - ${message}`);
+        return null;
+      }
+    }
+  );
+
+  if (!result) {
+    return false;
+  }
+
+  if (result.cancelled) {
+    vscode.window.showInformationMessage('WordSlash: Optimization cancelled.');
+    return false;
+  }
+
+  const summary =
+    `Fitted on ${result.reviewCount} reviews of ${result.cardCount} cards.\n\n` +
+    `Log-loss: ${formatMetric(result.before, 'logLoss')} → ${formatMetric(result.after, 'logLoss')}\n` +
+    `RMSE: ${formatMetric(result.before, 'rmse')} → ${formatMetric(result.after, 'rmse')}`;
+
+  const choice = await vscode.window.showInformationMessage(
+    'WordSlash: Apply the optimized FSRS parameters?',
+    { modal: true, detail: summary },
+    'Apply'
+  );
+
+  if (choice !== 'Apply') {
+    return false;
+  }
+
+  try {
+    const params: FsrsParameters = {
+      weights: result.weights,
+      reviewCount: result.reviewCount,
+      logLoss: result.after.logLoss,
+      rmse: result.after.rmse,
+      optimizedAt: Date.now(),
+    };
+    await storage.atomicWriteJson(FSRS_PARAMS_FILE, params);
+    FlashcardPanel.currentPanel?.notifyDataChanged();
+    logInfo(`FSRS parameters saved: log-loss ${params.logLoss.toFixed(4)}`);
+
+    const algorithm = vscode.workspace
+      .getConfiguration('wordslash.srs')
+      .get<string>('algorithm', 'sm2');
+    vscode.window.showInformationMessage(
+      algorithm === 'fsrs'
+        ? 'WordSlash: Optimized parameters applied.'
+        : 'WordSlash: Optimized parameters saved. They take effect when "wordslash.srs.algorithm" is set to "fsrs".'
+    );
+    return true;
+  } catch (error) {
+    logError('Failed to save FSRS parameters', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`WordSlash: Failed to save parameters - ${message}`);
+    return false;
+  }
+}
+
+function formatMetric(metrics: OptimizerMetrics, key: keyof OptimizerMetrics): string {
+  return metrics[key].toFixed(4);
+}
@@ -0,0 +1,171 @@
+// Common utilities - Extension configuration
+// This module contains VS Code API calls
+
+import * as vscode from 'vscode';
+import { createSchedulingAlgorithm, type SchedulingAlgorithm } from '../srs/algorithm';
+import { isValidFsrsWeights } from '../srs/optimizer';
+import type { JsonlStorage } from '../storage/storage';
+import { buildIndex } from '../storage/indexer';
+import type { Card, CardIndex, FsrsParameters, LogEvent } from '../storage/schema';
+import type { LeechOptions } from '../storage/leech';
+import { FallbackGenerator, type BackContentGenerator } from '../llm/generator';
+import { OpenAiCompatibleGenerator } from '../llm/openai';
+import { LocalDictionaryGenerator } from '../llm/localDictionary';
+import {
+  DEFAULT_DAY_ROLLOVER_HOUR,
+  DEFAULT_DESIRED_RETENTION,
+  DEFAULT_LEARNING_STEPS,
+  DEFAULT_LEECH_THRESHOLD,
+  DEFAULT_LLM_BASE_URL,
+  DEFAULT_LLM_MODEL,
+  DEFAULT_NEW_CARDS_PER_DAY,
+  DEFAULT_RELEARNING_STEPS,
+  DEFAULT_REVIEWS_PER_DAY,
+  DEFAULT_SRS_ALGORITHM,
+  DICTIONARY_INDEX_DIR,
+  FSRS_PARAMS_FILE,
+} from './constants';
+
+/**
+ * Build the scheduling algorithm selected by `wordslash.srs.algorithm`,
+ * using personalized FSRS weights from fsrs-params.json when present,
+ * the configured learning/relearning steps and due date load balancing
+ */
+export async function getSchedulingAlgorithm(storage: JsonlStorage): Promise<SchedulingAlgorithm> {
+  const config = vscode.workspace.getConfiguration('wordslash.srs');
+  const algorithmId = config.get<string>('algorithm', DEFAULT_SRS_ALGORITHM);
+
+  let weights: number[] | undefined;
+  if (algorithmId === 'fsrs') {
+    const params = await readFsrsParameters(storage);
+    weights = params?.weights;
+  }
+
+  return createSchedulingAlgorithm(algorithmId, {
+    fsrs: {
+      weights,
+      desiredRetention: config.get<number>('desiredRetention', DEFAULT_DESIRED_RETENTION),
+    },
+    steps: {
+      learningSteps: config.get<number[]>('learningSteps', [...DEFAULT_LEARNING_STEPS]),
+      relearningSteps: config.get<number[]>('relearningSteps', [...DEFAULT_RELEARNING_STEPS]),
+    },
+    loadBalance: config.get<boolean>('loadBalance', true),
+    dayRolloverHour: getDayRolloverHour(),
+  });
+}
+
+/**
+ * Build the card index with the configured scheduling algorithm and leech
+ * threshold. Pass `dictation` to build the spelling dictation schedule, where
+ * lapses don't make leeches.
+ */
+export async function buildConfiguredIndex(
+  storage: JsonlStorage,
+  cards: Card[],
+  events: LogEvent[],
+  options: { dictation?: boolean } = {}
+): Promise<{ index: CardIndex; algorithm: SchedulingAlgorithm }> {
+  const algorithm = await getSchedulingAlgorithm(storage);
+  const dictation = options.dictation ?? false;
+  const index = buildIndex(cards, events, algorithm, {
+    leechThreshold: dictation ? 0 : getLeechOptions().threshold,
+    dictation,
+  });
+  return { index, algorithm };
+}
+
+/**
+ * Leech settings from `wordslash.srs.leechThreshold` and `wordslash.srs.leechAutoSuspend`
+ */
+export function getLeechOptions(): LeechOptions {
+  const config = vscode.workspace.getConfiguration('wordslash.srs');
+  return {
+    threshold: config.get<number>('leechThreshold', DEFAULT_LEECH_THRESHOLD),
+    autoSuspend: config.get<boolean>('leechAutoSuspend', false),
+  };
+}
+
+/**
+ * New cards per day for decks without their own limit (`wordslash.newCardsPerDay`)
+ */
+export function getNewCardsPerDay(): number {
+  return vscode.workspace
+    .getConfiguration('wordslash')
+    .get<number>('newCardsPerDay', DEFAULT_NEW_CARDS_PER_DAY);
+}
+
+/**
+ * Due reviews per day across all decks (`wordslash.reviewsPerDay`)
+ */
+export function getReviewsPerDay(): number {
+  return vscode.workspace
+    .getConfiguration('wordslash')
+    .get<number>('reviewsPerDay', DEFAULT_REVIEWS_PER_DAY);
+}
+
+/**
+ * Local hour at which a new study day starts (`wordslash.dayRolloverHour`)
+ */
+export function getDayRolloverHour(): number {
+  return vscode.workspace
+    .getConfiguration('wordslash')
+    .get<number>('dayRolloverHour', DEFAULT_DAY_ROLLOVER_HOUR);
+}
+
+/**
+ * Whether the flashcard panel asks for a typed answer (`wordslash.review.typeAnswer`)
+ */
+export function isTypeAnswerEnabled(): boolean {
+  return vscode.workspace.getConfiguration('wordslash.review').get<boolean>('typeAnswer', false);
+}
+
+/**
+ * Card content generator from `wordslash.dictionary.path` and `wordslash.llm`.
+ * The local dictionary is tried first; the LLM covers terms it does not know.
+ * Returns null when neither is configured.
+ */
+export function getBackContentGenerator(storage: JsonlStorage): BackContentGenerator | null {
+  const generators: BackContentGenerator[] = [];
+
+  const dictionaryPath = vscode.workspace
+    .getConfiguration('wordslash.dictionary')
+    .get<string>('path', '')
+    .trim();
+  if (dictionaryPath) {
+    generators.push(
+      new LocalDictionaryGenerator({
+        path: dictionaryPath,
+        indexDir: storage.resolvePath(DICTIONARY_INDEX_DIR),
+      })
+    );
+  }
+
+  const config = vscode.workspace.getConfiguration('wordslash.llm');
+  if (config.get<boolean>('enabled', false)) {
+    generators.push(
+      new OpenAiCompatibleGenerator({
+        baseUrl: config.get<string>('baseUrl', DEFAULT_LLM_BASE_URL),
+        model: config.get<string>('model', DEFAULT_LLM_MODEL),
+        apiKey: config.get<string>('apiKey', '') || undefined,
+      })
+    );
+  }
+
+  if (generators.length === 0) {
+    return null;
+  }
+  return generators.length === 1 ? generators[0] : new FallbackGenerator(generators);
+}
+
+/**
+ * Read saved FSRS parameters, ignoring missing or malformed files
+ */
+export async function readFsrsParameters(storage: JsonlStorage): Promise<FsrsParameters | null> {
+  try {
+    const params = await storage.readJson<FsrsParameters>(FSRS_PARAMS_FILE);
+    return params && isValidFsrsWeights(params.weights) ? params : null;
+  } catch {
+    return null;
+  }
+}
@@ -6,6 +6,8 @@
  */
 export const DAY_MS = 86400000; // 24 * 60 * 60 * 1000
 export const HOUR_MS = 3600000; // 60 * 60 * 1000
+export const MINUTE_MS = 60000; // 60 * 1000
+export const DEFAULT_DAY_ROLLOVER_HOUR = 4; // Study days start at this local hour
 
 /**
  * SRS constants
@@ -16,13 +18,76 @@ export const MIN_EASE_FACTOR = 1.3;
 export const MAX_EASE_FACTOR = 3.0;
 export const MAX_INTERVAL_DAYS = 365; // Maximum interval cap: 1 year
 export const MIN_REVIEW_INTERVAL_MS = HOUR_MS; // Minimum time between "real" reviews
+export const DEFAULT_SRS_ALGORITHM = 'sm2';
+export const DEFAULT_DESIRED_RETENTION = 0.9; // FSRS target recall probability
+export const MIN_OPTIMIZER_REVIEWS = 400; // Minimum usable reviews to fit FSRS weights
+export const DEFAULT_LEARNING_STEPS: readonly number[] = [1, 10]; // Minutes
+export const DEFAULT_RELEARNING_STEPS: readonly number[] = [10]; // Minutes
+export const DEFAULT_LEECH_THRESHOLD = 8; // Lapses before a card is marked as a leech
+export const LEECH_TAG = 'leech';
+export const FUZZ_MIN_INTERVAL_DAYS = 2.5; // Shorter intervals are never fuzzed
+// Fuzz added per day of interval within each range: [from, to, factor]
+export const FUZZ_RANGES: readonly (readonly [number, number, number])[] = [
+  [2.5, 7, 0.15],
+  [7, 20, 0.1],
+  [20, Infinity, 0.05],
+];
 
 /**
  * Scheduler constants
  */
 export const MAX_RECENT_CARDS = 5;
+export const MAX_UNDO_HISTORY = 20;
 export const DEFAULT_NEW_CARDS_PER_DAY = 20;
+export const DEFAULT_REVIEWS_PER_DAY = 200;
+export const LEARN_AHEAD_MS = 20 * 60000; // Show learning cards early when nothing else is due
 export const DEFAULT_MAX_NODES = 100;
+export const FORECAST_DAYS = 90; // Upcoming days in the dashboard workload forecast
+export const DEFAULT_CUSTOM_STUDY_LIMIT = 50; // Reviews in a custom study session
+
+/**
+ * Study time constants
+ */
+export const MAX_ANSWER_DURATION_MS = 60000; // Longer answer times count as this (learner stepped away)
+export const STUDY_TIME_DAYS = 30; // Days of study time shown in the dashboard
+export const SLOWEST_CARDS_LIMIT = 10; // Cards listed as slowest to answer
+
+/**
+ * Deck constants
+ */
+export const DEFAULT_DECK_ID = 'default'; // Deck of cards without a deckId
+export const DEFAULT_DECK_NAME = 'Default';
+
+/**
+ * Typed answer constants
+ */
+export const TYPED_ANSWER_EASY_MS = 5000; // Correct answers this fast suggest Easy
+export const TYPED_ANSWER_HARD_MS = 20000; // Correct answers slower than this suggest Hard
+export const TYPED_ANSWER_MS_PER_CHAR = 250; // Typing time allowed on top of both limits
+export const TYPED_ANSWER_CLOSE_ACCURACY = 0.8; // Near misses (typos) at or above this suggest Hard
+
+/**
+ * Quiz constants
+ */
+export const QUIZ_OPTION_COUNT = 4; // One correct translation and three distractors
+export const QUIZ_GOOD_MS = 8000; // Correct choices slower than this rate Hard
+
+/**
+ * LLM constants
+ */
+export const DEFAULT_LLM_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_LLM_MODEL = 'gpt-4o-mini';
+export const DEFAULT_LLM_TIMEOUT_MS = 30000;
+export const DEFAULT_ENRICH_CONCURRENCY = 3; // Generator calls in flight during batch enrichment
+export const DEFAULT_ENRICH_RETRIES = 2;
+export const DEFAULT_ENRICH_RETRY_DELAY_MS = 1000;
+
+/**
+ * Local dictionary constants
+ */
+export const DICTIONARY_INDEX_DIR = 'dictionary-index'; // Inside the storage directory
+export const DICTIONARY_INDEX_VERSION = 1;
+export const DICTIONARY_INDEX_BLOCK_SIZE = 256; // Index lines per block in the in-memory block table
 
 /**
  * Indexer constants
@@ -34,4 +99,6 @@ export const INDEXER_VERSION = 1;
  */
 export const CARDS_FILE = 'cards.jsonl';
 export const EVENTS_FILE = 'events.jsonl';
+export const DECKS_FILE = 'decks.jsonl';
 export const INDEX_FILE = 'index.json';
+export const FSRS_PARAMS_FILE = 'fsrs-params.json';
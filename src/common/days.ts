@@ -0,0 +1,49 @@
+// Common utilities - Study day boundaries
+// PURE MODULE: No vscode imports allowed
+//
+// A study day runs from the rollover hour (local time) to the same hour the
+// next day, so a session past midnight still counts towards the evening it
+// started in. Stats, daily limits and burying all use these boundaries.
+
+import { DEFAULT_DAY_ROLLOVER_HOUR } from './constants';
+
+/**
+ * Start of the study day containing `ts`
+ */
+export function getDayStart(ts: number, rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR): number {
+  const date = new Date(ts);
+  if (date.getHours() < rolloverHour) {
+    date.setDate(date.getDate() - 1);
+  }
+  date.setHours(rolloverHour, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Start of the study day after the one containing `ts`, when buried cards come back
+ */
+export function getNextDayStart(
+  ts: number,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): number {
+  const date = new Date(getDayStart(ts, rolloverHour));
+  date.setDate(date.getDate() + 1);
+  date.setHours(rolloverHour, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Local date (YYYY-MM-DD) of the study day `offset` days after the one
+ * containing `ts` (before it when negative). Day-based stats are keyed by it.
+ */
+export function toDayKey(
+  ts: number,
+  offset = 0,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): string {
+  const date = new Date(getDayStart(ts, rolloverHour));
+  date.setDate(date.getDate() + offset);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
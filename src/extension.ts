@@ -4,8 +4,13 @@ import { executeAddCard } from './commands/addCard';
 import { executeImportBulk } from './commands/importBulk';
 import { executeExportTemplate } from './commands/exportTemplate';
 import { executeExportBackup, executeImportBackup } from './commands/backup';
+import { executeOptimizeScheduler } from './commands/optimizeScheduler';
+import { executeEnrichCards } from './commands/enrichCards';
+import { executeCustomStudy } from './commands/customStudy';
+import { executeManageDecks } from './commands/manageDecks';
 import { FlashcardPanel } from './webview/panel';
 import { DashboardPanel } from './webview/dashboard';
+import { CardBrowserPanel } from './webview/browser';
 import { DashboardViewProvider } from './webview/dashboardViewProvider';
 import { initLogger, logInfo } from './common/logger';
 
@@ -41,6 +46,13 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
+  // Card browser command
+  const browseCardsCommand = vscode.commands.registerCommand('wordslash.browseCards', () => {
+    if (storage) {
+      CardBrowserPanel.createOrShow(context.extensionUri, storage);
+    }
+  });
+
   const addCardCommand = vscode.commands.registerCommand(
     'wordslash.addCardFromSelection',
     async () => {
@@ -77,6 +89,37 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Optimize FSRS parameters command
+  const optimizeSchedulerCommand = vscode.commands.registerCommand(
+    'wordslash.optimizeScheduler',
+    async () => {
+      if (storage) {
+        await executeOptimizeScheduler(storage);
+      }
+    }
+  );
+
+  // Enrich incomplete cards command
+  const enrichCardsCommand = vscode.commands.registerCommand('wordslash.enrichCards', async () => {
+    if (storage) {
+      await executeEnrichCards(storage);
+    }
+  });
+
+  // Custom study command
+  const customStudyCommand = vscode.commands.registerCommand('wordslash.customStudy', async () => {
+    if (storage) {
+      await executeCustomStudy(storage, context);
+    }
+  });
+
+  // Manage decks command
+  const manageDecksCommand = vscode.commands.registerCommand('wordslash.manageDecks', async () => {
+    if (storage) {
+      await executeManageDecks(storage);
+    }
+  });
+
   // Open settings command
   const openSettingsCommand = vscode.commands.registerCommand('wordslash.openSettings', () => {
     vscode.commands.executeCommand('workbench.action.openSettings', 'wordslash');
@@ -85,11 +128,16 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     openFlashcardsCommand,
     openDashboardCommand,
+    browseCardsCommand,
     addCardCommand,
     exportBackupCommand,
     importBackupCommand,
     importBulkCommand,
     exportTemplateCommand,
+    optimizeSchedulerCommand,
+    enrichCardsCommand,
+    customStudyCommand,
+    manageDecksCommand,
     openSettingsCommand
   );
 }
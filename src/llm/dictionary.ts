@@ -0,0 +1,340 @@
+// LLM module - Local dictionary formats (ECDICT CSV and StarDict)
+// PURE MODULE: No vscode imports allowed
+
+import type { CardBack } from '../storage/schema';
+import type { GeneratedCardContent } from './generator';
+
+export type DictionaryFormat = 'ecdict' | 'stardict';
+
+/**
+ * What a dictionary knows about a word, normalized across formats
+ */
+export interface DictionaryEntry {
+  word: string;
+  phonetic?: string;
+  /** Chinese glosses */
+  translations: string[];
+  /** English definitions */
+  definitions: string[];
+  /** Inflected forms, e.g. "past: perceived" */
+  forms: string[];
+}
+
+/**
+ * Header of a StarDict dictionary from its .ifo file
+ */
+export interface StarDictInfo {
+  bookname: string;
+  wordcount: number;
+  idxoffsetbits: 32 | 64;
+  sametypesequence?: string;
+}
+
+export interface StarDictIdxEntry {
+  word: string;
+  offset: number;
+  size: number;
+}
+
+const STARDICT_IFO_MAGIC = "StarDict's dict ifo file";
+
+// ECDICT exchange codes; "1" describes the word itself and is skipped
+const EXCHANGE_LABELS: Record<string, string> = {
+  '0': 'base',
+  p: 'past',
+  d: 'past participle',
+  i: '-ing',
+  '3': 'third person',
+  s: 'plural',
+  r: 'comparative',
+  t: 'superlative',
+};
+
+// StarDict entry types holding text we can show; the rest are resources or binary
+const STARDICT_TEXT_TYPES = new Set(['m', 'l', 'g', 'x', 'h', 'k']);
+const STARDICT_MARKUP_TYPES = new Set(['g', 'x', 'h', 'k']);
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/**
+ * Detect the dictionary format from the file extension
+ */
+export function getDictionaryFormat(filePath: string): DictionaryFormat {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.csv')) {
+    return 'ecdict';
+  }
+  if (lower.endsWith('.ifo')) {
+    return 'stardict';
+  }
+  throw new Error(
+    `Unsupported dictionary file "${filePath}" (expected an ECDICT .csv or StarDict .ifo file)`
+  );
+}
+
+/**
+ * Key a term is indexed and looked up under
+ */
+export function normalizeTerm(term: string): string {
+  return term.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Split one CSV line into fields, handling quoted fields and doubled quotes
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char !== '\r' || i !== line.length - 1) {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parse one ECDICT row: word, phonetic, definition, translation, pos, collins,
+ * oxford, tag, bnc, frq, exchange, ...
+ * Multi-line fields use a literal "\n".
+ */
+export function parseEcdictLine(line: string): DictionaryEntry {
+  const [word = '', phonetic = '', definition = '', translation = '', , , , , , , exchange = ''] =
+    parseCsvLine(line);
+
+  return {
+    word: word.trim(),
+    phonetic: formatPhonetic(phonetic),
+    translations: splitEcdictField(translation),
+    definitions: splitEcdictField(definition),
+    forms: parseExchange(exchange),
+  };
+}
+
+/**
+ * Turn an ECDICT exchange field ("p:perceived/3:perceives") into readable forms
+ */
+export function parseExchange(exchange: string): string[] {
+  const forms: string[] = [];
+  for (const part of exchange.split('/')) {
+    const separator = part.indexOf(':');
+    const label = EXCHANGE_LABELS[part.slice(0, separator)];
+    const value = part.slice(separator + 1).trim();
+    if (separator > 0 && label && value) {
+      forms.push(`${label}: ${value}`);
+    }
+  }
+  return forms;
+}
+
+/**
+ * Parse a StarDict .ifo file
+ */
+export function parseStarDictIfo(text: string): StarDictInfo {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== STARDICT_IFO_MAGIC) {
+    throw new Error('Not a StarDict .ifo file');
+  }
+
+  const values = new Map<string, string>();
+  for (const line of lines.slice(1)) {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      values.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+
+  const wordcount = Number(values.get('wordcount'));
+  if (!Number.isInteger(wordcount) || wordcount < 0) {
+    throw new Error('StarDict .ifo file has no valid wordcount');
+  }
+
+  return {
+    bookname: values.get('bookname') ?? '',
+    wordcount,
+    idxoffsetbits: values.get('idxoffsetbits') === '64' ? 64 : 32,
+    sametypesequence: values.get('sametypesequence') || undefined,
+  };
+}
+
+/**
+ * Parse a StarDict .idx file: NUL-terminated word, big-endian offset and size
+ */
+export function parseStarDictIdx(data: Buffer, offsetBits: 32 | 64 = 32): StarDictIdxEntry[] {
+  const entries: StarDictIdxEntry[] = [];
+  const offsetBytes = offsetBits / 8;
+  let pos = 0;
+
+  while (pos < data.length) {
+    const end = data.indexOf(0, pos);
+    if (end === -1 || end + offsetBytes + 4 > data.length) {
+      throw new Error('StarDict .idx file is truncated');
+    }
+    const word = data.toString('utf8', pos, end);
+    const offset =
+      offsetBits === 64 ? Number(data.readBigUInt64BE(end + 1)) : data.readUInt32BE(end + 1);
+    const size = data.readUInt32BE(end + 1 + offsetBytes);
+    entries.push({ word, offset, size });
+    pos = end + 1 + offsetBytes + 4;
+  }
+
+  return entries;
+}
+
+/**
+ * Parse a StarDict article into a dictionary entry.
+ * Without a sametypesequence every field carries its own type byte.
+ */
+export function parseStarDictEntry(
+  word: string,
+  data: Buffer,
+  sameTypeSequence?: string
+): DictionaryEntry {
+  const entry: DictionaryEntry = { word, translations: [], definitions: [], forms: [] };
+  const lines: string[] = [];
+
+  for (const { type, text } of readStarDictFields(data, sameTypeSequence)) {
+    if (type === 't') {
+      entry.phonetic ??= formatPhonetic(text);
+    } else if (STARDICT_TEXT_TYPES.has(type)) {
+      const plain = STARDICT_MARKUP_TYPES.has(type) ? stripMarkup(text) : text;
+      lines.push(...plain.split(/\r?\n/));
+    }
+  }
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line || line.toLowerCase() === word.toLowerCase()) {
+      continue;
+    }
+    // Many dictionaries open with the pronunciation on its own line
+    if (!entry.phonetic && /^(\[[^\]]+\]|\/[^/]+\/)$/.test(line)) {
+      entry.phonetic = formatPhonetic(line);
+    } else if (CJK_PATTERN.test(line)) {
+      entry.translations.push(line);
+    } else {
+      entry.definitions.push(line);
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Map a dictionary entry onto card content, or null when it has nothing to show
+ */
+export function entryToContent(entry: DictionaryEntry): GeneratedCardContent | null {
+  const back: CardBack = {};
+  if (entry.translations.length > 0) {
+    back.translation = entry.translations.join('; ');
+  }
+  if (entry.definitions.length > 0) {
+    back.explanation = entry.definitions.join('; ');
+  }
+  if (entry.forms.length > 0) {
+    back.notes = `Forms: ${entry.forms.join('; ')}`;
+  }
+  if (Object.keys(back).length === 0) {
+    return null;
+  }
+
+  const content: GeneratedCardContent = { back };
+  if (entry.phonetic) {
+    content.phonetic = entry.phonetic;
+  }
+  return content;
+}
+
+/**
+ * Wrap a pronunciation in slashes, dropping any brackets it came with
+ */
+export function formatPhonetic(phonetic: string): string | undefined {
+  const inner = phonetic
+    .trim()
+    .replace(/^[[/]+|[\]/]+$/g, '')
+    .trim();
+  return inner ? `/${inner}/` : undefined;
+}
+
+function splitEcdictField(value: string): string[] {
+  return value
+    .split('\\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+function* readStarDictFields(
+  data: Buffer,
+  sameTypeSequence?: string
+): Generator<{ type: string; text: string }> {
+  let pos = 0;
+
+  if (sameTypeSequence) {
+    for (let i = 0; i < sameTypeSequence.length && pos < data.length; i++) {
+      const type = sameTypeSequence[i];
+      const last = i === sameTypeSequence.length - 1;
+      const field = readStarDictField(data, pos, type, last);
+      yield { type, text: field.text };
+      pos = field.next;
+    }
+    return;
+  }
+
+  while (pos < data.length) {
+    const type = String.fromCharCode(data[pos]);
+    const field = readStarDictField(data, pos + 1, type, false);
+    yield { type, text: field.text };
+    pos = field.next;
+  }
+}
+
+// Lowercase types are NUL-terminated text, uppercase types are size-prefixed
+// binary; the last field of a sametypesequence runs to the end of the article
+function readStarDictField(
+  data: Buffer,
+  pos: number,
+  type: string,
+  last: boolean
+): { text: string; next: number } {
+  if (type === type.toLowerCase()) {
+    const nul = last ? -1 : data.indexOf(0, pos);
+    const end = nul === -1 ? data.length : nul;
+    return { text: data.toString('utf8', pos, end), next: end + 1 };
+  }
+  if (last) {
+    return { text: '', next: data.length };
+  }
+  const size = pos + 4 <= data.length ? data.readUInt32BE(pos) : 0;
+  return { text: '', next: pos + 4 + size };
+}
+
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
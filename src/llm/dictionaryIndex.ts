@@ -0,0 +1,336 @@
+// LLM module - On-disk lookup index for local dictionary files
+// PURE MODULE: No vscode imports allowed
+
+import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import {
+  getDictionaryFormat,
+  normalizeTerm,
+  parseCsvLine,
+  parseStarDictIdx,
+  parseStarDictIfo,
+  type DictionaryFormat,
+} from './dictionary';
+import { DICTIONARY_INDEX_BLOCK_SIZE, DICTIONARY_INDEX_VERSION } from '../common/constants';
+
+/**
+ * Raw dictionary data for one headword
+ */
+export interface DictionaryRecord {
+  word: string;
+  data: Buffer;
+}
+
+/**
+ * Stored next to the index file; the index is rebuilt when any of the
+ * source fields no longer match
+ */
+interface DictionaryIndexMeta {
+  version: number;
+  source: string;
+  sourceSize: number;
+  sourceMtimeMs: number;
+  format: DictionaryFormat;
+  /** File the index offsets point into */
+  dataPath: string;
+  sameTypeSequence?: string;
+  entryCount: number;
+  indexSize: number;
+  /** First key and byte offset of every block of index lines */
+  blocks: Array<{ key: string; offset: number }>;
+}
+
+interface IndexEntry {
+  key: string;
+  word: string;
+  start: number;
+  length: number;
+}
+
+// Open indexes by source file state, shared by all generators
+const openIndexes = new Map<string, Promise<DictionaryIndex>>();
+
+/**
+ * Sorted, tab-separated index lines (key, word, offset, length) on disk plus a
+ * small block table in memory, so a lookup reads one block of the index and
+ * one record of the dictionary
+ */
+export class DictionaryIndex {
+  constructor(
+    private readonly _meta: DictionaryIndexMeta,
+    private readonly _indexPath: string
+  ) {}
+
+  get format(): DictionaryFormat {
+    return this._meta.format;
+  }
+
+  get sameTypeSequence(): string | undefined {
+    return this._meta.sameTypeSequence;
+  }
+
+  get entryCount(): number {
+    return this._meta.entryCount;
+  }
+
+  /**
+   * All records whose headword matches the term, ignoring case
+   */
+  async lookup(term: string): Promise<DictionaryRecord[]> {
+    const key = normalizeTerm(term);
+    const { blocks, indexSize } = this._meta;
+    if (!key || blocks.length === 0) {
+      return [];
+    }
+
+    // Last block starting before the key, then on through blocks starting with it
+    let low = 0;
+    let high = blocks.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (blocks[mid].key < key) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    let last = low;
+    while (last + 1 < blocks.length && blocks[last + 1].key <= key) {
+      last++;
+    }
+
+    const start = blocks[low].offset;
+    const end = blocks[last + 1]?.offset ?? indexSize;
+    const lines = (await readRange(this._indexPath, start, end - start)).toString('utf8');
+
+    const records: DictionaryRecord[] = [];
+    for (const line of lines.split('\n')) {
+      const [lineKey, word, offset, length] = line.split('\t');
+      if (lineKey === key) {
+        const data = await readRange(this._meta.dataPath, Number(offset), Number(length));
+        records.push({ word, data });
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * Open the lookup index for a dictionary file, building it on first use and
+ * whenever the file has changed since
+ */
+export async function openDictionaryIndex(
+  sourcePath: string,
+  indexDir: string
+): Promise<DictionaryIndex> {
+  const source = path.resolve(sourcePath);
+  const stat = await fs.stat(source);
+  const cacheKey = [indexDir, source, stat.size, stat.mtimeMs].join('|');
+
+  let index = openIndexes.get(cacheKey);
+  if (!index) {
+    index = loadOrBuildIndex(source, stat, indexDir);
+    openIndexes.set(cacheKey, index);
+    // Let a failed build be retried
+    index.catch(() => openIndexes.delete(cacheKey));
+  }
+  return index;
+}
+
+async function loadOrBuildIndex(
+  source: string,
+  stat: { size: number; mtimeMs: number },
+  indexDir: string
+): Promise<DictionaryIndex> {
+  const format = getDictionaryFormat(source);
+  const baseName = createHash('sha1').update(source).digest('hex').slice(0, 16);
+  const indexPath = path.join(indexDir, `${baseName}.idx`);
+  const metaPath = path.join(indexDir, `${baseName}.json`);
+
+  const existing = await readMeta(metaPath);
+  if (
+    existing &&
+    existing.version === DICTIONARY_INDEX_VERSION &&
+    existing.source === source &&
+    existing.sourceSize === stat.size &&
+    existing.sourceMtimeMs === stat.mtimeMs
+  ) {
+    return new DictionaryIndex(existing, indexPath);
+  }
+
+  await fs.mkdir(indexDir, { recursive: true });
+  const collected =
+    format === 'ecdict'
+      ? { entries: await collectEcdictEntries(source), dataPath: source }
+      : await collectStarDictEntries(source, path.join(indexDir, `${baseName}.dict`));
+
+  const entries = collected.entries.sort((a, b) => compareKeys(a.key, b.key));
+  const { blocks, indexSize } = await writeIndexFile(indexPath, entries);
+
+  const meta: DictionaryIndexMeta = {
+    version: DICTIONARY_INDEX_VERSION,
+    source,
+    sourceSize: stat.size,
+    sourceMtimeMs: stat.mtimeMs,
+    format,
+    dataPath: collected.dataPath,
+    sameTypeSequence: 'sameTypeSequence' in collected ? collected.sameTypeSequence : undefined,
+    entryCount: entries.length,
+    indexSize,
+    blocks,
+  };
+  await writeFileAtomic(metaPath, JSON.stringify(meta));
+  return new DictionaryIndex(meta, indexPath);
+}
+
+/**
+ * Byte range of every ECDICT row, streamed so large files are never held in memory
+ */
+async function collectEcdictEntries(source: string): Promise<IndexEntry[]> {
+  const entries: IndexEntry[] = [];
+  let pending: Buffer = Buffer.alloc(0);
+  let pendingStart = 0;
+
+  const addLine = (line: Buffer, start: number) => {
+    const word = parseCsvLine(line.toString('utf8'))[0]?.trim() ?? '';
+    const key = normalizeTerm(word);
+    // The first row is the column header
+    if (key && !(start === 0 && key === 'word')) {
+      entries.push({ key, word: sanitizeWord(word), start, length: line.length });
+    }
+  };
+
+  for await (const chunk of createReadStream(source)) {
+    const buffer = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : chunk;
+    let lineStart = 0;
+    let newline = buffer.indexOf(0x0a, lineStart);
+    while (newline !== -1) {
+      addLine(buffer.subarray(lineStart, newline), pendingStart + lineStart);
+      lineStart = newline + 1;
+      newline = buffer.indexOf(0x0a, lineStart);
+    }
+    pending = buffer.subarray(lineStart);
+    pendingStart += lineStart;
+  }
+  if (pending.length > 0) {
+    addLine(pending, pendingStart);
+  }
+
+  return entries;
+}
+
+/**
+ * Entries from a StarDict .idx file. A compressed .dict.dz is unpacked next to
+ * the index once, since articles are read by offset.
+ */
+async function collectStarDictEntries(
+  ifoPath: string,
+  unpackedDictPath: string
+): Promise<{ entries: IndexEntry[]; dataPath: string; sameTypeSequence?: string }> {
+  const info = parseStarDictIfo(await fs.readFile(ifoPath, 'utf-8'));
+  const base = ifoPath.slice(0, -'.ifo'.length);
+
+  const idxEntries = parseStarDictIdx(await fs.readFile(`${base}.idx`), info.idxoffsetbits);
+  const entries = idxEntries
+    .map(({ word, offset, size }) => ({
+      key: normalizeTerm(word),
+      word: sanitizeWord(word),
+      start: offset,
+      length: size,
+    }))
+    .filter((entry) => entry.key.length > 0);
+
+  let dataPath = `${base}.dict`;
+  if (!(await fileExists(dataPath))) {
+    if (!(await fileExists(`${base}.dict.dz`))) {
+      throw new Error(`StarDict dictionary "${base}" has no .dict or .dict.dz file`);
+    }
+    await pipeline(
+      createReadStream(`${base}.dict.dz`),
+      createGunzip(),
+      createWriteStream(unpackedDictPath)
+    );
+    dataPath = unpackedDictPath;
+  }
+
+  return { entries, dataPath, sameTypeSequence: info.sametypesequence };
+}
+
+/**
+ * Write sorted index lines, recording where each block starts
+ */
+async function writeIndexFile(
+  indexPath: string,
+  entries: IndexEntry[]
+): Promise<{ blocks: DictionaryIndexMeta['blocks']; indexSize: number }> {
+  const tempPath = `${indexPath}.${Date.now()}.tmp`;
+  const handle = await fs.open(tempPath, 'w');
+  const blocks: DictionaryIndexMeta['blocks'] = [];
+  let offset = 0;
+
+  try {
+    for (let i = 0; i < entries.length; i += DICTIONARY_INDEX_BLOCK_SIZE) {
+      const block = entries.slice(i, i + DICTIONARY_INDEX_BLOCK_SIZE);
+      const text = block
+        .map((entry) => `${entry.key}\t${entry.word}\t${entry.start}\t${entry.length}\n`)
+        .join('');
+      const bytes = Buffer.from(text, 'utf8');
+      blocks.push({ key: block[0].key, offset });
+      await handle.write(bytes);
+      offset += bytes.length;
+    }
+  } finally {
+    await handle.close();
+  }
+
+  await fs.rename(tempPath, indexPath);
+  return { blocks, indexSize: offset };
+}
+
+async function readMeta(metaPath: string): Promise<DictionaryIndexMeta | null> {
+  try {
+    return JSON.parse(await fs.readFile(metaPath, 'utf-8')) as DictionaryIndexMeta;
+  } catch {
+    return null;
+  }
+}
+
+async function readRange(filePath: string, start: number, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, content, 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Keys are compared by UTF-16 code unit both when sorting and when searching
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Index lines are tab-separated, so headwords must not contain tabs or newlines
+function sanitizeWord(word: string): string {
+  return word.trim().replace(/\s+/g, ' ');
+}
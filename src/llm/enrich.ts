@@ -0,0 +1,262 @@
+// LLM module - Batch enrichment of incomplete cards
+// PURE MODULE: No vscode imports allowed
+
+import type { Card, CardBack, CardFront, CardIndex } from '../storage/schema';
+import { updateCard } from '../storage/schema';
+import type { BackContentGenerator, GeneratedCardContent } from './generator';
+import {
+  DEFAULT_ENRICH_CONCURRENCY,
+  DEFAULT_ENRICH_RETRIES,
+  DEFAULT_ENRICH_RETRY_DELAY_MS,
+} from '../common/constants';
+
+/**
+ * Fields whose absence makes a card incomplete
+ */
+export type EnrichField = 'translation' | 'explanation' | 'phonetic';
+
+const FILLABLE_BACK_FIELDS = [
+  'translation',
+  'explanation',
+  'explanationCn',
+  'synonyms',
+  'antonyms',
+  'notes',
+] as const;
+const FILLABLE_FRONT_FIELDS = ['phonetic', 'morphemes', 'example', 'exampleCn'] as const;
+
+type FillableField = (typeof FILLABLE_BACK_FIELDS)[number] | (typeof FILLABLE_FRONT_FIELDS)[number];
+
+export interface EnrichOptions {
+  /** Maximum number of generator calls in flight */
+  concurrency?: number;
+  /** Extra attempts per card after a failed call */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further retry */
+  retryDelayMs?: number;
+  /** Called after each card is done, successful or not */
+  onProgress?: (done: number, total: number) => void;
+  /** Checked before each generator call; pending cards are skipped once true */
+  isCancelled?: () => boolean;
+}
+
+export interface EnrichFailure {
+  cardId: string;
+  term: string;
+  error: string;
+}
+
+export interface EnrichResult {
+  /** New card versions to append */
+  updated: Card[];
+  /** Number of cards each field was filled in on */
+  filled: Partial<Record<FillableField, number>>;
+  failed: EnrichFailure[];
+  /** Cards left unprocessed because of cancellation */
+  skipped: number;
+  cancelled: boolean;
+}
+
+/**
+ * Which of translation, explanation and phonetic a card is missing
+ */
+export function getMissingFields(card: Card): EnrichField[] {
+  const missing: EnrichField[] = [];
+  if (!card.back?.translation) {
+    missing.push('translation');
+  }
+  if (!card.back?.explanation) {
+    missing.push('explanation');
+  }
+  if (!card.front.phonetic) {
+    missing.push('phonetic');
+  }
+  return missing;
+}
+
+/**
+ * Cards in the index that are missing a translation, explanation or phonetic,
+ * oldest first. Cloze cards are left out: their back is shared by every
+ * sibling of the sentence, not generated for one answer.
+ */
+export function findIncompleteCards(index: CardIndex): Card[] {
+  return [...index.cards.values()]
+    .filter((card) => card.type !== 'cloze' && getMissingFields(card).length > 0)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Fill the blank fields of a card with generated content, keeping everything
+ * the learner already wrote. Returns null when nothing was blank.
+ */
+export function fillGeneratedContent(
+  card: Card,
+  content: GeneratedCardContent
+): { card: Card; filled: FillableField[] } | null {
+  const filled: FillableField[] = [];
+
+  const back: Partial<CardBack> = {};
+  for (const field of FILLABLE_BACK_FIELDS) {
+    const value = content.back[field];
+    if (isBlank(card.back?.[field]) && !isBlank(value)) {
+      Object.assign(back, { [field]: value });
+      filled.push(field);
+    }
+  }
+
+  const front: Partial<CardFront> = {};
+  for (const field of FILLABLE_FRONT_FIELDS) {
+    const value = content[field];
+    if (isBlank(card.front[field]) && !isBlank(value)) {
+      Object.assign(front, { [field]: value });
+      filled.push(field);
+    }
+  }
+
+  if (filled.length === 0) {
+    return null;
+  }
+  return { card: updateCard(card, { front, back }), filled };
+}
+
+/**
+ * Re-apply enriched versions on top of the latest version of each card, so
+ * edits, suspends, deck moves and deletes made while the generator ran are
+ * kept. Only the fields the run filled in are applied, and only where they are
+ * still blank; deleted cards are dropped. Returns the new versions with the
+ * fields filled in on them.
+ */
+export function rebaseEnrichedCards(
+  enriched: Card[],
+  cards: Card[]
+): Pick<EnrichResult, 'updated' | 'filled'> {
+  const versions = new Map<string, Card[]>();
+  for (const card of cards) {
+    versions.set(card.id, [...(versions.get(card.id) ?? []), card]);
+  }
+
+  const rebased: Pick<EnrichResult, 'updated' | 'filled'> = { updated: [], filled: {} };
+  for (const card of enriched) {
+    const history = versions.get(card.id) ?? [];
+    const base = history.find((c) => c.version === card.version - 1);
+    const latest = history.reduce<Card | undefined>(
+      (a, b) => (a && a.version > b.version ? a : b),
+      undefined
+    );
+    if (!base || !latest || latest.deleted) {
+      continue;
+    }
+
+    const content: GeneratedCardContent = { back: {} };
+    for (const field of FILLABLE_BACK_FIELDS) {
+      if (isBlank(base.back?.[field])) {
+        Object.assign(content.back, { [field]: card.back?.[field] });
+      }
+    }
+    for (const field of FILLABLE_FRONT_FIELDS) {
+      if (isBlank(base.front[field])) {
+        Object.assign(content, { [field]: card.front[field] });
+      }
+    }
+
+    const filled = fillGeneratedContent(latest, content);
+    if (filled) {
+      rebased.updated.push(filled.card);
+      countFilled(rebased.filled, filled.filled);
+    }
+  }
+  return rebased;
+}
+
+/**
+ * Run cards through a generator with bounded concurrency and retries
+ */
+export async function enrichCards(
+  cards: Card[],
+  generator: BackContentGenerator,
+  options: EnrichOptions = {}
+): Promise<EnrichResult> {
+  const {
+    concurrency = DEFAULT_ENRICH_CONCURRENCY,
+    retries = DEFAULT_ENRICH_RETRIES,
+    retryDelayMs = DEFAULT_ENRICH_RETRY_DELAY_MS,
+    onProgress,
+    isCancelled = () => false,
+  } = options;
+
+  const result: EnrichResult = {
+    updated: [],
+    filled: {},
+    failed: [],
+    skipped: 0,
+    cancelled: false,
+  };
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < cards.length) {
+      if (isCancelled()) {
+        result.cancelled = true;
+        return;
+      }
+
+      const card = cards[next++];
+      try {
+        const content = await generateWithRetry(
+          generator,
+          card,
+          retries,
+          retryDelayMs,
+          isCancelled
+        );
+        const filled = content ? fillGeneratedContent(card, content) : null;
+        if (filled) {
+          result.updated.push(filled.card);
+          countFilled(result.filled, filled.filled);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.failed.push({ cardId: card.id, term: card.front.term, error: message });
+      }
+
+      done++;
+      onProgress?.(done, cards.length);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, cards.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  result.skipped = cards.length - done;
+  return result;
+}
+
+async function generateWithRetry(
+  generator: BackContentGenerator,
+  card: Card,
+  retries: number,
+  retryDelayMs: number,
+  isCancelled: () => boolean
+): Promise<GeneratedCardContent | null> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await generator.generate(card);
+    } catch (error) {
+      if (attempt >= retries || isCancelled()) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+function countFilled(counts: EnrichResult['filled'], fields: FillableField[]): void {
+  for (const field of fields) {
+    counts[field] = (counts[field] ?? 0) + 1;
+  }
+}
+
+function isBlank(value: string | string[] | undefined): boolean {
+  return value === undefined || value.length === 0;
+}
@@ -1,21 +1,146 @@
-// LLM module - Generator interface (stub only in v1)
+// LLM module - Generator interface and generated content handling
 // PURE MODULE: No vscode imports allowed
 
-import type { Card } from '../storage/schema';
+import type { Card, CardBack, CardFront } from '../storage/schema';
+import { updateCard } from '../storage/schema';
+
+/**
+ * Card content produced by a generator: the full back plus the front fields
+ * a learner would otherwise have to look up
+ */
+export interface GeneratedCardContent {
+  back: CardBack;
+  phonetic?: string;
+  morphemes?: string[];
+  example?: string;
+  exampleCn?: string;
+}
 
 /**
  * Interface for generating card back content
- * v1: Stub implementation only, returns null
  */
 export interface BackContentGenerator {
-  generate(card: Card): Promise<Partial<Card['back']> | null>;
+  generate(card: Card): Promise<GeneratedCardContent | null>;
 }
 
 /**
- * Stub generator - returns null, no real LLM calls in v1
+ * Stub generator - returns null, used when no LLM provider is configured
  */
 export class StubGenerator implements BackContentGenerator {
   async generate(_card: Card): Promise<null> {
     return null;
   }
 }
+
+/**
+ * Tries each generator in turn and returns the first content found.
+ * An error is only reported when no later generator produced content.
+ */
+export class FallbackGenerator implements BackContentGenerator {
+  constructor(private readonly _generators: BackContentGenerator[]) {}
+
+  async generate(card: Card): Promise<GeneratedCardContent | null> {
+    let failure: { error: unknown } | undefined;
+    for (const generator of this._generators) {
+      try {
+        const content = await generator.generate(card);
+        if (content) {
+          return content;
+        }
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+    if (failure) {
+      throw failure.error;
+    }
+    return null;
+  }
+}
+
+const STRING_BACK_FIELDS = ['translation', 'explanation', 'explanationCn', 'notes'] as const;
+const LIST_BACK_FIELDS = ['synonyms', 'antonyms'] as const;
+const STRING_FRONT_FIELDS = ['phonetic', 'example', 'exampleCn'] as const;
+
+/**
+ * Validate a parsed generator response and normalize it into GeneratedCardContent.
+ * Unknown keys are ignored, empty values dropped and wrong types rejected.
+ */
+export function parseGeneratedContent(value: unknown): GeneratedCardContent {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Generated content must be a JSON object');
+  }
+
+  const raw = value as Record<string, unknown>;
+  const back: CardBack = {};
+  for (const field of STRING_BACK_FIELDS) {
+    back[field] = readString(raw, field);
+  }
+  for (const field of LIST_BACK_FIELDS) {
+    back[field] = readList(raw, field);
+  }
+
+  const content: GeneratedCardContent = { back: dropEmpty(back) };
+  for (const field of STRING_FRONT_FIELDS) {
+    content[field] = readString(raw, field);
+  }
+  content.morphemes = readList(raw, 'morphemes');
+
+  if (Object.keys(content.back).length === 0) {
+    throw new Error('Generated content has no back fields');
+  }
+
+  return dropEmpty(content);
+}
+
+/**
+ * Whether a card has no back content yet
+ */
+export function hasEmptyBack(card: Card): boolean {
+  return !card.back || Object.values(card.back).every((v) => v === undefined || v === '');
+}
+
+/**
+ * Apply generated content as a new card version.
+ * Back fields replace the existing ones; front fields only fill in blanks.
+ */
+export function applyGeneratedContent(card: Card, content: GeneratedCardContent): Card {
+  const front: Partial<CardFront> = {};
+  for (const field of STRING_FRONT_FIELDS) {
+    if (!card.front[field] && content[field]) {
+      front[field] = content[field];
+    }
+  }
+  if (!card.front.morphemes?.length && content.morphemes) {
+    front.morphemes = content.morphemes;
+  }
+
+  return updateCard(card, { front, back: content.back });
+}
+
+function readString(raw: Record<string, unknown>, field: string): string | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Generated field "${field}" must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+function readList(raw: Record<string, unknown>, field: string): string[] | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw new Error(`Generated field "${field}" must be an array of strings`);
+  }
+  const items = value.map((item: string) => item.trim()).filter((item) => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+function dropEmpty<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
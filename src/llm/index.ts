@@ -1 +1,6 @@
 export * from './generator';
+export * from './openai';
+export * from './enrich';
+export * from './dictionary';
+export * from './dictionaryIndex';
+export * from './localDictionary';
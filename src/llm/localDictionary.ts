@@ -0,0 +1,41 @@
+// LLM module - Card content generator backed by a local dictionary file
+// PURE MODULE: No vscode imports allowed
+
+import type { Card } from '../storage/schema';
+import type { BackContentGenerator, GeneratedCardContent } from './generator';
+import { entryToContent, parseEcdictLine, parseStarDictEntry } from './dictionary';
+import { openDictionaryIndex, type DictionaryRecord } from './dictionaryIndex';
+
+export interface LocalDictionaryOptions {
+  /** ECDICT .csv file or StarDict .ifo file */
+  path: string;
+  /** Directory the lookup index is written to */
+  indexDir: string;
+}
+
+/**
+ * Looks terms up in an ECDICT or StarDict file without any network access.
+ * The lookup index is built on first use and rebuilt when the file changes.
+ */
+export class LocalDictionaryGenerator implements BackContentGenerator {
+  constructor(private readonly _options: LocalDictionaryOptions) {}
+
+  async generate(card: Card): Promise<GeneratedCardContent | null> {
+    const index = await openDictionaryIndex(this._options.path, this._options.indexDir);
+    const record = pickRecord(await index.lookup(card.front.term), card.front.term);
+    if (!record) {
+      return null;
+    }
+
+    const entry =
+      index.format === 'ecdict'
+        ? parseEcdictLine(record.data.toString('utf8'))
+        : parseStarDictEntry(record.word, record.data, index.sameTypeSequence);
+    return entryToContent(entry);
+  }
+}
+
+// Prefer the headword with the same casing, e.g. "Polish" over "polish"
+function pickRecord(records: DictionaryRecord[], term: string): DictionaryRecord | undefined {
+  return records.find((record) => record.word === term.trim()) ?? records[0];
+}
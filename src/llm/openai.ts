@@ -0,0 +1,119 @@
+// LLM module - Generator backed by an OpenAI-compatible chat completion endpoint
+// PURE MODULE: No vscode imports allowed
+// Works with OpenAI and local servers that speak the same API (llama.cpp, Ollama, ...)
+
+import type { Card } from '../storage/schema';
+import {
+  parseGeneratedContent,
+  type BackContentGenerator,
+  type GeneratedCardContent,
+} from './generator';
+import { DEFAULT_LLM_TIMEOUT_MS } from '../common/constants';
+
+/**
+ * Options for the OpenAI-compatible generator
+ */
+export interface OpenAiGeneratorOptions {
+  /** API base URL, e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token when set; local servers usually need none */
+  apiKey?: string;
+  timeoutMs?: number;
+  /** Fetch implementation (injectable for tests) */
+  fetch?: typeof fetch;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+const SYSTEM_PROMPT = `You write vocabulary flashcards for Chinese-speaking learners of English.
+Reply with a single JSON object and nothing else, using these keys:
+- "phonetic": IPA transcription, e.g. "/ɪˈfem(ə)rəl/"
+- "morphemes": array of morpheme segments, e.g. ["ephe", "meral"]
+- "example": a natural English example sentence using the term
+- "exampleCn": Chinese translation of the example
+- "translation": concise Chinese translation
+- "explanation": short English definition
+- "explanationCn": Chinese explanation
+- "synonyms": array of English synonyms
+- "antonyms": array of English antonyms
+Omit any key that does not apply.`;
+
+/**
+ * Build the chat messages asking for the content of a card
+ */
+export function buildGeneratorMessages(card: Card): ChatMessage[] {
+  const lines = [`Term: ${card.front.term}`, `Type: ${card.type}`];
+  const context = card.front.example ?? card.front.context?.lineText;
+  if (context) {
+    lines.push(`Seen in: ${context}`);
+  }
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: lines.join('\n') },
+  ];
+}
+
+/**
+ * Parse the JSON object in a completion, tolerating Markdown code fences
+ * that some local models wrap around it
+ */
+export function parseCompletionJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const json = (fenced ? fenced[1] : content).trim();
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('LLM response is not valid JSON');
+  }
+}
+
+/**
+ * Generator calling `<baseUrl>/chat/completions`
+ */
+export class OpenAiCompatibleGenerator implements BackContentGenerator {
+  private readonly _options: OpenAiGeneratorOptions;
+
+  constructor(options: OpenAiGeneratorOptions) {
+    this._options = options;
+  }
+
+  async generate(card: Card): Promise<GeneratedCardContent> {
+    const { baseUrl, model, apiKey, timeoutMs = DEFAULT_LLM_TIMEOUT_MS } = this._options;
+    const fetchImpl = this._options.fetch ?? fetch;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: buildGeneratorMessages(card),
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: unknown } }[];
+    };
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('LLM response has no message content');
+    }
+
+    return parseGeneratedContent(parseCompletionJson(content));
+  }
+}
@@ -0,0 +1,80 @@
+// SRS module - Pluggable scheduling algorithm interface
+// PURE MODULE: No vscode imports allowed
+
+import type { ReviewRating, SrsState } from '../storage/schema';
+import { DEFAULT_SRS_ALGORITHM } from '../common/constants';
+import { sm2Algorithm } from './sm2';
+import { createFsrsAlgorithm, type FsrsOptions } from './fsrs';
+import { withLearningSteps, type LearningStepsOptions } from './steps';
+import { withLoadBalancing, type DueLoad } from './loadBalance';
+
+/**
+ * Identifiers of the available scheduling algorithms
+ */
+export type SrsAlgorithmId = 'sm2' | 'fsrs';
+
+export const SRS_ALGORITHM_IDS: readonly SrsAlgorithmId[] = ['sm2', 'fsrs'];
+
+/**
+ * A scheduling algorithm that the indexer replays review events through.
+ * Implementations must be pure and deterministic: the same event history
+ * always yields the same SrsState, so switching algorithms only requires
+ * rebuilding the index.
+ */
+export interface SchedulingAlgorithm {
+  readonly id: SrsAlgorithmId;
+  /** State for a card that has never been reviewed */
+  createInitialState(cardId: string): SrsState;
+  /** State after applying a single review at reviewTime */
+  calculateNextState(current: SrsState, rating: ReviewRating, reviewTime: number): SrsState;
+  /**
+   * Move the due date of a state calculateNextState just returned onto a
+   * nearby day, given the forecast load of every other review. When present,
+   * the indexer replays the reviews of all cards in time order so the load is
+   * the one at the time of each review. `seed` identifies the review direction.
+   */
+  spreadDueAt?(next: SrsState, reviewTime: number, load: DueLoad, seed: string): SrsState;
+  /** Hour the study days of the load start at, set along with spreadDueAt */
+  dayRolloverHour?: number;
+}
+
+/**
+ * Options for building a scheduling algorithm
+ */
+export interface SchedulingAlgorithmOptions {
+  fsrs?: FsrsOptions;
+  /** Learning/relearning steps applied before handing cards to the algorithm */
+  steps?: LearningStepsOptions;
+  /** Fuzz due dates and balance them across days with lighter load */
+  loadBalance?: boolean;
+  /** Hour a study day starts at when balancing the load across days */
+  dayRolloverHour?: number;
+}
+
+/**
+ * Check if a value is a known algorithm identifier
+ */
+export function isSrsAlgorithmId(value: unknown): value is SrsAlgorithmId {
+  return typeof value === 'string' && (SRS_ALGORITHM_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Create a scheduling algorithm by id, falling back to the default for unknown ids
+ */
+export function createSchedulingAlgorithm(
+  id: string = DEFAULT_SRS_ALGORITHM,
+  options: SchedulingAlgorithmOptions = {}
+): SchedulingAlgorithm {
+  const algorithm = withLearningSteps(createBaseAlgorithm(id, options), options.steps);
+  return options.loadBalance ? withLoadBalancing(algorithm, options.dayRolloverHour) : algorithm;
+}
+
+function createBaseAlgorithm(id: string, options: SchedulingAlgorithmOptions): SchedulingAlgorithm {
+  switch (id) {
+    case 'fsrs':
+      return createFsrsAlgorithm(options.fsrs);
+    case 'sm2':
+    default:
+      return sm2Algorithm;
+  }
+}
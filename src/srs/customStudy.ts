@@ -0,0 +1,90 @@
+// SRS module - Custom study sessions over a filtered part of the deck
+// PURE MODULE: No vscode imports allowed
+
+import type { CardIndex, CardType } from '../storage/schema';
+import { DAY_MS } from '../common/constants';
+import { isCardAvailable } from '../storage/indexer';
+import type { ReviewFilter } from './scheduler';
+
+/**
+ * Which cards a custom study session draws from. Every given criterion must
+ * match; a card matches the tag criterion with any of the tags.
+ */
+export interface CustomStudyFilter {
+  tags?: string[];
+  types?: CardType[];
+  /** Cards with at least this many lapses */
+  minLapses?: number;
+  /** Cards created within this many days */
+  addedWithinDays?: number;
+  /** Reviewed cards due within this many days, overdue ones included */
+  dueWithinDays?: number;
+  /** Reviews after which the session ends */
+  limit: number;
+}
+
+/**
+ * Scheduler filter accepting the reviews a custom study session may show
+ */
+export function createCustomStudyPredicate(filter: CustomStudyFilter, now: number): ReviewFilter {
+  return (card, srs) => {
+    if (filter.tags?.length && !card.tags?.some((tag) => filter.tags?.includes(tag))) {
+      return false;
+    }
+    if (filter.types?.length && !filter.types.includes(card.type)) {
+      return false;
+    }
+    if (filter.minLapses !== undefined && srs.lapses < filter.minLapses) {
+      return false;
+    }
+    if (
+      filter.addedWithinDays !== undefined &&
+      card.createdAt < now - filter.addedWithinDays * DAY_MS
+    ) {
+      return false;
+    }
+    if (
+      filter.dueWithinDays !== undefined &&
+      (srs.phase === 'new' || srs.dueAt > now + filter.dueWithinDays * DAY_MS)
+    ) {
+      return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Number of reviews in the index a custom study session could show now
+ */
+export function countCustomStudyReviews(
+  index: CardIndex,
+  filter: CustomStudyFilter,
+  now: number
+): number {
+  const matches = createCustomStudyPredicate(filter, now);
+  let count = 0;
+  for (const srs of index.srsStates.values()) {
+    const card = index.cards.get(srs.cardId);
+    if (card && isCardAvailable(card, now) && matches(card, srs)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Short label of a filter, e.g. "#ielts · phrase · lapses ≥ 2"
+ */
+export function describeCustomStudy(filter: CustomStudyFilter): string {
+  const parts = [...(filter.tags ?? []).map((tag) => `#${tag}`), ...(filter.types ?? [])];
+  if (filter.minLapses !== undefined) {
+    parts.push(`lapses ≥ ${filter.minLapses}`);
+  }
+  if (filter.addedWithinDays !== undefined) {
+    parts.push(`added in ${filter.addedWithinDays}d`);
+  }
+  if (filter.dueWithinDays !== undefined) {
+    parts.push(`due in ${filter.dueWithinDays}d`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'all cards';
+}
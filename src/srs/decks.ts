@@ -0,0 +1,45 @@
+// SRS module - Deck scope and per-deck new card limits
+// PURE MODULE: No vscode imports allowed
+
+import type { Deck } from '../storage/schema';
+import { getCardDeckId } from '../storage/decks';
+import type { ReviewFilter } from './scheduler';
+
+/**
+ * What a deck filter needs to know about the collection
+ */
+export interface DeckFilterOptions {
+  decks: Map<string, Deck>;
+  /** Only draw from this deck (every deck when omitted) */
+  deckId?: string;
+  /** New reviews already learned today per deck (see countNewCardsToday) */
+  newCardsToday: Map<string, number>;
+  /** New card limit of decks without their own (`wordslash.newCardsPerDay`) */
+  defaultNewCardsPerDay: number;
+}
+
+/**
+ * New cards a deck may introduce per day
+ */
+export function getDeckNewCardLimit(deck: Deck | undefined, defaultNewCardsPerDay: number): number {
+  return deck?.newCardsPerDay ?? defaultNewCardsPerDay;
+}
+
+/**
+ * Scheduler filter keeping reviews inside the chosen deck and holding back
+ * new cards of decks that reached their daily new card limit
+ */
+export function createDeckFilter(options: DeckFilterOptions): ReviewFilter {
+  const { decks, deckId, newCardsToday, defaultNewCardsPerDay } = options;
+  return (card, srs) => {
+    const cardDeckId = getCardDeckId(card, decks);
+    if (deckId !== undefined && cardDeckId !== deckId) {
+      return false;
+    }
+    if (srs.phase !== 'new') {
+      return true;
+    }
+    const limit = getDeckNewCardLimit(decks.get(cardDeckId), defaultNewCardsPerDay);
+    return (newCardsToday.get(cardDeckId) ?? 0) < limit;
+  };
+}
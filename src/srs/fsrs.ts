@@ -0,0 +1,214 @@
+// SRS module - FSRS (Free Spaced Repetition Scheduler) implementation
+// PURE MODULE: No vscode imports allowed
+//
+// Models memory with three variables (FSRS-4.5):
+// - Stability (S): days until recall probability drops to 90%
+// - Difficulty (D): how hard the card is to remember, in [1, 10]
+// - Retrievability (R): probability of recall after t days, R = (1 + F * t / S)^DECAY
+
+import type { ReviewRating, SrsState } from '../storage/schema';
+import type { SchedulingAlgorithm } from './algorithm';
+import { createInitialSrsState } from './sm2';
+import {
+  DAY_MS,
+  DEFAULT_DESIRED_RETENTION,
+  MAX_EASE_FACTOR,
+  MAX_INTERVAL_DAYS,
+  MIN_EASE_FACTOR,
+} from '../common/constants';
+
+/**
+ * Default FSRS-4.5 weights, trained on a large public review dataset
+ */
+export const FSRS_DEFAULT_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export const FSRS_WEIGHT_COUNT = FSRS_DEFAULT_WEIGHTS.length;
+
+const DECAY = -0.5;
+// Chosen so that forgettingCurve(S, S) = 0.9
+const FACTOR = 19 / 81;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.01;
+
+/**
+ * Options for the FSRS algorithm
+ */
+export interface FsrsOptions {
+  /** Model weights (defaults to FSRS_DEFAULT_WEIGHTS) */
+  weights?: readonly number[];
+  /** Target recall probability when scheduling the next review (0-1) */
+  desiredRetention?: number;
+}
+
+/**
+ * FSRS rating to grade mapping: again=1, hard=2, good=3, easy=4
+ */
+export function ratingToGrade(rating: ReviewRating): 1 | 2 | 3 | 4 {
+  switch (rating) {
+    case 'again':
+      return 1;
+    case 'hard':
+      return 2;
+    case 'good':
+      return 3;
+    case 'easy':
+      return 4;
+  }
+}
+
+/**
+ * Probability of recall after elapsedDays for a memory of the given stability
+ */
+export function forgettingCurve(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+/**
+ * Interval in whole days at which recall probability falls to desiredRetention
+ */
+export function nextIntervalDays(stability: number, desiredRetention: number): number {
+  const interval = (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(interval)));
+}
+
+/**
+ * Stability after the first review of a card
+ */
+export function initialStability(w: readonly number[], grade: number): number {
+  return Math.max(MIN_STABILITY, w[grade - 1]);
+}
+
+/**
+ * Difficulty after the first review of a card
+ */
+export function initialDifficulty(w: readonly number[], grade: number): number {
+  return clampDifficulty(w[4] - (grade - 3) * w[5]);
+}
+
+/**
+ * Difficulty after a subsequent review, with mean reversion towards D0(good)
+ */
+export function nextDifficulty(w: readonly number[], difficulty: number, grade: number): number {
+  const next = difficulty - w[6] * (grade - 3);
+  return clampDifficulty(w[7] * initialDifficulty(w, 3) + (1 - w[7]) * next);
+}
+
+/**
+ * Stability after a successful recall (grade >= 2)
+ */
+export function nextRecallStability(
+  w: readonly number[],
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: number
+): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -w[9]) *
+        (Math.exp(w[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+/**
+ * Stability after a lapse (grade = 1); never exceeds the previous stability
+ */
+export function nextForgetStability(
+  w: readonly number[],
+  difficulty: number,
+  stability: number,
+  retrievability: number
+): number {
+  const next =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+  return Math.max(MIN_STABILITY, Math.min(next, stability));
+}
+
+/**
+ * Map FSRS difficulty onto the SM-2 ease factor range so that
+ * ease-based statistics and visualizations stay meaningful
+ */
+export function difficultyToEaseFactor(difficulty: number): number {
+  const ratio = (difficulty - MIN_DIFFICULTY) / (MAX_DIFFICULTY - MIN_DIFFICULTY);
+  return MAX_EASE_FACTOR - ratio * (MAX_EASE_FACTOR - MIN_EASE_FACTOR);
+}
+
+/**
+ * Calculate the next SRS state after a review using FSRS.
+ * Cards without a stability value are treated as first reviews.
+ */
+export function calculateFsrsNextState(
+  current: SrsState,
+  rating: ReviewRating,
+  reviewTime: number,
+  options: FsrsOptions = {}
+): SrsState {
+  const w = options.weights ?? FSRS_DEFAULT_WEIGHTS;
+  const desiredRetention = options.desiredRetention ?? DEFAULT_DESIRED_RETENTION;
+  const grade = ratingToGrade(rating);
+
+  let stability: number;
+  let difficulty: number;
+
+  if (current.stability === undefined || current.difficulty === undefined) {
+    stability = initialStability(w, grade);
+    difficulty = initialDifficulty(w, grade);
+  } else {
+    const elapsedDays =
+      current.lastReviewAt !== undefined ? (reviewTime - current.lastReviewAt) / DAY_MS : 0;
+    const retrievability = forgettingCurve(elapsedDays, current.stability);
+
+    stability =
+      grade === 1
+        ? nextForgetStability(w, current.difficulty, current.stability, retrievability)
+        : nextRecallStability(w, current.difficulty, current.stability, retrievability, grade);
+    difficulty = nextDifficulty(w, current.difficulty, grade);
+  }
+
+  const intervalDays = nextIntervalDays(stability, desiredRetention);
+
+  return {
+    cardId: current.cardId,
+    dueAt: reviewTime + intervalDays * DAY_MS,
+    intervalDays,
+    easeFactor: difficultyToEaseFactor(difficulty),
+    reps: grade === 1 ? 0 : current.reps + 1,
+    lapses: grade === 1 ? current.lapses + 1 : current.lapses,
+    lastReviewAt: reviewTime,
+    phase: 'review',
+    stepIndex: 0,
+    stability,
+    difficulty,
+  };
+}
+
+/**
+ * Create an FSRS scheduling algorithm with the given weights and retention target
+ */
+export function createFsrsAlgorithm(options: FsrsOptions = {}): SchedulingAlgorithm {
+  return {
+    id: 'fsrs',
+    createInitialState: createInitialSrsState,
+    calculateNextState(current: SrsState, rating: ReviewRating, reviewTime: number): SrsState {
+      return calculateFsrsNextState(current, rating, reviewTime, options);
+    },
+  };
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
@@ -0,0 +1,215 @@
+// SRS module - Typed answer grading
+// PURE MODULE: No vscode imports allowed
+
+import type { Card, ReviewRating } from '../storage/schema';
+import {
+  TYPED_ANSWER_CLOSE_ACCURACY,
+  TYPED_ANSWER_EASY_MS,
+  TYPED_ANSWER_HARD_MS,
+  TYPED_ANSWER_MS_PER_CHAR,
+} from '../common/constants';
+
+/**
+ * Card field the learner types before revealing the back
+ */
+export type AnswerField = 'term' | 'translation';
+
+/**
+ * One run of a character-level diff between the expected and the typed answer:
+ * - equal: typed correctly
+ * - missing: in the expected answer but not typed
+ * - extra: typed but not in the expected answer
+ */
+export interface AnswerDiffSegment {
+  kind: 'equal' | 'missing' | 'extra';
+  text: string;
+}
+
+/**
+ * Result of comparing a typed answer with a card
+ */
+export interface TypedAnswerGrade {
+  /** The accepted answer closest to what was typed (normalized) */
+  expected: string;
+  /** The typed answer (normalized) */
+  typed: string;
+  /** Levenshtein distance between expected and typed */
+  distance: number;
+  /** 1 for an exact match, down to 0 when nothing matches */
+  accuracy: number;
+  diff: AnswerDiffSegment[];
+  suggestedRating: ReviewRating;
+}
+
+// Separators between alternative translations, e.g. "短暂的，转瞬即逝的" or "v. 跑; n. 奔跑"
+const ALTERNATIVE_SEPARATOR = /[;；,，、/]/;
+// Leading part-of-speech labels such as "v." or "adj."
+const PART_OF_SPEECH_PREFIX = /^(?:[a-z]{1,5}\.\s*)+/;
+
+/**
+ * Lowercase, trim and collapse whitespace so only real differences count
+ */
+export function normalizeAnswer(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Which field to type for a card: the term when the front hides it (reverse
+ * and cloze cards), otherwise the translation. Null when that field is empty.
+ */
+export function getAnswerField(card: Card, reverse: boolean): AnswerField | null {
+  if (reverse || card.type === 'cloze') {
+    return 'term';
+  }
+  return card.back?.translation?.trim() ? 'translation' : null;
+}
+
+/**
+ * Every answer accepted for a field: the whole value, and for translations
+ * each alternative with its part-of-speech label removed
+ */
+export function getAcceptedAnswers(card: Card, field: AnswerField): string[] {
+  const value = field === 'term' ? card.front.term : (card.back?.translation ?? '');
+  const answers = [normalizeAnswer(value)];
+
+  if (field === 'translation') {
+    for (const part of value.split(ALTERNATIVE_SEPARATOR)) {
+      answers.push(normalizeAnswer(part).replace(PART_OF_SPEECH_PREFIX, ''));
+    }
+  }
+
+  return [...new Set(answers.filter((answer) => answer.length > 0))];
+}
+
+/**
+ * Character-level diff of two strings from a Levenshtein alignment.
+ * Substitutions appear as an extra run followed by a missing run.
+ */
+export function diffAnswer(expected: string, typed: string): AnswerDiffSegment[] {
+  const a = [...expected];
+  const b = [...typed];
+  const distances = levenshteinMatrix(a, b);
+
+  // Walk back from the end, preferring matches, then substitutions
+  const reversed: AnswerDiffSegment[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    const current = distances[i][j];
+    if (i > 0 && j > 0 && a[i - 1] === b[j - 1] && current === distances[i - 1][j - 1]) {
+      reversed.push({ kind: 'equal', text: a[--i] });
+      j--;
+    } else if (i > 0 && j > 0 && current === distances[i - 1][j - 1] + 1) {
+      reversed.push({ kind: 'missing', text: a[--i] }, { kind: 'extra', text: b[--j] });
+    } else if (i > 0 && current === distances[i - 1][j] + 1) {
+      reversed.push({ kind: 'missing', text: a[--i] });
+    } else {
+      reversed.push({ kind: 'extra', text: b[--j] });
+    }
+  }
+
+  // Merge runs of the same kind
+  const diff: AnswerDiffSegment[] = [];
+  for (const segment of reversed.reverse()) {
+    const last = diff[diff.length - 1];
+    if (last && last.kind === segment.kind) {
+      last.text += segment.text;
+    } else {
+      diff.push({ ...segment });
+    }
+  }
+  return diff;
+}
+
+/**
+ * Levenshtein distance between two strings (by code point)
+ */
+export function editDistance(expected: string, typed: string): number {
+  const a = [...expected];
+  const b = [...typed];
+  return levenshteinMatrix(a, b)[a.length][b.length];
+}
+
+/**
+ * Suggest a rating from how accurate and how fast a typed answer was.
+ * Exact answers are Easy when fast, Good normally and Hard when slow;
+ * near misses are Hard and anything else is Again. Both time limits grow
+ * with the answer length to allow for typing.
+ */
+export function suggestRating(
+  accuracy: number,
+  durationMs: number | undefined,
+  answerLength: number
+): ReviewRating {
+  if (accuracy < 1) {
+    return accuracy >= TYPED_ANSWER_CLOSE_ACCURACY ? 'hard' : 'again';
+  }
+  if (durationMs === undefined) {
+    return 'good';
+  }
+
+  const typingMs = answerLength * TYPED_ANSWER_MS_PER_CHAR;
+  if (durationMs <= TYPED_ANSWER_EASY_MS + typingMs) {
+    return 'easy';
+  }
+  return durationMs <= TYPED_ANSWER_HARD_MS + typingMs ? 'good' : 'hard';
+}
+
+/**
+ * Grade a typed answer against the closest accepted answer of a card field
+ */
+export function gradeTypedAnswer(
+  card: Card,
+  field: AnswerField,
+  answer: string,
+  durationMs?: number
+): TypedAnswerGrade {
+  const typed = normalizeAnswer(answer);
+
+  let expected = '';
+  let distance = typed.length;
+  let accuracy = 0;
+  for (const candidate of getAcceptedAnswers(card, field)) {
+    const candidateDistance = editDistance(candidate, typed);
+    const candidateAccuracy = getAccuracy(candidate, typed, candidateDistance);
+    if (!expected || candidateAccuracy > accuracy) {
+      expected = candidate;
+      distance = candidateDistance;
+      accuracy = candidateAccuracy;
+    }
+  }
+
+  return {
+    expected,
+    typed,
+    distance,
+    accuracy,
+    diff: diffAnswer(expected, typed),
+    suggestedRating: suggestRating(accuracy, durationMs, [...expected].length),
+  };
+}
+
+// Share of the longer string that needs no edit; nothing typed scores 0
+function getAccuracy(expected: string, typed: string, distance: number): number {
+  if (typed.length === 0) {
+    return 0;
+  }
+  return 1 - distance / Math.max([...expected].length, [...typed].length);
+}
+
+function levenshteinMatrix(a: string[], b: string[]): number[][] {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+  }
+  return distances;
+}
@@ -1,2 +1,11 @@
 export * from './sm2';
+export * from './fsrs';
+export * from './algorithm';
+export * from './steps';
+export * from './loadBalance';
+export * from './optimizer';
 export * from './scheduler';
+export * from './grading';
+export * from './quiz';
+export * from './customStudy';
+export * from './decks';
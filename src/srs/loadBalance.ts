@@ -0,0 +1,144 @@
+// SRS module - Due date fuzz and load balancing
+// PURE MODULE: No vscode imports allowed
+//
+// Cards learned together would otherwise keep coming due together. Each review
+// interval is widened into a small range of days, and the due date is moved to
+// the day in that range with the fewest reviews already due. Ties are broken by
+// a pseudo-random choice seeded by the review, so replaying the same history
+// always yields the same due dates.
+
+import type { SrsState } from '../storage/schema';
+import type { SchedulingAlgorithm } from './algorithm';
+import {
+  DAY_MS,
+  DEFAULT_DAY_ROLLOVER_HOUR,
+  FUZZ_MIN_INTERVAL_DAYS,
+  FUZZ_RANGES,
+  MAX_INTERVAL_DAYS,
+} from '../common/constants';
+import { getDayStart } from '../common/days';
+
+/**
+ * Forecast load: number of reviews due per study day (keyed by the day's start)
+ */
+export type DueLoad = Map<number, number>;
+
+/**
+ * Range of whole days an interval may be moved to
+ */
+export interface FuzzRange {
+  minDays: number;
+  maxDays: number;
+}
+
+/**
+ * Fuzz range of an interval: none below FUZZ_MIN_INTERVAL_DAYS, then at least
+ * one day either way, widening by a shrinking share of the interval
+ */
+export function getFuzzRange(intervalDays: number): FuzzRange {
+  if (intervalDays < FUZZ_MIN_INTERVAL_DAYS) {
+    return { minDays: intervalDays, maxDays: intervalDays };
+  }
+
+  let delta = 1;
+  for (const [from, to, factor] of FUZZ_RANGES) {
+    delta += factor * Math.max(0, Math.min(intervalDays, to) - from);
+  }
+
+  const maxDays = Math.min(Math.round(intervalDays + delta), MAX_INTERVAL_DAYS);
+  const minDays = Math.min(Math.max(2, Math.round(intervalDays - delta)), maxDays);
+  return { minDays, maxDays };
+}
+
+/**
+ * Start of the study day containing `dueAt`
+ */
+export function getDueDay(dueAt: number, rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR): number {
+  return getDayStart(dueAt, rolloverHour);
+}
+
+/**
+ * Add a state's due date to the load (change 1) or take it away (change -1).
+ * Only graduated reviews count; learning steps are due within minutes.
+ */
+export function updateDueLoad(
+  load: DueLoad,
+  state: SrsState,
+  change: 1 | -1,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): void {
+  if (state.phase !== 'review') {
+    return;
+  }
+  const day = getDueDay(state.dueAt, rolloverHour);
+  const count = (load.get(day) ?? 0) + change;
+  if (count > 0) {
+    load.set(day, count);
+  } else {
+    load.delete(day);
+  }
+}
+
+/**
+ * Move a freshly computed review's due date to the least loaded day of its
+ * fuzz range. The interval itself is kept, so later intervals don't compound
+ * the fuzz.
+ */
+export function balanceDueAt(
+  state: SrsState,
+  reviewTime: number,
+  load: DueLoad,
+  seed: string,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): SrsState {
+  if (state.phase !== 'review') {
+    return state;
+  }
+  const { minDays, maxDays } = getFuzzRange(state.intervalDays);
+  if (minDays === maxDays) {
+    return state;
+  }
+
+  let candidates: number[] = [];
+  let lightest = Infinity;
+  for (let days = minDays; days <= maxDays; days++) {
+    const dayLoad = load.get(getDueDay(reviewTime + days * DAY_MS, rolloverHour)) ?? 0;
+    if (dayLoad < lightest) {
+      lightest = dayLoad;
+      candidates = [days];
+    } else if (dayLoad === lightest) {
+      candidates.push(days);
+    }
+  }
+
+  const days = candidates[hashString(`${seed}:${reviewTime}`) % candidates.length];
+  return { ...state, dueAt: reviewTime + days * DAY_MS };
+}
+
+/**
+ * Spread the due dates of a scheduling algorithm with balanceDueAt, counting
+ * the load per study day starting at `rolloverHour`
+ */
+export function withLoadBalancing(
+  algorithm: SchedulingAlgorithm,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): SchedulingAlgorithm {
+  return {
+    ...algorithm,
+    dayRolloverHour: rolloverHour,
+    spreadDueAt: (next, reviewTime, load, seed) =>
+      balanceDueAt(next, reviewTime, load, seed, rolloverHour),
+  };
+}
+
+/**
+ * FNV-1a hash of a string as an unsigned 32-bit integer
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,276 @@
+// SRS module - FSRS parameter optimizer
+// PURE MODULE: No vscode imports allowed
+//
+// Fits personalized FSRS weights to the local review log by minimizing the
+// log-loss between predicted retrievability and actual recall outcomes.
+
+import type { ReviewEvent } from '../storage/schema';
+import { getEventReviewKey } from '../storage/directions';
+import { DAY_MS, MIN_OPTIMIZER_REVIEWS } from '../common/constants';
+import {
+  FSRS_DEFAULT_WEIGHTS,
+  forgettingCurve,
+  initialDifficulty,
+  initialStability,
+  nextDifficulty,
+  nextForgetStability,
+  nextRecallStability,
+  ratingToGrade,
+} from './fsrs';
+
+/**
+ * Lower/upper bounds for each FSRS weight, keeping the model well-behaved
+ */
+const WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.01, 3.5],
+  [0.1, 5],
+  [0.01, 0.25],
+  [0.01, 0.9],
+  [0.01, 4],
+  [0, 1],
+  [1, 6],
+];
+
+const LEARNING_RATE = 0.01;
+const GRADIENT_EPSILON = 1e-4;
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const PROBABILITY_EPSILON = 1e-6;
+
+/**
+ * A single review within a card's history
+ */
+interface TrainingReview {
+  grade: number;
+  /** Days since the previous review of the same card (0 for the first review) */
+  elapsedDays: number;
+}
+
+/**
+ * Prediction quality of a set of weights against the review log
+ */
+export interface OptimizerMetrics {
+  /** Mean binary cross-entropy of predicted recall vs. actual outcome */
+  logLoss: number;
+  /** Root mean squared error of predicted recall vs. actual outcome */
+  rmse: number;
+}
+
+/**
+ * Options for the optimizer
+ */
+export interface OptimizerOptions {
+  /** Starting weights (defaults to FSRS_DEFAULT_WEIGHTS) */
+  initialWeights?: readonly number[];
+  /** Number of gradient descent iterations */
+  iterations?: number;
+  /** Called after every iteration with progress in [0, 1] */
+  onProgress?: (progress: number) => void;
+  /** Polled between iterations; returning true stops early */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Result of an optimization run
+ */
+export interface OptimizerResult {
+  weights: number[];
+  before: OptimizerMetrics;
+  after: OptimizerMetrics;
+  /** Reviews with a prediction target (reviews after at least one day) */
+  reviewCount: number;
+  cardCount: number;
+  cancelled: boolean;
+}
+
+/**
+ * Group review events into per-card sequences ordered by time.
+ * Each direction and the dictation schedule of a card is its own sequence.
+ */
+export function buildTrainingSequences(events: ReviewEvent[]): TrainingReview[][] {
+  const byCard = new Map<string, ReviewEvent[]>();
+  for (const event of events) {
+    const key = getEventReviewKey(event);
+    const cardEvents = byCard.get(key) || [];
+    cardEvents.push(event);
+    byCard.set(key, cardEvents);
+  }
+
+  const sequences: TrainingReview[][] = [];
+  for (const cardEvents of byCard.values()) {
+    cardEvents.sort((a, b) => a.ts - b.ts);
+    sequences.push(
+      cardEvents.map((event, i) => ({
+        grade: ratingToGrade(event.rating),
+        elapsedDays: i === 0 ? 0 : (event.ts - cardEvents[i - 1].ts) / DAY_MS,
+      }))
+    );
+  }
+
+  return sequences;
+}
+
+/**
+ * Count the reviews that can be used as prediction targets.
+ * Same-day repetitions are replayed but not scored, as FSRS only models
+ * long-term memory.
+ */
+export function countTrainingReviews(sequences: TrainingReview[][]): number {
+  let count = 0;
+  for (const sequence of sequences) {
+    for (let i = 1; i < sequence.length; i++) {
+      if (sequence[i].elapsedDays >= 1) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Evaluate log-loss and RMSE of the given weights over the training sequences
+ */
+export function evaluateWeights(
+  weights: readonly number[],
+  sequences: TrainingReview[][]
+): OptimizerMetrics {
+  let lossSum = 0;
+  let squaredErrorSum = 0;
+  let count = 0;
+
+  for (const sequence of sequences) {
+    let stability = initialStability(weights, sequence[0].grade);
+    let difficulty = initialDifficulty(weights, sequence[0].grade);
+
+    for (let i = 1; i < sequence.length; i++) {
+      const { grade, elapsedDays } = sequence[i];
+      const retrievability = forgettingCurve(elapsedDays, stability);
+
+      if (elapsedDays >= 1) {
+        const recalled = grade > 1 ? 1 : 0;
+        const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, retrievability));
+        lossSum -= recalled * Math.log(p) + (1 - recalled) * Math.log(1 - p);
+        squaredErrorSum += (recalled - retrievability) ** 2;
+        count++;
+      }
+
+      stability =
+        grade === 1
+          ? nextForgetStability(weights, difficulty, stability, retrievability)
+          : nextRecallStability(weights, difficulty, stability, retrievability, grade);
+      difficulty = nextDifficulty(weights, difficulty, grade);
+    }
+  }
+
+  if (count === 0) {
+    return { logLoss: 0, rmse: 0 };
+  }
+
+  return {
+    logLoss: lossSum / count,
+    rmse: Math.sqrt(squaredErrorSum / count),
+  };
+}
+
+/**
+ * Fit FSRS weights to the review log with Adam on numerical gradients.
+ * Yields to the event loop between iterations so callers stay responsive.
+ * Throws if there are fewer than MIN_OPTIMIZER_REVIEWS usable reviews.
+ */
+export async function optimizeFsrsWeights(
+  events: ReviewEvent[],
+  options: OptimizerOptions = {}
+): Promise<OptimizerResult> {
+  const {
+    initialWeights = FSRS_DEFAULT_WEIGHTS,
+    iterations = 200,
+    onProgress,
+    isCancelled,
+  } = options;
+
+  const sequences = buildTrainingSequences(events);
+  const reviewCount = countTrainingReviews(sequences);
+
+  if (reviewCount < MIN_OPTIMIZER_REVIEWS) {
+    throw new Error(
+      `At least ${MIN_OPTIMIZER_REVIEWS} reviews spaced a day or more apart are needed, found ${reviewCount}`
+    );
+  }
+
+  const before = evaluateWeights(initialWeights, sequences);
+  const lossOf = (w: readonly number[]) => evaluateWeights(w, sequences).logLoss;
+
+  let weights = clampWeights(initialWeights);
+  let loss = lossOf(weights);
+  let bestWeights = weights;
+  let bestLoss = loss;
+  const m = new Array<number>(weights.length).fill(0);
+  const v = new Array<number>(weights.length).fill(0);
+  let cancelled = false;
+
+  for (let step = 1; step <= iterations; step++) {
+    if (isCancelled?.()) {
+      cancelled = true;
+      break;
+    }
+
+    const next = [...weights];
+    for (let i = 0; i < weights.length; i++) {
+      const [lo, hi] = WEIGHT_BOUNDS[i];
+      const h = GRADIENT_EPSILON * (hi - lo);
+      const probe = [...weights];
+      probe[i] = weights[i] + h;
+      const gradient = (lossOf(probe) - loss) / h;
+
+      m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * gradient;
+      v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * gradient * gradient;
+      const mHat = m[i] / (1 - ADAM_BETA1 ** step);
+      const vHat = v[i] / (1 - ADAM_BETA2 ** step);
+      next[i] = weights[i] - (LEARNING_RATE * (hi - lo) * mHat) / (Math.sqrt(vHat) + 1e-8);
+    }
+
+    weights = clampWeights(next);
+    loss = lossOf(weights);
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      bestWeights = weights;
+    }
+
+    onProgress?.(step / iterations);
+    await new Promise<void>((resolve) => setImmediate(resolve));
+  }
+
+  return {
+    weights: bestWeights,
+    before,
+    after: evaluateWeights(bestWeights, sequences),
+    reviewCount,
+    cardCount: sequences.length,
+    cancelled,
+  };
+}
+
+/**
+ * Check that a weight vector has the expected shape and finite values
+ */
+export function isValidFsrsWeights(weights: unknown): weights is number[] {
+  return (
+    Array.isArray(weights) &&
+    weights.length === FSRS_DEFAULT_WEIGHTS.length &&
+    weights.every((w) => typeof w === 'number' && Number.isFinite(w))
+  );
+}
+
+function clampWeights(weights: readonly number[]): number[] {
+  return weights.map((w, i) => Math.min(WEIGHT_BOUNDS[i][1], Math.max(WEIGHT_BOUNDS[i][0], w)));
+}
@@ -0,0 +1,95 @@
+// SRS module - Multiple-choice quiz questions
+// PURE MODULE: No vscode imports allowed
+
+import type { Card, CardIndex, ReviewRating } from '../storage/schema';
+import { QUIZ_GOOD_MS, QUIZ_OPTION_COUNT } from '../common/constants';
+import { normalizeAnswer } from './grading';
+
+/**
+ * A term with translations to choose from, exactly one of them correct
+ */
+export interface QuizQuestion {
+  cardId: string;
+  options: string[];
+  correctIndex: number;
+}
+
+/**
+ * Build a quiz question for a card from the translations of other cards.
+ * Distractors come from cards sharing a tag first, then cards of the same
+ * type, then any card. Returns null for cloze cards, cards without a
+ * translation, or when the collection has too few distinct translations.
+ */
+export function buildQuizQuestion(
+  card: Card,
+  index: CardIndex,
+  random: () => number = Math.random
+): QuizQuestion | null {
+  const answer = getQuizTranslation(card);
+  if (!answer || card.type === 'cloze') {
+    return null;
+  }
+
+  const tags = new Set(card.tags ?? []);
+  const tiers: Card[][] = [[], [], []];
+  for (const other of index.cards.values()) {
+    if (other.id === card.id || other.type === 'cloze' || !getQuizTranslation(other)) {
+      continue;
+    }
+    if (other.tags?.some((tag) => tags.has(tag))) {
+      tiers[0].push(other);
+    } else if (other.type === card.type) {
+      tiers[1].push(other);
+    } else {
+      tiers[2].push(other);
+    }
+  }
+
+  // Skip translations that read the same as the answer or an earlier pick
+  const seen = new Set([normalizeAnswer(answer)]);
+  const distractors: string[] = [];
+  for (const other of tiers.flatMap((tier) => shuffle(tier, random))) {
+    const translation = getQuizTranslation(other);
+    if (!seen.has(normalizeAnswer(translation))) {
+      seen.add(normalizeAnswer(translation));
+      distractors.push(translation);
+    }
+    if (distractors.length === QUIZ_OPTION_COUNT - 1) {
+      break;
+    }
+  }
+  if (distractors.length < QUIZ_OPTION_COUNT - 1) {
+    return null;
+  }
+
+  const correctIndex = Math.floor(random() * QUIZ_OPTION_COUNT);
+  const options = [...distractors];
+  options.splice(correctIndex, 0, answer);
+  return { cardId: card.id, options, correctIndex };
+}
+
+/**
+ * Rate a quiz answer: wrong choices are Again, correct ones Good or Hard by
+ * how long they took. Recognizing a translation is easier than recalling
+ * it, so a quiz never rates Easy.
+ */
+export function rateQuizAnswer(correct: boolean, durationMs?: number): ReviewRating {
+  if (!correct) {
+    return 'again';
+  }
+  return durationMs !== undefined && durationMs > QUIZ_GOOD_MS ? 'hard' : 'good';
+}
+
+function getQuizTranslation(card: Card): string {
+  return card.back?.translation?.trim() ?? '';
+}
+
+// Fisher-Yates shuffle of a copy
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -2,8 +2,19 @@
 // PURE MODULE: No vscode imports allowed
 // Incorporates Ebbinghaus Forgetting Curve for optimal review timing
 
-import type { Card, CardIndex, SrsState } from '../storage/schema';
-import { MATURE_INTERVAL_DAYS, DAY_MS, INITIAL_EASE_FACTOR } from '../common/constants';
+import type { Card, CardDirection, CardIndex, SrsState } from '../storage/schema';
+import {
+  MATURE_INTERVAL_DAYS,
+  DAY_MS,
+  INITIAL_EASE_FACTOR,
+  LEARN_AHEAD_MS,
+  DEFAULT_DAY_ROLLOVER_HOUR,
+} from '../common/constants';
+import { getDayStart } from '../common/days';
+import { forgettingCurve } from './fsrs';
+import { isInLearningPhase } from './steps';
+import { isCardAvailable } from '../storage/indexer';
+import { getCardSrsState, getReviewKey } from '../storage/directions';
 
 export const SCHEDULER_VERSION = 2;
 
@@ -15,6 +26,10 @@ export interface SchedulerOptions {
   newCardsPerDay?: number;
   /** Number of new cards already learned today */
   todayNewCardCount?: number;
+  /** Maximum due reviews per day (unlimited when omitted) */
+  reviewsPerDay?: number;
+  /** Number of reviews of previously studied cards already done today */
+  todayReviewCount?: number;
   /** Enable loop mode - continue with any card when no due cards */
   loopMode?: boolean;
   /** Due only mode - only review due cards, skip new cards */
@@ -23,8 +38,17 @@ export interface SchedulerOptions {
   excludeCardId?: string;
   /** Recently reviewed card IDs to avoid immediate repetition */
   recentCardIds?: string[];
+  /** Only pick reviews this predicate accepts (custom study sessions) */
+  filter?: ReviewFilter;
+  /** Local hour at which a new study day starts */
+  rolloverHour?: number;
 }
 
+/**
+ * Predicate over one direction of a card and its SRS state
+ */
+export type ReviewFilter = (card: Card, srs: SrsState) => boolean;
+
 /**
  * Statistics about the card collection
  */
@@ -37,11 +61,19 @@ export interface SchedulerStats {
 }
 
 /**
- * Card with priority score for sorting
+ * One direction of a card picked for review
  */
-interface ScoredCard {
+export interface ReviewItem {
   card: Card;
+  direction: CardDirection;
   srs: SrsState;
+}
+
+/**
+ * Review item with priority score for sorting
+ */
+interface ScoredItem {
+  item: ReviewItem;
   priority: number;
 }
 
@@ -54,13 +86,24 @@ interface ScoredCard {
  * Returns a value between 0 and 1, where:
  * - 1 = perfect retention (just reviewed)
  * - 0 = completely forgotten
+ *
+ * States produced by FSRS carry a stability value and use FSRS's own
+ * power-law forgetting curve instead.
  */
 export function calculateRetention(srs: SrsState, now: number): number {
   if (srs.reps === 0) {
     return 0; // New card, no retention yet
   }
+
+  if (srs.stability !== undefined && srs.lastReviewAt !== undefined) {
+    return forgettingCurve((now - srs.lastReviewAt) / DAY_MS, srs.stability);
+  }
   
-  const lastReviewAt = srs.dueAt - srs.intervalDays * DAY_MS;
+  // Load balancing may move dueAt off the interval, so prefer the review time
+  const lastReviewAt =
+    srs.phase === 'review' && srs.lastReviewAt !== undefined
+      ? srs.lastReviewAt
+      : srs.dueAt - srs.intervalDays * DAY_MS;
   const timeSinceReview = now - lastReviewAt;
   
   // Memory strength based on interval and ease factor
@@ -90,21 +133,6 @@ export function calculatePriority(
 ): number {
   let priority = 0;
   
-  // Special case: Learning cards (just reviewed 1-2 times, still fresh)
-  // Give them medium-high priority for repetition in the same session
-  if (srs.reps > 0 && srs.reps <= 2 && srs.intervalDays <= 1) {
-    const timeSinceReview = now - (srs.lastReviewAt || srs.dueAt - srs.intervalDays * DAY_MS);
-    const minutesSinceReview = timeSinceReview / 60000;
-    
-    // If reviewed within last 30 minutes, give it medium priority (40-60)
-    // This allows for spaced repetition within the same study session
-    if (minutesSinceReview < 30) {
-      priority += 40 + (30 - minutesSinceReview); // 40-70 points
-    } else {
-      priority += 35; // Base priority for learning cards
-    }
-  }
-  
   // 1. Overdue factor (0-100 points)
   // Cards past due get high priority
   const overdueMs = now - srs.dueAt;
@@ -152,103 +180,143 @@ export function calculatePriority(
  * Get the next card to review using forgetting curve optimization.
  *
  * Priority:
- * 1. Due cards sorted by priority (urgency + retention + difficulty)
- * 2. New cards (if under daily limit, sorted by createdAt)
- * 3. Loop mode: cards sorted by priority (for continuous learning)
- * 4. null if nothing to review
+ * 1. Learning/relearning cards whose step is due (earliest first)
+ * 2. Due review cards sorted by priority (urgency + retention + difficulty),
+ *    while under the daily review limit
+ * 3. New cards (if under daily limit, sorted by createdAt)
+ * 4. Learning/relearning cards due within LEARN_AHEAD_MS (earliest first)
+ * 5. Loop mode: cards sorted by priority (for continuous learning)
+ * 6. null if nothing to review
+ *
+ * Suspended cards, and buried cards until they are unburied, are never returned.
+ * Each direction of a card is picked separately; once one direction has been
+ * reviewed today, the other is buried until tomorrow unless it is learning.
+ * With a filter, reviews it rejects are skipped at every step. Once the daily
+ * review limit is reached, due review cards are held back in every step too,
+ * so loop mode only practices cards that are not due yet.
  */
-export function getNextCard(
+export function getNextReview(
   index: CardIndex,
   now: number,
   options: SchedulerOptions = {}
-): Card | null {
+): ReviewItem | null {
   const { 
     newCardsPerDay = 20, 
     todayNewCardCount = 0,
     loopMode = false,
     dueOnly = false,
     excludeCardId,
-    recentCardIds = []
+    recentCardIds = [],
+    filter,
+    reviewsPerDay = Infinity,
+    todayReviewCount = 0,
+    rolloverHour = DEFAULT_DAY_ROLLOVER_HOUR
   } = options;
+  const reviewLimitReached = todayReviewCount >= reviewsPerDay;
+
+  const toItem = (srs: SrsState): ReviewItem | null => {
+    if (excludeCardId && srs.cardId === excludeCardId) return null;
+
+    const card = index.cards.get(srs.cardId);
+    if (!card || !isReviewAvailable(index, card, srs, now, rolloverHour)) return null;
+    if (reviewLimitReached && srs.phase === 'review' && srs.dueAt <= now) {
+      return null;
+    }
+    return !filter || filter(card, srs)
+      ? { card, direction: srs.direction ?? 'forward', srs }
+      : null;
+  };
+
+  // Learning steps are timed in minutes, so check every card in a learning phase
+  // rather than the due list computed when the index was built
+  const learningItems: ReviewItem[] = [];
+  for (const srs of index.srsStates.values()) {
+    const item = toItem(srs);
+    if (item && isInLearningPhase(srs) && srs.dueAt <= now + LEARN_AHEAD_MS) {
+      learningItems.push(item);
+    }
+  }
+  learningItems.sort((a, b) => a.srs.dueAt - b.srs.dueAt);
+
+  if (learningItems.length > 0 && learningItems[0].srs.dueAt <= now) {
+    return learningItems[0];
+  }
 
   // Build scored list of due cards
-  const scoredDueCards: ScoredCard[] = [];
+  const scoredDueItems: ScoredItem[] = [];
   
-  for (const cardId of index.dueCards) {
-    if (excludeCardId && cardId === excludeCardId) continue;
-    
-    const card = index.cards.get(cardId);
-    const srs = index.srsStates.get(cardId);
+  for (const key of index.dueCards) {
+    const srs = index.srsStates.get(key);
+    const item = srs && toItem(srs);
     
-    if (card && srs && srs.dueAt <= now && srs.reps > 0) {
-      scoredDueCards.push({
-        card,
-        srs,
-        priority: calculatePriority(srs, now, recentCardIds)
+    if (item && item.srs.dueAt <= now && item.srs.phase === 'review') {
+      scoredDueItems.push({
+        item,
+        priority: calculatePriority(item.srs, now, recentCardIds)
       });
     }
   }
   
   // Sort by priority (highest first)
-  scoredDueCards.sort((a, b) => b.priority - a.priority);
+  scoredDueItems.sort((a, b) => b.priority - a.priority);
   
-  if (scoredDueCards.length > 0) {
-    return scoredDueCards[0].card;
+  if (scoredDueItems.length > 0) {
+    return scoredDueItems[0].item;
   }
 
   // Then try new cards if under limit (skip if dueOnly mode)
   if (!dueOnly && todayNewCardCount < newCardsPerDay) {
-    for (const cardId of index.newCards) {
-      if (excludeCardId && cardId === excludeCardId) continue;
-      
-      const card = index.cards.get(cardId);
-      const srs = index.srsStates.get(cardId);
+    for (const key of index.newCards) {
+      const srs = index.srsStates.get(key);
+      const item = srs && toItem(srs);
 
-      if (card && srs && srs.reps === 0) {
-        return card;
+      if (item && item.srs.phase === 'new') {
+        return item;
       }
     }
   }
 
+  // Nothing else to do: show the next learning step a little early
+  if (learningItems.length > 0) {
+    return learningItems[0];
+  }
+
   // Loop mode: return card with highest priority for continuous learning
   if (loopMode && index.cards.size > 0) {
-    const scoredAllCards: ScoredCard[] = [];
+    const scoredAllItems: ScoredItem[] = [];
+    const availableItems: ReviewItem[] = [];
     
     // Include all cards (both due and not yet due)
-    for (const [cardId, card] of index.cards) {
-      if (excludeCardId && cardId === excludeCardId) continue;
-      
-      const srs = index.srsStates.get(cardId);
+    for (const srs of index.srsStates.values()) {
+      const item = toItem(srs);
+      if (!item) continue;
+      availableItems.push(item);
       
       // Include all cards that have been reviewed at least once
-      if (srs && srs.reps > 0) {
-        scoredAllCards.push({
-          card,
-          srs,
+      if (srs.phase !== 'new') {
+        scoredAllItems.push({
+          item,
           priority: calculatePriority(srs, now, recentCardIds)
         });
       }
     }
     
     // Sort by priority
-    scoredAllCards.sort((a, b) => b.priority - a.priority);
+    scoredAllItems.sort((a, b) => b.priority - a.priority);
     
-    if (scoredAllCards.length > 0) {
-      return scoredAllCards[0].card;
+    if (scoredAllItems.length > 0) {
+      return scoredAllItems[0].item;
     }
     
     // Fall back to any card (including new cards in loop)
-    for (const [cardId, card] of index.cards) {
-      if (excludeCardId && cardId === excludeCardId) continue;
-      if (!recentCardIds.includes(cardId)) {
-        return card;
-      }
+    const notRecent = availableItems.find((item) => !recentCardIds.includes(item.card.id));
+    if (notRecent) {
+      return notRecent;
     }
     
     // If all cards are recent, return least recent
-    for (const [cardId, card] of index.cards) {
-      if (excludeCardId && cardId === excludeCardId) continue;
-      return card;
+    if (availableItems.length > 0) {
+      return availableItems[0];
     }
   }
 
@@ -256,7 +324,48 @@ export function getNextCard(
 }
 
 /**
- * Get statistics about the card collection
+ * Get the next card to review, in whichever direction getNextReview picks
+ */
+export function getNextCard(
+  index: CardIndex,
+  now: number,
+  options: SchedulerOptions = {}
+): Card | null {
+  return getNextReview(index, now, options)?.card ?? null;
+}
+
+/**
+ * Whether one direction of a card may be shown now: the card is neither
+ * suspended nor buried, and unless the direction is learning, its sibling
+ * direction has not been reviewed today
+ */
+function isReviewAvailable(
+  index: CardIndex,
+  card: Card,
+  srs: SrsState,
+  now: number,
+  rolloverHour: number
+): boolean {
+  if (!isCardAvailable(card, now)) {
+    return false;
+  }
+  if (isInLearningPhase(srs)) {
+    return true;
+  }
+
+  const sibling = index.srsStates.get(
+    getReviewKey(card.id, srs.direction === 'reverse' ? 'forward' : 'reverse')
+  );
+  return !(
+    sibling?.lastReviewAt !== undefined &&
+    sibling.lastReviewAt >= getDayStart(now, rolloverHour)
+  );
+}
+
+/**
+ * Get statistics about the card collection.
+ * Each card counts once, by its forward state or, for cards reviewed in
+ * reverse only, its reverse state (as on the dashboard).
  */
 export function getStats(index: CardIndex, now: number): SchedulerStats {
   let total = 0;
@@ -265,25 +374,26 @@ export function getStats(index: CardIndex, now: number): SchedulerStats {
   let learning = 0;
   let mature = 0;
 
-  for (const [cardId] of index.cards) {
+  for (const [cardId, card] of index.cards) {
     total++;
+    const available = isCardAvailable(card, now);
 
-    const srs = index.srsStates.get(cardId);
+    const srs = getCardSrsState(index, cardId);
     if (!srs) {
       newCards++;
       continue;
     }
 
-    if (srs.reps === 0) {
+    if (srs.phase === 'new') {
       newCards++;
-    } else if (srs.intervalDays >= MATURE_INTERVAL_DAYS) {
+    } else if (srs.phase === 'review' && srs.intervalDays >= MATURE_INTERVAL_DAYS) {
       mature++;
-      if (srs.dueAt <= now) {
+      if (available && srs.dueAt <= now) {
         due++;
       }
     } else {
       learning++;
-      if (srs.dueAt <= now) {
+      if (available && srs.dueAt <= now) {
         due++;
       }
     }
@@ -2,6 +2,7 @@
 // PURE MODULE: No vscode imports allowed
 
 import type { ReviewRating, SrsState } from '../storage/schema';
+import type { SchedulingAlgorithm } from './algorithm';
 import {
   INITIAL_EASE_FACTOR,
   MIN_EASE_FACTOR,
@@ -42,6 +43,8 @@ export function createInitialSrsState(cardId: string): SrsState {
     easeFactor: INITIAL_EASE_FACTOR,
     reps: 0,
     lapses: 0,
+    phase: 'new',
+    stepIndex: 0,
   };
 }
 
@@ -106,5 +109,16 @@ export function calculateNextState(
     reps,
     lapses,
     lastReviewAt: reviewTime,
+    phase: 'review',
+    stepIndex: 0,
   };
 }
+
+/**
+ * SM-2 as a pluggable scheduling algorithm
+ */
+export const sm2Algorithm: SchedulingAlgorithm = {
+  id: 'sm2',
+  createInitialState: createInitialSrsState,
+  calculateNextState,
+};
@@ -0,0 +1,145 @@
+// SRS module - Learning and relearning steps
+// PURE MODULE: No vscode imports allowed
+//
+// New cards go through short learning steps (in minutes) before the scheduling
+// algorithm takes over, and lapsed cards go through relearning steps before
+// returning to their day-based interval:
+//
+//   new → learning (1m → 10m) → review ⇄ relearning (10m)
+
+import type { ReviewRating, SrsState } from '../storage/schema';
+import type { SchedulingAlgorithm } from './algorithm';
+import { DAY_MS, MINUTE_MS } from '../common/constants';
+
+/**
+ * Step durations in minutes
+ */
+export interface LearningStepsOptions {
+  learningSteps?: readonly number[];
+  relearningSteps?: readonly number[];
+}
+
+/**
+ * Check if a card is in the learning or relearning phase
+ */
+export function isInLearningPhase(srs: SrsState): boolean {
+  return srs.phase === 'learning' || srs.phase === 'relearning';
+}
+
+/**
+ * Keep only positive, finite step durations
+ */
+export function normalizeSteps(steps: readonly unknown[] | undefined): number[] {
+  if (!Array.isArray(steps)) {
+    return [];
+  }
+  return steps.filter(
+    (step): step is number => typeof step === 'number' && step > 0 && Number.isFinite(step)
+  );
+}
+
+/**
+ * Wrap a scheduling algorithm with learning and relearning steps.
+ *
+ * - learning: again → first step, hard → repeat step, good → next step
+ *   (graduating after the last one), easy → graduate immediately.
+ *   Graduation hands the rating to the wrapped algorithm.
+ * - review: delegated to the wrapped algorithm; a lapse enters relearning.
+ * - relearning: same step rules, graduating to the interval the wrapped
+ *   algorithm computed at the lapse.
+ *
+ * With no steps configured the wrapped algorithm is returned unchanged.
+ */
+export function withLearningSteps(
+  algorithm: SchedulingAlgorithm,
+  options: LearningStepsOptions = {}
+): SchedulingAlgorithm {
+  const learningSteps = normalizeSteps(options.learningSteps);
+  const relearningSteps = normalizeSteps(options.relearningSteps);
+
+  if (learningSteps.length === 0 && relearningSteps.length === 0) {
+    return algorithm;
+  }
+
+  return {
+    id: algorithm.id,
+    createInitialState: (cardId) => algorithm.createInitialState(cardId),
+    calculateNextState(current: SrsState, rating: ReviewRating, reviewTime: number): SrsState {
+      switch (current.phase) {
+        case 'new':
+        case 'learning': {
+          const stepIndex = nextStepIndex(current, rating, learningSteps);
+          if (stepIndex === null) {
+            return algorithm.calculateNextState(current, rating, reviewTime);
+          }
+          return enterStep(current, 'learning', stepIndex, learningSteps, reviewTime);
+        }
+
+        case 'relearning': {
+          const stepIndex = nextStepIndex(current, rating, relearningSteps);
+          if (stepIndex === null) {
+            return {
+              ...current,
+              dueAt: reviewTime + current.intervalDays * DAY_MS,
+              lastReviewAt: reviewTime,
+              phase: 'review',
+              stepIndex: 0,
+            };
+          }
+          return enterStep(current, 'relearning', stepIndex, relearningSteps, reviewTime);
+        }
+
+        case 'review':
+        default: {
+          const next = algorithm.calculateNextState(current, rating, reviewTime);
+          if (rating === 'again' && relearningSteps.length > 0) {
+            return enterStep(next, 'relearning', 0, relearningSteps, reviewTime);
+          }
+          return next;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Step to move to after a rating, or null when the card graduates.
+ * New cards sit on the first learning step.
+ */
+function nextStepIndex(
+  current: SrsState,
+  rating: ReviewRating,
+  steps: readonly number[]
+): number | null {
+  if (steps.length === 0) {
+    return null;
+  }
+  const stepIndex = Math.min(current.stepIndex, steps.length - 1);
+
+  switch (rating) {
+    case 'again':
+      return 0;
+    case 'hard':
+      return stepIndex;
+    case 'good':
+      return stepIndex + 1 < steps.length ? stepIndex + 1 : null;
+    case 'easy':
+      return null;
+  }
+}
+
+function enterStep(
+  state: SrsState,
+  phase: 'learning' | 'relearning',
+  stepIndex: number,
+  steps: readonly number[],
+  reviewTime: number
+): SrsState {
+  return {
+    ...state,
+    dueAt: reviewTime + steps[stepIndex] * MINUTE_MS,
+    lastReviewAt: reviewTime,
+    phase,
+    stepIndex,
+  };
+}
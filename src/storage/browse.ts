@@ -0,0 +1,175 @@
+// Storage module - Card browser search, filtering and bulk actions
+// PURE MODULE: No vscode imports allowed
+
+import type {
+  BrowseCardState,
+  BrowseQuery,
+  BrowseResult,
+  BrowseRow,
+  BulkCardAction,
+  Card,
+  CardIndex,
+  ResetEvent,
+  SrsState,
+} from './schema';
+import { createResetEvent, updateCard } from './schema';
+import { getCardSrsState } from './directions';
+
+/**
+ * Browser state of a card
+ */
+export function getBrowseCardState(card: Card, srs: SrsState | undefined): BrowseCardState {
+  if (card.suspended) {
+    return 'suspended';
+  }
+  if (!srs || srs.phase === 'new') {
+    return 'new';
+  }
+  return srs.phase === 'review' ? 'review' : 'learning';
+}
+
+/**
+ * Lowercased text of every front and back field and tag, for full-text search
+ */
+export function getCardSearchText(card: Card): string {
+  const { front, back } = card;
+  const parts = [
+    front.term,
+    front.phonetic,
+    ...(front.morphemes ?? []),
+    front.example,
+    front.exampleCn,
+    back?.translation,
+    back?.explanation,
+    back?.explanationCn,
+    ...(back?.synonyms ?? []),
+    ...(back?.antonyms ?? []),
+    back?.notes,
+    ...(card.tags ?? []),
+  ];
+  return parts.filter(Boolean).join('\n').toLowerCase();
+}
+
+function toBrowseRow(card: Card, srs: SrsState | undefined, now: number): BrowseRow {
+  const state = getBrowseCardState(card, srs);
+  const dueAt = srs?.dueAt ?? card.createdAt;
+  return {
+    id: card.id,
+    term: card.front.term,
+    type: card.type,
+    tags: card.tags ?? [],
+    state,
+    dueAt,
+    isDue: state !== 'suspended' && state !== 'new' && dueAt <= now,
+    intervalDays: srs?.intervalDays ?? 0,
+    easeFactor: srs?.easeFactor ?? 0,
+    lapses: srs?.lapses ?? 0,
+  };
+}
+
+function matchesQuery(card: Card, row: BrowseRow, query: BrowseQuery): boolean {
+  if (query.type && row.type !== query.type) {
+    return false;
+  }
+  if (query.tag && !row.tags.includes(query.tag)) {
+    return false;
+  }
+  if (query.state === 'due') {
+    if (!row.isDue) {
+      return false;
+    }
+  } else if (query.state && row.state !== query.state) {
+    return false;
+  }
+
+  const search = query.search?.trim().toLowerCase();
+  return !search || getCardSearchText(card).includes(search);
+}
+
+function compareRows(a: BrowseRow, b: BrowseRow, sortBy: BrowseQuery['sortBy']): number {
+  switch (sortBy) {
+    case 'type':
+      return a.type.localeCompare(b.type);
+    case 'tags':
+      return a.tags.join(',').localeCompare(b.tags.join(','));
+    case 'dueAt':
+    case 'intervalDays':
+    case 'easeFactor':
+    case 'lapses':
+      return a[sortBy] - b[sortBy];
+    case 'term':
+    default:
+      return a.term.localeCompare(b.term, undefined, { sensitivity: 'base' });
+  }
+}
+
+/**
+ * Search, filter and sort the cards of an index for the card browser.
+ * Ties are broken by term so the order is stable between queries.
+ */
+export function queryBrowseRows(index: CardIndex, query: BrowseQuery, now: number): BrowseResult {
+  const rows: BrowseRow[] = [];
+  const tags = new Set<string>();
+
+  for (const [cardId, card] of index.cards) {
+    card.tags?.forEach((tag) => tags.add(tag));
+
+    const row = toBrowseRow(card, getCardSrsState(index, cardId), now);
+    if (matchesQuery(card, row, query)) {
+      rows.push(row);
+    }
+  }
+
+  const direction = query.sortDir === 'desc' ? -1 : 1;
+  rows.sort((a, b) => direction * compareRows(a, b, query.sortBy) || compareRows(a, b, 'term'));
+
+  return {
+    rows,
+    total: index.cards.size,
+    tags: [...tags].sort(),
+  };
+}
+
+/**
+ * Apply a bulk action to cards.
+ * Card changes become new card versions; progress resets become reset events.
+ * Cards the action would not change are skipped.
+ */
+export function applyBulkAction(
+  cards: Card[],
+  action: BulkCardAction
+): { cards: Card[]; events: ResetEvent[] } {
+  if (action.kind === 'resetProgress') {
+    return { cards: [], events: cards.map((card) => createResetEvent(card.id)) };
+  }
+
+  const updated: Card[] = [];
+  for (const card of cards) {
+    const tags = card.tags ?? [];
+    switch (action.kind) {
+      case 'tag':
+        if (!tags.includes(action.tag)) {
+          updated.push(updateCard(card, { tags: [...tags, action.tag] }));
+        }
+        break;
+      case 'untag':
+        if (tags.includes(action.tag)) {
+          updated.push(updateCard(card, { tags: tags.filter((t) => t !== action.tag) }));
+        }
+        break;
+      case 'suspend':
+      case 'unsuspend': {
+        const suspended = action.kind === 'suspend';
+        if (!!card.suspended !== suspended) {
+          updated.push(updateCard(card, { suspended }));
+        }
+        break;
+      }
+      case 'delete':
+        updated.push(updateCard(card, { deleted: true }));
+        break;
+    }
+  }
+
+  return { cards: updated, events: [] };
+}
@@ -8,16 +8,24 @@ import type {
   Card,
   CardType,
   CreateCardInput,
+  Deck,
 } from './schema';
-import { createCard, updateCard } from './schema';
+import { createCard, createDeck, updateCard } from './schema';
+import { createClozeCards, getClozeIndices } from './cloze';
+import { isCardDirections } from './directions';
+import { findDeckByName, getLatestDecks } from './decks';
 
 /**
  * Infer card type from term word count
+ * - {{c1::...}} markers = 'cloze'
  * - 1 word = 'word'
  * - 2-4 words = 'phrase'
  * - 5+ words = 'sentence'
  */
 export function inferCardType(term: string): CardType {
+  if (getClozeIndices(term).length > 0) {
+    return 'cloze';
+  }
   const wordCount = term.trim().split(/\s+/).length;
   if (wordCount === 1) {
     return 'word';
@@ -41,8 +49,12 @@ export function validateBulkCardInput(input: BulkCardInput, index: number): stri
     return `Card at index ${index}: 'term' is required and must be a non-empty string`;
   }
 
-  if (input.type !== undefined && !['word', 'phrase', 'sentence'].includes(input.type)) {
-    return `Card at index ${index}: 'type' must be 'word', 'phrase', or 'sentence'`;
+  if (input.type !== undefined && !['word', 'phrase', 'sentence', 'cloze'].includes(input.type)) {
+    return `Card at index ${index}: 'type' must be 'word', 'phrase', 'sentence', or 'cloze'`;
+  }
+
+  if (input.type === 'cloze' && getClozeIndices(input.term).length === 0) {
+    return `Card at index ${index}: cloze cards need {{c1::...}} markers in 'term'`;
   }
 
   if (input.synonyms !== undefined && !Array.isArray(input.synonyms)) {
@@ -57,6 +69,14 @@ export function validateBulkCardInput(input: BulkCardInput, index: number): stri
     return `Card at index ${index}: 'tags' must be an array`;
   }
 
+  if (input.directions !== undefined && !isCardDirections(input.directions)) {
+    return `Card at index ${index}: 'directions' must be 'forward', 'reverse', or 'both'`;
+  }
+
+  if (input.deck !== undefined && !isDeckName(input.deck)) {
+    return `Card at index ${index}: 'deck' must be a non-empty string`;
+  }
+
   return null;
 }
 
@@ -79,11 +99,20 @@ export function validateBulkImportTemplate(template: unknown): string | null {
     return "'cards' is required and must be an array";
   }
 
+  if (t.deck !== undefined && !isDeckName(t.deck)) {
+    return "'deck' must be a non-empty string";
+  }
+
   return null;
 }
 
+function isDeckName(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
 /**
  * Convert BulkCardInput to CreateCardInput
+ * Cloze sentences move from term to example, where createClozeCards reads them
  */
 export function convertToCreateCardInput(input: BulkCardInput): CreateCardInput {
   const type = input.type ?? inferCardType(input.term);
@@ -94,7 +123,7 @@ export function convertToCreateCardInput(input: BulkCardInput): CreateCardInput
       term: input.term.trim(),
       phonetic: input.phonetic?.trim(),
       morphemes: input.morphemes?.map((m) => m.trim()).filter(Boolean),
-      example: input.example?.trim(),
+      example: type === 'cloze' ? input.term.trim() : input.example?.trim(),
       exampleCn: input.exampleCn?.trim(),
     },
     back: {
@@ -106,6 +135,7 @@ export function convertToCreateCardInput(input: BulkCardInput): CreateCardInput
       notes: input.notes?.trim(),
     },
     tags: input.tags?.map((t) => t.trim()).filter(Boolean),
+    directions: input.directions,
   };
 }
 
@@ -140,6 +170,10 @@ export function buildTermIndex(existingCards: Card[]): Map<string, Card> {
   const sortedCards = [...existingCards].sort((a, b) => a.version - b.version);
 
   for (const card of sortedCards) {
+    // Cloze cards are matched by sentence instead (see buildClozeIndex)
+    if (card.type === 'cloze') {
+      continue;
+    }
     if (card.deleted) {
       termIndex.delete(normalizeTerm(card.front.term));
     } else {
@@ -150,6 +184,28 @@ export function buildTermIndex(existingCards: Card[]): Map<string, Card> {
   return termIndex;
 }
 
+/**
+ * Group the latest live cloze cards by normalized sentence, for duplicate detection
+ */
+export function buildClozeIndex(existingCards: Card[]): Map<string, Card[]> {
+  const latest = new Map<string, Card>();
+  for (const card of existingCards) {
+    const existing = latest.get(card.id);
+    if (card.type === 'cloze' && (!existing || card.version > existing.version)) {
+      latest.set(card.id, card);
+    }
+  }
+
+  const clozeIndex = new Map<string, Card[]>();
+  for (const card of latest.values()) {
+    if (!card.deleted) {
+      const key = normalizeTerm(card.front.example ?? '');
+      clozeIndex.set(key, [...(clozeIndex.get(key) ?? []), card]);
+    }
+  }
+  return clozeIndex;
+}
+
 /**
  * Normalize a term for comparison (lowercase, trim whitespace)
  */
@@ -159,19 +215,25 @@ export function normalizeTerm(term: string): string {
 
 /**
  * Process bulk import and return cards to be written
- * Returns new cards and updated cards separately
+ * Returns new cards and updated cards separately, and the decks to create
+ * for deck names that do not exist yet
  */
 export function processBulkImport(
   template: BulkImportTemplate,
-  existingCards: Card[]
+  existingCards: Card[],
+  existingDecks: Deck[] = []
 ): {
   newCards: Card[];
   updatedCards: Card[];
+  newDecks: Deck[];
   result: BulkImportResult;
 } {
   const termIndex = buildTermIndex(existingCards);
+  const clozeIndex = buildClozeIndex(existingCards);
+  const decks = [...getLatestDecks(existingDecks).values()];
   const newCards: Card[] = [];
   const updatedCards: Card[] = [];
+  const newDecks: Deck[] = [];
   const result: BulkImportResult = {
     imported: 0,
     updated: 0,
@@ -191,39 +253,47 @@ export function processBulkImport(
     }
 
     const normalizedTerm = normalizeTerm(input.term);
+    const deckName = input.deck ?? template.deck;
+    let deckId: string | undefined;
+    if (deckName) {
+      let deck = findDeckByName(decks, deckName);
+      if (!deck) {
+        deck = createDeck({ name: deckName.trim() });
+        decks.push(deck);
+        newDecks.push(deck);
+      }
+      deckId = deck.id;
+    }
+
+    if ((input.type ?? inferCardType(input.term)) === 'cloze') {
+      const siblings = clozeIndex.get(normalizedTerm);
+      if (siblings) {
+        // Existing sentence: overwrite the shared back and tags of every sibling
+        const updated = siblings.map((card) => updateImportedCard(card, input, deckId));
+        updatedCards.push(...updated);
+        clozeIndex.set(normalizedTerm, updated);
+        result.updated += updated.length;
+      } else {
+        const created = createClozeCards({ ...convertToCreateCardInput(input), deckId });
+        newCards.push(...created);
+        clozeIndex.set(normalizedTerm, created);
+        result.imported += created.length;
+      }
+      continue;
+    }
+
     const existingCard = termIndex.get(normalizedTerm);
 
     if (existingCard) {
       // Update existing card (overwrite strategy)
-      const updatedCard = updateCard(existingCard, {
-        back: {
-          translation: input.translation?.trim(),
-          explanation: input.explanation?.trim(),
-          explanationCn: input.explanationCn?.trim(),
-          synonyms: input.synonyms?.map((s) => s.trim()).filter(Boolean),
-          antonyms: input.antonyms?.map((a) => a.trim()).filter(Boolean),
-          notes: input.notes?.trim(),
-        },
-        tags: input.tags?.map((t) => t.trim()).filter(Boolean),
-      });
-
-      // Also update front fields if provided
-      if (input.phonetic || input.example || input.exampleCn) {
-        updatedCard.front = {
-          ...updatedCard.front,
-          phonetic: input.phonetic?.trim() ?? updatedCard.front.phonetic,
-          example: input.example?.trim() ?? updatedCard.front.example,
-          exampleCn: input.exampleCn?.trim() ?? updatedCard.front.exampleCn,
-        };
-      }
-
+      const updatedCard = updateImportedCard(existingCard, input, deckId);
       updatedCards.push(updatedCard);
       termIndex.set(normalizedTerm, updatedCard);
       result.updated++;
     } else {
       // Create new card
       const createInput = convertToCreateCardInput(input);
-      const newCard = createCard(createInput);
+      const newCard = createCard({ ...createInput, deckId });
 
       newCards.push(newCard);
       termIndex.set(normalizedTerm, newCard);
@@ -231,7 +301,40 @@ export function processBulkImport(
     }
   }
 
-  return { newCards, updatedCards, result };
+  return { newCards, updatedCards, newDecks, result };
+}
+
+/**
+ * Overwrite an existing card with the fields of an imported one,
+ * moving it to the import's deck when one is named
+ */
+function updateImportedCard(existingCard: Card, input: BulkCardInput, deckId?: string): Card {
+  const updatedCard = updateCard(existingCard, {
+    back: {
+      translation: input.translation?.trim(),
+      explanation: input.explanation?.trim(),
+      explanationCn: input.explanationCn?.trim(),
+      synonyms: input.synonyms?.map((s) => s.trim()).filter(Boolean),
+      antonyms: input.antonyms?.map((a) => a.trim()).filter(Boolean),
+      notes: input.notes?.trim(),
+    },
+    tags: input.tags?.map((t) => t.trim()).filter(Boolean),
+    directions: input.directions,
+    deckId,
+  });
+
+  // Also update front fields if provided (a cloze card's example is its sentence)
+  const example = existingCard.type === 'cloze' ? undefined : input.example;
+  if (input.phonetic || example || input.exampleCn) {
+    updatedCard.front = {
+      ...updatedCard.front,
+      phonetic: input.phonetic?.trim() ?? updatedCard.front.phonetic,
+      example: example?.trim() ?? updatedCard.front.example,
+      exampleCn: input.exampleCn?.trim() ?? updatedCard.front.exampleCn,
+    };
+  }
+
+  return updatedCard;
 }
 
 /**
@@ -273,6 +376,7 @@ export function generateSampleTemplate(): BulkImportTemplate {
         synonyms: ['luck', 'fortune'],
         antonyms: ['misfortune', 'bad luck'],
         tags: ['vocabulary', 'noun', 'positive'],
+        directions: 'both',
         notes: '这个词由英国作家 Horace Walpole 于1754年创造，源自波斯童话《锡兰三王子》(The Three Princes of Serendip)。',
       },
       {
@@ -427,6 +531,17 @@ export function generateSampleTemplate(): BulkImportTemplate {
         notes: '这是一条关于风险管理的智慧，源自农业时代。现在广泛用于投资和商业决策领域。',
       },
 
+      // ============================================
+      // Cloze Example (type: 'cloze')
+      // ============================================
+      {
+        term: 'Fame in the internet age is often {{c1::ephemeral}}, but {{c2::reputation::noun}} lasts.',
+        // type: auto-inferred as 'cloze' from the {{c1::...}} markers
+        // Each cN becomes its own card, shown with that part blanked out
+        translation: '在互联网时代，名声往往是短暂的，但声誉却能长久。',
+        tags: ['cloze'],
+      },
+
       // ============================================
       // Minimal Example (only required field)
       // ============================================
@@ -459,6 +574,7 @@ export function generateEmptyTemplate(): BulkImportTemplate {
         // antonyms: [],
         // notes: '',
         // tags: [],
+        // deck: '', // Optional: deck name, created if missing
       },
     ],
   };
@@ -0,0 +1,127 @@
+// Storage module - Card editing from the UI
+// PURE MODULE: No vscode imports allowed
+
+import type { Card, CardBack, CardEditInput } from './schema';
+import { updateCard } from './schema';
+import { CARD_DIRECTIONS, isCardDirections } from './directions';
+
+const FRONT_STRING_FIELDS = ['term', 'phonetic', 'example', 'exampleCn'] as const;
+const FRONT_LIST_FIELDS = ['morphemes'] as const;
+const BACK_STRING_FIELDS = ['translation', 'explanation', 'explanationCn', 'notes'] as const;
+const BACK_LIST_FIELDS = ['synonyms', 'antonyms'] as const;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function checkFields(
+  obj: Record<string, unknown>,
+  stringFields: readonly string[],
+  listFields: readonly string[]
+): string | null {
+  for (const field of stringFields) {
+    if (obj[field] !== undefined && typeof obj[field] !== 'string') {
+      return `'${field}' must be a string`;
+    }
+  }
+  for (const field of listFields) {
+    if (obj[field] !== undefined && !isStringArray(obj[field])) {
+      return `'${field}' must be an array of strings`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a card edit submitted by a webview
+ * Returns error message if invalid, null if valid
+ */
+export function validateCardEdit(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Edit must be an object';
+  }
+
+  const edit = input as Record<string, unknown>;
+
+  if (!edit.front || typeof edit.front !== 'object') {
+    return "'front' is required and must be an object";
+  }
+
+  const front = edit.front as Record<string, unknown>;
+  if (typeof front.term !== 'string' || !front.term.trim()) {
+    return "'term' is required and must be a non-empty string";
+  }
+
+  const frontError = checkFields(front, FRONT_STRING_FIELDS, FRONT_LIST_FIELDS);
+  if (frontError) {
+    return frontError;
+  }
+
+  if (edit.back !== undefined) {
+    if (!edit.back || typeof edit.back !== 'object') {
+      return "'back' must be an object";
+    }
+    const backError = checkFields(
+      edit.back as Record<string, unknown>,
+      BACK_STRING_FIELDS,
+      BACK_LIST_FIELDS
+    );
+    if (backError) {
+      return backError;
+    }
+  }
+
+  if (edit.tags !== undefined && !isStringArray(edit.tags)) {
+    return "'tags' must be an array of strings";
+  }
+
+  if (edit.directions !== undefined && !isCardDirections(edit.directions)) {
+    return `'directions' must be one of: ${CARD_DIRECTIONS.join(', ')}`;
+  }
+
+  return null;
+}
+
+function cleanText(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function cleanList(values: string[] | undefined): string[] | undefined {
+  const cleaned = (values ?? []).map((v) => v.trim()).filter((v) => v.length > 0);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+/**
+ * Apply a validated edit to a card, producing the next card version.
+ * Text is trimmed and empty values clear the field.
+ */
+export function applyCardEdit(card: Card, edit: CardEditInput): Card {
+  const back: CardBack = edit.back ?? {};
+
+  const updated = updateCard(card, {
+    front: {
+      term: edit.front.term.trim(),
+      phonetic: cleanText(edit.front.phonetic),
+      morphemes: cleanList(edit.front.morphemes),
+      example: cleanText(edit.front.example),
+      exampleCn: cleanText(edit.front.exampleCn),
+    },
+    back: {
+      translation: cleanText(back.translation),
+      explanation: cleanText(back.explanation),
+      explanationCn: cleanText(back.explanationCn),
+      synonyms: cleanList(back.synonyms),
+      antonyms: cleanList(back.antonyms),
+      notes: cleanText(back.notes),
+    },
+  });
+
+  // updateCard keeps tags and directions when given undefined, so clearing them
+  // is applied here (forward is the default and is not stored)
+  return {
+    ...updated,
+    tags: cleanList(edit.tags),
+    directions: edit.directions === 'forward' ? undefined : edit.directions,
+  };
+}
@@ -0,0 +1,99 @@
+// Storage module - Card revision history derived from cards.jsonl
+// PURE MODULE: No vscode imports allowed
+
+import type { Card, CardFieldChange, CardRevision } from './schema';
+
+/**
+ * Card fields shown in a revision diff, with their display labels
+ */
+const HISTORY_FIELDS: Array<[string, (card: Card) => unknown]> = [
+  ['Term', (card) => card.front.term],
+  ['Phonetic', (card) => card.front.phonetic],
+  ['Morphemes', (card) => card.front.morphemes],
+  ['Example', (card) => card.front.example],
+  ['Example (CN)', (card) => card.front.exampleCn],
+  ['Translation', (card) => card.back?.translation],
+  ['Explanation', (card) => card.back?.explanation],
+  ['Explanation (CN)', (card) => card.back?.explanationCn],
+  ['Synonyms', (card) => card.back?.synonyms],
+  ['Antonyms', (card) => card.back?.antonyms],
+  ['Notes', (card) => card.back?.notes],
+  ['Tags', (card) => card.tags],
+  ['Directions', (card) => card.directions],
+  ['Deleted', (card) => (card.deleted ? 'yes' : undefined)],
+];
+
+function formatValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : undefined;
+  }
+  if (typeof value === 'string') {
+    return value.length > 0 ? value : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * All stored versions of a card, oldest first.
+ * If a version was written more than once, the last line wins (same as the indexer).
+ */
+export function getCardVersions(cards: Card[], cardId: string): Card[] {
+  const byVersion = new Map<number, Card>();
+  for (const card of cards) {
+    if (card.id === cardId) {
+      byVersion.set(card.version, card);
+    }
+  }
+  return [...byVersion.values()].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Field-level changes between two versions of a card.
+ * Without a previous version every non-empty field counts as added.
+ */
+export function diffCardVersions(before: Card | undefined, after: Card): CardFieldChange[] {
+  const changes: CardFieldChange[] = [];
+
+  for (const [field, read] of HISTORY_FIELDS) {
+    const oldValue = before ? formatValue(read(before)) : undefined;
+    const newValue = formatValue(read(after));
+    if (oldValue !== newValue) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Revision history of a card, newest first, each with its diff against the previous version
+ */
+export function buildCardHistory(cards: Card[], cardId: string): CardRevision[] {
+  const versions = getCardVersions(cards, cardId);
+
+  return versions
+    .map((card, i) => ({
+      version: card.version,
+      updatedAt: card.updatedAt,
+      card,
+      changes: diffCardVersions(versions[i - 1], card),
+    }))
+    .reverse();
+}
+
+/**
+ * Create a new version of a card that restores the content of an earlier version.
+ * History is never rewritten: the revert is appended as the next version.
+ */
+export function revertCardToVersion(current: Card, target: Card): Card {
+  return {
+    ...current,
+    type: target.type,
+    front: target.front,
+    back: target.back,
+    tags: target.tags,
+    directions: target.directions,
+    updatedAt: Date.now(),
+    version: current.version + 1,
+  };
+}
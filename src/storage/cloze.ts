@@ -0,0 +1,177 @@
+// Storage module - Cloze deletion cards
+// PURE MODULE: No vscode imports allowed
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Card, CardEditInput, CreateCardInput } from './schema';
+import { createCard, updateCard } from './schema';
+
+/**
+ * One {{cN::answer}} or {{cN::answer::hint}} marker
+ */
+export interface ClozeDeletion {
+  index: number;
+  answer: string;
+  hint?: string;
+}
+
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+/**
+ * Every cloze marker in a sentence, in order of appearance
+ */
+export function parseClozeDeletions(text: string): ClozeDeletion[] {
+  const deletions: ClozeDeletion[] = [];
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = Number(match[1]);
+    if (index > 0) {
+      deletions.push({ index, answer: match[2], hint: match[3] || undefined });
+    }
+  }
+  return deletions;
+}
+
+/**
+ * Distinct cloze numbers in a sentence, ascending
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set(parseClozeDeletions(text).map((deletion) => deletion.index));
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Answer of one cloze number; deletions sharing a number are joined
+ */
+export function getClozeAnswer(text: string, index: number): string {
+  return parseClozeDeletions(text)
+    .filter((deletion) => deletion.index === index)
+    .map((deletion) => deletion.answer.trim())
+    .join(' … ');
+}
+
+/**
+ * The sentence with every marker replaced by its answer
+ */
+export function stripClozeMarkers(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _index: string, answer: string) => answer);
+}
+
+/**
+ * Create one sibling card per cloze number in front.example.
+ * Each card's term is the answer it blanks out. Returns [] without markers.
+ */
+export function createClozeCards(input: CreateCardInput): Card[] {
+  const text = input.front.example ?? '';
+  const noteId = uuidv4();
+
+  return getClozeIndices(text).map((index) => ({
+    ...createCard({
+      ...input,
+      type: 'cloze',
+      front: { ...input.front, term: getClozeAnswer(text, index) },
+    }),
+    cloze: { noteId, index },
+  }));
+}
+
+/**
+ * Other live cards generated from the same cloze sentence
+ */
+export function getClozeSiblings(card: Card, cards: Iterable<Card>): Card[] {
+  const noteId = card.cloze?.noteId;
+  if (!noteId) {
+    return [];
+  }
+  return [...cards].filter(
+    (other) => other.cloze?.noteId === noteId && other.id !== card.id && !other.deleted
+  );
+}
+
+/**
+ * Check that an edit keeps a cloze card's own deletion in the sentence
+ * Returns error message if invalid, null if valid
+ */
+export function validateClozeEdit(card: Card, edit: CardEditInput): string | null {
+  if (!card.cloze) {
+    return null;
+  }
+  const indices = getClozeIndices(edit.front.example ?? '');
+  if (indices.length === 0) {
+    return 'Cloze cards need {{c1::...}} markers in the example';
+  }
+  if (!indices.includes(card.cloze.index)) {
+    return `The example no longer contains {{c${card.cloze.index}::...}}`;
+  }
+  return null;
+}
+
+/**
+ * Carry an edited cloze card's sentence, translation and tags over to its
+ * siblings: siblings get new versions, added deletions get new cards and
+ * removed deletions are deleted. The edited card's term follows its answer.
+ * Returns every card version to append, the edited card first.
+ */
+export function syncClozeNote(edited: Card, cards: Iterable<Card>): Card[] {
+  if (!edited.cloze) {
+    return [edited];
+  }
+
+  const text = edited.front.example ?? '';
+  const term = getClozeAnswer(text, edited.cloze.index) || edited.front.term;
+  const result: Card[] = [{ ...edited, front: { ...edited.front, term } }];
+  const indices = new Set(getClozeIndices(text));
+  indices.delete(edited.cloze.index);
+
+  for (const sibling of getClozeSiblings(edited, cards)) {
+    const index = sibling.cloze?.index ?? 0;
+    if (!indices.delete(index)) {
+      result.push(updateCard(sibling, { deleted: true }));
+    } else if (!sharesNoteFields(sibling, edited)) {
+      const updated = updateCard(sibling, {
+        front: {
+          term: getClozeAnswer(text, index),
+          example: text,
+          exampleCn: edited.front.exampleCn,
+        },
+      });
+      result.push({ ...updated, back: edited.back, tags: edited.tags });
+    }
+  }
+
+  for (const index of indices) {
+    const card = createCard({
+      type: 'cloze',
+      front: {
+        term: getClozeAnswer(text, index),
+        example: text,
+        exampleCn: edited.front.exampleCn,
+      },
+      back: edited.back,
+      tags: edited.tags,
+      deckId: edited.deckId,
+    });
+    result.push({ ...card, cloze: { noteId: edited.cloze.noteId, index } });
+  }
+
+  return result;
+}
+
+// Sentence, sentence translation, back and tags are shared by all siblings
+function sharesNoteFields(sibling: Card, edited: Card): boolean {
+  return (
+    sibling.front.example === edited.front.example &&
+    sibling.front.exampleCn === edited.front.exampleCn &&
+    sameValues(sibling.back, edited.back) &&
+    sameValues(sibling.tags, edited.tags)
+  );
+}
+
+// Compares ignoring key order and undefined values
+function sameValues(a: object | undefined, b: object | undefined): boolean {
+  const normalize = (value: object | undefined) =>
+    JSON.stringify(
+      Object.entries(value ?? {})
+        .filter(([, v]) => v !== undefined)
+        .sort(([x], [y]) => x.localeCompare(y))
+    );
+  return normalize(a) === normalize(b);
+}
@@ -0,0 +1,187 @@
+// Storage module - Decks: named groups of cards with their own study settings
+// PURE MODULE: No vscode imports allowed
+
+import type { Card, CardIndex, Deck, DeckStats, LogEvent } from './schema';
+import { getEffectiveReviewEvents } from './indexer';
+import { getEventReviewKey } from './directions';
+import {
+  DEFAULT_DAY_ROLLOVER_HOUR,
+  DEFAULT_DECK_ID,
+  DEFAULT_DECK_NAME,
+} from '../common/constants';
+import { getDayStart } from '../common/days';
+
+/**
+ * The built-in deck of cards without a deckId, until decks.jsonl stores
+ * settings for it
+ */
+export function createDefaultDeck(): Deck {
+  return {
+    id: DEFAULT_DECK_ID,
+    name: DEFAULT_DECK_NAME,
+    createdAt: 0,
+    updatedAt: 0,
+    version: 0,
+  };
+}
+
+/**
+ * Latest version of each deck by id, the default deck first
+ */
+export function getLatestDecks(decks: Deck[]): Map<string, Deck> {
+  const latest = new Map<string, Deck>([[DEFAULT_DECK_ID, createDefaultDeck()]]);
+  for (const deck of decks) {
+    const existing = latest.get(deck.id);
+    if (!existing || deck.version >= existing.version) {
+      latest.set(deck.id, deck);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Deck a card belongs to; cards naming an unknown deck fall back to the default deck
+ */
+export function getCardDeckId(card: Card, decks: Map<string, Deck>): string {
+  return card.deckId && decks.has(card.deckId) ? card.deckId : DEFAULT_DECK_ID;
+}
+
+/**
+ * Find a deck by name (case-insensitive)
+ */
+export function findDeckByName(decks: Iterable<Deck>, name: string): Deck | undefined {
+  const normalized = name.trim().toLowerCase();
+  for (const deck of decks) {
+    if (deck.name.trim().toLowerCase() === normalized) {
+      return deck;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validate a deck name against the existing decks
+ * Returns error message if invalid, null if valid
+ */
+export function validateDeckName(
+  name: string,
+  decks: Iterable<Deck>,
+  deckId?: string
+): string | null {
+  if (!name.trim()) {
+    return 'Deck name is required';
+  }
+  const existing = findDeckByName(decks, name);
+  if (existing && existing.id !== deckId) {
+    return `A deck named "${existing.name}" already exists`;
+  }
+  return null;
+}
+
+/**
+ * Number of new reviews learned since the start of the study day, per deck.
+ * A review key counts once, on the day of its first review since its last reset.
+ * Dictation has its own schedule, so it counts dictation reviews only and
+ * recognition counts every other review.
+ */
+export function countNewCardsToday(
+  cards: Map<string, Card>,
+  decks: Map<string, Deck>,
+  events: LogEvent[],
+  now: number,
+  dictation = false,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): Map<string, number> {
+  const dayStart = getDayStart(now, rolloverHour);
+  const counts = new Map<string, number>();
+  for (const { cardId, firstTs } of getReviewSpans(events, dictation).values()) {
+    const card = cards.get(cardId);
+    if (card && firstTs >= dayStart) {
+      const deckId = getCardDeckId(card, decks);
+      counts.set(deckId, (counts.get(deckId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Number of review keys studied before today that were reviewed again today,
+ * counted against the daily review limit. Dictation is counted apart as in
+ * countNewCardsToday.
+ */
+export function countReviewsToday(
+  cards: Map<string, Card>,
+  events: LogEvent[],
+  now: number,
+  dictation = false,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): number {
+  const dayStart = getDayStart(now, rolloverHour);
+  let count = 0;
+  for (const { cardId, firstTs, lastTs } of getReviewSpans(events, dictation).values()) {
+    if (cards.has(cardId) && firstTs < dayStart && lastTs >= dayStart) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * First and last effective review of each review key
+ */
+function getReviewSpans(
+  events: LogEvent[],
+  dictation: boolean
+): Map<string, { cardId: string; firstTs: number; lastTs: number }> {
+  const spans = new Map<string, { cardId: string; firstTs: number; lastTs: number }>();
+  for (const event of getEffectiveReviewEvents(events)) {
+    if ((event.mode === 'dictation') !== dictation) {
+      continue;
+    }
+    const key = getEventReviewKey(event);
+    const span = spans.get(key);
+    if (!span) {
+      spans.set(key, { cardId: event.cardId, firstTs: event.ts, lastTs: event.ts });
+    } else {
+      span.firstTs = Math.min(span.firstTs, event.ts);
+      span.lastTs = Math.max(span.lastTs, event.ts);
+    }
+  }
+  return spans;
+}
+
+/**
+ * Card, due and new counts of every deck, in deck order
+ */
+export function calculateDeckStats(index: CardIndex, decks: Map<string, Deck>): DeckStats[] {
+  const stats = new Map<string, DeckStats>();
+  for (const deck of decks.values()) {
+    stats.set(deck.id, {
+      deckId: deck.id,
+      name: deck.name,
+      totalCards: 0,
+      dueCards: 0,
+      newCards: 0,
+    });
+  }
+
+  const count = (cardId: string | undefined, field: 'totalCards' | 'dueCards' | 'newCards') => {
+    const card = cardId ? index.cards.get(cardId) : undefined;
+    const deck = card && stats.get(getCardDeckId(card, decks));
+    if (deck) {
+      deck[field]++;
+    }
+  };
+
+  for (const card of index.cards.values()) {
+    count(card.id, 'totalCards');
+  }
+  for (const key of index.dueCards) {
+    count(index.srsStates.get(key)?.cardId, 'dueCards');
+  }
+  for (const key of index.newCards) {
+    count(index.srsStates.get(key)?.cardId, 'newCards');
+  }
+
+  return [...stats.values()];
+}
@@ -0,0 +1,77 @@
+// Storage module - Review directions (forward and reverse recall)
+// PURE MODULE: No vscode imports allowed
+
+import type {
+  Card,
+  CardDirection,
+  CardDirections,
+  CardIndex,
+  ReviewEvent,
+  SrsState,
+} from './schema';
+
+export const CARD_DIRECTIONS: readonly CardDirections[] = ['forward', 'reverse', 'both'];
+
+const REVERSE_KEY_SUFFIX = '::reverse';
+const DICTATION_KEY_SUFFIX = '::dictation';
+
+/**
+ * Check if a value is a valid directions setting
+ */
+export function isCardDirections(value: unknown): value is CardDirections {
+  return typeof value === 'string' && (CARD_DIRECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a card has something to show on the front of its reverse direction
+ */
+export function hasReverseContent(card: Card): boolean {
+  return !!(card.back?.translation?.trim() || card.back?.explanation?.trim());
+}
+
+/**
+ * Directions a card is scheduled in, forward first.
+ * Cloze cards and cards without a translation or explanation are forward only.
+ */
+export function getCardDirections(card: Card): CardDirection[] {
+  const directions = card.directions ?? 'forward';
+  if (directions === 'forward' || card.type === 'cloze' || !hasReverseContent(card)) {
+    return ['forward'];
+  }
+  return directions === 'both' ? ['forward', 'reverse'] : ['reverse'];
+}
+
+/**
+ * Key of one direction of a card in CardIndex.
+ * The forward direction is keyed by the card id alone, so forward-only
+ * collections index exactly as before directions existed.
+ */
+export function getReviewKey(cardId: string, direction: CardDirection = 'forward'): string {
+  return direction === 'reverse' ? cardId + REVERSE_KEY_SUFFIX : cardId;
+}
+
+/**
+ * Key of a card's spelling dictation schedule, kept apart from its directions
+ */
+export function getDictationKey(cardId: string): string {
+  return cardId + DICTATION_KEY_SUFFIX;
+}
+
+/**
+ * Review key of the direction a review event was made in, or of the
+ * dictation schedule for dictation reviews
+ */
+export function getEventReviewKey(event: ReviewEvent): string {
+  if (event.mode === 'dictation') {
+    return getDictationKey(event.cardId);
+  }
+  return getReviewKey(event.cardId, event.direction);
+}
+
+/**
+ * The state shown for a card as a whole: its forward direction, or its
+ * reverse direction when the card is reviewed in reverse only
+ */
+export function getCardSrsState(index: CardIndex, cardId: string): SrsState | undefined {
+  return index.srsStates.get(cardId) ?? index.srsStates.get(getReviewKey(cardId, 'reverse'));
+}
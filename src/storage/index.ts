@@ -3,3 +3,11 @@ export * from './storage';
 export * from './indexer';
 export * from './bulkImport';
 export * from './stats';
+export * from './cardEdit';
+export * from './cardHistory';
+export * from './reviewTimeline';
+export * from './browse';
+export * from './leech';
+export * from './cloze';
+export * from './directions';
+export * from './decks';
@@ -1,51 +1,98 @@
 // Storage module - Rebuild index from events (event sourcing)
 // PURE MODULE: No vscode imports allowed
 
-import type { Card, CardIndex, ReviewEvent, SrsState } from './schema';
-import { calculateNextState, createInitialSrsState } from '../srs/sm2';
+import type { Card, CardDirection, CardIndex, LogEvent, ReviewEvent, SrsState } from './schema';
+import { getCardDirections, getDictationKey, getEventReviewKey, getReviewKey } from './directions';
+import type { SchedulingAlgorithm } from '../srs/algorithm';
+import { sm2Algorithm } from '../srs/sm2';
+import { updateDueLoad, type DueLoad } from '../srs/loadBalance';
+import { DEFAULT_LEECH_THRESHOLD } from '../common/constants';
 
 export { INDEXER_VERSION } from '../common/constants';
 
+/**
+ * Options for building an index
+ */
+export interface IndexOptions {
+  /** Lapses at which a card is marked as a leech (0 disables leech detection) */
+  leechThreshold?: number;
+  /**
+   * Build the spelling dictation schedule instead: one state per card (cloze
+   * cards excluded) keyed by the card id, replaying dictation reviews only
+   */
+  dictation?: boolean;
+}
+
 /**
  * Build an index from raw cards and events.
  * - Deduplicates cards by taking the latest version
  * - Excludes soft-deleted cards
- * - Computes SRS state from review events
+ * - Skips reviews cancelled by undo events or reset events
+ * - Schedules each review direction of a card separately, keyed by getReviewKey
+ * - Leaves dictation reviews out unless building the dictation schedule
+ * - Keeps suspended and buried cards (with their progress) out of the due and new lists
+ * - Computes SRS state by replaying review events through the scheduling algorithm,
+ *   spreading due dates over the forecast load when the algorithm supports it
  * - Categorizes cards into due and new
+ * - Marks cards whose lapses reach the leech threshold as leeches
+ *
+ * SrsState is never persisted as a source of truth, so changing the algorithm
+ * simply re-derives every state from the same event history.
  */
-export function buildIndex(cards: Card[], events: ReviewEvent[]): CardIndex {
+export function buildIndex(
+  cards: Card[],
+  events: LogEvent[],
+  algorithm: SchedulingAlgorithm = sm2Algorithm,
+  options: IndexOptions = {}
+): CardIndex {
   const now = Date.now();
+  const { leechThreshold = DEFAULT_LEECH_THRESHOLD, dictation = false } = options;
 
   // Step 1: Get latest version of each card, excluding deleted
   const latestCards = getLatestCards(cards);
 
-  // Step 2: Group events by cardId and sort by timestamp
-  const eventsByCard = groupEventsByCard(events);
+  // Step 2: Group events by review key and sort by timestamp
+  const eventsByKey = groupEventsByReviewKey(getEffectiveReviewEvents(events));
+
+  // Step 3: Compute SRS state for each direction of each card
+  const reviewKeys: ReviewKeyEvents[] = [];
+  for (const [cardId, card] of latestCards) {
+    for (const direction of getIndexedDirections(card, dictation)) {
+      const key = getReviewKey(cardId, direction);
+      const events = eventsByKey.get(dictation ? getDictationKey(cardId) : key) || [];
+      reviewKeys.push({ key, card, direction, events });
+    }
+  }
+  const replayedStates = replayReviewKeys(reviewKeys, algorithm);
 
-  // Step 3: Compute SRS state for each card
   const srsStates = new Map<string, SrsState>();
   const dueCards: string[] = [];
   const newCards: string[] = [];
 
-  for (const [cardId, card] of latestCards) {
-    const cardEvents = eventsByCard.get(cardId) || [];
-
-    if (cardEvents.length === 0) {
+  for (const { key, card, direction } of reviewKeys) {
+    let srsState = replayedStates.get(key);
+    if (!srsState) {
       // New card - never reviewed
-      const initialState = createInitialSrsState(cardId);
-      initialState.dueAt = card.createdAt; // Due immediately
-      srsStates.set(cardId, initialState);
-      newCards.push(cardId);
+      srsState = algorithm.createInitialState(card.id);
+      srsState.dueAt = card.createdAt; // Due immediately
+      if (isCardAvailable(card, now)) {
+        newCards.push(key);
+      }
     } else {
-      // Compute SRS state by replaying events
-      const srsState = computeSrsStateFromEvents(cardId, cardEvents);
-      srsStates.set(cardId, srsState);
+      if (leechThreshold > 0 && srsState.lapses >= leechThreshold) {
+        srsState.leech = true;
+      }
 
       // Check if due
-      if (srsState.dueAt <= now) {
-        dueCards.push(cardId);
+      if (srsState.dueAt <= now && isCardAvailable(card, now)) {
+        dueCards.push(key);
       }
     }
+
+    if (direction === 'reverse') {
+      srsState.direction = direction;
+    }
+    srsStates.set(key, srsState);
   }
 
   // Sort dueCards by dueAt (earliest first)
@@ -57,8 +104,8 @@ export function buildIndex(cards: Card[], events: ReviewEvent[]): CardIndex {
 
   // Sort newCards by createdAt (oldest first)
   newCards.sort((a, b) => {
-    const cardA = latestCards.get(a);
-    const cardB = latestCards.get(b);
+    const cardA = latestCards.get(srsStates.get(a)?.cardId ?? a);
+    const cardB = latestCards.get(srsStates.get(b)?.cardId ?? b);
     return (cardA?.createdAt || 0) - (cardB?.createdAt || 0);
   });
 
@@ -71,14 +118,44 @@ export function buildIndex(cards: Card[], events: ReviewEvent[]): CardIndex {
 }
 
 /**
- * Get cards that are due for review
+ * Whether a card may be scheduled: neither suspended nor buried past `now`
+ */
+export function isCardAvailable(card: Card, now: number): boolean {
+  return !card.suspended && !(card.buriedUntil !== undefined && card.buriedUntil > now);
+}
+
+/**
+ * Get the review events that still count, dropping undo events and the
+ * reviews they cancel, and reviews made before the card's latest reset
+ */
+export function getEffectiveReviewEvents(events: LogEvent[]): ReviewEvent[] {
+  const undoneIds = new Set<string>();
+  const resetAt = new Map<string, number>();
+  for (const event of events) {
+    if (event.kind === 'undo') {
+      undoneIds.add(event.targetEventId);
+    } else if (event.kind === 'reset') {
+      resetAt.set(event.cardId, Math.max(resetAt.get(event.cardId) ?? 0, event.ts));
+    }
+  }
+
+  return events.filter(
+    (event): event is ReviewEvent =>
+      event.kind === 'review' &&
+      !undoneIds.has(event.id) &&
+      event.ts > (resetAt.get(event.cardId) ?? -Infinity)
+  );
+}
+
+/**
+ * Get cards whose forward direction is due for review
  */
 export function getDueCards(index: CardIndex, now: number): Card[] {
   const dueCards: Card[] = [];
 
   for (const [cardId, card] of index.cards) {
     const srs = index.srsStates.get(cardId);
-    if (srs && srs.dueAt <= now && srs.reps > 0) {
+    if (srs && srs.dueAt <= now && srs.phase !== 'new' && isCardAvailable(card, now)) {
       dueCards.push(card);
     }
   }
@@ -94,13 +171,13 @@ export function getDueCards(index: CardIndex, now: number): Card[] {
 }
 
 /**
- * Get cards that have never been reviewed (new cards)
+ * Get cards whose forward direction has never been reviewed (new cards)
  */
 export function getNewCards(index: CardIndex): Card[] {
   const newCards: Card[] = [];
 
-  for (const cardId of index.newCards) {
-    const card = index.cards.get(cardId);
+  for (const key of index.newCards) {
+    const card = index.cards.get(key);
     if (card) {
       newCards.push(card);
     }
@@ -115,7 +192,7 @@ export function getNewCards(index: CardIndex): Card[] {
 /**
  * Get the latest version of each card, excluding soft-deleted ones
  */
-function getLatestCards(cards: Card[]): Map<string, Card> {
+export function getLatestCards(cards: Card[]): Map<string, Card> {
   const latest = new Map<string, Card>();
 
   for (const card of cards) {
@@ -136,15 +213,26 @@ function getLatestCards(cards: Card[]): Map<string, Card> {
 }
 
 /**
- * Group events by cardId and sort by timestamp
+ * Directions to index for a card; the dictation schedule uses forward keys
+ */
+function getIndexedDirections(card: Card, dictation: boolean): CardDirection[] {
+  if (dictation) {
+    return card.type === 'cloze' ? [] : ['forward'];
+  }
+  return getCardDirections(card);
+}
+
+/**
+ * Group events by review key (card and direction) and sort by timestamp
  */
-function groupEventsByCard(events: ReviewEvent[]): Map<string, ReviewEvent[]> {
+function groupEventsByReviewKey(events: ReviewEvent[]): Map<string, ReviewEvent[]> {
   const grouped = new Map<string, ReviewEvent[]>();
 
   for (const event of events) {
-    const cardEvents = grouped.get(event.cardId) || [];
+    const key = getEventReviewKey(event);
+    const cardEvents = grouped.get(key) || [];
     cardEvents.push(event);
-    grouped.set(event.cardId, cardEvents);
+    grouped.set(key, cardEvents);
   }
 
   // Sort each group by timestamp
@@ -155,14 +243,75 @@ function groupEventsByCard(events: ReviewEvent[]): Map<string, ReviewEvent[]> {
   return grouped;
 }
 
+/**
+ * One review direction of a card with its review events in time order
+ */
+interface ReviewKeyEvents {
+  key: string;
+  card: Card;
+  direction: CardDirection;
+  events: ReviewEvent[];
+}
+
+/**
+ * Compute the SRS state of every reviewed key by replaying its events.
+ * When the algorithm spreads due dates, the reviews of all keys are replayed
+ * together in time order, so each due date is balanced against the load of
+ * the other reviews as it stood at the time. Suspended and deleted cards add no
+ * load. Balanced due dates are re-derived on every build, so deleting,
+ * suspending or importing cards, or undoing or resetting reviews, can move the
+ * due dates of other cards within their fuzz range.
+ */
+function replayReviewKeys(
+  reviewKeys: ReviewKeyEvents[],
+  algorithm: SchedulingAlgorithm
+): Map<string, SrsState> {
+  const states = new Map<string, SrsState>();
+  const { spreadDueAt } = algorithm;
+  if (!spreadDueAt) {
+    for (const { key, card, events } of reviewKeys) {
+      if (events.length > 0) {
+        states.set(key, computeSrsStateFromEvents(card.id, events, algorithm));
+      }
+    }
+    return states;
+  }
+
+  const reviews = reviewKeys
+    .flatMap(({ key, card, events }) => events.map((event) => ({ key, card, event })))
+    .sort((a, b) => a.event.ts - b.event.ts);
+  const load: DueLoad = new Map();
+  for (const { key, card, event } of reviews) {
+    const current = states.get(key) ?? algorithm.createInitialState(card.id);
+    if (!card.suspended) {
+      updateDueLoad(load, current, -1, algorithm.dayRolloverHour);
+    }
+    const next = spreadDueAt(
+      algorithm.calculateNextState(current, event.rating, event.ts),
+      event.ts,
+      load,
+      key
+    );
+    if (!card.suspended) {
+      updateDueLoad(load, next, 1, algorithm.dayRolloverHour);
+    }
+    states.set(key, next);
+  }
+  return states;
+}
+
 /**
  * Compute SRS state by replaying review events
  */
-function computeSrsStateFromEvents(cardId: string, events: ReviewEvent[]): SrsState {
-  let state = createInitialSrsState(cardId);
+function computeSrsStateFromEvents(
+  cardId: string,
+  events: ReviewEvent[],
+  algorithm: SchedulingAlgorithm
+): SrsState {
+  let state = algorithm.createInitialState(cardId);
 
   for (const event of events) {
-    state = calculateNextState(state, event.rating, event.ts);
+    state = algorithm.calculateNextState(state, event.rating, event.ts);
   }
 
   return state;
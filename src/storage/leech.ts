@@ -0,0 +1,108 @@
+// Storage module - Leech detection and reporting
+// PURE MODULE: No vscode imports allowed
+
+import type {
+  Card,
+  CardDirection,
+  CardIndex,
+  LeechReport,
+  ReviewEvent,
+  SrsState,
+} from './schema';
+import { updateCard } from './schema';
+import { getEventReviewKey, getReviewKey } from './directions';
+import type { SchedulingAlgorithm } from '../srs/algorithm';
+import { LEECH_TAG } from '../common/constants';
+
+/**
+ * What to do with a card when it becomes a leech
+ */
+export interface LeechOptions {
+  /** Lapses at which a card is marked as a leech (0 disables leech detection) */
+  threshold: number;
+  /** Suspend leeches in addition to tagging them */
+  autoSuspend: boolean;
+}
+
+/**
+ * Whether a review turned the card into a leech
+ */
+export function becameLeech(before: SrsState | undefined, after: SrsState | undefined): boolean {
+  return !before?.leech && !!after?.leech;
+}
+
+/**
+ * Tag a card as a leech (and suspend it if requested) as a new card version.
+ * Returns null when the card needs no change.
+ */
+export function markLeech(card: Card, autoSuspend: boolean): Card | null {
+  const tags = card.tags ?? [];
+  const needsTag = !tags.includes(LEECH_TAG);
+  const needsSuspend = autoSuspend && !card.suspended;
+  if (!needsTag && !needsSuspend) {
+    return null;
+  }
+
+  return updateCard(card, {
+    tags: needsTag ? [...tags, LEECH_TAG] : undefined,
+    suspended: needsSuspend ? true : undefined,
+  });
+}
+
+/**
+ * Times of the reviews that counted as lapses, found by replaying the effective
+ * review events of one direction of the card through the scheduling algorithm
+ */
+export function getLapseTimes(
+  cardId: string,
+  events: ReviewEvent[],
+  algorithm: SchedulingAlgorithm,
+  direction: CardDirection = 'forward'
+): number[] {
+  const key = getReviewKey(cardId, direction);
+  const cardEvents = events
+    .filter((e) => getEventReviewKey(e) === key)
+    .sort((a, b) => a.ts - b.ts);
+  const lapseTimes: number[] = [];
+
+  let state = algorithm.createInitialState(cardId);
+  for (const event of cardEvents) {
+    const next = algorithm.calculateNextState(state, event.rating, event.ts);
+    if (next.lapses > state.lapses) {
+      lapseTimes.push(event.ts);
+    }
+    state = next;
+  }
+
+  return lapseTimes;
+}
+
+/**
+ * List the leeches of an index, most lapses first
+ */
+export function buildLeechReport(
+  index: CardIndex,
+  events: ReviewEvent[],
+  algorithm: SchedulingAlgorithm
+): LeechReport[] {
+  const report: LeechReport[] = [];
+
+  for (const srs of index.srsStates.values()) {
+    const card = index.cards.get(srs.cardId);
+    if (!card || !srs.leech) {
+      continue;
+    }
+
+    report.push({
+      cardId: card.id,
+      direction: srs.direction,
+      term: card.front.term,
+      translation: card.back?.translation,
+      lapses: srs.lapses,
+      suspended: !!card.suspended,
+      lapseTimes: getLapseTimes(card.id, events, algorithm, srs.direction),
+    });
+  }
+
+  return report.sort((a, b) => b.lapses - a.lapses || a.term.localeCompare(b.term));
+}
@@ -0,0 +1,43 @@
+// Storage module - Review timeline of a card derived from events.jsonl
+// PURE MODULE: No vscode imports allowed
+
+import type { ReviewEvent, ReviewTimelineEntry, SrsState } from './schema';
+import { getEventReviewKey } from './directions';
+import type { SchedulingAlgorithm } from '../srs/algorithm';
+
+/**
+ * Every effective review of a card, oldest first, with the state it left the
+ * reviewed direction in. Each direction (and dictation) is replayed through
+ * the scheduling algorithm on its own, as the indexer does.
+ */
+export function getReviewTimeline(
+  cardId: string,
+  events: ReviewEvent[],
+  algorithm: SchedulingAlgorithm
+): ReviewTimelineEntry[] {
+  const cardEvents = events.filter((e) => e.cardId === cardId).sort((a, b) => a.ts - b.ts);
+  const states = new Map<string, SrsState>();
+  const timeline: ReviewTimelineEntry[] = [];
+
+  for (const event of cardEvents) {
+    const key = getEventReviewKey(event);
+    const state = states.get(key) ?? algorithm.createInitialState(cardId);
+    const next = algorithm.calculateNextState(state, event.rating, event.ts);
+    states.set(key, next);
+
+    timeline.push({
+      eventId: event.id,
+      ts: event.ts,
+      rating: event.rating,
+      mode: event.mode,
+      direction: event.direction === 'reverse' ? event.direction : undefined,
+      durationMs: event.durationMs,
+      intervalDays: next.intervalDays,
+      easeFactor: next.easeFactor,
+      phase: next.phase,
+      lapse: next.lapses > state.lapses,
+    });
+  }
+
+  return timeline;
+}
@@ -4,10 +4,27 @@
 
 import { v4 as uuidv4 } from 'uuid';
 
-export type CardType = 'word' | 'phrase' | 'sentence';
+export type CardType = 'word' | 'phrase' | 'sentence' | 'cloze';
 
 export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
 
+/**
+ * Which way a card is reviewed:
+ * - forward: show the term, recall its meaning
+ * - reverse: show the translation/explanation, recall the term
+ */
+export type CardDirection = 'forward' | 'reverse';
+
+/**
+ * Directions a card is reviewed in ('both' schedules each direction separately)
+ */
+export type CardDirections = CardDirection | 'both';
+
+/**
+ * How the flashcard panel picks and asks cards (see getSchedulerOptionsFromMode)
+ */
+export type StudyMode = 'loop' | 'studyUntilEmpty' | 'dueOnly' | 'quiz' | 'dictation';
+
 export interface CardContext {
   langId?: string;
   filePath?: string;
@@ -35,6 +52,16 @@ export interface CardBack {
   notes?: string;
 }
 
+/**
+ * Which deletion of a cloze sentence a card tests.
+ * Every deletion of the sentence gets its own card; they share a noteId.
+ */
+export interface ClozeRef {
+  noteId: string;
+  /** The N of the {{cN::...}} markers this card blanks out */
+  index: number;
+}
+
 export interface Card {
   id: string;
   type: CardType;
@@ -44,6 +71,32 @@ export interface Card {
   createdAt: number;
   updatedAt: number;
   deleted?: boolean;
+  /** Suspended cards keep their progress but are never scheduled */
+  suspended?: boolean;
+  /** Buried cards are hidden from scheduling until this time (ms) */
+  buriedUntil?: number;
+  /** Set on cloze cards; the sentence with its markers is front.example */
+  cloze?: ClozeRef;
+  /** Review directions (defaults to forward) */
+  directions?: CardDirections;
+  /** Deck the card belongs to (the default deck when omitted) */
+  deckId?: string;
+  version: number;
+}
+
+/**
+ * A named group of cards with its own study settings (decks.jsonl).
+ * Like cards, decks are versioned: the latest line for an id wins.
+ */
+export interface Deck {
+  id: string;
+  name: string;
+  /** New cards to learn per day (defaults to `wordslash.newCardsPerDay`) */
+  newCardsPerDay?: number;
+  /** Study mode used when the deck is opened (defaults to the panel's mode) */
+  studyMode?: StudyMode;
+  createdAt: number;
+  updatedAt: number;
   version: number;
 }
 
@@ -53,18 +106,87 @@ export interface ReviewEvent {
   ts: number;
   kind: 'review';
   rating: ReviewRating;
-  mode: 'flashcard' | 'quickpeek';
+  mode: 'flashcard' | 'quickpeek' | 'quiz' | 'dictation';
+  /** Time from showing the card to rating it */
   durationMs?: number;
+  /** Direction that was reviewed (omitted for forward) */
+  direction?: CardDirection;
+  /** What the learner typed before revealing the back (typed answer mode) */
+  typedAnswer?: string;
 }
 
+/**
+ * Tombstone that cancels an earlier review event.
+ * The event log stays append-only; the indexer skips undone reviews.
+ */
+export interface UndoEvent {
+  id: string;
+  cardId: string;
+  ts: number;
+  kind: 'undo';
+  /** Id of the ReviewEvent being undone */
+  targetEventId: string;
+}
+
+/**
+ * Marker that forgets a card's progress.
+ * Reviews of the card (in every direction) up to this point no longer count
+ * and it becomes new again.
+ */
+export interface ResetEvent {
+  id: string;
+  cardId: string;
+  ts: number;
+  kind: 'reset';
+}
+
+/**
+ * Any entry in events.jsonl
+ */
+export type LogEvent = ReviewEvent | UndoEvent | ResetEvent;
+
+/**
+ * Where a card is in its lifecycle:
+ * - new: never reviewed
+ * - learning: working through the initial learning steps (minutes)
+ * - review: graduated, scheduled in days by the algorithm
+ * - relearning: lapsed review card working through the relearning steps
+ */
+export type SrsPhase = 'new' | 'learning' | 'review' | 'relearning';
+
 export interface SrsState {
   cardId: string;
+  /** Set on the state of a card's reverse direction */
+  direction?: CardDirection;
   dueAt: number;
   intervalDays: number;
   easeFactor: number;
   reps: number;
   lapses: number;
   lastReviewAt?: number;
+  phase: SrsPhase;
+  /** Index into the learning or relearning steps (0 outside those phases) */
+  stepIndex: number;
+  /** FSRS memory stability in days (only set by the FSRS algorithm) */
+  stability?: number;
+  /** FSRS difficulty in [1, 10] (only set by the FSRS algorithm) */
+  difficulty?: number;
+  /** Set by the indexer once lapses reach the leech threshold */
+  leech?: boolean;
+}
+
+/**
+ * Personalized FSRS weights fitted from the review log (fsrs-params.json)
+ */
+export interface FsrsParameters {
+  weights: number[];
+  /** Number of reviews the weights were fitted on */
+  reviewCount: number;
+  /** Predicted log-loss with these weights at fit time */
+  logLoss: number;
+  /** Predicted RMSE with these weights at fit time */
+  rmse: number;
+  optimizedAt: number;
 }
 
 export interface Meta {
@@ -72,6 +194,11 @@ export interface Meta {
   createdAt: number;
 }
 
+/**
+ * SrsStates and the due and new lists are keyed by review key: the card id
+ * for the forward direction and getReviewKey(cardId, 'reverse') for the
+ * reverse direction.
+ */
 export interface CardIndex {
   cards: Map<string, Card>;
   srsStates: Map<string, SrsState>;
@@ -91,15 +218,93 @@ export interface CreateCardInput {
   front: CardFront;
   back?: CardBack;
   tags?: string[];
+  directions?: CardDirections;
+  deckId?: string;
 }
 
 /**
  * Input type for updating a card
  */
 export interface UpdateCardInput {
+  front?: Partial<CardFront>;
   back?: Partial<CardBack>;
   tags?: string[];
   deleted?: boolean;
+  suspended?: boolean;
+  buriedUntil?: number;
+  directions?: CardDirections;
+  deckId?: string;
+}
+
+/**
+ * Input type for creating a deck
+ */
+export interface CreateDeckInput {
+  name: string;
+  newCardsPerDay?: number;
+  studyMode?: StudyMode;
+}
+
+/**
+ * Input type for updating a deck
+ */
+export interface UpdateDeckInput {
+  name?: string;
+  newCardsPerDay?: number;
+  studyMode?: StudyMode;
+}
+
+/**
+ * Full set of user-editable card fields, as submitted by the edit forms.
+ * Every field is replaced: omitted or empty values clear the field.
+ * The card's source context is not editable and is always preserved.
+ */
+export interface CardEditInput {
+  front: Omit<CardFront, 'context'>;
+  back?: CardBack;
+  tags?: string[];
+  directions?: CardDirections;
+}
+
+/**
+ * One changed field between two card versions (values formatted for display)
+ */
+export interface CardFieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * A stored version of a card with its changes against the previous version
+ */
+export interface CardRevision {
+  version: number;
+  updatedAt: number;
+  card: Card;
+  changes: CardFieldChange[];
+}
+
+/**
+ * A review of a card with the state it left that direction in, as shown in the
+ * card details timeline
+ */
+export interface ReviewTimelineEntry {
+  eventId: string;
+  ts: number;
+  rating: ReviewRating;
+  mode: ReviewEvent['mode'];
+  /** Set for reverse reviews */
+  direction?: CardDirection;
+  durationMs?: number;
+  /** Interval after the review */
+  intervalDays: number;
+  /** Ease factor after the review */
+  easeFactor: number;
+  /** Phase after the review */
+  phase: SrsPhase;
+  /** Whether the review counted as a lapse */
+  lapse: boolean;
 }
 
 /**
@@ -108,8 +313,10 @@ export interface UpdateCardInput {
 export interface CreateReviewEventInput {
   cardId: string;
   rating: ReviewRating;
-  mode: 'flashcard' | 'quickpeek';
+  mode: 'flashcard' | 'quickpeek' | 'quiz' | 'dictation';
   durationMs?: number;
+  direction?: CardDirection;
+  typedAnswer?: string;
 }
 
 /**
@@ -123,6 +330,8 @@ export function createCard(input: CreateCardInput): Card {
     front: input.front,
     back: input.back,
     tags: input.tags,
+    directions: input.directions,
+    deckId: input.deckId,
     createdAt: now,
     updatedAt: now,
     version: 1,
@@ -137,14 +346,50 @@ export function updateCard(card: Card, updates: UpdateCardInput): Card {
   const now = Date.now();
   return {
     ...card,
+    front: updates.front ? { ...card.front, ...updates.front } : card.front,
     back: updates.back ? { ...card.back, ...updates.back } : card.back,
     tags: updates.tags !== undefined ? updates.tags : card.tags,
     deleted: updates.deleted !== undefined ? updates.deleted : card.deleted,
+    suspended: updates.suspended !== undefined ? updates.suspended : card.suspended,
+    buriedUntil: updates.buriedUntil !== undefined ? updates.buriedUntil : card.buriedUntil,
+    directions: updates.directions !== undefined ? updates.directions : card.directions,
+    deckId: updates.deckId !== undefined ? updates.deckId : card.deckId,
     updatedAt: now,
     version: card.version + 1,
   };
 }
 
+/**
+ * Create a new deck with auto-generated id, timestamps, and version
+ */
+export function createDeck(input: CreateDeckInput): Deck {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    name: input.name,
+    newCardsPerDay: input.newCardsPerDay,
+    studyMode: input.studyMode,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+  };
+}
+
+/**
+ * Update a deck, incrementing version and updating timestamp
+ */
+export function updateDeck(deck: Deck, updates: UpdateDeckInput): Deck {
+  return {
+    ...deck,
+    name: updates.name !== undefined ? updates.name : deck.name,
+    newCardsPerDay:
+      updates.newCardsPerDay !== undefined ? updates.newCardsPerDay : deck.newCardsPerDay,
+    studyMode: updates.studyMode !== undefined ? updates.studyMode : deck.studyMode,
+    updatedAt: Date.now(),
+    version: deck.version + 1,
+  };
+}
+
 /**
  * Create a new review event with auto-generated id and timestamp
  */
@@ -157,6 +402,33 @@ export function createReviewEvent(input: CreateReviewEventInput): ReviewEvent {
     rating: input.rating,
     mode: input.mode,
     durationMs: input.durationMs,
+    direction: input.direction,
+    typedAnswer: input.typedAnswer,
+  };
+}
+
+/**
+ * Create an undo event cancelling the given review
+ */
+export function createUndoEvent(target: ReviewEvent): UndoEvent {
+  return {
+    id: uuidv4(),
+    cardId: target.cardId,
+    ts: Date.now(),
+    kind: 'undo',
+    targetEventId: target.id,
+  };
+}
+
+/**
+ * Create a reset event forgetting the card's review progress
+ */
+export function createResetEvent(cardId: string): ResetEvent {
+  return {
+    id: uuidv4(),
+    cardId,
+    ts: Date.now(),
+    kind: 'reset',
   };
 }
 
@@ -169,6 +441,8 @@ export function createReviewEvent(input: CreateReviewEventInput): ReviewEvent {
  */
 export interface BulkImportTemplate {
   version: number;
+  /** Optional: deck name for cards that do not name their own (created if missing) */
+  deck?: string;
   cards: BulkCardInput[];
 }
 
@@ -176,7 +450,7 @@ export interface BulkImportTemplate {
  * Simplified input format for each card in bulk import
  */
 export interface BulkCardInput {
-  /** Required: the word, phrase, or sentence */
+  /** Required: the word, phrase, or sentence; for cloze cards the sentence with {{c1::...}} markers */
   term: string;
   /** Optional: auto-inferred from word count if not provided */
   type?: CardType;
@@ -202,6 +476,10 @@ export interface BulkCardInput {
   notes?: string;
   /** Optional: tags for categorization */
   tags?: string[];
+  /** Optional: review directions (forward, reverse or both; default forward) */
+  directions?: CardDirections;
+  /** Optional: deck name (created if missing; default: the template's deck) */
+  deck?: string;
 }
 
 /**
@@ -251,6 +529,7 @@ export interface DashboardStats {
     word: number;
     phrase: number;
     sentence: number;
+    cloze: number;
   };
   /** Review ratings distribution */
   ratingsDistribution: {
@@ -263,8 +542,208 @@ export interface DashboardStats {
   reviewsPerDay: Array<{ date: string; count: number }>;
   /** Retention rate history (last 30 days with 7-day rolling window) */
   retentionHistory: Array<{ date: string; rate: number }>;
+  /** Reviews due per day for the next 90 days, starting today */
+  forecast: ForecastDay[];
+  /** True retention of graduated cards, by maturity, interval and ease */
+  retentionAnalytics: RetentionAnalytics;
+  /** Answer times, study time and time-of-day performance */
+  studyTime: StudyTimeStats;
+}
+
+/**
+ * Reviews due on one upcoming day, split by maturity.
+ * Today's entry also counts every overdue review.
+ */
+export interface ForecastDay {
+  date: string;
+  /** Learning, relearning and young reviews (interval < 21 days) */
+  learning: number;
+  /** Mature reviews (interval >= 21 days) */
+  mature: number;
+}
+
+/**
+ * Recall outcomes of reviews of graduated cards, each judged on the state
+ * the card was in when it was reviewed. Again is a failure; Hard, Good and
+ * Easy pass.
+ */
+export interface RetentionAnalytics {
+  /** Reviews of cards with an interval under 21 days */
+  young: RetentionBucket;
+  /** Reviews of cards with an interval of 21 days or more */
+  mature: RetentionBucket;
+  /** By interval length before the review */
+  byInterval: RetentionBucket[];
+  /** By ease factor before the review */
+  byEase: RetentionBucket[];
+  /** Predicted recall at review time against the actual pass rate, non-empty bins only */
+  calibration: CalibrationBin[];
+}
+
+export interface RetentionBucket {
+  label: string;
+  reviews: number;
+  passed: number;
+  /** passed / reviews (0 without reviews) */
+  rate: number;
+}
+
+export interface CalibrationBin {
+  /** Predicted recall range, e.g. "80–90%" */
+  label: string;
+  reviews: number;
+  /** Mean predicted recall of the reviews in the bin */
+  predicted: number;
+  /** Actual pass rate of the reviews in the bin */
+  actual: number;
+}
+
+/**
+ * Time statistics from the answer times (durationMs) of review events.
+ * Answer times are capped at MAX_ANSWER_DURATION_MS so a card left open
+ * doesn't count as study time.
+ */
+export interface StudyTimeStats {
+  /** Minutes spent answering cards today */
+  minutesToday: number;
+  /** Minutes spent answering cards per day (last 30 days) */
+  minutesPerDay: Array<{ date: string; minutes: number }>;
+  /** Average answer time per rating (dictation excluded) */
+  answerTimeByRating: AnswerTimeStats[];
+  /** Reviews by local weekday and hour, non-empty cells only */
+  hourlyPerformance: HourlyPerformance[];
+  /** Cards with the longest average answer time (dictation excluded) */
+  slowestCards: SlowCard[];
+}
+
+export interface AnswerTimeStats {
+  rating: ReviewRating;
+  /** Reviews with a recorded answer time */
+  reviews: number;
+  averageMs: number;
+}
+
+export interface HourlyPerformance {
+  /** Local weekday, 0 = Sunday */
+  weekday: number;
+  /** Local hour, 0-23 */
+  hour: number;
+  reviews: number;
+  /** Share of reviews not rated Again */
+  passRate: number;
+}
+
+export interface SlowCard {
+  cardId: string;
+  term: string;
+  /** Reviews with a recorded answer time */
+  reviews: number;
+  averageMs: number;
+}
+
+/**
+ * Card counts of one deck, as listed in the sidebar
+ */
+export interface DeckStats {
+  deckId: string;
+  name: string;
+  /** Number of active cards in the deck */
+  totalCards: number;
+  /** Number of reviews due */
+  dueCards: number;
+  /** Number of new reviews */
+  newCards: number;
+}
+
+/**
+ * A card the learner keeps forgetting, as listed in the dashboard
+ */
+export interface LeechReport {
+  cardId: string;
+  /** Set when the reverse direction is the leech */
+  direction?: CardDirection;
+  term: string;
+  translation?: string;
+  lapses: number;
+  suspended: boolean;
+  /** Times of the reviews that counted as lapses, oldest first */
+  lapseTimes: number[];
 }
 
+// ============================================
+// Card Browser Types
+// ============================================
+
+/**
+ * Learning state used by the card browser (learning includes relearning)
+ */
+export type BrowseCardState = 'new' | 'learning' | 'review' | 'suspended';
+
+/**
+ * State filter of the card browser ('due' matches any unsuspended card that is due)
+ */
+export type BrowseStateFilter = BrowseCardState | 'due';
+
+export type BrowseSortKey =
+  | 'term'
+  | 'type'
+  | 'tags'
+  | 'dueAt'
+  | 'intervalDays'
+  | 'easeFactor'
+  | 'lapses';
+
+/**
+ * Search, filter and sort options of the card browser
+ */
+export interface BrowseQuery {
+  /** Case-insensitive text matched against every front and back field and tags */
+  search?: string;
+  tag?: string;
+  type?: CardType;
+  state?: BrowseStateFilter;
+  sortBy?: BrowseSortKey;
+  sortDir?: 'asc' | 'desc';
+}
+
+/**
+ * One row of the card browser table
+ */
+export interface BrowseRow {
+  id: string;
+  term: string;
+  type: CardType;
+  tags: string[];
+  state: BrowseCardState;
+  dueAt: number;
+  isDue: boolean;
+  intervalDays: number;
+  easeFactor: number;
+  lapses: number;
+}
+
+/**
+ * Query result of the card browser
+ */
+export interface BrowseResult {
+  rows: BrowseRow[];
+  /** Number of cards before filtering */
+  total: number;
+  /** Every tag in the collection, for the tag filter */
+  tags: string[];
+}
+
+/**
+ * Action applied to the selected cards in the card browser
+ */
+export type BulkCardAction =
+  | { kind: 'tag'; tag: string }
+  | { kind: 'untag'; tag: string }
+  | { kind: 'suspend' }
+  | { kind: 'unsuspend' }
+  | { kind: 'delete' }
+  | { kind: 'resetProgress' };
+
 // ============================================
 // Knowledge Graph Types
 // ============================================
@@ -1,24 +1,73 @@
 // Storage module - Dashboard statistics calculation
 // PURE MODULE: No vscode imports allowed
 
-import type { Card, CardIndex, ReviewEvent, DashboardStats, KnowledgeGraph, KnowledgeGraphNode, KnowledgeGraphEdge, SrsState } from './schema';
+import type { Card, CardIndex, ReviewEvent, ReviewRating, DashboardStats, ForecastDay, KnowledgeGraph, KnowledgeGraphNode, KnowledgeGraphEdge, SrsState, CalibrationBin, RetentionAnalytics, RetentionBucket, HourlyPerformance, SlowCard, StudyTimeStats } from './schema';
+import { getCardSrsState, getEventReviewKey } from './directions';
+import { isCardAvailable } from './indexer';
+import type { SchedulingAlgorithm } from '../srs/algorithm';
+import { sm2Algorithm } from '../srs/sm2';
+import { calculateRetention } from '../srs/scheduler';
+import { getDayStart, toDayKey } from '../common/days';
+import {
+  DEFAULT_DAY_ROLLOVER_HOUR,
+  FORECAST_DAYS,
+  MATURE_INTERVAL_DAYS,
+  MAX_ANSWER_DURATION_MS,
+  MINUTE_MS,
+  MIN_REVIEW_INTERVAL_MS,
+  SLOWEST_CARDS_LIMIT,
+  STUDY_TIME_DAYS,
+} from '../common/constants';
 
 /**
- * Calculate dashboard statistics from index and events
+ * Interval buckets of the retention analytics: [from, to) days
+ */
+const INTERVAL_BUCKETS: ReadonlyArray<readonly [number, number, string]> = [
+  [0, 2, '1 day'],
+  [2, 7, '2–6 days'],
+  [7, 21, '1–3 weeks'],
+  [21, 60, '3–8 weeks'],
+  [60, 180, '2–6 months'],
+  [180, Infinity, '6+ months'],
+];
+
+/**
+ * Ease factor buckets of the retention analytics: [from, to)
+ */
+const EASE_BUCKETS: ReadonlyArray<readonly [number, number, string]> = [
+  [0, 1.7, '1.3–1.7'],
+  [1.7, 2.1, '1.7–2.1'],
+  [2.1, 2.5, '2.1–2.5'],
+  [2.5, 2.8, '2.5–2.8'],
+  [2.8, Infinity, '2.8–3.0'],
+];
+
+const CALIBRATION_BINS = 10;
+
+const RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+
+/** Timed reviews a card needs before it can be listed as slow */
+const SLOW_CARD_MIN_REVIEWS = 2;
+
+/**
+ * Calculate dashboard statistics from index and events.
+ * Day-based stats bucket reviews into study days starting at `rolloverHour`.
  */
 export function calculateDashboardStats(
   index: CardIndex,
-  events: ReviewEvent[]
+  events: ReviewEvent[],
+  algorithm: SchedulingAlgorithm = sm2Algorithm,
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
 ): DashboardStats {
   const now = Date.now();
-  const todayStart = new Date().setHours(0, 0, 0, 0);
+  const todayStart = getDayStart(now, rolloverHour);
 
   // Card counts
   const cards = Array.from(index.cards.values());
   const totalCards = cards.length;
 
   // Card type distribution
-  const cardsByType = { word: 0, phrase: 0, sentence: 0 };
+  const cardsByType = { word: 0, phrase: 0, sentence: 0, cloze: 0 };
   for (const card of cards) {
     cardsByType[card.type]++;
   }
@@ -33,8 +82,9 @@ export function calculateDashboardStats(
   let totalEaseFactor = 0;
   let easeFactorCount = 0;
 
-  for (const [cardId, srs] of index.srsStates) {
-    if (srs.reps > 0) {
+  for (const cardId of index.cards.keys()) {
+    const srs = getCardSrsState(index, cardId);
+    if (srs && srs.reps > 0) {
       learnedCards++;
       totalEaseFactor += srs.easeFactor;
       easeFactorCount++;
@@ -64,13 +114,22 @@ export function calculateDashboardStats(
   const averageEaseFactor = easeFactorCount > 0 ? totalEaseFactor / easeFactorCount : 2.5;
 
   // Calculate streak
-  const currentStreak = calculateStreak(events);
+  const currentStreak = calculateStreak(events, now, rolloverHour);
 
   // Reviews per day (last 90 days for heatmap)
-  const reviewsPerDay = calculateReviewsPerDay(events, 90);
+  const reviewsPerDay = calculateReviewsPerDay(events, 90, now, rolloverHour);
 
   // Retention history (last 30 days rolling window)
-  const retentionHistory = calculateRetentionHistory(events, 30);
+  const retentionHistory = calculateRetentionHistory(events, 30, now, rolloverHour);
+
+  // Workload forecast (next 90 days)
+  const forecast = calculateReviewForecast(index, FORECAST_DAYS, now, rolloverHour);
+
+  // True retention of graduated cards
+  const retentionAnalytics = calculateRetentionAnalytics(events, algorithm);
+
+  // Answer times and time-of-day performance
+  const studyTime = calculateStudyTimeStats(index, events, now, rolloverHour);
 
   return {
     totalCards,
@@ -87,64 +146,322 @@ export function calculateDashboardStats(
     ratingsDistribution,
     reviewsPerDay,
     retentionHistory,
+    forecast,
+    retentionAnalytics,
+    studyTime,
   };
 }
 
 /**
- * Calculate current streak (consecutive days with reviews)
+ * True retention analytics from the review history.
+ * Each review direction is replayed through the scheduling algorithm to
+ * recover the state before every review. Only reviews of graduated cards
+ * count (learning steps test short-term memory), and neither do dictation
+ * reviews, which have their own schedule, nor repeats within
+ * MIN_REVIEW_INTERVAL_MS of the previous review.
  */
-function calculateStreak(events: ReviewEvent[]): number {
-  if (events.length === 0) return 0;
-
-  // Get unique review dates
-  const reviewDates = new Set<string>();
+export function calculateRetentionAnalytics(
+  events: ReviewEvent[],
+  algorithm: SchedulingAlgorithm = sm2Algorithm
+): RetentionAnalytics {
+  const young = createRetentionBucket('Young');
+  const mature = createRetentionBucket('Mature');
+  const byInterval = INTERVAL_BUCKETS.map(([, , label]) => createRetentionBucket(label));
+  const byEase = EASE_BUCKETS.map(([, , label]) => createRetentionBucket(label));
+  const calibration = Array.from({ length: CALIBRATION_BINS }, () => ({
+    reviews: 0,
+    passed: 0,
+    predicted: 0,
+  }));
+
+  const eventsByKey = new Map<string, ReviewEvent[]>();
   for (const event of events) {
-    const date = new Date(event.ts).toISOString().split('T')[0];
-    reviewDates.add(date);
+    if (event.mode === 'dictation') {
+      continue;
+    }
+    const key = getEventReviewKey(event);
+    const keyEvents = eventsByKey.get(key) ?? [];
+    keyEvents.push(event);
+    eventsByKey.set(key, keyEvents);
   }
 
-  const sortedDates = Array.from(reviewDates).sort().reverse();
-  if (sortedDates.length === 0) return 0;
+  for (const keyEvents of eventsByKey.values()) {
+    keyEvents.sort((a, b) => a.ts - b.ts);
+    let state = algorithm.createInitialState(keyEvents[0].cardId);
+
+    for (const event of keyEvents) {
+      const counted =
+        state.phase === 'review' &&
+        state.lastReviewAt !== undefined &&
+        event.ts - state.lastReviewAt >= MIN_REVIEW_INTERVAL_MS;
+
+      if (counted) {
+        const passed = event.rating !== 'again';
+        addToRetentionBucket(state.intervalDays >= MATURE_INTERVAL_DAYS ? mature : young, passed);
+        addToRetentionBucket(byInterval[findBucket(INTERVAL_BUCKETS, state.intervalDays)], passed);
+        addToRetentionBucket(byEase[findBucket(EASE_BUCKETS, state.easeFactor)], passed);
+
+        const predicted = calculateRetention(state, event.ts);
+        const binIndex = Math.min(Math.floor(predicted * CALIBRATION_BINS), CALIBRATION_BINS - 1);
+        const bin = calibration[binIndex];
+        bin.reviews++;
+        bin.predicted += predicted;
+        if (passed) {
+          bin.passed++;
+        }
+      }
 
-  // Check if today or yesterday has a review
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      state = algorithm.calculateNextState(state, event.rating, event.ts);
+    }
+  }
 
-  if (sortedDates[0] !== today && sortedDates[0] !== yesterday) {
-    return 0; // Streak broken
+  return {
+    young: finishRetentionBucket(young),
+    mature: finishRetentionBucket(mature),
+    byInterval: byInterval.map(finishRetentionBucket),
+    byEase: byEase.map(finishRetentionBucket),
+    calibration: calibration.flatMap((bin, i): CalibrationBin[] =>
+      bin.reviews === 0
+        ? []
+        : [
+            {
+              label: `${(i * 100) / CALIBRATION_BINS}–${((i + 1) * 100) / CALIBRATION_BINS}%`,
+              reviews: bin.reviews,
+              predicted: roundRate(bin.predicted / bin.reviews),
+              actual: roundRate(bin.passed / bin.reviews),
+            },
+          ]
+    ),
+  };
+}
+
+function createRetentionBucket(label: string): RetentionBucket {
+  return { label, reviews: 0, passed: 0, rate: 0 };
+}
+
+function addToRetentionBucket(bucket: RetentionBucket, passed: boolean): void {
+  bucket.reviews++;
+  if (passed) {
+    bucket.passed++;
   }
+}
+
+function finishRetentionBucket(bucket: RetentionBucket): RetentionBucket {
+  return { ...bucket, rate: bucket.reviews > 0 ? roundRate(bucket.passed / bucket.reviews) : 0 };
+}
+
+/**
+ * Index of the [from, to) bucket containing a value
+ */
+function findBucket(
+  buckets: ReadonlyArray<readonly [number, number, string]>,
+  value: number
+): number {
+  const index = buckets.findIndex(([from, to]) => value >= from && value < to);
+  return index === -1 ? 0 : index;
+}
+
+function roundRate(rate: number): number {
+  return Math.round(rate * 100) / 100;
+}
+
+/**
+ * Study time statistics from the answer times of review events.
+ * Every review counts towards the weekday × hour heatmap; only reviews with a
+ * recorded answer time count towards the times, each capped at
+ * MAX_ANSWER_DURATION_MS. Dictation answers include typing, so they count as
+ * study time but not towards the per-rating averages or the slowest cards.
+ */
+export function calculateStudyTimeStats(
+  index: CardIndex,
+  events: ReviewEvent[],
+  now: number = Date.now(),
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): StudyTimeStats {
+  const todayStart = getDayStart(now, rolloverHour);
+  let msToday = 0;
+  const msByDate = new Map<string, number>();
+  const byRating = new Map<ReviewRating, { reviews: number; totalMs: number }>();
+  const byCard = new Map<string, { reviews: number; totalMs: number }>();
+  const cells = new Map<number, HourlyPerformance & { passed: number }>();
 
-  let streak = 1;
-  for (let i = 1; i < sortedDates.length; i++) {
-    const prevDate = new Date(sortedDates[i - 1]);
-    const currDate = new Date(sortedDates[i]);
-    const diffDays = Math.floor((prevDate.getTime() - currDate.getTime()) / (24 * 60 * 60 * 1000));
+  for (const event of events) {
+    const date = new Date(event.ts);
+    const cellKey = date.getDay() * 24 + date.getHours();
+    let cell = cells.get(cellKey);
+    if (!cell) {
+      cell = { weekday: date.getDay(), hour: date.getHours(), reviews: 0, passed: 0, passRate: 0 };
+      cells.set(cellKey, cell);
+    }
+    cell.reviews++;
+    if (event.rating !== 'again') {
+      cell.passed++;
+    }
 
-    if (diffDays === 1) {
-      streak++;
+    if (event.durationMs === undefined || event.durationMs < 0) {
+      continue;
+    }
+    const ms = Math.min(event.durationMs, MAX_ANSWER_DURATION_MS);
+    const dateKey = toDayKey(event.ts, 0, rolloverHour);
+    msByDate.set(dateKey, (msByDate.get(dateKey) ?? 0) + ms);
+    if (event.ts >= todayStart) {
+      msToday += ms;
+    }
+    if (event.mode === 'dictation') {
+      continue;
+    }
+    addAnswerTime(byRating, event.rating, ms);
+    addAnswerTime(byCard, event.cardId, ms);
+  }
+
+  const minutesPerDay: Array<{ date: string; minutes: number }> = [];
+  for (let i = STUDY_TIME_DAYS - 1; i >= 0; i--) {
+    const date = toDayKey(now, -i, rolloverHour);
+    minutesPerDay.push({ date, minutes: toMinutes(msByDate.get(date) ?? 0) });
+  }
+
+  const answerTimeByRating = RATINGS.map((rating) => {
+    const time = byRating.get(rating) ?? { reviews: 0, totalMs: 0 };
+    return {
+      rating,
+      reviews: time.reviews,
+      averageMs: time.reviews > 0 ? Math.round(time.totalMs / time.reviews) : 0,
+    };
+  });
+
+  const hourlyPerformance = [...cells.values()]
+    .sort((a, b) => a.weekday - b.weekday || a.hour - b.hour)
+    .map(({ weekday, hour, reviews, passed }) => ({
+      weekday,
+      hour,
+      reviews,
+      passRate: roundRate(passed / reviews),
+    }));
+
+  const slowestCards: SlowCard[] = [];
+  for (const [cardId, time] of byCard) {
+    const card = index.cards.get(cardId);
+    if (card && time.reviews >= SLOW_CARD_MIN_REVIEWS) {
+      slowestCards.push({
+        cardId,
+        term: card.front.term,
+        reviews: time.reviews,
+        averageMs: Math.round(time.totalMs / time.reviews),
+      });
+    }
+  }
+  slowestCards.sort((a, b) => b.averageMs - a.averageMs);
+
+  return {
+    minutesToday: toMinutes(msToday),
+    minutesPerDay,
+    answerTimeByRating,
+    hourlyPerformance,
+    slowestCards: slowestCards.slice(0, SLOWEST_CARDS_LIMIT),
+  };
+}
+
+function addAnswerTime<K>(
+  times: Map<K, { reviews: number; totalMs: number }>,
+  key: K,
+  ms: number
+): void {
+  const time = times.get(key) ?? { reviews: 0, totalMs: 0 };
+  time.reviews++;
+  time.totalMs += ms;
+  times.set(key, time);
+}
+
+/**
+ * Milliseconds as minutes, to one decimal
+ */
+function toMinutes(ms: number): number {
+  return Math.round((ms / MINUTE_MS) * 10) / 10;
+}
+
+/**
+ * Reviews due per day for the next N days, starting today, split into
+ * learning and mature reviews. Overdue reviews count towards today, and
+ * buried cards towards the day they are unburied. New and suspended cards
+ * are left out.
+ */
+export function calculateReviewForecast(
+  index: CardIndex,
+  days: number,
+  now: number = Date.now(),
+  rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR
+): ForecastDay[] {
+  const forecast: ForecastDay[] = [];
+  const dayByDate = new Map<string, ForecastDay>();
+  for (let i = 0; i < days; i++) {
+    const day = { date: toDayKey(now, i, rolloverHour), learning: 0, mature: 0 };
+    forecast.push(day);
+    dayByDate.set(day.date, day);
+  }
+
+  for (const srs of index.srsStates.values()) {
+    const card = index.cards.get(srs.cardId);
+    if (!card || card.suspended || srs.phase === 'new') {
+      continue;
+    }
+    const dueAt = isCardAvailable(card, now) ? srs.dueAt : Math.max(srs.dueAt, card.buriedUntil ?? 0);
+    const day = dueAt <= now ? forecast[0] : dayByDate.get(toDayKey(dueAt, 0, rolloverHour));
+    if (!day) {
+      continue;
+    }
+    if (srs.phase === 'review' && srs.intervalDays >= MATURE_INTERVAL_DAYS) {
+      day.mature++;
     } else {
-      break;
+      day.learning++;
     }
   }
 
+  return forecast;
+}
+
+/**
+ * Calculate current streak (consecutive study days with reviews)
+ */
+function calculateStreak(events: ReviewEvent[], now: number, rolloverHour: number): number {
+  if (events.length === 0) return 0;
+
+  // Get unique review days
+  const reviewDays = new Set<string>();
+  for (const event of events) {
+    reviewDays.add(toDayKey(event.ts, 0, rolloverHour));
+  }
+
+  // The streak may end today or yesterday
+  let offset = reviewDays.has(toDayKey(now, 0, rolloverHour)) ? 0 : -1;
+  let streak = 0;
+  while (reviewDays.has(toDayKey(now, offset, rolloverHour))) {
+    streak++;
+    offset--;
+  }
+
   return streak;
 }
 
 /**
- * Calculate reviews per day for the last N days
+ * Calculate reviews per study day for the last N days
  */
-function calculateReviewsPerDay(events: ReviewEvent[], days: number): Array<{ date: string; count: number }> {
+function calculateReviewsPerDay(
+  events: ReviewEvent[],
+  days: number,
+  now: number,
+  rolloverHour: number
+): Array<{ date: string; count: number }> {
   const result: Array<{ date: string; count: number }> = [];
   const countByDate = new Map<string, number>();
 
   for (const event of events) {
-    const date = new Date(event.ts).toISOString().split('T')[0];
+    const date = toDayKey(event.ts, 0, rolloverHour);
     countByDate.set(date, (countByDate.get(date) || 0) + 1);
   }
 
   // Generate last N days
   for (let i = days - 1; i >= 0; i--) {
-    const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const date = toDayKey(now, -i, rolloverHour);
     result.push({
       date,
       count: countByDate.get(date) || 0,
@@ -155,16 +472,21 @@ function calculateReviewsPerDay(events: ReviewEvent[], days: number): Array<{ da
 }
 
 /**
- * Calculate retention rate history for the last N days
+ * Calculate retention rate history for the last N study days
  * Uses a 7-day rolling window for smoothing
  */
-function calculateRetentionHistory(events: ReviewEvent[], days: number): Array<{ date: string; rate: number }> {
+function calculateRetentionHistory(
+  events: ReviewEvent[],
+  days: number,
+  now: number,
+  rolloverHour: number
+): Array<{ date: string; rate: number }> {
   const result: Array<{ date: string; rate: number }> = [];
 
-  // Group events by date
+  // Group events by day
   const eventsByDate = new Map<string, ReviewEvent[]>();
   for (const event of events) {
-    const date = new Date(event.ts).toISOString().split('T')[0];
+    const date = toDayKey(event.ts, 0, rolloverHour);
     if (!eventsByDate.has(date)) {
       eventsByDate.set(date, []);
     }
@@ -173,15 +495,14 @@ function calculateRetentionHistory(events: ReviewEvent[], days: number): Array<{
 
   // Calculate retention for each day using 7-day rolling window
   for (let i = days - 1; i >= 0; i--) {
-    const endDate = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
-    const date = endDate.toISOString().split('T')[0];
+    const date = toDayKey(now, -i, rolloverHour);
 
     // Collect events from past 7 days (rolling window)
     let positiveCount = 0;
     let totalCount = 0;
 
     for (let j = 0; j < 7; j++) {
-      const windowDate = new Date(endDate.getTime() - j * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const windowDate = toDayKey(now, -i - j, rolloverHour);
       const dayEvents = eventsByDate.get(windowDate) || [];
 
       for (const event of dayEvents) {
@@ -227,7 +548,7 @@ export function generateKnowledgeGraph(
 
   // Calculate mastery level from SRS state
   const getMasteryLevel = (cardId: string): number => {
-    const srs = index.srsStates.get(cardId);
+    const srs = getCardSrsState(index, cardId);
     if (!srs || srs.reps === 0) return 0;
 
     if (srs.intervalDays >= 21) return 5;
@@ -239,7 +560,7 @@ export function generateKnowledgeGraph(
 
   // Get SRS data for node visualization
   const getSrsData = (cardId: string): { reps: number; ef: number } => {
-    const srs = index.srsStates.get(cardId);
+    const srs = getCardSrsState(index, cardId);
     return {
       reps: srs?.reps ?? 0,
       ef: srs?.easeFactor ?? 2.5, // Default EF for new cards
@@ -3,8 +3,9 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { Card, ReviewEvent } from './schema';
-import { CARDS_FILE, EVENTS_FILE } from '../common/constants';
+import type { Card, Deck, LogEvent, ReviewEvent } from './schema';
+import { getEffectiveReviewEvents } from './indexer';
+import { CARDS_FILE, DECKS_FILE, EVENTS_FILE } from '../common/constants';
 
 /**
  * JSONL-based storage with atomic writes and concurrent-safe appends
@@ -22,12 +23,39 @@ export class JsonlStorage {
   }
 
   /**
-   * Append a review event to events.jsonl
+   * Append a review or undo event to events.jsonl
    */
-  async appendEvent(event: ReviewEvent): Promise<void> {
+  async appendEvent(event: LogEvent): Promise<void> {
     await this.appendLine(EVENTS_FILE, JSON.stringify(event));
   }
 
+  /**
+   * Append several cards to cards.jsonl in one write
+   */
+  async appendCards(cards: Card[]): Promise<void> {
+    await this.appendLines(
+      CARDS_FILE,
+      cards.map((card) => JSON.stringify(card))
+    );
+  }
+
+  /**
+   * Append several events to events.jsonl in one write
+   */
+  async appendEvents(events: LogEvent[]): Promise<void> {
+    await this.appendLines(
+      EVENTS_FILE,
+      events.map((event) => JSON.stringify(event))
+    );
+  }
+
+  /**
+   * Append a deck version to decks.jsonl
+   */
+  async appendDeck(deck: Deck): Promise<void> {
+    await this.appendLine(DECKS_FILE, JSON.stringify(deck));
+  }
+
   /**
    * Read all cards from cards.jsonl
    */
@@ -36,10 +64,24 @@ export class JsonlStorage {
   }
 
   /**
-   * Read all events from events.jsonl
+   * Read all events from events.jsonl, including undo events
+   */
+  async readAllEvents(): Promise<LogEvent[]> {
+    return this.readJsonl<LogEvent>(EVENTS_FILE);
+  }
+
+  /**
+   * Read all deck versions from decks.jsonl
+   */
+  async readAllDecks(): Promise<Deck[]> {
+    return this.readJsonl<Deck>(DECKS_FILE);
+  }
+
+  /**
+   * Read the review events that have not been undone
    */
-  async readAllEvents(): Promise<ReviewEvent[]> {
-    return this.readJsonl<ReviewEvent>(EVENTS_FILE);
+  async readReviewEvents(): Promise<ReviewEvent[]> {
+    return getEffectiveReviewEvents(await this.readAllEvents());
   }
 
   /**
@@ -85,15 +127,33 @@ export class JsonlStorage {
     }
   }
 
+  /**
+   * Absolute path of a file or directory inside the storage directory
+   */
+  resolvePath(name: string): string {
+    return path.join(this.basePath, name);
+  }
+
   /**
    * Append a line to a JSONL file with concurrent-safe locking
    */
   private async appendLine(filename: string, line: string): Promise<void> {
+    await this.appendLines(filename, [line]);
+  }
+
+  /**
+   * Append lines to a JSONL file in a single write with concurrent-safe locking
+   */
+  private async appendLines(filename: string, lines: string[]): Promise<void> {
+    if (lines.length === 0) {
+      return;
+    }
+
     // Queue this write after any pending writes
     this.writeLock = this.writeLock.then(async () => {
       await this.ensureDir();
       const filePath = path.join(this.basePath, filename);
-      await fs.appendFile(filePath, line + '\n', 'utf-8');
+      await fs.appendFile(filePath, lines.map((line) => line + '\n').join(''), 'utf-8');
     });
     await this.writeLock;
   }
@@ -0,0 +1,57 @@
+// Study day tests
+// TDD: Tests for day boundaries with a configurable rollover hour
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getDayStart, getNextDayStart, toDayKey } from '../../common/days';
+import { DAY_MS } from '../../common/constants';
+
+describe('Study days', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function localTime(hour: number, minute = 0): number {
+    return new Date(2024, 0, 15, hour, minute).getTime();
+  }
+
+  describe('getDayStart()', () => {
+    it('should start the day at the rollover hour', () => {
+      expect(getDayStart(localTime(10), 4)).toBe(localTime(4));
+      expect(getDayStart(localTime(4), 4)).toBe(localTime(4));
+      expect(getDayStart(localTime(10), 0)).toBe(localTime(0));
+    });
+
+    it('should count the hours before the rollover towards the previous day', () => {
+      expect(getDayStart(localTime(2, 30), 4)).toBe(new Date(2024, 0, 14, 4).getTime());
+    });
+  });
+
+  describe('getNextDayStart()', () => {
+    it('should return the next rollover hour', () => {
+      expect(getNextDayStart(localTime(10), 4)).toBe(new Date(2024, 0, 16, 4).getTime());
+      expect(getNextDayStart(localTime(2), 4)).toBe(localTime(4));
+
+      const next = new Date(getNextDayStart(Date.now(), 0));
+      expect(next.getTime() - Date.now()).toBeLessThanOrEqual(DAY_MS);
+      expect([next.getHours(), next.getMinutes(), next.getSeconds()]).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('toDayKey()', () => {
+    it('should key the local study day', () => {
+      expect(toDayKey(localTime(10), 0, 4)).toBe('2024-01-15');
+      expect(toDayKey(localTime(2), 0, 4)).toBe('2024-01-14');
+      expect(toDayKey(localTime(2), 0, 0)).toBe('2024-01-15');
+    });
+
+    it('should offset by whole days across month boundaries', () => {
+      expect(toDayKey(localTime(10), -15, 4)).toBe('2023-12-31');
+      expect(toDayKey(localTime(10), 17, 4)).toBe('2024-02-01');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+// Dictionary format tests
+// TDD: Tests for parsing ECDICT rows and StarDict files into card content
+
+import { describe, it, expect } from 'vitest';
+import {
+  entryToContent,
+  formatPhonetic,
+  getDictionaryFormat,
+  normalizeTerm,
+  parseCsvLine,
+  parseEcdictLine,
+  parseExchange,
+  parseStarDictEntry,
+  parseStarDictIdx,
+  parseStarDictIfo,
+} from '../../llm/dictionary';
+
+describe('Dictionary formats', () => {
+  describe('getDictionaryFormat()', () => {
+    it('should detect the format from the extension', () => {
+      expect(getDictionaryFormat('/dicts/ecdict.CSV')).toBe('ecdict');
+      expect(getDictionaryFormat('/dicts/langdao-ec.ifo')).toBe('stardict');
+      expect(() => getDictionaryFormat('/dicts/words.txt')).toThrow('Unsupported dictionary');
+    });
+  });
+
+  describe('normalizeTerm()', () => {
+    it('should trim, collapse whitespace and lowercase', () => {
+      expect(normalizeTerm('  Give\t Up ')).toBe('give up');
+    });
+  });
+
+  describe('parseCsvLine()', () => {
+    it('should handle quoted fields, doubled quotes and a trailing CR', () => {
+      expect(parseCsvLine('a,"b, c","say ""hi""",\r')).toEqual(['a', 'b, c', 'say "hi"', '']);
+    });
+  });
+
+  describe('parseEcdictLine()', () => {
+    it('should read phonetic, definitions, translations and forms', () => {
+      const entry = parseEcdictLine(
+        'perceive,pə\'si:v,"v. to become aware of\\nv. to understand","v. 察觉\\nv. 理解",,,,,,,' +
+          'd:perceived/p:perceived/3:perceives/i:perceiving,,'
+      );
+
+      expect(entry).toEqual({
+        word: 'perceive',
+        phonetic: "/pə'si:v/",
+        definitions: ['v. to become aware of', 'v. to understand'],
+        translations: ['v. 察觉', 'v. 理解'],
+        forms: [
+          'past participle: perceived',
+          'past: perceived',
+          'third person: perceives',
+          '-ing: perceiving',
+        ],
+      });
+    });
+  });
+
+  describe('parseExchange()', () => {
+    it('should skip unknown and self-describing codes', () => {
+      expect(parseExchange('0:run/1:i/x:zzz/s:')).toEqual(['base: run']);
+    });
+  });
+
+  describe('formatPhonetic()', () => {
+    it('should wrap pronunciations in slashes', () => {
+      expect(formatPhonetic('[ˈæpl]')).toBe('/ˈæpl/');
+      expect(formatPhonetic('/ˈæpl/')).toBe('/ˈæpl/');
+      expect(formatPhonetic('  ')).toBeUndefined();
+    });
+  });
+
+  describe('parseStarDictIfo()', () => {
+    it('should read the header values', () => {
+      const info = parseStarDictIfo(
+        "StarDict's dict ifo file\nversion=3.0.0\nbookname=Test\nwordcount=2\nidxoffsetbits=64\nsametypesequence=tm\n"
+      );
+
+      expect(info).toEqual({
+        bookname: 'Test',
+        wordcount: 2,
+        idxoffsetbits: 64,
+        sametypesequence: 'tm',
+      });
+    });
+
+    it('should reject other files', () => {
+      expect(() => parseStarDictIfo('word,phonetic')).toThrow('Not a StarDict');
+      expect(() => parseStarDictIfo("StarDict's dict ifo file\nbookname=x")).toThrow('wordcount');
+    });
+  });
+
+  describe('parseStarDictIdx()', () => {
+    function idxEntry(word: string, offset: number, size: number): Buffer {
+      const numbers = Buffer.alloc(8);
+      numbers.writeUInt32BE(offset, 0);
+      numbers.writeUInt32BE(size, 4);
+      return Buffer.concat([Buffer.from(word + '\0'), numbers]);
+    }
+
+    it('should read words with their offsets and sizes', () => {
+      const data = Buffer.concat([idxEntry('apple', 0, 10), idxEntry('café', 10, 5)]);
+
+      expect(parseStarDictIdx(data)).toEqual([
+        { word: 'apple', offset: 0, size: 10 },
+        { word: 'café', offset: 10, size: 5 },
+      ]);
+    });
+
+    it('should reject truncated files', () => {
+      expect(() => parseStarDictIdx(idxEntry('apple', 0, 10).subarray(0, 9))).toThrow('truncated');
+    });
+  });
+
+  describe('parseStarDictEntry()', () => {
+    it('should split a sametypesequence article into phonetic, translations and definitions', () => {
+      const data = Buffer.from('ˈæpl\0apple\nn. 苹果\na round fruit');
+
+      expect(parseStarDictEntry('apple', data, 'tm')).toEqual({
+        word: 'apple',
+        phonetic: '/ˈæpl/',
+        translations: ['n. 苹果'],
+        definitions: ['a round fruit'],
+        forms: [],
+      });
+    });
+
+    it('should read typed fields and strip HTML', () => {
+      const data = Buffer.from('h[ˈæpl]<br><b>n.</b> 苹果<br/>fruit &amp; tree\0');
+
+      const entry = parseStarDictEntry('apple', data);
+
+      expect(entry.phonetic).toBe('/ˈæpl/');
+      expect(entry.translations).toEqual(['n. 苹果']);
+      expect(entry.definitions).toEqual(['fruit & tree']);
+    });
+  });
+
+  describe('entryToContent()', () => {
+    it('should map an entry onto the card back and phonetic', () => {
+      const content = entryToContent({
+        word: 'run',
+        phonetic: '/rʌn/',
+        translations: ['v. 跑', 'n. 奔跑'],
+        definitions: ['move fast'],
+        forms: ['past: ran', '-ing: running'],
+      });
+
+      expect(content).toEqual({
+        phonetic: '/rʌn/',
+        back: {
+          translation: 'v. 跑; n. 奔跑',
+          explanation: 'move fast',
+          notes: 'Forms: past: ran; -ing: running',
+        },
+      });
+    });
+
+    it('should return null for entries without back content', () => {
+      expect(
+        entryToContent({ word: 'x', phonetic: '/x/', translations: [], definitions: [], forms: [] })
+      ).toBeNull();
+    });
+  });
+});
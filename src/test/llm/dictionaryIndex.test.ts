@@ -0,0 +1,132 @@
+// Dictionary index tests
+// TDD: Tests for building the on-disk lookup index and reading records through it
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { gzipSync } from 'zlib';
+import { openDictionaryIndex } from '../../llm/dictionaryIndex';
+
+describe('Dictionary index', () => {
+  let tempDir: string;
+  let indexDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wordslash-test-'));
+    indexDir = path.join(tempDir, 'dictionary-index');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true });
+  });
+
+  async function writeCsv(rows: string[]): Promise<string> {
+    const csvPath = path.join(tempDir, 'ecdict.csv');
+    await fs.writeFile(csvPath, ['word,phonetic,definition,translation', ...rows].join('\n'));
+    return csvPath;
+  }
+
+  async function writeStarDict(articles: Array<[string, string]>, compress: boolean) {
+    const idxParts: Buffer[] = [];
+    const dictParts: Buffer[] = [];
+    let offset = 0;
+    for (const [word, article] of articles) {
+      const data = Buffer.from(article);
+      const numbers = Buffer.alloc(8);
+      numbers.writeUInt32BE(offset, 0);
+      numbers.writeUInt32BE(data.length, 4);
+      idxParts.push(Buffer.from(word + '\0'), numbers);
+      dictParts.push(data);
+      offset += data.length;
+    }
+
+    const base = path.join(tempDir, 'test');
+    await fs.writeFile(
+      `${base}.ifo`,
+      `StarDict's dict ifo file\nversion=2.4.2\nbookname=Test\nwordcount=${articles.length}\nsametypesequence=m\n`
+    );
+    await fs.writeFile(`${base}.idx`, Buffer.concat(idxParts));
+    const dict = Buffer.concat(dictParts);
+    if (compress) {
+      await fs.writeFile(`${base}.dict.dz`, gzipSync(dict));
+    } else {
+      await fs.writeFile(`${base}.dict`, dict);
+    }
+    return `${base}.ifo`;
+  }
+
+  describe('ECDICT', () => {
+    it('should find rows case-insensitively across index blocks', async () => {
+      const rows = Array.from(
+        { length: 600 },
+        (_, i) => `word${String(i).padStart(3, '0')},,def ${i},`
+      );
+      const csvPath = await writeCsv([...rows, 'Polish,,of Poland,', 'polish,,make shiny,']);
+
+      const index = await openDictionaryIndex(csvPath, indexDir);
+
+      expect(index.format).toBe('ecdict');
+      expect(index.entryCount).toBe(602);
+      for (const i of [0, 255, 256, 511, 599]) {
+        const [record] = await index.lookup(`WORD${String(i).padStart(3, '0')}`);
+        expect(record.data.toString('utf8')).toBe(`word${String(i).padStart(3, '0')},,def ${i},`);
+      }
+      const polish = await index.lookup('polish');
+      expect(polish.map((r) => r.word).sort()).toEqual(['Polish', 'polish']);
+      expect(await index.lookup('word')).toEqual([]);
+      expect(await index.lookup('missing')).toEqual([]);
+    });
+
+    it('should keep the index on disk and rebuild it when the file changes', async () => {
+      const csvPath = await writeCsv(['apple,,a fruit,']);
+      await openDictionaryIndex(csvPath, indexDir);
+      expect((await fs.readdir(indexDir)).sort()).toEqual([
+        expect.stringMatching(/\.idx$/),
+        expect.stringMatching(/\.json$/),
+      ]);
+
+      await writeCsv(['apple,,a fruit,', 'banana,,another fruit,']);
+      const index = await openDictionaryIndex(csvPath, indexDir);
+
+      expect(index.entryCount).toBe(2);
+      expect(await index.lookup('banana')).toHaveLength(1);
+    });
+  });
+
+  describe('StarDict', () => {
+    it('should read articles from a plain .dict file', async () => {
+      const ifoPath = await writeStarDict(
+        [
+          ['apple', 'n. 苹果'],
+          ['banana', 'n. 香蕉'],
+        ],
+        false
+      );
+
+      const index = await openDictionaryIndex(ifoPath, indexDir);
+      const [record] = await index.lookup('Banana');
+
+      expect(index.format).toBe('stardict');
+      expect(index.sameTypeSequence).toBe('m');
+      expect(record).toEqual({ word: 'banana', data: Buffer.from('n. 香蕉') });
+    });
+
+    it('should unpack a .dict.dz file once', async () => {
+      const ifoPath = await writeStarDict([['apple', 'n. 苹果']], true);
+
+      const index = await openDictionaryIndex(ifoPath, indexDir);
+      const [record] = await index.lookup('apple');
+
+      expect(record.data.toString('utf8')).toBe('n. 苹果');
+      expect((await fs.readdir(indexDir)).some((name) => name.endsWith('.dict'))).toBe(true);
+    });
+
+    it('should fail when the dictionary data is missing', async () => {
+      const ifoPath = await writeStarDict([['apple', 'n. 苹果']], false);
+      await fs.unlink(ifoPath.replace(/\.ifo$/, '.dict'));
+
+      await expect(openDictionaryIndex(ifoPath, indexDir)).rejects.toThrow('no .dict');
+    });
+  });
+});
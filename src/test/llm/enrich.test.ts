@@ -0,0 +1,188 @@
+// Enrichment tests
+// TDD: Tests for finding incomplete cards and enriching them with bounded concurrency and retries
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  enrichCards,
+  fillGeneratedContent,
+  findIncompleteCards,
+  getMissingFields,
+  rebaseEnrichedCards,
+} from '../../llm/enrich';
+import type { BackContentGenerator, GeneratedCardContent } from '../../llm/generator';
+import { buildIndex } from '../../storage/indexer';
+import { createCard, updateCard, type Card } from '../../storage/schema';
+
+describe('Enrichment', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(id: string, extra: Partial<Card> = {}): Card {
+    return { ...createCard({ type: 'word', front: { term: id } }), id, ...extra };
+  }
+
+  const complete = makeCard('complete', {
+    front: { term: 'complete', phonetic: '/kəmˈpliːt/' },
+    back: { translation: '完整的', explanation: 'having all parts' },
+  });
+
+  const generated: GeneratedCardContent = {
+    phonetic: '/x/',
+    back: { translation: '译', explanation: 'meaning' },
+  };
+
+  function generatorOf(generate: BackContentGenerator['generate']): BackContentGenerator {
+    return { generate };
+  }
+
+  describe('getMissingFields()', () => {
+    it('should list missing translation, explanation and phonetic', () => {
+      expect(getMissingFields(makeCard('a'))).toEqual(['translation', 'explanation', 'phonetic']);
+      expect(getMissingFields(complete)).toEqual([]);
+    });
+  });
+
+  describe('findIncompleteCards()', () => {
+    it('should return incomplete cards from the index, oldest first', () => {
+      const older = { ...makeCard('older'), createdAt: Date.now() - 1000 };
+      const index = buildIndex([makeCard('newer'), complete, older], []);
+
+      expect(findIncompleteCards(index).map((c) => c.id)).toEqual(['older', 'newer']);
+    });
+
+    it('should leave out cloze cards', () => {
+      const cloze = makeCard('cloze', { type: 'cloze', cloze: { noteId: 'note', index: 1 } });
+
+      expect(findIncompleteCards(buildIndex([cloze], []))).toEqual([]);
+    });
+  });
+
+  describe('fillGeneratedContent()', () => {
+    it('should only fill blank fields and report them', () => {
+      const card = makeCard('a', { back: { translation: 'mine' } });
+
+      const result = fillGeneratedContent(card, generated);
+
+      expect(result?.filled).toEqual(['explanation', 'phonetic']);
+      expect(result?.card.back).toEqual({ translation: 'mine', explanation: 'meaning' });
+      expect(result?.card.front.phonetic).toBe('/x/');
+      expect(result?.card.version).toBe(2);
+    });
+
+    it('should return null when nothing was blank', () => {
+      expect(fillGeneratedContent(complete, { back: { translation: 'other' } })).toBeNull();
+    });
+  });
+
+  describe('rebaseEnrichedCards()', () => {
+    it('should apply filled fields to the latest version and keep later changes', () => {
+      const card = makeCard('a');
+      const enriched = updateCard(card, { front: { phonetic: '/x/' }, back: generated.back });
+      const edited = updateCard(card, {
+        back: { translation: 'mine', notes: 'note' },
+        suspended: true,
+        deckId: 'deck',
+      });
+
+      const { updated, filled } = rebaseEnrichedCards([enriched], [card, edited]);
+      const [rebased] = updated;
+
+      expect(filled).toEqual({ explanation: 1, phonetic: 1 });
+      expect(rebased.version).toBe(3);
+      expect(rebased.suspended).toBe(true);
+      expect(rebased.deckId).toBe('deck');
+      expect(rebased.back).toEqual({ translation: 'mine', notes: 'note', explanation: 'meaning' });
+      expect(rebased.front.phonetic).toBe('/x/');
+    });
+
+    it('should drop cards deleted while enriching', () => {
+      const card = makeCard('a');
+      const enriched = updateCard(card, { front: { phonetic: '/x/' }, back: generated.back });
+      const deleted = updateCard(card, { deleted: true });
+
+      expect(rebaseEnrichedCards([enriched], [card, deleted])).toEqual({ updated: [], filled: {} });
+    });
+  });
+
+  describe('enrichCards()', () => {
+    it('should enrich every card and count filled fields', async () => {
+      const onProgress = vi.fn();
+
+      const result = await enrichCards(
+        [makeCard('a'), makeCard('b')],
+        generatorOf(async () => generated),
+        { onProgress }
+      );
+
+      expect(result.updated.map((c) => c.id)).toEqual(['a', 'b']);
+      expect(result.filled).toEqual({ translation: 2, explanation: 2, phonetic: 2 });
+      expect(result.failed).toEqual([]);
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('should keep at most `concurrency` calls in flight', async () => {
+      vi.useRealTimers();
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const generator = generatorOf(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return generated;
+      });
+
+      const cards = ['a', 'b', 'c', 'd', 'e'].map((id) => makeCard(id));
+      const result = await enrichCards(cards, generator, { concurrency: 2 });
+
+      expect(result.updated).toHaveLength(5);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should retry failed calls and report cards that keep failing', async () => {
+      vi.useRealTimers();
+      let calls = 0;
+      const flaky = generatorOf(async (card) => {
+        calls++;
+        if (card.id === 'bad' || calls === 1) {
+          throw new Error('HTTP 500');
+        }
+        return generated;
+      });
+
+      const result = await enrichCards([makeCard('good'), makeCard('bad')], flaky, {
+        concurrency: 1,
+        retries: 2,
+        retryDelayMs: 0,
+      });
+
+      expect(result.updated.map((c) => c.id)).toEqual(['good']);
+      expect(result.failed).toEqual([{ cardId: 'bad', term: 'bad', error: 'HTTP 500' }]);
+      // good: 1 failure + 1 success; bad: 3 attempts
+      expect(calls).toBe(5);
+    });
+
+    it('should stop picking up cards once cancelled', async () => {
+      let cancelled = false;
+      const generator = generatorOf(async () => {
+        cancelled = true;
+        return generated;
+      });
+
+      const result = await enrichCards([makeCard('a'), makeCard('b'), makeCard('c')], generator, {
+        concurrency: 1,
+        isCancelled: () => cancelled,
+      });
+
+      expect(result.cancelled).toBe(true);
+      expect(result.updated).toHaveLength(1);
+      expect(result.skipped).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// Generator tests
+// TDD: Tests for validating generated content and applying it to cards
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  FallbackGenerator,
+  StubGenerator,
+  applyGeneratedContent,
+  hasEmptyBack,
+  parseGeneratedContent,
+} from '../../llm/generator';
+import { createCard } from '../../storage/schema';
+
+describe('Generator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('StubGenerator', () => {
+    it('should return null', async () => {
+      const card = createCard({ type: 'word', front: { term: 'test' } });
+
+      expect(await new StubGenerator().generate(card)).toBeNull();
+    });
+  });
+
+  describe('FallbackGenerator', () => {
+    const card = createCard({ type: 'word', front: { term: 'test' } });
+    const content = { back: { translation: '测试' } };
+
+    it('should return the first content found', async () => {
+      const later = vi.fn(async () => content);
+      const generator = new FallbackGenerator([
+        new StubGenerator(),
+        { generate: later },
+        { generate: async () => ({ back: { translation: 'unused' } }) },
+      ]);
+
+      expect(await generator.generate(card)).toEqual(content);
+      expect(later).toHaveBeenCalledOnce();
+    });
+
+    it('should only report an error when no generator produced content', async () => {
+      const failing = { generate: async () => Promise.reject(new Error('offline')) };
+
+      expect(
+        await new FallbackGenerator([failing, { generate: async () => content }]).generate(card)
+      ).toEqual(content);
+      await expect(
+        new FallbackGenerator([failing, new StubGenerator()]).generate(card)
+      ).rejects.toThrow('offline');
+    });
+  });
+
+  describe('parseGeneratedContent()', () => {
+    it('should split back and front fields, trimming and dropping empty values', () => {
+      const content = parseGeneratedContent({
+        phonetic: ' /ɪˈfem(ə)rəl/ ',
+        morphemes: ['ephe', ' meral', ''],
+        example: 'Fame is ephemeral.',
+        translation: '短暂的',
+        explanation: '',
+        synonyms: ['fleeting', 'transient'],
+        antonyms: [],
+        unknown: 42,
+      });
+
+      expect(content).toEqual({
+        phonetic: '/ɪˈfem(ə)rəl/',
+        morphemes: ['ephe', 'meral'],
+        example: 'Fame is ephemeral.',
+        back: { translation: '短暂的', synonyms: ['fleeting', 'transient'] },
+      });
+    });
+
+    it('should reject non-objects and wrongly typed fields', () => {
+      expect(() => parseGeneratedContent('text')).toThrow('JSON object');
+      expect(() => parseGeneratedContent([])).toThrow('JSON object');
+      expect(() => parseGeneratedContent({ translation: 1 })).toThrow('"translation"');
+      expect(() => parseGeneratedContent({ translation: 'x', synonyms: 'a, b' })).toThrow(
+        '"synonyms"'
+      );
+    });
+
+    it('should reject content without back fields', () => {
+      expect(() => parseGeneratedContent({ phonetic: '/x/' })).toThrow('no back fields');
+    });
+  });
+
+  describe('hasEmptyBack()', () => {
+    it('should detect cards without back content', () => {
+      const card = createCard({ type: 'word', front: { term: 'test' } });
+
+      expect(hasEmptyBack(card)).toBe(true);
+      expect(hasEmptyBack({ ...card, back: { translation: '' } })).toBe(true);
+      expect(hasEmptyBack({ ...card, back: { translation: '测试' } })).toBe(false);
+    });
+  });
+
+  describe('applyGeneratedContent()', () => {
+    it('should set the back and only fill blank front fields', () => {
+      const card = createCard({
+        type: 'word',
+        front: { term: 'ephemeral', example: 'const ephemeral = true;' },
+        back: { notes: 'mine' },
+      });
+
+      const updated = applyGeneratedContent(card, {
+        phonetic: '/ɪˈfem(ə)rəl/',
+        example: 'Fame is ephemeral.',
+        back: { translation: '短暂的' },
+      });
+
+      expect(updated.version).toBe(2);
+      expect(updated.front).toMatchObject({
+        term: 'ephemeral',
+        phonetic: '/ɪˈfem(ə)rəl/',
+        example: 'const ephemeral = true;',
+      });
+      expect(updated.back).toEqual({ notes: 'mine', translation: '短暂的' });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+// Local dictionary generator tests
+// TDD: Tests for filling card content from a local dictionary file
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { LocalDictionaryGenerator } from '../../llm/localDictionary';
+import { createCard } from '../../storage/schema';
+
+describe('LocalDictionaryGenerator', () => {
+  let tempDir: string;
+  let generator: LocalDictionaryGenerator;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wordslash-test-'));
+
+    const csvPath = path.join(tempDir, 'ecdict.csv');
+    await fs.writeFile(
+      csvPath,
+      [
+        'word,phonetic,definition,translation,pos,collins,oxford,tag,bnc,frq,exchange,detail,audio',
+        "Polish,'pəuliʃ,a. of Poland,a. 波兰的,,,,,,,,,",
+        "polish,'pɔliʃ,v. make smooth and shiny,v. 擦亮,,,,,,,p:polished/d:polished,,",
+        'blank,,,,,,,,,,,,',
+      ].join('\n')
+    );
+    generator = new LocalDictionaryGenerator({
+      path: csvPath,
+      indexDir: path.join(tempDir, 'dictionary-index'),
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(tempDir, { recursive: true });
+  });
+
+  function cardFor(term: string) {
+    return createCard({ type: 'word', front: { term } });
+  }
+
+  it('should fill phonetic, translation, explanation and forms', async () => {
+    expect(await generator.generate(cardFor('polish'))).toEqual({
+      phonetic: "/'pɔliʃ/",
+      back: {
+        translation: 'v. 擦亮',
+        explanation: 'v. make smooth and shiny',
+        notes: 'Forms: past: polished; past participle: polished',
+      },
+    });
+  });
+
+  it('should prefer the headword with the same casing', async () => {
+    const content = await generator.generate(cardFor(' Polish '));
+
+    expect(content?.back.translation).toBe('a. 波兰的');
+  });
+
+  it('should return null for unknown or empty entries', async () => {
+    expect(await generator.generate(cardFor('unknown'))).toBeNull();
+    expect(await generator.generate(cardFor('blank'))).toBeNull();
+  });
+
+  it('should reject unsupported dictionary files', async () => {
+    const other = new LocalDictionaryGenerator({
+      path: path.join(tempDir, 'ecdict.csv.bak'),
+      indexDir: tempDir,
+    });
+    await fs.writeFile(path.join(tempDir, 'ecdict.csv.bak'), '');
+
+    await expect(other.generate(cardFor('polish'))).rejects.toThrow('Unsupported dictionary');
+  });
+});
@@ -0,0 +1,106 @@
+// OpenAI-compatible generator tests
+// TDD: Tests for the chat completion request and response handling
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  OpenAiCompatibleGenerator,
+  buildGeneratorMessages,
+  parseCompletionJson,
+} from '../../llm/openai';
+import { createCard } from '../../storage/schema';
+
+describe('OpenAiCompatibleGenerator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const card = createCard({
+    type: 'word',
+    front: { term: 'ephemeral', context: { lineText: 'const ephemeral = true;' } },
+  });
+
+  function completion(content: unknown, init: ResponseInit = {}): Response {
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), init);
+  }
+
+  describe('buildGeneratorMessages()', () => {
+    it('should describe the term and where it was seen', () => {
+      const [system, user] = buildGeneratorMessages(card);
+
+      expect(system.role).toBe('system');
+      expect(system.content).toContain('"translation"');
+      expect(user.content).toContain('Term: ephemeral');
+      expect(user.content).toContain('Seen in: const ephemeral = true;');
+    });
+  });
+
+  describe('parseCompletionJson()', () => {
+    it('should parse plain and fenced JSON', () => {
+      expect(parseCompletionJson('{"a":1}')).toEqual({ a: 1 });
+      expect(parseCompletionJson('Here:\n```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseCompletionJson('not json')).toThrow('not valid JSON');
+    });
+  });
+
+  describe('generate()', () => {
+    it('should post a chat completion and return validated content', async () => {
+      const fetchMock = vi.fn(async () =>
+        completion(JSON.stringify({ translation: '短暂的', phonetic: '/ɪˈfem(ə)rəl/' }))
+      );
+      const generator = new OpenAiCompatibleGenerator({
+        baseUrl: 'http://localhost:11434/v1/',
+        model: 'llama3',
+        apiKey: 'sk-test',
+        fetch: fetchMock,
+      });
+
+      const content = await generator.generate(card);
+
+      expect(content).toEqual({ phonetic: '/ɪˈfem(ə)rəl/', back: { translation: '短暂的' } });
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        model: 'llama3',
+        response_format: { type: 'json_object' },
+      });
+    });
+
+    it('should omit the authorization header without an API key', async () => {
+      const fetchMock = vi.fn(async () => completion('{"translation":"x"}'));
+      const generator = new OpenAiCompatibleGenerator({
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'local',
+        fetch: fetchMock,
+      });
+
+      await generator.generate(card);
+
+      const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(init.headers).not.toHaveProperty('Authorization');
+    });
+
+    it('should report HTTP errors and malformed responses', async () => {
+      const generate = (response: Response) =>
+        new OpenAiCompatibleGenerator({
+          baseUrl: 'http://localhost/v1',
+          model: 'm',
+          fetch: async () => response,
+        }).generate(card);
+
+      await expect(
+        generate(new Response('', { status: 401, statusText: 'Unauthorized' }))
+      ).rejects.toThrow('401 Unauthorized');
+      await expect(generate(new Response('{}'))).rejects.toThrow('no message content');
+      await expect(generate(completion('{"translation": 5}'))).rejects.toThrow('"translation"');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+// Custom study tests
+// TDD: Tests for filtering a custom study session by tag, type and state
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  countCustomStudyReviews,
+  createCustomStudyPredicate,
+  describeCustomStudy,
+  type CustomStudyFilter,
+} from '../../srs/customStudy';
+import { getNextReview } from '../../srs/scheduler';
+import { buildIndex } from '../../storage/indexer';
+import { createCard, createReviewEvent, type Card, type ReviewEvent } from '../../storage/schema';
+
+describe('Custom study', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(id: string, extra: Partial<Card> = {}): Card {
+    return {
+      ...createCard({ type: 'word', front: { term: id } }),
+      id,
+      createdAt: Date.now() - 30 * DAY_MS,
+      ...extra,
+    };
+  }
+
+  function review(cardId: string, rating: 'again' | 'good', daysAgo: number): ReviewEvent {
+    return {
+      ...createReviewEvent({ cardId, rating, mode: 'flashcard' }),
+      ts: Date.now() - daysAgo * DAY_MS,
+    };
+  }
+
+  function makeCards(): Card[] {
+    return [
+      makeCard('ielts-word', { tags: ['ielts'] }),
+      makeCard('ielts-phrase', { type: 'phrase', tags: ['ielts', 'travel'] }),
+      makeCard('fresh', { createdAt: Date.now() - 2 * DAY_MS }),
+      makeCard('struggling'),
+    ];
+  }
+
+  function makeEvents(): ReviewEvent[] {
+    return [
+      review('struggling', 'good', 20),
+      review('struggling', 'again', 15),
+      review('struggling', 'again', 10),
+      review('ielts-word', 'good', 25),
+    ];
+  }
+
+  function matching(filter: Omit<CustomStudyFilter, 'limit'>): string[] {
+    const index = buildIndex(makeCards(), makeEvents());
+    const matches = createCustomStudyPredicate({ ...filter, limit: 10 }, Date.now());
+    return [...index.srsStates.values()]
+      .filter((srs) => matches(index.cards.get(srs.cardId) as Card, srs))
+      .map((srs) => srs.cardId)
+      .sort();
+  }
+
+  describe('createCustomStudyPredicate()', () => {
+    it('should match cards with any of the tags', () => {
+      expect(matching({ tags: ['travel', 'ielts'] })).toEqual(['ielts-phrase', 'ielts-word']);
+    });
+
+    it('should match card types, lapses and creation time', () => {
+      expect(matching({ types: ['phrase'] })).toEqual(['ielts-phrase']);
+      expect(matching({ minLapses: 2 })).toEqual(['struggling']);
+      expect(matching({ addedWithinDays: 7 })).toEqual(['fresh']);
+    });
+
+    it('should match reviewed cards due soon, overdue ones included', () => {
+      expect(matching({ dueWithinDays: 3 })).toEqual(['ielts-word', 'struggling']);
+    });
+
+    it('should require every criterion', () => {
+      expect(matching({ tags: ['ielts'], types: ['word'] })).toEqual(['ielts-word']);
+      expect(matching({})).toHaveLength(4);
+    });
+  });
+
+  describe('countCustomStudyReviews()', () => {
+    it('should count matching reviews that can be shown now', () => {
+      const [first, ...rest] = makeCards();
+      const buried = { ...first, buriedUntil: Date.now() + DAY_MS };
+      const index = buildIndex([buried, ...rest], makeEvents());
+
+      expect(countCustomStudyReviews(index, { tags: ['ielts'], limit: 10 }, Date.now())).toBe(1);
+    });
+  });
+
+  describe('with getNextReview()', () => {
+    it('should only draw matching cards', () => {
+      const index = buildIndex(makeCards(), makeEvents());
+      const filter = createCustomStudyPredicate({ tags: ['ielts'], limit: 10 }, Date.now());
+
+      const next = getNextReview(index, Date.now(), { loopMode: true, filter });
+
+      expect(next?.card.tags).toContain('ielts');
+    });
+  });
+
+  describe('describeCustomStudy()', () => {
+    it('should list the criteria', () => {
+      expect(
+        describeCustomStudy({
+          tags: ['ielts'],
+          types: ['phrase'],
+          minLapses: 2,
+          addedWithinDays: 7,
+          dueWithinDays: 3,
+          limit: 20,
+        })
+      ).toBe('#ielts · phrase · lapses ≥ 2 · added in 7d · due in 3d');
+      expect(describeCustomStudy({ limit: 20 })).toBe('all cards');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+// Deck filter tests
+// TDD: Tests for deck scoping and per-deck new card limits
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createDeckFilter, getDeckNewCardLimit } from '../../srs/decks';
+import { getNextReview } from '../../srs/scheduler';
+import { getLatestDecks } from '../../storage/decks';
+import { buildIndex } from '../../storage/indexer';
+import { createCard, createDeck, type Card, type Deck } from '../../storage/schema';
+import { DEFAULT_DECK_ID } from '../../common/constants';
+
+describe('Deck filter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(id: string, deckId?: string): Card {
+    return { ...createCard({ type: 'word', front: { term: id }, deckId }), id };
+  }
+
+  function makeDeck(newCardsPerDay?: number): Deck {
+    return { ...createDeck({ name: 'IELTS', newCardsPerDay }), id: 'ielts' };
+  }
+
+  function drawable(deck: Deck, deckId: string | undefined, newCardsToday: [string, number][]) {
+    const index = buildIndex([makeCard('default-card'), makeCard('deck-card', deck.id)], []);
+    const filter = createDeckFilter({
+      decks: getLatestDecks([deck]),
+      deckId,
+      newCardsToday: new Map(newCardsToday),
+      defaultNewCardsPerDay: 20,
+    });
+    return [...index.srsStates.values()]
+      .filter((srs) => filter(index.cards.get(srs.cardId) as Card, srs))
+      .map((srs) => srs.cardId)
+      .sort();
+  }
+
+  describe('getDeckNewCardLimit()', () => {
+    it('should prefer the deck limit over the default', () => {
+      expect(getDeckNewCardLimit(makeDeck(5), 20)).toBe(5);
+      expect(getDeckNewCardLimit(makeDeck(), 20)).toBe(20);
+      expect(getDeckNewCardLimit(undefined, 20)).toBe(20);
+    });
+  });
+
+  describe('createDeckFilter()', () => {
+    it('should draw from every deck when none is chosen', () => {
+      expect(drawable(makeDeck(), undefined, [])).toEqual(['deck-card', 'default-card']);
+    });
+
+    it('should only draw from the chosen deck', () => {
+      expect(drawable(makeDeck(), 'ielts', [])).toEqual(['deck-card']);
+      expect(drawable(makeDeck(), DEFAULT_DECK_ID, [])).toEqual(['default-card']);
+    });
+
+    it('should hold back new cards of decks at their limit', () => {
+      expect(drawable(makeDeck(5), undefined, [['ielts', 5]])).toEqual(['default-card']);
+      expect(drawable(makeDeck(5), undefined, [[DEFAULT_DECK_ID, 20]])).toEqual(['deck-card']);
+    });
+
+    it('should work as a scheduler filter', () => {
+      const deck = makeDeck();
+      const index = buildIndex([makeCard('default-card'), makeCard('deck-card', deck.id)], []);
+      const filter = createDeckFilter({
+        decks: getLatestDecks([deck]),
+        deckId: deck.id,
+        newCardsToday: new Map(),
+        defaultNewCardsPerDay: 20,
+      });
+
+      expect(getNextReview(index, Date.now(), { loopMode: true, filter })?.card.id).toBe(
+        'deck-card'
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+// FSRS Algorithm tests
+// TDD: Tests for the stability/difficulty/retrievability memory model
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  FSRS_DEFAULT_WEIGHTS,
+  calculateFsrsNextState,
+  createFsrsAlgorithm,
+  difficultyToEaseFactor,
+  forgettingCurve,
+  initialDifficulty,
+  nextIntervalDays,
+  ratingToGrade,
+} from '../../srs/fsrs';
+import {
+  createSchedulingAlgorithm,
+  isSrsAlgorithmId,
+  SRS_ALGORITHM_IDS,
+} from '../../srs/algorithm';
+import { sm2Algorithm, createInitialSrsState } from '../../srs/sm2';
+import type { ReviewRating } from '../../storage/schema';
+import { MAX_EASE_FACTOR, MIN_EASE_FACTOR, MAX_INTERVAL_DAYS } from '../../common/constants';
+
+describe('FSRS Algorithm', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('ratingToGrade()', () => {
+    it.each([
+      ['again', 1],
+      ['hard', 2],
+      ['good', 3],
+      ['easy', 4],
+    ] as [ReviewRating, number][])('should map %s to grade %d', (rating, expected) => {
+      expect(ratingToGrade(rating)).toBe(expected);
+    });
+  });
+
+  describe('forgettingCurve()', () => {
+    it('should return 1 immediately after review', () => {
+      expect(forgettingCurve(0, 5)).toBe(1);
+    });
+
+    it('should return 0.9 when elapsed time equals stability', () => {
+      expect(forgettingCurve(10, 10)).toBeCloseTo(0.9, 10);
+    });
+
+    it('should decrease as time passes', () => {
+      expect(forgettingCurve(20, 10)).toBeLessThan(forgettingCurve(5, 10));
+    });
+  });
+
+  describe('nextIntervalDays()', () => {
+    it('should equal stability at 90% desired retention', () => {
+      expect(nextIntervalDays(10, 0.9)).toBe(10);
+    });
+
+    it('should be shorter for higher desired retention', () => {
+      expect(nextIntervalDays(10, 0.95)).toBeLessThan(nextIntervalDays(10, 0.9));
+    });
+
+    it('should be at least 1 day and at most MAX_INTERVAL_DAYS', () => {
+      expect(nextIntervalDays(0.01, 0.9)).toBe(1);
+      expect(nextIntervalDays(100000, 0.9)).toBe(MAX_INTERVAL_DAYS);
+    });
+  });
+
+  describe('difficultyToEaseFactor()', () => {
+    it('should map difficulty range onto ease factor range', () => {
+      expect(difficultyToEaseFactor(1)).toBe(MAX_EASE_FACTOR);
+      expect(difficultyToEaseFactor(10)).toBeCloseTo(MIN_EASE_FACTOR, 10);
+    });
+  });
+
+  describe('calculateFsrsNextState()', () => {
+    it('should initialize stability and difficulty on first review', () => {
+      const now = Date.now();
+      const next = calculateFsrsNextState(createInitialSrsState('card'), 'good', now);
+
+      expect(next.stability).toBe(FSRS_DEFAULT_WEIGHTS[2]);
+      expect(next.difficulty).toBeCloseTo(initialDifficulty(FSRS_DEFAULT_WEIGHTS, 3), 10);
+      expect(next.reps).toBe(1);
+      expect(next.lastReviewAt).toBe(now);
+      expect(next.dueAt).toBe(now + next.intervalDays * DAY_MS);
+    });
+
+    it('should give longer first intervals for easier ratings', () => {
+      const now = Date.now();
+      const initial = createInitialSrsState('card');
+      const hard = calculateFsrsNextState(initial, 'hard', now);
+      const easy = calculateFsrsNextState(initial, 'easy', now);
+
+      expect(easy.intervalDays).toBeGreaterThan(hard.intervalDays);
+      expect(easy.difficulty!).toBeLessThan(hard.difficulty!);
+    });
+
+    it('should grow stability on successful recall after the interval', () => {
+      let state = calculateFsrsNextState(createInitialSrsState('card'), 'good', 0);
+      const firstStability = state.stability!;
+
+      state = calculateFsrsNextState(state, 'good', state.dueAt);
+
+      expect(state.stability!).toBeGreaterThan(firstStability);
+      expect(state.reps).toBe(2);
+    });
+
+    it('should shrink stability and count a lapse on "again"', () => {
+      let state = calculateFsrsNextState(createInitialSrsState('card'), 'good', 0);
+      state = calculateFsrsNextState(state, 'good', state.dueAt);
+      const before = state.stability!;
+
+      state = calculateFsrsNextState(state, 'again', state.dueAt);
+
+      expect(state.stability!).toBeLessThan(before);
+      expect(state.reps).toBe(0);
+      expect(state.lapses).toBe(1);
+      expect(state.difficulty!).toBeGreaterThan(initialDifficulty(FSRS_DEFAULT_WEIGHTS, 3));
+    });
+
+    it('should barely change stability on an immediate re-review', () => {
+      const first = calculateFsrsNextState(createInitialSrsState('card'), 'good', 0);
+      const second = calculateFsrsNextState(first, 'good', 1000);
+
+      expect(second.stability!).toBeCloseTo(first.stability!, 2);
+    });
+
+    it('should honor custom weights and desired retention', () => {
+      const weights = [...FSRS_DEFAULT_WEIGHTS];
+      weights[2] = 30;
+      const next = calculateFsrsNextState(createInitialSrsState('card'), 'good', 0, {
+        weights,
+        desiredRetention: 0.9,
+      });
+
+      expect(next.stability).toBe(30);
+      expect(next.intervalDays).toBe(30);
+    });
+  });
+
+  describe('createFsrsAlgorithm()', () => {
+    it('should expose the fsrs id and delegate to calculateFsrsNextState', () => {
+      const algorithm = createFsrsAlgorithm({ desiredRetention: 0.85 });
+      const initial = algorithm.createInitialState('card');
+      const next = algorithm.calculateNextState(initial, 'good', 0);
+
+      expect(algorithm.id).toBe('fsrs');
+      expect(next).toEqual(calculateFsrsNextState(initial, 'good', 0, { desiredRetention: 0.85 }));
+    });
+  });
+});
+
+describe('Scheduling algorithm registry', () => {
+  it('should list known algorithm ids', () => {
+    expect(SRS_ALGORITHM_IDS).toEqual(['sm2', 'fsrs']);
+    expect(isSrsAlgorithmId('fsrs')).toBe(true);
+    expect(isSrsAlgorithmId('anki')).toBe(false);
+    expect(isSrsAlgorithmId(undefined)).toBe(false);
+  });
+
+  it('should create algorithms by id', () => {
+    expect(createSchedulingAlgorithm('sm2')).toBe(sm2Algorithm);
+    expect(createSchedulingAlgorithm('fsrs').id).toBe('fsrs');
+  });
+
+  it('should fall back to SM-2 for unknown ids', () => {
+    expect(createSchedulingAlgorithm('unknown')).toBe(sm2Algorithm);
+    expect(createSchedulingAlgorithm()).toBe(sm2Algorithm);
+  });
+});
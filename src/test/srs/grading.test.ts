@@ -0,0 +1,145 @@
+// Typed answer grading tests
+// TDD: Tests for fuzzy matching typed answers and suggesting a rating
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  diffAnswer,
+  editDistance,
+  getAcceptedAnswers,
+  getAnswerField,
+  gradeTypedAnswer,
+  normalizeAnswer,
+  suggestRating,
+} from '../../srs/grading';
+import { createCard, type Card } from '../../storage/schema';
+
+describe('Typed answer grading', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(extra: Partial<Card> = {}): Card {
+    return {
+      ...createCard({
+        type: 'word',
+        front: { term: 'Ephemeral' },
+        back: { translation: 'adj. 短暂的；转瞬即逝的' },
+      }),
+      ...extra,
+    };
+  }
+
+  describe('normalizeAnswer()', () => {
+    it('should trim, collapse whitespace and lowercase', () => {
+      expect(normalizeAnswer('  Carpe   Diem \n')).toBe('carpe diem');
+    });
+  });
+
+  describe('getAnswerField()', () => {
+    it('should ask for the translation on forward cards', () => {
+      expect(getAnswerField(makeCard(), false)).toBe('translation');
+    });
+
+    it('should ask for the term on reverse and cloze cards', () => {
+      expect(getAnswerField(makeCard(), true)).toBe('term');
+      expect(getAnswerField(makeCard({ type: 'cloze' }), false)).toBe('term');
+    });
+
+    it('should return null when there is no translation to type', () => {
+      expect(getAnswerField(makeCard({ back: { explanation: 'short-lived' } }), false)).toBeNull();
+    });
+  });
+
+  describe('getAcceptedAnswers()', () => {
+    it('should accept each translation alternative without its part of speech', () => {
+      expect(getAcceptedAnswers(makeCard(), 'translation')).toEqual([
+        'adj. 短暂的；转瞬即逝的',
+        '短暂的',
+        '转瞬即逝的',
+      ]);
+    });
+
+    it('should accept the whole term only', () => {
+      const card = makeCard({ front: { term: 'cats, dogs' } });
+
+      expect(getAcceptedAnswers(card, 'term')).toEqual(['cats, dogs']);
+    });
+  });
+
+  describe('editDistance() / diffAnswer()', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('ephemeral', 'ephemeral')).toBe(0);
+      expect(editDistance('ephemeral', 'ephemral')).toBe(1);
+      expect(editDistance('ephemeral', 'efemeral')).toBe(2);
+    });
+
+    it('should mark missing and extra characters', () => {
+      expect(diffAnswer('ephemeral', 'ephemral')).toEqual([
+        { kind: 'equal', text: 'ephem' },
+        { kind: 'missing', text: 'e' },
+        { kind: 'equal', text: 'ral' },
+      ]);
+      expect(diffAnswer('cat', 'cut')).toEqual([
+        { kind: 'equal', text: 'c' },
+        { kind: 'extra', text: 'u' },
+        { kind: 'missing', text: 'a' },
+        { kind: 'equal', text: 't' },
+      ]);
+    });
+  });
+
+  describe('suggestRating()', () => {
+    it('should rate exact answers by speed', () => {
+      expect(suggestRating(1, 3000, 5)).toBe('easy');
+      expect(suggestRating(1, 10000, 5)).toBe('good');
+      expect(suggestRating(1, 30000, 5)).toBe('hard');
+      expect(suggestRating(1, undefined, 5)).toBe('good');
+    });
+
+    it('should allow more time for longer answers', () => {
+      expect(suggestRating(1, 7000, 2)).toBe('good');
+      expect(suggestRating(1, 7000, 20)).toBe('easy');
+    });
+
+    it('should rate near misses hard and wrong answers again', () => {
+      expect(suggestRating(0.9, 1000, 9)).toBe('hard');
+      expect(suggestRating(0.5, 1000, 9)).toBe('again');
+    });
+  });
+
+  describe('gradeTypedAnswer()', () => {
+    it('should grade against the closest alternative', () => {
+      const grade = gradeTypedAnswer(makeCard(), 'translation', ' 转瞬即逝的 ', 2000);
+
+      expect(grade).toMatchObject({
+        expected: '转瞬即逝的',
+        typed: '转瞬即逝的',
+        distance: 0,
+        accuracy: 1,
+        suggestedRating: 'easy',
+      });
+      expect(grade.diff).toEqual([{ kind: 'equal', text: '转瞬即逝的' }]);
+    });
+
+    it('should tolerate a typo with a hard rating', () => {
+      const grade = gradeTypedAnswer(makeCard(), 'term', 'Ephemral', 2000);
+
+      expect(grade.distance).toBe(1);
+      expect(grade.accuracy).toBeCloseTo(8 / 9);
+      expect(grade.suggestedRating).toBe('hard');
+    });
+
+    it('should rate an empty answer again', () => {
+      const grade = gradeTypedAnswer(makeCard(), 'term', '   ');
+
+      expect(grade.accuracy).toBe(0);
+      expect(grade.suggestedRating).toBe('again');
+      expect(grade.diff).toEqual([{ kind: 'missing', text: 'ephemeral' }]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+// Load balancing tests
+// TDD: Tests for due date fuzz ranges and choosing the least loaded day
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  balanceDueAt,
+  getDueDay,
+  getFuzzRange,
+  updateDueLoad,
+  withLoadBalancing,
+  type DueLoad,
+} from '../../srs/loadBalance';
+import { createSchedulingAlgorithm } from '../../srs/algorithm';
+import type { SrsState } from '../../storage/schema';
+
+describe('Load balancing', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeState(intervalDays: number, phase: SrsState['phase'] = 'review'): SrsState {
+    return {
+      cardId: 'card',
+      dueAt: Date.now() + intervalDays * DAY_MS,
+      intervalDays,
+      easeFactor: 2.5,
+      reps: 3,
+      lapses: 0,
+      lastReviewAt: Date.now(),
+      phase,
+      stepIndex: 0,
+    };
+  }
+
+  function daysFromNow(state: SrsState): number {
+    return Math.round((state.dueAt - Date.now()) / DAY_MS);
+  }
+
+  describe('getFuzzRange()', () => {
+    it('should not fuzz short intervals', () => {
+      expect(getFuzzRange(1)).toEqual({ minDays: 1, maxDays: 1 });
+      expect(getFuzzRange(2)).toEqual({ minDays: 2, maxDays: 2 });
+    });
+
+    it('should widen with the interval by a shrinking share', () => {
+      expect(getFuzzRange(3)).toEqual({ minDays: 2, maxDays: 4 });
+      expect(getFuzzRange(15)).toEqual({ minDays: 13, maxDays: 17 });
+      expect(getFuzzRange(100)).toEqual({ minDays: 93, maxDays: 107 });
+    });
+
+    it('should not go past the maximum interval', () => {
+      expect(getFuzzRange(365).maxDays).toBe(365);
+    });
+  });
+
+  describe('getDueDay()', () => {
+    it('should bucket due dates by study day', () => {
+      const afterMidnight = new Date(2024, 0, 15, 2).getTime();
+
+      expect(getDueDay(afterMidnight)).toBe(new Date(2024, 0, 14, 4).getTime());
+      expect(getDueDay(afterMidnight, 0)).toBe(new Date(2024, 0, 15, 0).getTime());
+    });
+  });
+
+  describe('updateDueLoad()', () => {
+    it('should count graduated reviews per day', () => {
+      const load: DueLoad = new Map();
+      const state = makeState(10);
+
+      updateDueLoad(load, state, 1);
+      updateDueLoad(load, state, 1);
+      updateDueLoad(load, makeState(0, 'learning'), 1);
+      expect([...load]).toEqual([[getDueDay(state.dueAt), 2]]);
+
+      updateDueLoad(load, state, -1);
+      updateDueLoad(load, state, -1);
+      expect(load.size).toBe(0);
+    });
+  });
+
+  describe('balanceDueAt()', () => {
+    it('should pick the least loaded day in the fuzz range', () => {
+      const load: DueLoad = new Map();
+      for (const days of [13, 14, 15, 17]) {
+        load.set(getDueDay(Date.now() + days * DAY_MS), 5);
+      }
+
+      const balanced = balanceDueAt(makeState(15), Date.now(), load, 'card');
+
+      expect(daysFromNow(balanced)).toBe(16);
+      expect(balanced.intervalDays).toBe(15);
+    });
+
+    it('should fuzz deterministically by seed when days are equally loaded', () => {
+      const days = new Set<number>();
+      for (let i = 0; i < 20; i++) {
+        const balanced = balanceDueAt(makeState(15), Date.now(), new Map(), `card-${i}`);
+        expect(balanced).toEqual(balanceDueAt(makeState(15), Date.now(), new Map(), `card-${i}`));
+        days.add(daysFromNow(balanced));
+      }
+
+      expect(days.size).toBeGreaterThan(1);
+      for (const day of days) {
+        expect(day).toBeGreaterThanOrEqual(13);
+        expect(day).toBeLessThanOrEqual(17);
+      }
+    });
+
+    it('should leave learning steps and short intervals alone', () => {
+      const learning = makeState(0, 'learning');
+      const short = makeState(1);
+
+      expect(balanceDueAt(learning, Date.now(), new Map(), 'card')).toBe(learning);
+      expect(balanceDueAt(short, Date.now(), new Map(), 'card')).toBe(short);
+    });
+  });
+
+  describe('withLoadBalancing()', () => {
+    it('should add spreadDueAt when load balancing is enabled', () => {
+      const sm2 = createSchedulingAlgorithm('sm2');
+      const state = makeState(15);
+
+      expect(withLoadBalancing(sm2).spreadDueAt?.(state, Date.now(), new Map(), 'card')).toEqual(
+        balanceDueAt(state, Date.now(), new Map(), 'card')
+      );
+      expect(sm2.spreadDueAt).toBeUndefined();
+      expect(createSchedulingAlgorithm('fsrs', { loadBalance: true }).spreadDueAt).toBeDefined();
+    });
+
+    it('should balance the load per study day of the rollover hour', () => {
+      // Reviewed after midnight but before the default rollover hour
+      const reviewTime = new Date(2024, 0, 15, 2).getTime();
+      const load: DueLoad = new Map();
+      for (const days of [13, 14, 15, 17]) {
+        load.set(getDueDay(reviewTime + days * DAY_MS, 0), 5);
+      }
+      const algorithm = createSchedulingAlgorithm('sm2', { loadBalance: true, dayRolloverHour: 0 });
+
+      const balanced = algorithm.spreadDueAt?.(makeState(15), reviewTime, load, 'card');
+
+      expect(algorithm.dayRolloverHour).toBe(0);
+      expect(balanced?.dueAt).toBe(reviewTime + 16 * DAY_MS);
+    });
+  });
+});
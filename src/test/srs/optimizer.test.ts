@@ -0,0 +1,178 @@
+// FSRS Optimizer tests
+// TDD: Tests for fitting FSRS weights to the review log
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  buildTrainingSequences,
+  countTrainingReviews,
+  evaluateWeights,
+  isValidFsrsWeights,
+  optimizeFsrsWeights,
+} from '../../srs/optimizer';
+import { FSRS_DEFAULT_WEIGHTS, calculateFsrsNextState, forgettingCurve } from '../../srs/fsrs';
+import { createInitialSrsState } from '../../srs/sm2';
+import type { ReviewEvent, ReviewRating } from '../../storage/schema';
+import { MIN_OPTIMIZER_REVIEWS } from '../../common/constants';
+
+describe('FSRS Optimizer', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createEvent(cardId: string, ts: number, rating: ReviewRating): ReviewEvent {
+    return { id: `${cardId}-${ts}`, cardId, ts, kind: 'review', rating, mode: 'flashcard' };
+  }
+
+  /**
+   * Simulate a learner whose memory follows FSRS with the given weights,
+   * using a seeded generator so results are reproducible
+   */
+  function simulateReviews(weights: readonly number[], cardCount: number, reviewsPerCard: number) {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const events: ReviewEvent[] = [];
+    for (let c = 0; c < cardCount; c++) {
+      const cardId = `card-${c}`;
+      let ts = 0;
+      let state = calculateFsrsNextState(createInitialSrsState(cardId), 'good', ts, { weights });
+      events.push(createEvent(cardId, ts, 'good'));
+
+      for (let r = 1; r < reviewsPerCard; r++) {
+        // Review a little before or after the scheduled date
+        const elapsedDays = Math.max(1, Math.round(state.intervalDays * (0.5 + random())));
+        ts += elapsedDays * DAY_MS;
+        const recalled = random() < forgettingCurve(elapsedDays, state.stability!);
+        const rating: ReviewRating = recalled ? 'good' : 'again';
+        state = calculateFsrsNextState(state, rating, ts, { weights });
+        events.push(createEvent(cardId, ts, rating));
+      }
+    }
+    return events;
+  }
+
+  describe('buildTrainingSequences()', () => {
+    it('should group events by card and order them by time', () => {
+      const events = [
+        createEvent('b', 2 * DAY_MS, 'good'),
+        createEvent('a', 3 * DAY_MS, 'again'),
+        createEvent('a', 0, 'good'),
+      ];
+
+      const sequences = buildTrainingSequences(events);
+
+      expect(sequences).toHaveLength(2);
+      expect(sequences[0]).toEqual([{ grade: 3, elapsedDays: 0 }]);
+      expect(sequences[1]).toEqual([
+        { grade: 3, elapsedDays: 0 },
+        { grade: 1, elapsedDays: 3 },
+      ]);
+    });
+
+    it('should keep reverse and dictation reviews in their own sequences', () => {
+      const events: ReviewEvent[] = [
+        createEvent('a', 0, 'good'),
+        { ...createEvent('a', DAY_MS, 'good'), direction: 'reverse' },
+        { ...createEvent('a', 2 * DAY_MS, 'again'), mode: 'dictation' },
+      ];
+
+      expect(buildTrainingSequences(events)).toHaveLength(3);
+    });
+  });
+
+  describe('countTrainingReviews()', () => {
+    it('should only count reviews at least a day after the previous one', () => {
+      const events = [
+        createEvent('a', 0, 'good'),
+        createEvent('a', 1000, 'good'),
+        createEvent('a', 2 * DAY_MS, 'good'),
+      ];
+
+      expect(countTrainingReviews(buildTrainingSequences(events))).toBe(1);
+    });
+  });
+
+  describe('evaluateWeights()', () => {
+    it('should return zero metrics when nothing can be scored', () => {
+      expect(evaluateWeights(FSRS_DEFAULT_WEIGHTS, [])).toEqual({ logLoss: 0, rmse: 0 });
+    });
+
+    it('should score weights that predict the outcome better with lower loss', () => {
+      // Card recalled after 30 days: higher initial stability predicts this better
+      const sequences = buildTrainingSequences([
+        createEvent('a', 0, 'good'),
+        createEvent('a', 30 * DAY_MS, 'good'),
+      ]);
+      const stable = [...FSRS_DEFAULT_WEIGHTS];
+      stable[2] = 60;
+
+      const defaults = evaluateWeights(FSRS_DEFAULT_WEIGHTS, sequences);
+      const better = evaluateWeights(stable, sequences);
+
+      expect(better.logLoss).toBeLessThan(defaults.logLoss);
+      expect(better.rmse).toBeLessThan(defaults.rmse);
+    });
+  });
+
+  describe('optimizeFsrsWeights()', () => {
+    it('should reject review logs that are too small', async () => {
+      const events = simulateReviews(FSRS_DEFAULT_WEIGHTS, 10, 3);
+
+      await expect(optimizeFsrsWeights(events)).rejects.toThrow(String(MIN_OPTIMIZER_REVIEWS));
+    });
+
+    it('should not make predictions worse and should report progress', async () => {
+      vi.useRealTimers();
+      const learner = [...FSRS_DEFAULT_WEIGHTS];
+      learner[2] = 12;
+      const events = simulateReviews(learner, 120, 5);
+      const progress: number[] = [];
+
+      const result = await optimizeFsrsWeights(events, {
+        iterations: 10,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(result.cancelled).toBe(false);
+      expect(result.cardCount).toBe(120);
+      expect(result.reviewCount).toBe(480);
+      expect(result.after.logLoss).toBeLessThanOrEqual(result.before.logLoss);
+      expect(isValidFsrsWeights(result.weights)).toBe(true);
+      expect(progress).toHaveLength(10);
+      expect(progress[9]).toBe(1);
+    });
+
+    it('should stop early when cancelled and keep the starting weights', async () => {
+      vi.useRealTimers();
+      const events = simulateReviews(FSRS_DEFAULT_WEIGHTS, 120, 5);
+
+      const result = await optimizeFsrsWeights(events, { isCancelled: () => true });
+
+      expect(result.cancelled).toBe(true);
+      expect(result.weights).toEqual([...FSRS_DEFAULT_WEIGHTS]);
+      expect(result.after).toEqual(result.before);
+    });
+  });
+
+  describe('isValidFsrsWeights()', () => {
+    it('should accept the default weights', () => {
+      expect(isValidFsrsWeights([...FSRS_DEFAULT_WEIGHTS])).toBe(true);
+    });
+
+    it('should reject wrong lengths and non-finite values', () => {
+      expect(isValidFsrsWeights([1, 2, 3])).toBe(false);
+      expect(isValidFsrsWeights([...FSRS_DEFAULT_WEIGHTS.slice(1), NaN])).toBe(false);
+      expect(isValidFsrsWeights('weights')).toBe(false);
+    });
+  });
+});
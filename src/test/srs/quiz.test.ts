@@ -0,0 +1,102 @@
+// Quiz tests
+// TDD: Tests for building multiple-choice questions and rating quiz answers
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildQuizQuestion, rateQuizAnswer } from '../../srs/quiz';
+import { buildIndex } from '../../storage/indexer';
+import { createCard, type Card } from '../../storage/schema';
+
+describe('Quiz', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(term: string, translation: string, extra: Partial<Card> = {}): Card {
+    return {
+      ...createCard({ type: 'word', front: { term }, back: { translation } }),
+      ...extra,
+    };
+  }
+
+  // Puts every correct answer first
+  const first = () => 0;
+
+  const target = makeCard('ephemeral', '短暂的', { tags: ['gre'] });
+  const sameTag = makeCard('ubiquitous', '无处不在的', { tags: ['gre'] });
+  const samePhrase = makeCard('at once', '立刻', { type: 'phrase', tags: ['gre'] });
+  const sameType = makeCard('candid', '坦率的');
+  const otherType = makeCard('by and large', '总的来说', { type: 'phrase' });
+
+  describe('buildQuizQuestion()', () => {
+    it('should mix the translation with three distractors', () => {
+      const index = buildIndex([target, sameTag, sameType, otherType], []);
+
+      const question = buildQuizQuestion(target, index, first);
+
+      expect(question).toEqual({
+        cardId: target.id,
+        options: ['短暂的', '无处不在的', '坦率的', '总的来说'],
+        correctIndex: 0,
+      });
+    });
+
+    it('should prefer cards sharing a tag, then cards of the same type', () => {
+      const extra = makeCard('nebulous', '模糊的', { type: 'phrase' });
+      const index = buildIndex([target, otherType, extra, sameType, samePhrase, sameTag], []);
+
+      const question = buildQuizQuestion(target, index, first);
+
+      expect(question?.options.slice(1, 3).sort()).toEqual(['无处不在的', '立刻'].sort());
+      expect(question?.options[3]).toBe('坦率的');
+    });
+
+    it('should place the answer where the random number points', () => {
+      const index = buildIndex([target, sameTag, sameType, otherType], []);
+
+      const question = buildQuizQuestion(target, index, () => 0.99);
+
+      expect(question?.correctIndex).toBe(3);
+      expect(question?.options[3]).toBe('短暂的');
+    });
+
+    it('should skip translations matching the answer or each other', () => {
+      const duplicate = makeCard('transient', ' 短暂的 ', { tags: ['gre'] });
+      const twin = makeCard('frank', '坦率的');
+      const index = buildIndex([target, duplicate, twin, sameType, sameTag], []);
+
+      expect(buildQuizQuestion(target, index, first)).toBeNull();
+    });
+
+    it('should return null without enough distractors or a translation', () => {
+      const index = buildIndex([target, sameTag, sameType], []);
+
+      expect(buildQuizQuestion(target, index, first)).toBeNull();
+      expect(buildQuizQuestion(makeCard('x', ''), index, first)).toBeNull();
+    });
+
+    it('should leave cloze cards out of questions and options', () => {
+      const cloze = makeCard('lasts', '名声短暂', { type: 'cloze' });
+      const index = buildIndex([target, sameTag, sameType, otherType, cloze], []);
+
+      expect(buildQuizQuestion(cloze, index, first)).toBeNull();
+      expect(buildQuizQuestion(target, index, first)?.options).not.toContain('名声短暂');
+    });
+  });
+
+  describe('rateQuizAnswer()', () => {
+    it('should rate wrong choices again', () => {
+      expect(rateQuizAnswer(false, 1000)).toBe('again');
+    });
+
+    it('should rate correct choices good, or hard when slow', () => {
+      expect(rateQuizAnswer(true, 3000)).toBe('good');
+      expect(rateQuizAnswer(true)).toBe('good');
+      expect(rateQuizAnswer(true, 15000)).toBe('hard');
+    });
+  });
+});
@@ -4,12 +4,22 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { 
   getNextCard, 
+  getNextReview,
   getStats, 
   calculateRetention,
   calculatePriority,
   type SchedulerOptions 
 } from '../../srs/scheduler';
-import { createCard, type Card, type CardIndex, type SrsState } from '../../storage/schema';
+import { getNextDayStart } from '../../common/days';
+import {
+  createCard,
+  createReviewEvent,
+  type Card,
+  type CardIndex,
+  type SrsState,
+} from '../../storage/schema';
+import { buildIndex } from '../../storage/indexer';
+import { getReviewKey } from '../../storage/directions';
 
 describe('Scheduler', () => {
   const DAY_MS = 86400000;
@@ -41,6 +51,8 @@ describe('Scheduler', () => {
       easeFactor: 2.5,
       reps,
       lapses: 0,
+      phase: reps === 0 ? 'new' : 'review',
+      stepIndex: 0,
     };
   }
 
@@ -164,6 +176,35 @@ describe('Scheduler', () => {
       expect(next?.id).toBe('new');
     });
 
+    it('should hold back due reviews once reviewsPerDay is reached', () => {
+      const now = Date.now();
+      const index: CardIndex = {
+        cards: new Map([
+          ['due', makeCard('due', 'due-card')],
+          ['new', makeCard('new', 'new-card')],
+        ]),
+        srsStates: new Map([
+          ['due', makeSrsState('due', now - DAY_MS)],
+          ['new', makeSrsState('new', now, 0, 0)],
+        ]),
+        dueCards: ['due'],
+        newCards: ['new'],
+      };
+
+      expect(getNextCard(index, now, { reviewsPerDay: 100, todayReviewCount: 99 })?.id).toBe('due');
+      expect(getNextCard(index, now, { reviewsPerDay: 100, todayReviewCount: 100 })?.id).toBe(
+        'new'
+      );
+      expect(
+        getNextCard(index, now, {
+          reviewsPerDay: 100,
+          todayReviewCount: 100,
+          loopMode: true,
+          excludeCardId: 'new',
+        })
+      ).toBeNull();
+    });
+
     it('should return new cards sorted by creation time (oldest first)', () => {
       const now = Date.now();
       const olderCard = { ...makeCard('older', 'older'), createdAt: now - DAY_MS };
@@ -186,6 +227,175 @@ describe('Scheduler', () => {
 
       expect(next?.id).toBe('older');
     });
+
+    it('should return a due learning step before due review cards', () => {
+      const now = Date.now();
+      const index: CardIndex = {
+        cards: new Map([
+          ['review', makeCard('review', 'review')],
+          ['learning', makeCard('learning', 'learning')],
+        ]),
+        srsStates: new Map([
+          ['review', makeSrsState('review', now - 5 * DAY_MS)],
+          ['learning', { ...makeSrsState('learning', now - 1000, 0, 0), phase: 'learning' }],
+        ]),
+        dueCards: ['review'],
+        newCards: [],
+      };
+
+      const next = getNextCard(index, now);
+
+      expect(next?.id).toBe('learning');
+    });
+
+    it('should show a learning step early only when nothing else is due', () => {
+      const now = Date.now();
+      const learning: SrsState = {
+        ...makeSrsState('learning', now + 5 * 60000, 0, 0),
+        phase: 'relearning',
+      };
+      const index: CardIndex = {
+        cards: new Map([
+          ['learning', makeCard('learning', 'learning')],
+          ['new', makeCard('new', 'new')],
+        ]),
+        srsStates: new Map([
+          ['learning', learning],
+          ['new', makeSrsState('new', now, 0, 0)],
+        ]),
+        dueCards: [],
+        newCards: ['new'],
+      };
+
+      expect(getNextCard(index, now)?.id).toBe('new');
+      expect(getNextCard(index, now, { dueOnly: true })?.id).toBe('learning');
+    });
+
+    it('should not show learning steps due beyond the learn-ahead window', () => {
+      const now = Date.now();
+      const index: CardIndex = {
+        cards: new Map([['learning', makeCard('learning', 'learning')]]),
+        srsStates: new Map([
+          ['learning', { ...makeSrsState('learning', now + 60 * 60000, 0, 0), phase: 'learning' }],
+        ]),
+        dueCards: [],
+        newCards: [],
+      };
+
+      expect(getNextCard(index, now)).toBeNull();
+    });
+
+    it('should never return suspended cards, even in loop mode', () => {
+      const now = Date.now();
+      const index: CardIndex = {
+        cards: new Map([
+          ['learning', { ...makeCard('learning', 'learning'), suspended: true }],
+          ['review', { ...makeCard('review', 'review'), suspended: true }],
+        ]),
+        srsStates: new Map([
+          ['learning', { ...makeSrsState('learning', now - 1000, 0, 0), phase: 'learning' }],
+          ['review', makeSrsState('review', now + 86400000)],
+        ]),
+        dueCards: [],
+        newCards: [],
+      };
+
+      expect(getNextCard(index, now, { loopMode: true })).toBeNull();
+    });
+
+    it('should skip buried cards until they are unburied', () => {
+      const now = Date.now();
+      const buriedUntil = now + 3600000;
+      const index: CardIndex = {
+        cards: new Map([
+          ['due', { ...makeCard('due', 'due'), buriedUntil }],
+          ['new', { ...makeCard('new', 'new'), buriedUntil }],
+        ]),
+        srsStates: new Map([
+          ['due', makeSrsState('due', now - 1000)],
+          ['new', makeSrsState('new', now, 0, 0)],
+        ]),
+        dueCards: ['due'],
+        newCards: ['new'],
+      };
+
+      expect(getNextCard(index, now, { loopMode: true })).toBeNull();
+      expect(getNextCard(index, buriedUntil)?.id).toBe('due');
+    });
+  });
+
+  describe('getNextReview()', () => {
+    function makeBothCard(): Card {
+      const card = createCard({
+        type: 'word',
+        front: { term: 'ephemeral' },
+        back: { translation: '短暂的' },
+        directions: 'both',
+      });
+      return { ...card, createdAt: Date.now() - 2 * DAY_MS };
+    }
+
+    it('should return the direction to show with its own state', () => {
+      const card = makeBothCard();
+      const index = buildIndex([card], []);
+
+      expect(getNextReview(index, Date.now())).toEqual({
+        card,
+        direction: 'forward',
+        srs: index.srsStates.get(card.id),
+      });
+    });
+
+    it('should bury the other direction for the rest of the day once one is reviewed', () => {
+      const card = makeBothCard();
+      const event = createReviewEvent({ cardId: card.id, rating: 'good', mode: 'flashcard' });
+      const index = buildIndex([card], [event]);
+
+      expect(index.newCards).toEqual([getReviewKey(card.id, 'reverse')]);
+      expect(getNextReview(index, Date.now())).toBeNull();
+      expect(getNextReview(index, Date.now(), { loopMode: true })?.direction).toBe('forward');
+
+      const tomorrow = getNextDayStart(Date.now()) + 1000;
+      expect(getNextReview(index, tomorrow)).toMatchObject({ card, direction: 'reverse' });
+    });
+
+    it('should start the next day at the rollover hour', () => {
+      const card = makeBothCard();
+      const event = createReviewEvent({ cardId: card.id, rating: 'good', mode: 'flashcard' });
+      const index = buildIndex([card], [event]);
+      const nextMidnight = new Date(Date.now()).setHours(24, 0, 0, 0);
+
+      expect(getNextReview(index, nextMidnight + 1000, { rolloverHour: 0 })).not.toBeNull();
+      expect(getNextReview(index, nextMidnight + 1000, { rolloverHour: 4 })).toBeNull();
+    });
+
+    it('should not bury a direction that is in its learning steps', () => {
+      const card = makeBothCard();
+      const reviewed = {
+        ...createReviewEvent({ cardId: card.id, rating: 'good', mode: 'flashcard' }),
+        ts: Date.now() - 1000,
+      };
+      const index = buildIndex([card], [reviewed]);
+      const reverseKey = getReviewKey(card.id, 'reverse');
+      index.srsStates.set(reverseKey, {
+        ...makeSrsState(card.id, Date.now() - 1000),
+        direction: 'reverse',
+        phase: 'learning',
+      });
+
+      expect(getNextReview(index, Date.now())).toMatchObject({ direction: 'reverse' });
+    });
+
+    it('should skip reviews the filter rejects', () => {
+      const first = { ...makeCard('first', 'first'), createdAt: Date.now() - 2 * DAY_MS };
+      const second = { ...makeCard('second', 'second'), createdAt: Date.now() - DAY_MS };
+      const index = buildIndex([first, second], []);
+
+      expect(getNextReview(index, Date.now())?.card.id).toBe('first');
+      const filter = (card: Card) => card.id !== 'first';
+      expect(getNextReview(index, Date.now(), { filter })?.card.id).toBe('second');
+      expect(getNextReview(index, Date.now(), { filter: () => false, loopMode: true })).toBeNull();
+    });
   });
 
   describe('getStats()', () => {
@@ -272,6 +482,35 @@ describe('Scheduler', () => {
 
       expect(stats.newCards).toBe(2);
     });
+
+    it('should count reverse-only cards by their reverse state', () => {
+      const now = Date.now();
+      const card: Card = {
+        ...makeCard('1', 'reversed'),
+        back: { translation: '反转的' },
+        directions: 'reverse',
+      };
+      const index = buildIndex(
+        [card],
+        [
+          {
+            ...createReviewEvent({
+              cardId: '1',
+              rating: 'good',
+              mode: 'flashcard',
+              direction: 'reverse',
+            }),
+            ts: now - 2 * DAY_MS,
+          },
+        ]
+      );
+
+      const stats = getStats(index, now);
+
+      expect(stats.newCards).toBe(0);
+      expect(stats.learning).toBe(1);
+      expect(stats.due).toBe(1);
+    });
   });
 
   describe('loopMode', () => {
@@ -439,6 +678,18 @@ describe('Scheduler', () => {
       
       expect(retentionLong).toBeGreaterThan(retentionShort);
     });
+
+    it('should use the FSRS forgetting curve for states with stability', () => {
+      const now = Date.now();
+      const srs: SrsState = {
+        ...makeSrsState('1', now, 2, 10),
+        lastReviewAt: now - 10 * DAY_MS,
+        stability: 10,
+        difficulty: 5,
+      };
+
+      expect(calculateRetention(srs, now)).toBeCloseTo(0.9, 10);
+    });
   });
 
   describe('calculatePriority()', () => {
@@ -50,6 +50,8 @@ describe('SM-2 Algorithm', () => {
       easeFactor: 2.5,
       reps: 0,
       lapses: 0,
+      phase: 'new',
+      stepIndex: 0,
     };
 
     describe('first review', () => {
@@ -269,6 +271,8 @@ describe('SM-2 Algorithm', () => {
       easeFactor: 2.5,
       reps: 0,
       lapses: 0,
+      phase: 'new',
+      stepIndex: 0,
     };
 
     it('should follow expected intervals for perfect "good" reviews', () => {
@@ -335,6 +339,8 @@ describe('SM-2 Algorithm', () => {
       reps: 2,
       lapses: 0,
       lastReviewAt: Date.now(),
+      phase: 'review',
+      stepIndex: 0,
     };
 
     it('should not update interval/reps for reviews within MIN_REVIEW_INTERVAL', () => {
@@ -381,6 +387,8 @@ describe('SM-2 Algorithm', () => {
         easeFactor: 2.5,
         reps: 0,
         lapses: 0,
+        phase: 'new',
+        stepIndex: 0,
         // No lastReviewAt
       };
       
@@ -401,6 +409,8 @@ describe('SM-2 Algorithm', () => {
         reps: 10,
         lapses: 0,
         lastReviewAt: 0,
+        phase: 'review',
+        stepIndex: 0,
       };
 
       const now = Date.now();
@@ -0,0 +1,165 @@
+// Learning steps tests
+// TDD: Tests for learning/relearning phases layered over the scheduling algorithms
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isInLearningPhase, normalizeSteps, withLearningSteps } from '../../srs/steps';
+import { sm2Algorithm } from '../../srs/sm2';
+import { createFsrsAlgorithm } from '../../srs/fsrs';
+import { createSchedulingAlgorithm } from '../../srs/algorithm';
+import type { SrsState } from '../../storage/schema';
+
+describe('Learning steps', () => {
+  const DAY_MS = 86400000;
+  const MINUTE_MS = 60000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const algorithm = withLearningSteps(sm2Algorithm, {
+    learningSteps: [1, 10],
+    relearningSteps: [10],
+  });
+
+  function graduate(now: number): SrsState {
+    let state = algorithm.createInitialState('card');
+    state = algorithm.calculateNextState(state, 'good', now);
+    return algorithm.calculateNextState(state, 'good', now + 10 * MINUTE_MS);
+  }
+
+  describe('normalizeSteps()', () => {
+    it('should drop non-positive and non-numeric steps', () => {
+      expect(normalizeSteps([1, 0, -5, 10, NaN, '3'])).toEqual([1, 10]);
+      expect(normalizeSteps(undefined)).toEqual([]);
+    });
+  });
+
+  describe('withLearningSteps()', () => {
+    it('should return the algorithm unchanged when no steps are configured', () => {
+      expect(withLearningSteps(sm2Algorithm, {})).toBe(sm2Algorithm);
+      expect(createSchedulingAlgorithm('sm2', { steps: { learningSteps: [] } })).toBe(sm2Algorithm);
+    });
+
+    it('should start new cards in the new phase', () => {
+      const state = algorithm.createInitialState('card');
+
+      expect(state.phase).toBe('new');
+      expect(state.stepIndex).toBe(0);
+      expect(isInLearningPhase(state)).toBe(false);
+    });
+
+    it('should move a new card rated "again" to the first step', () => {
+      const now = Date.now();
+      const state = algorithm.calculateNextState(
+        algorithm.createInitialState('card'),
+        'again',
+        now
+      );
+
+      expect(state.phase).toBe('learning');
+      expect(state.stepIndex).toBe(0);
+      expect(state.dueAt).toBe(now + MINUTE_MS);
+      expect(state.reps).toBe(0);
+      expect(state.lapses).toBe(0);
+      expect(isInLearningPhase(state)).toBe(true);
+    });
+
+    it('should advance to the next step on "good"', () => {
+      const now = Date.now();
+      const state = algorithm.calculateNextState(algorithm.createInitialState('card'), 'good', now);
+
+      expect(state.phase).toBe('learning');
+      expect(state.stepIndex).toBe(1);
+      expect(state.dueAt).toBe(now + 10 * MINUTE_MS);
+    });
+
+    it('should repeat the current step on "hard"', () => {
+      const now = Date.now();
+      let state = algorithm.calculateNextState(algorithm.createInitialState('card'), 'good', now);
+      state = algorithm.calculateNextState(state, 'hard', now + 10 * MINUTE_MS);
+
+      expect(state.stepIndex).toBe(1);
+      expect(state.dueAt).toBe(now + 20 * MINUTE_MS);
+    });
+
+    it('should graduate after the last step using the wrapped algorithm', () => {
+      const now = Date.now();
+      const state = graduate(now);
+
+      expect(state.phase).toBe('review');
+      expect(state.stepIndex).toBe(0);
+      expect(state.reps).toBe(1);
+      expect(state.intervalDays).toBe(1);
+      expect(state.dueAt).toBe(now + 10 * MINUTE_MS + DAY_MS);
+    });
+
+    it('should graduate immediately on "easy"', () => {
+      const now = Date.now();
+      const state = algorithm.calculateNextState(algorithm.createInitialState('card'), 'easy', now);
+
+      expect(state.phase).toBe('review');
+      expect(state.reps).toBe(1);
+    });
+
+    it('should send a lapsed review card through relearning steps', () => {
+      const now = Date.now();
+      let state = graduate(now);
+      const lapseTime = state.dueAt;
+      state = algorithm.calculateNextState(state, 'again', lapseTime);
+
+      expect(state.phase).toBe('relearning');
+      expect(state.stepIndex).toBe(0);
+      expect(state.lapses).toBe(1);
+      expect(state.dueAt).toBe(lapseTime + 10 * MINUTE_MS);
+
+      // Failing again during relearning does not count another lapse
+      state = algorithm.calculateNextState(state, 'again', lapseTime + 10 * MINUTE_MS);
+      expect(state.lapses).toBe(1);
+      expect(state.phase).toBe('relearning');
+    });
+
+    it('should return to review with the lapse interval after relearning', () => {
+      const now = Date.now();
+      let state = graduate(now);
+      state = algorithm.calculateNextState(state, 'again', state.dueAt);
+      const relearnTime = state.dueAt;
+      state = algorithm.calculateNextState(state, 'good', relearnTime);
+
+      expect(state.phase).toBe('review');
+      expect(state.dueAt).toBe(relearnTime + state.intervalDays * DAY_MS);
+    });
+
+    it('should skip relearning when no relearning steps are configured', () => {
+      const learningOnly = withLearningSteps(sm2Algorithm, { learningSteps: [1] });
+      const now = Date.now();
+      let state = learningOnly.calculateNextState(
+        learningOnly.createInitialState('card'),
+        'good',
+        now
+      );
+      state = learningOnly.calculateNextState(state, 'again', state.dueAt);
+
+      expect(state.phase).toBe('review');
+      expect(state.intervalDays).toBe(1);
+    });
+
+    it('should let FSRS initialize memory state on graduation', () => {
+      const fsrs = withLearningSteps(createFsrsAlgorithm(), { learningSteps: [1, 10] });
+      const now = Date.now();
+      let state = fsrs.calculateNextState(fsrs.createInitialState('card'), 'good', now);
+
+      expect(state.stability).toBeUndefined();
+
+      state = fsrs.calculateNextState(state, 'good', now + 10 * MINUTE_MS);
+
+      expect(fsrs.id).toBe('fsrs');
+      expect(state.phase).toBe('review');
+      expect(state.stability).toBeDefined();
+    });
+  });
+});
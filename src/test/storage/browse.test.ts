@@ -0,0 +1,162 @@
+// Card browser tests
+// TDD: Tests for searching, filtering, sorting and bulk actions over the card index
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  applyBulkAction,
+  getBrowseCardState,
+  getCardSearchText,
+  queryBrowseRows,
+} from '../../storage/browse';
+import { buildIndex } from '../../storage/indexer';
+import {
+  createCard,
+  createReviewEvent,
+  type Card,
+  type CardIndex,
+  type ReviewEvent,
+} from '../../storage/schema';
+
+describe('Card browser', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(id: string, term: string, extra: Partial<Card> = {}): Card {
+    return { ...createCard({ type: 'word', front: { term } }), id, ...extra };
+  }
+
+  function review(cardId: string, daysAgo: number): ReviewEvent {
+    return {
+      ...createReviewEvent({ cardId, rating: 'good', mode: 'flashcard' }),
+      ts: Date.now() - daysAgo * DAY_MS,
+    };
+  }
+
+  function createIndex(): CardIndex {
+    const cards = [
+      makeCard('1', 'ephemeral', {
+        back: { translation: '短暂的', synonyms: ['fleeting'] },
+        tags: ['gre'],
+      }),
+      makeCard('2', 'Abandon', { type: 'word', tags: ['cet4'] }),
+      makeCard('3', 'give up', { type: 'phrase', tags: ['cet4', 'verb'] }),
+      makeCard('4', 'zeal', { suspended: true }),
+    ];
+    // '2' was reviewed 10 days ago and is due; '3' was reviewed today
+    return buildIndex(cards, [review('2', 10), review('3', 0)]);
+  }
+
+  describe('getBrowseCardState()', () => {
+    it('should derive the state from suspension and phase', () => {
+      const index = createIndex();
+      const state = (id: string) =>
+        getBrowseCardState(index.cards.get(id)!, index.srsStates.get(id));
+
+      expect(state('1')).toBe('new');
+      expect(state('2')).toBe('review');
+      expect(state('4')).toBe('suspended');
+      expect(
+        getBrowseCardState(makeCard('x', 'x'), {
+          ...index.srsStates.get('2')!,
+          phase: 'relearning',
+        })
+      ).toBe('learning');
+    });
+  });
+
+  describe('getCardSearchText()', () => {
+    it('should include front, back and tags', () => {
+      const text = getCardSearchText(createIndex().cards.get('1')!);
+
+      expect(text).toContain('ephemeral');
+      expect(text).toContain('短暂的');
+      expect(text).toContain('fleeting');
+      expect(text).toContain('gre');
+    });
+  });
+
+  describe('queryBrowseRows()', () => {
+    it('should return every card sorted by term by default', () => {
+      const result = queryBrowseRows(createIndex(), {}, Date.now());
+
+      expect(result.rows.map((r) => r.term)).toEqual(['Abandon', 'ephemeral', 'give up', 'zeal']);
+      expect(result.total).toBe(4);
+      expect(result.tags).toEqual(['cet4', 'gre', 'verb']);
+    });
+
+    it('should search across back fields case-insensitively', () => {
+      const index = createIndex();
+
+      expect(queryBrowseRows(index, { search: 'FLEET' }, Date.now()).rows.map((r) => r.id)).toEqual(
+        ['1']
+      );
+      expect(queryBrowseRows(index, { search: '短暂' }, Date.now()).rows).toHaveLength(1);
+    });
+
+    it('should filter by tag, type and state', () => {
+      const index = createIndex();
+      const ids = (query: object) =>
+        queryBrowseRows(index, query, Date.now()).rows.map((r) => r.id);
+
+      expect(ids({ tag: 'cet4' })).toEqual(['2', '3']);
+      expect(ids({ type: 'phrase' })).toEqual(['3']);
+      expect(ids({ state: 'new' })).toEqual(['1']);
+      expect(ids({ state: 'suspended' })).toEqual(['4']);
+      expect(ids({ state: 'due' })).toEqual(['2']);
+      expect(ids({ tag: 'cet4', state: 'due' })).toEqual(['2']);
+    });
+
+    it('should sort by numeric columns in both directions', () => {
+      const index = createIndex();
+
+      const asc = queryBrowseRows(index, { sortBy: 'dueAt' }, Date.now()).rows;
+      const desc = queryBrowseRows(index, { sortBy: 'dueAt', sortDir: 'desc' }, Date.now()).rows;
+
+      // New cards '1' and '4' share a due date and stay in term order both ways
+      expect(asc.map((r) => r.id)).toEqual(['2', '1', '4', '3']);
+      expect(desc.map((r) => r.id)).toEqual(['3', '1', '4', '2']);
+    });
+  });
+
+  describe('applyBulkAction()', () => {
+    it('should add and remove tags as new versions, skipping unchanged cards', () => {
+      const a = makeCard('a', 'a', { tags: ['gre'] });
+      const b = makeCard('b', 'b');
+
+      const tagged = applyBulkAction([a, b], { kind: 'tag', tag: 'gre' });
+      expect(tagged.cards.map((c) => [c.id, c.version, c.tags])).toEqual([['b', 2, ['gre']]]);
+
+      const untagged = applyBulkAction([a, b], { kind: 'untag', tag: 'gre' });
+      expect(untagged.cards.map((c) => [c.id, c.tags])).toEqual([['a', []]]);
+    });
+
+    it('should suspend, unsuspend and delete cards', () => {
+      const a = makeCard('a', 'a');
+      const b = makeCard('b', 'b', { suspended: true });
+
+      expect(applyBulkAction([a, b], { kind: 'suspend' }).cards.map((c) => c.id)).toEqual(['a']);
+      expect(applyBulkAction([a, b], { kind: 'unsuspend' }).cards[0]).toMatchObject({
+        id: 'b',
+        suspended: false,
+      });
+      expect(applyBulkAction([a, b], { kind: 'delete' }).cards.every((c) => c.deleted)).toBe(true);
+    });
+
+    it('should reset progress with reset events instead of card versions', () => {
+      const result = applyBulkAction([makeCard('a', 'a')], { kind: 'resetProgress' });
+
+      expect(result.cards).toEqual([]);
+      expect(result.events).toEqual([
+        expect.objectContaining({ cardId: 'a', kind: 'reset', ts: Date.now() }),
+      ]);
+    });
+  });
+});
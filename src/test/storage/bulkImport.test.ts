@@ -12,7 +12,13 @@ import {
   generateSampleTemplate,
   generateEmptyTemplate,
 } from '../../storage/bulkImport';
-import { createCard, type BulkCardInput, type BulkImportTemplate, type Card } from '../../storage/schema';
+import {
+  createCard,
+  createDeck,
+  type BulkCardInput,
+  type BulkImportTemplate,
+  type Card,
+} from '../../storage/schema';
 
 describe('inferCardType', () => {
   it('should return "word" for single word', () => {
@@ -29,6 +35,10 @@ describe('inferCardType', () => {
     expect(inferCardType('The quick brown fox jumps over')).toBe('sentence');
     expect(inferCardType('I have never seen anything like this before')).toBe('sentence');
   });
+
+  it('should return "cloze" for terms with cloze markers', () => {
+    expect(inferCardType('Fame is {{c1::ephemeral}}.')).toBe('cloze');
+  });
 });
 
 describe('validateBulkCardInput', () => {
@@ -317,6 +327,94 @@ describe('processBulkImport', () => {
   });
 });
 
+describe('processBulkImport with cloze sentences', () => {
+  const term = 'Fame is {{c1::ephemeral}}, {{c2::reputation}} lasts.';
+
+  it('should create one card per cloze index with the sentence as example', () => {
+    const { newCards, result } = processBulkImport(
+      { version: 1, cards: [{ term, translation: '名声短暂', tags: ['q'] }] },
+      []
+    );
+
+    expect(result.imported).toBe(2);
+    expect(newCards.map((c) => c.front.term)).toEqual(['ephemeral', 'reputation']);
+    expect(newCards.every((c) => c.type === 'cloze' && c.front.example === term)).toBe(true);
+  });
+
+  it('should update every sibling of an already imported sentence', () => {
+    const { newCards } = processBulkImport({ version: 1, cards: [{ term }] }, []);
+    const word = createCard({ type: 'word', front: { term: 'ephemeral' } });
+
+    const { newCards: added, updatedCards, result } = processBulkImport(
+      { version: 1, cards: [{ term, translation: 'new', example: 'ignored' }] },
+      [...newCards, word]
+    );
+
+    expect(added).toHaveLength(0);
+    expect(result.updated).toBe(2);
+    expect(updatedCards.map((c) => c.id).sort()).toEqual(newCards.map((c) => c.id).sort());
+    expect(updatedCards.every((c) => c.back?.translation === 'new')).toBe(true);
+    expect(updatedCards.every((c) => c.front.example === term)).toBe(true);
+  });
+
+  it('should keep cloze answers out of word duplicate detection', () => {
+    const { newCards } = processBulkImport({ version: 1, cards: [{ term }] }, []);
+
+    const { newCards: added, result } = processBulkImport(
+      { version: 1, cards: [{ term: 'ephemeral' }] },
+      newCards
+    );
+
+    expect(result.imported).toBe(1);
+    expect(added[0].type).toBe('word');
+  });
+
+  it('should reject cloze cards without markers', () => {
+    const { result } = processBulkImport(
+      { version: 1, cards: [{ term: 'plain sentence', type: 'cloze' }] },
+      []
+    );
+
+    expect(result.skipped).toBe(1);
+    expect(result.errors[0]).toContain('{{c1::...}} markers');
+  });
+});
+
+describe('processBulkImport with decks', () => {
+  it('should create missing decks and file cards into them', () => {
+    const { newCards, newDecks } = processBulkImport(
+      {
+        version: 1,
+        deck: 'IELTS',
+        cards: [{ term: 'ubiquitous' }, { term: 'bonjour', deck: 'French' }],
+      },
+      []
+    );
+
+    expect(newDecks.map((deck) => deck.name)).toEqual(['IELTS', 'French']);
+    expect(newCards[0].deckId).toBe(newDecks[0].id);
+    expect(newCards[1].deckId).toBe(newDecks[1].id);
+  });
+
+  it('should reuse existing decks by name and move updated cards', () => {
+    const deck = createDeck({ name: 'IELTS' });
+    const existing = createCard({ type: 'word', front: { term: 'existing' } });
+
+    const { updatedCards, newDecks } = processBulkImport(
+      { version: 1, cards: [{ term: 'existing', deck: 'ielts' }] },
+      [existing],
+      [deck]
+    );
+
+    expect(newDecks).toHaveLength(0);
+    expect(updatedCards[0].deckId).toBe(deck.id);
+  });
+
+  it('should reject an empty deck name', () => {
+    expect(validateBulkCardInput({ term: 'word', deck: ' ' }, 0)).not.toBeNull();
+  });
+});
+
 describe('generateSampleTemplate', () => {
   it('should generate valid template', () => {
     const template = generateSampleTemplate();
@@ -0,0 +1,130 @@
+// Card edit tests
+// TDD: Tests for validating and applying card edits submitted by the webviews
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { applyCardEdit, validateCardEdit } from '../../storage/cardEdit';
+import { createCard } from '../../storage/schema';
+
+describe('Card editing', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('validateCardEdit()', () => {
+    it('should accept a complete edit', () => {
+      expect(
+        validateCardEdit({
+          front: { term: 'ephemeral', morphemes: ['ephe', 'meral'], example: 'Fame is ephemeral.' },
+          back: { translation: '短暂的', synonyms: ['fleeting'], notes: '' },
+          tags: ['gre'],
+        })
+      ).toBeNull();
+    });
+
+    it('should require an object with a front', () => {
+      expect(validateCardEdit(null)).toBe('Edit must be an object');
+      expect(validateCardEdit({})).toContain("'front'");
+    });
+
+    it('should require a non-empty term', () => {
+      expect(validateCardEdit({ front: { term: '   ' } })).toContain("'term'");
+      expect(validateCardEdit({ front: { term: 42 } })).toContain("'term'");
+    });
+
+    it('should reject fields of the wrong type', () => {
+      expect(validateCardEdit({ front: { term: 'a', phonetic: 1 } })).toBe(
+        "'phonetic' must be a string"
+      );
+      expect(validateCardEdit({ front: { term: 'a', morphemes: 'a+b' } })).toBe(
+        "'morphemes' must be an array of strings"
+      );
+      expect(validateCardEdit({ front: { term: 'a' }, back: { synonyms: [1] } })).toBe(
+        "'synonyms' must be an array of strings"
+      );
+      expect(validateCardEdit({ front: { term: 'a' }, back: 'x' })).toBe(
+        "'back' must be an object"
+      );
+      expect(validateCardEdit({ front: { term: 'a' }, tags: 'gre' })).toBe(
+        "'tags' must be an array of strings"
+      );
+      expect(validateCardEdit({ front: { term: 'a' }, directions: 'sideways' })).toContain(
+        "'directions' must be one of"
+      );
+    });
+  });
+
+  describe('applyCardEdit()', () => {
+    const card = createCard({
+      type: 'word',
+      front: {
+        term: 'ephemral',
+        phonetic: '/ɪˈfem(ə)rəl/',
+        context: { langId: 'markdown', filePath: '/notes.md' },
+      },
+      back: { translation: '短暂', explanation: 'Lasting a short time', notes: 'old note' },
+      tags: ['gre'],
+    });
+
+    it('should produce the next version with the edited fields', () => {
+      vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+
+      const updated = applyCardEdit(card, {
+        front: { term: 'ephemeral', phonetic: '/ɪˈfem(ə)rəl/' },
+        back: { translation: '短暂的', explanation: 'Lasting a short time' },
+        tags: ['gre', 'adjective'],
+      });
+
+      expect(updated.id).toBe(card.id);
+      expect(updated.version).toBe(card.version + 1);
+      expect(updated.updatedAt).toBe(Date.parse('2024-01-15T11:00:00.000Z'));
+      expect(updated.front.term).toBe('ephemeral');
+      expect(updated.back?.translation).toBe('短暂的');
+      expect(updated.tags).toEqual(['gre', 'adjective']);
+    });
+
+    it('should preserve the card context', () => {
+      const updated = applyCardEdit(card, { front: { term: 'ephemeral' } });
+
+      expect(updated.front.context).toEqual({ langId: 'markdown', filePath: '/notes.md' });
+    });
+
+    it('should trim text and clear empty fields', () => {
+      const updated = applyCardEdit(card, {
+        front: { term: '  ephemeral  ', phonetic: '   ', morphemes: [' ephe ', '', 'meral'] },
+        back: { translation: ' 短暂的 ', notes: '' },
+        tags: [' '],
+      });
+
+      expect(updated.front.term).toBe('ephemeral');
+      expect(updated.front.phonetic).toBeUndefined();
+      expect(updated.front.morphemes).toEqual(['ephe', 'meral']);
+      expect(updated.back?.translation).toBe('短暂的');
+      expect(updated.back?.explanation).toBeUndefined();
+      expect(updated.back?.notes).toBeUndefined();
+      expect(updated.tags).toBeUndefined();
+    });
+
+    it('should set directions, storing forward as the default', () => {
+      const both = applyCardEdit(card, { front: { term: 'ephemeral' }, directions: 'both' });
+      const forward = applyCardEdit(both, { front: { term: 'ephemeral' }, directions: 'forward' });
+
+      expect(both.directions).toBe('both');
+      expect(forward.directions).toBeUndefined();
+      expect(applyCardEdit(both, { front: { term: 'ephemeral' } }).directions).toBeUndefined();
+    });
+
+    it('should drop cleared fields when serialized', () => {
+      const updated = applyCardEdit(card, { front: { term: 'ephemeral' } });
+      const stored = JSON.parse(JSON.stringify(updated));
+
+      expect(stored.back).toEqual({});
+      expect(stored.front).not.toHaveProperty('phonetic');
+      expect(stored).not.toHaveProperty('tags');
+    });
+  });
+});
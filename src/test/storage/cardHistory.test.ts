@@ -0,0 +1,122 @@
+// Card history tests
+// TDD: Tests for revision history, diffs and reverts derived from versioned card lines
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  buildCardHistory,
+  diffCardVersions,
+  getCardVersions,
+  revertCardToVersion,
+} from '../../storage/cardHistory';
+import { createCard, updateCard, type Card } from '../../storage/schema';
+
+describe('Card history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createVersions(): Card[] {
+    const v1 = createCard({
+      type: 'word',
+      front: { term: 'ephemral' },
+      back: { translation: '短暂' },
+      tags: ['gre'],
+    });
+    vi.advanceTimersByTime(60000);
+    const v2 = updateCard(v1, { front: { term: 'ephemeral' } });
+    vi.advanceTimersByTime(60000);
+    const v3 = updateCard(v2, { back: { translation: '短暂的' }, tags: ['gre', 'adj'] });
+    return [v1, v2, v3];
+  }
+
+  describe('getCardVersions()', () => {
+    it('should return versions of one card, oldest first', () => {
+      const [v1, v2, v3] = createVersions();
+      const other = createCard({ type: 'word', front: { term: 'other' } });
+
+      const versions = getCardVersions([v3, other, v1, v2], v1.id);
+
+      expect(versions.map((c) => c.version)).toEqual([1, 2, 3]);
+    });
+
+    it('should keep the last line when a version is written twice', () => {
+      const [v1] = createVersions();
+      const rewritten = { ...v1, front: { term: 'rewritten' } };
+
+      const versions = getCardVersions([v1, rewritten], v1.id);
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0].front.term).toBe('rewritten');
+    });
+  });
+
+  describe('diffCardVersions()', () => {
+    it('should list changed fields with formatted values', () => {
+      const [, v2, v3] = createVersions();
+
+      expect(diffCardVersions(v2, v3)).toEqual([
+        { field: 'Translation', before: '短暂', after: '短暂的' },
+        { field: 'Tags', before: 'gre', after: 'gre, adj' },
+      ]);
+    });
+
+    it('should treat every field of the first version as added', () => {
+      const [v1] = createVersions();
+
+      expect(diffCardVersions(undefined, v1)).toEqual([
+        { field: 'Term', before: undefined, after: 'ephemral' },
+        { field: 'Translation', before: undefined, after: '短暂' },
+        { field: 'Tags', before: undefined, after: 'gre' },
+      ]);
+    });
+
+    it('should report soft deletion', () => {
+      const [, , v3] = createVersions();
+      const deleted = updateCard(v3, { deleted: true });
+
+      expect(diffCardVersions(v3, deleted)).toEqual([
+        { field: 'Deleted', before: undefined, after: 'yes' },
+      ]);
+    });
+  });
+
+  describe('buildCardHistory()', () => {
+    it('should list revisions newest first with their diffs', () => {
+      const cards = createVersions();
+
+      const history = buildCardHistory(cards, cards[0].id);
+
+      expect(history.map((r) => r.version)).toEqual([3, 2, 1]);
+      expect(history[1].changes).toEqual([
+        { field: 'Term', before: 'ephemral', after: 'ephemeral' },
+      ]);
+      expect(history[2].updatedAt).toBe(cards[0].updatedAt);
+    });
+
+    it('should return an empty history for unknown cards', () => {
+      expect(buildCardHistory(createVersions(), 'missing')).toEqual([]);
+    });
+  });
+
+  describe('revertCardToVersion()', () => {
+    it('should append the old content as the next version', () => {
+      const [v1, , v3] = createVersions();
+      vi.advanceTimersByTime(60000);
+
+      const reverted = revertCardToVersion(v3, v1);
+
+      expect(reverted.version).toBe(4);
+      expect(reverted.updatedAt).toBe(Date.now());
+      expect(reverted.createdAt).toBe(v1.createdAt);
+      expect(reverted.front).toEqual(v1.front);
+      expect(reverted.back).toEqual(v1.back);
+      expect(reverted.tags).toEqual(['gre']);
+      expect(diffCardVersions(v1, reverted)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+// Cloze tests
+// TDD: Tests for parsing cloze markers and keeping sibling cards in sync
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createClozeCards,
+  getClozeAnswer,
+  getClozeIndices,
+  getClozeSiblings,
+  parseClozeDeletions,
+  stripClozeMarkers,
+  syncClozeNote,
+  validateClozeEdit,
+} from '../../storage/cloze';
+import { applyCardEdit } from '../../storage/cardEdit';
+import { revertCardToVersion } from '../../storage/cardHistory';
+import { buildIndex } from '../../storage/indexer';
+import { createReviewEvent, type CardEditInput } from '../../storage/schema';
+
+describe('Cloze', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const sentence = 'Fame is {{c1::ephemeral}}, but {{c2::reputation::noun}} {{c1::lasts}}.';
+
+  function editOf(example: string, extra: Partial<CardEditInput> = {}): CardEditInput {
+    return { front: { term: 'x', example }, ...extra };
+  }
+
+  describe('parseClozeDeletions()', () => {
+    it('should read indices, answers and hints in order', () => {
+      expect(parseClozeDeletions(sentence)).toEqual([
+        { index: 1, answer: 'ephemeral', hint: undefined },
+        { index: 2, answer: 'reputation', hint: 'noun' },
+        { index: 1, answer: 'lasts', hint: undefined },
+      ]);
+    });
+
+    it('should ignore malformed markers and c0', () => {
+      expect(parseClozeDeletions('{{c::a}} {c1::b} {{c0::c}}')).toEqual([]);
+    });
+  });
+
+  describe('getClozeIndices() / getClozeAnswer() / stripClozeMarkers()', () => {
+    it('should list distinct indices and join answers per index', () => {
+      expect(getClozeIndices(sentence)).toEqual([1, 2]);
+      expect(getClozeAnswer(sentence, 1)).toBe('ephemeral … lasts');
+      expect(getClozeAnswer(sentence, 2)).toBe('reputation');
+      expect(stripClozeMarkers(sentence)).toBe('Fame is ephemeral, but reputation lasts.');
+    });
+  });
+
+  describe('createClozeCards()', () => {
+    it('should create one sibling card per cloze index', () => {
+      const cards = createClozeCards({
+        type: 'cloze',
+        front: { term: '', example: sentence },
+        back: { translation: '名声短暂' },
+        tags: ['quotes'],
+      });
+
+      expect(cards).toHaveLength(2);
+      expect(cards.map((c) => c.front.term)).toEqual(['ephemeral … lasts', 'reputation']);
+      expect(cards.map((c) => c.cloze?.index)).toEqual([1, 2]);
+      expect(cards[0].cloze?.noteId).toBe(cards[1].cloze?.noteId);
+      expect(cards[0].id).not.toBe(cards[1].id);
+      for (const card of cards) {
+        expect(card.type).toBe('cloze');
+        expect(card.front.example).toBe(sentence);
+        expect(card.back).toEqual({ translation: '名声短暂' });
+        expect(card.tags).toEqual(['quotes']);
+      }
+    });
+
+    it('should return no cards without markers', () => {
+      expect(createClozeCards({ type: 'cloze', front: { term: 'x', example: 'plain' } })).toEqual(
+        []
+      );
+    });
+
+    it('should give each sibling its own SRS state', () => {
+      const [first, second] = createClozeCards({
+        type: 'cloze',
+        front: { term: '', example: sentence },
+      });
+      const review = createReviewEvent({ cardId: first.id, rating: 'good', mode: 'flashcard' });
+
+      const index = buildIndex([first, second], [review]);
+
+      expect(index.srsStates.get(first.id)?.reps).toBe(1);
+      expect(index.srsStates.get(second.id)?.reps).toBe(0);
+      expect(index.newCards).toEqual([second.id]);
+    });
+  });
+
+  describe('validateClozeEdit()', () => {
+    const [card] = createClozeCards({ type: 'cloze', front: { term: '', example: sentence } });
+
+    it('should require markers including the card own index', () => {
+      expect(validateClozeEdit(card, editOf(sentence))).toBeNull();
+      expect(validateClozeEdit(card, editOf('no markers'))).toContain('{{c1::...}} markers');
+      expect(validateClozeEdit(card, editOf('only {{c2::two}}'))).toContain('{{c1::...}}');
+    });
+
+    it('should accept any edit of other cards', () => {
+      expect(validateClozeEdit({ ...card, cloze: undefined }, editOf(''))).toBeNull();
+    });
+  });
+
+  describe('syncClozeNote()', () => {
+    const cards = createClozeCards({
+      type: 'cloze',
+      front: { term: '', example: sentence },
+      back: { translation: 'old' },
+    });
+    const [first, second] = cards;
+
+    it('should return non-cloze cards unchanged', () => {
+      const card = { ...first, cloze: undefined };
+      expect(syncClozeNote(card, cards)).toEqual([card]);
+    });
+
+    it('should leave siblings alone when only card fields changed', () => {
+      const edited = applyCardEdit(
+        first,
+        editOf(sentence, {
+          front: { term: 'x', example: sentence, phonetic: '/x/' },
+          back: { translation: 'old' },
+        })
+      );
+
+      const result = syncClozeNote(edited, cards);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].front.term).toBe('ephemeral … lasts');
+      expect(result[0].front.phonetic).toBe('/x/');
+    });
+
+    it('should carry the sentence, back and tags over to siblings', () => {
+      const example = 'Fame is {{c1::fleeting}}, but {{c2::honor}} stays.';
+      const edited = applyCardEdit(
+        first,
+        editOf(example, { back: { translation: 'new' }, tags: ['t'] })
+      );
+
+      const [card, sibling] = syncClozeNote(edited, cards);
+
+      expect(card.front.term).toBe('fleeting');
+      expect(sibling.id).toBe(second.id);
+      expect(sibling.version).toBe(2);
+      expect(sibling.front.term).toBe('honor');
+      expect(sibling.front.example).toBe(example);
+      expect(sibling.back?.translation).toBe('new');
+      expect(sibling.tags).toEqual(['t']);
+    });
+
+    it('should add cards for new indices and delete removed ones', () => {
+      const example = 'Fame is {{c1::ephemeral}} and {{c3::loud}}.';
+      const edited = applyCardEdit(first, editOf(example));
+
+      const result = syncClozeNote(edited, cards);
+
+      expect(result).toHaveLength(3);
+      expect(result[1]).toMatchObject({ id: second.id, deleted: true });
+      expect(result[2]).toMatchObject({
+        type: 'cloze',
+        front: { term: 'loud', example },
+        cloze: { noteId: first.cloze?.noteId, index: 3 },
+      });
+      expect(getClozeSiblings(result[0], result)).toEqual([result[2]]);
+    });
+
+    it('should carry a reverted sentence over to siblings', () => {
+      const example = 'Fame is {{c1::fleeting}}, but {{c2::honor}} stays.';
+      const [edited, editedSibling] = syncClozeNote(applyCardEdit(first, editOf(example)), cards);
+      const reverted = revertCardToVersion(edited, first);
+
+      expect(validateClozeEdit(edited, reverted)).toBeNull();
+      const [card, sibling] = syncClozeNote(reverted, [edited, editedSibling]);
+
+      expect(card.front.example).toBe(sentence);
+      expect(sibling.id).toBe(second.id);
+      expect(sibling.version).toBe(3);
+      expect(sibling.front.term).toBe('reputation');
+      expect(sibling.front.example).toBe(sentence);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// Deck tests
+// TDD: Tests for deck versions, card membership, names, new card counts and stats
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  calculateDeckStats,
+  countNewCardsToday,
+  countReviewsToday,
+  getCardDeckId,
+  getLatestDecks,
+  validateDeckName,
+} from '../../storage/decks';
+import { buildIndex, getLatestCards } from '../../storage/indexer';
+import {
+  createCard,
+  createDeck,
+  createReviewEvent,
+  updateDeck,
+  type Card,
+  type ReviewEvent,
+} from '../../storage/schema';
+import { DEFAULT_DECK_ID } from '../../common/constants';
+
+describe('Decks', () => {
+  const HOUR_MS = 3600000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(id: string, deckId?: string): Card {
+    return { ...createCard({ type: 'word', front: { term: id }, deckId }), id };
+  }
+
+  function review(
+    cardId: string,
+    hoursAgo: number,
+    mode: 'flashcard' | 'dictation' = 'flashcard'
+  ): ReviewEvent {
+    return {
+      ...createReviewEvent({ cardId, rating: 'good', mode }),
+      ts: Date.now() - hoursAgo * HOUR_MS,
+    };
+  }
+
+  describe('getLatestDecks()', () => {
+    it('should start with the default deck and keep the latest version', () => {
+      const deck = createDeck({ name: 'IELTS' });
+      const renamed = updateDeck(deck, { name: 'IELTS Academic' });
+
+      const decks = getLatestDecks([renamed, deck]);
+
+      expect([...decks.keys()]).toEqual([DEFAULT_DECK_ID, deck.id]);
+      expect(decks.get(deck.id)?.name).toBe('IELTS Academic');
+    });
+  });
+
+  describe('getCardDeckId()', () => {
+    it('should fall back to the default deck', () => {
+      const deck = createDeck({ name: 'IELTS' });
+      const decks = getLatestDecks([deck]);
+
+      expect(getCardDeckId(makeCard('a', deck.id), decks)).toBe(deck.id);
+      expect(getCardDeckId(makeCard('b'), decks)).toBe(DEFAULT_DECK_ID);
+      expect(getCardDeckId(makeCard('c', 'missing'), decks)).toBe(DEFAULT_DECK_ID);
+    });
+  });
+
+  describe('validateDeckName()', () => {
+    it('should require a unique name', () => {
+      const deck = createDeck({ name: 'IELTS' });
+
+      expect(validateDeckName('  ', [deck])).toBe('Deck name is required');
+      expect(validateDeckName('ielts', [deck])).toContain('already exists');
+      expect(validateDeckName('ielts', [deck], deck.id)).toBeNull();
+      expect(validateDeckName('French', [deck])).toBeNull();
+    });
+  });
+
+  describe('countNewCardsToday()', () => {
+    it('should count cards first reviewed today per deck', () => {
+      const deck = createDeck({ name: 'IELTS' });
+      const decks = getLatestDecks([deck]);
+      const cards = getLatestCards([
+        makeCard('today', deck.id),
+        makeCard('again-today', deck.id),
+        makeCard('yesterday'),
+      ]);
+      const events = [
+        review('today', 1),
+        review('again-today', 2),
+        review('again-today', 1),
+        review('yesterday', 30),
+        review('yesterday', 1),
+      ];
+
+      const counts = countNewCardsToday(cards, decks, events, Date.now());
+
+      expect(counts.get(deck.id)).toBe(2);
+      expect(counts.get(DEFAULT_DECK_ID)).toBeUndefined();
+    });
+
+    it('should count dictation reviews separately', () => {
+      const decks = getLatestDecks([]);
+      const cards = getLatestCards([makeCard('a')]);
+      const events = [review('a', 1, 'dictation')];
+
+      expect(countNewCardsToday(cards, decks, events, Date.now()).size).toBe(0);
+      expect(countNewCardsToday(cards, decks, events, Date.now(), true).get(DEFAULT_DECK_ID)).toBe(
+        1
+      );
+    });
+  });
+
+  describe('countReviewsToday()', () => {
+    it('should count cards studied before today and reviewed again today', () => {
+      const cards = getLatestCards([makeCard('old'), makeCard('fresh'), makeCard('idle')]);
+      const events = [
+        review('old', 30),
+        review('old', 2),
+        review('old', 1),
+        review('fresh', 1),
+        review('idle', 30),
+      ];
+
+      expect(countReviewsToday(cards, events, Date.now())).toBe(1);
+    });
+
+    it('should start the day at the rollover hour', () => {
+      const cards = getLatestCards([makeCard('late')]);
+      // First studied late in the evening, reviewed again after midnight
+      const events = [
+        { ...review('late', 0), ts: new Date(2024, 0, 14, 22).getTime() },
+        { ...review('late', 0), ts: new Date(2024, 0, 15, 3).getTime() },
+      ];
+      const now = new Date(2024, 0, 15, 3, 30).getTime();
+
+      expect(countReviewsToday(cards, events, now, false, 0)).toBe(1);
+      expect(countReviewsToday(cards, events, now, false, 4)).toBe(0);
+    });
+  });
+
+  describe('calculateDeckStats()', () => {
+    it('should count cards, due and new reviews per deck', () => {
+      const deck = createDeck({ name: 'IELTS' });
+      const index = buildIndex(
+        [makeCard('a', deck.id), makeCard('b', deck.id), makeCard('c')],
+        [review('a', 30)]
+      );
+
+      const stats = calculateDeckStats(index, getLatestDecks([deck]));
+
+      expect(stats).toEqual([
+        { deckId: DEFAULT_DECK_ID, name: 'Default', totalCards: 1, dueCards: 0, newCards: 1 },
+        { deckId: deck.id, name: 'IELTS', totalCards: 2, dueCards: 1, newCards: 1 },
+      ]);
+    });
+  });
+});
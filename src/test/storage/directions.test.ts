@@ -0,0 +1,165 @@
+// Review direction tests
+// TDD: Tests for forward/reverse directions and their separate SRS states
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getCardDirections,
+  getCardSrsState,
+  getDictationKey,
+  getEventReviewKey,
+  getReviewKey,
+  isCardDirections,
+} from '../../storage/directions';
+import { buildIndex } from '../../storage/indexer';
+import { buildLeechReport } from '../../storage/leech';
+import { sm2Algorithm } from '../../srs/sm2';
+import {
+  createCard,
+  createResetEvent,
+  createReviewEvent,
+  type Card,
+  type CardDirection,
+  type ReviewRating,
+} from '../../storage/schema';
+
+describe('Review directions', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(extra: Partial<Card> = {}): Card {
+    return {
+      ...createCard({
+        type: 'word',
+        front: { term: 'ephemeral' },
+        back: { translation: '短暂的' },
+      }),
+      ...extra,
+    };
+  }
+
+  function review(card: Card, rating: ReviewRating, direction?: CardDirection, daysAgo = 1) {
+    return {
+      ...createReviewEvent({ cardId: card.id, rating, mode: 'flashcard', direction }),
+      ts: Date.now() - daysAgo * DAY_MS,
+    };
+  }
+
+  describe('isCardDirections()', () => {
+    it('should accept forward, reverse and both only', () => {
+      expect(['forward', 'reverse', 'both'].every(isCardDirections)).toBe(true);
+      expect(isCardDirections('sideways')).toBe(false);
+      expect(isCardDirections(undefined)).toBe(false);
+    });
+  });
+
+  describe('getCardDirections()', () => {
+    it('should default to forward', () => {
+      expect(getCardDirections(makeCard())).toEqual(['forward']);
+    });
+
+    it('should list the configured directions, forward first', () => {
+      expect(getCardDirections(makeCard({ directions: 'both' }))).toEqual(['forward', 'reverse']);
+      expect(getCardDirections(makeCard({ directions: 'reverse' }))).toEqual(['reverse']);
+    });
+
+    it('should keep cards without a meaning to show and cloze cards forward only', () => {
+      expect(getCardDirections(makeCard({ directions: 'both', back: { notes: 'x' } }))).toEqual([
+        'forward',
+      ]);
+      expect(getCardDirections(makeCard({ directions: 'reverse', type: 'cloze' }))).toEqual([
+        'forward',
+      ]);
+    });
+
+    it('should accept an explanation in place of a translation', () => {
+      const card = makeCard({ directions: 'both', back: { explanation: 'short-lived' } });
+
+      expect(getCardDirections(card)).toEqual(['forward', 'reverse']);
+    });
+  });
+
+  describe('getReviewKey() / getEventReviewKey()', () => {
+    it('should key the forward direction by the card id alone', () => {
+      const card = makeCard();
+
+      expect(getReviewKey(card.id)).toBe(card.id);
+      expect(getReviewKey(card.id, 'reverse')).not.toBe(card.id);
+      expect(getEventReviewKey(review(card, 'good'))).toBe(card.id);
+      expect(getEventReviewKey(review(card, 'good', 'reverse'))).toBe(
+        getReviewKey(card.id, 'reverse')
+      );
+    });
+
+    it('should key dictation reviews apart from both directions', () => {
+      const card = makeCard();
+      const event = { ...review(card, 'good'), mode: 'dictation' as const };
+
+      expect(getEventReviewKey(event)).toBe(getDictationKey(card.id));
+      expect(getDictationKey(card.id)).not.toBe(getReviewKey(card.id, 'reverse'));
+    });
+  });
+
+  describe('buildIndex()', () => {
+    it('should schedule each direction separately', () => {
+      const card = makeCard({ directions: 'both' });
+      const reverseKey = getReviewKey(card.id, 'reverse');
+
+      const index = buildIndex([card], [review(card, 'again', 'reverse', 3)]);
+
+      expect(index.srsStates.get(card.id)).toMatchObject({ cardId: card.id, reps: 0 });
+      expect(index.srsStates.get(card.id)?.direction).toBeUndefined();
+      expect(index.srsStates.get(reverseKey)).toMatchObject({
+        cardId: card.id,
+        direction: 'reverse',
+        lapses: 1,
+      });
+      expect(index.newCards).toEqual([card.id]);
+      expect(index.dueCards).toEqual([reverseKey]);
+    });
+
+    it('should keep reverse progress while the reverse direction is turned off', () => {
+      const card = makeCard();
+      const events = [review(card, 'good', 'reverse')];
+
+      expect(buildIndex([card], events).srsStates.size).toBe(1);
+      const index = buildIndex([{ ...card, directions: 'reverse' }], events);
+      expect(index.srsStates.get(getReviewKey(card.id, 'reverse'))?.reps).toBe(1);
+      expect(getCardSrsState(index, card.id)?.direction).toBe('reverse');
+    });
+
+    it('should reset both directions', () => {
+      const card = makeCard({ directions: 'both' });
+      const events = [
+        review(card, 'good', undefined, 2),
+        review(card, 'good', 'reverse', 2),
+        { ...createResetEvent(card.id), ts: Date.now() - DAY_MS },
+      ];
+
+      const index = buildIndex([card], events);
+
+      expect([...index.srsStates.values()].map((srs) => srs.reps)).toEqual([0, 0]);
+    });
+  });
+
+  describe('buildLeechReport()', () => {
+    it('should report a reverse leech with its own lapses', () => {
+      const card = makeCard({ directions: 'both' });
+      const events = [1, 2, 3].map((i) => review(card, 'again', 'reverse', 10 - i));
+      const index = buildIndex([card], events, sm2Algorithm, { leechThreshold: 3 });
+
+      const [report] = buildLeechReport(index, events, sm2Algorithm);
+
+      expect(report).toMatchObject({ cardId: card.id, direction: 'reverse', lapses: 3 });
+      expect(report.lapseTimes).toHaveLength(3);
+      expect(index.srsStates.get(card.id)?.leech).toBeUndefined();
+    });
+  });
+});
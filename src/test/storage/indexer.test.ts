@@ -2,8 +2,24 @@
 // TDD: Write tests first, then implement
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { buildIndex, getDueCards, getNewCards } from '../../storage/indexer';
-import { createCard, createReviewEvent, type Card, type ReviewEvent } from '../../storage/schema';
+import {
+  buildIndex,
+  getDueCards,
+  getEffectiveReviewEvents,
+  getNewCards,
+  isCardAvailable,
+} from '../../storage/indexer';
+import { createSchedulingAlgorithm } from '../../srs/algorithm';
+import {
+  createCard,
+  createResetEvent,
+  createReviewEvent,
+  createUndoEvent,
+  updateCard,
+  type Card,
+  type LogEvent,
+  type ReviewEvent,
+} from '../../storage/schema';
 
 describe('Indexer', () => {
   beforeEach(() => {
@@ -163,6 +179,217 @@ describe('Indexer', () => {
 
       expect(index.newCards).toContain('1');
     });
+
+    it('should re-derive SRS state from the same events with another algorithm', () => {
+      const baseCard = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [{ ...baseCard, id: '1' }];
+
+      const baseEvent = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+      const events: ReviewEvent[] = [
+        { ...baseEvent, id: 'e1', ts: 1000 },
+        { ...baseEvent, id: 'e2', ts: 1000 + 86400000 * 3 },
+      ];
+
+      const sm2Index = buildIndex(cards, events);
+      const fsrsIndex = buildIndex(cards, events, createSchedulingAlgorithm('fsrs'));
+
+      const sm2State = sm2Index.srsStates.get('1');
+      const fsrsState = fsrsIndex.srsStates.get('1');
+      expect(sm2State?.stability).toBeUndefined();
+      expect(fsrsState?.stability).toBeGreaterThan(0);
+      expect(fsrsState?.difficulty).toBeGreaterThan(0);
+      expect(fsrsState?.reps).toBe(sm2State?.reps);
+      expect(fsrsState?.intervalDays).not.toBe(sm2State?.intervalDays);
+    });
+
+    it('should skip reviews cancelled by undo events', () => {
+      const baseCard = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [{ ...baseCard, id: '1' }];
+
+      const baseEvent = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+      const good: ReviewEvent = { ...baseEvent, id: 'e1', ts: 1000 };
+      const misclick: ReviewEvent = {
+        ...baseEvent,
+        id: 'e2',
+        ts: 1000 + 86400000,
+        rating: 'again',
+      };
+      const events: LogEvent[] = [good, misclick, createUndoEvent(misclick)];
+
+      const index = buildIndex(cards, events);
+      const expected = buildIndex(cards, [good]);
+
+      expect(index.srsStates.get('1')).toEqual(expected.srsStates.get('1'));
+      expect(index.srsStates.get('1')?.lapses).toBe(0);
+    });
+
+    it('should treat a card whose only review was undone as new', () => {
+      const baseCard = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [{ ...baseCard, id: '1' }];
+      const review = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+
+      const index = buildIndex(cards, [review, createUndoEvent(review)]);
+
+      expect(index.newCards).toContain('1');
+      expect(index.srsStates.get('1')?.phase).toBe('new');
+    });
+
+    it('should forget reviews made before a reset event', () => {
+      const baseCard = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [{ ...baseCard, id: '1' }];
+      const review = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+      vi.advanceTimersByTime(1000);
+      const reset = createResetEvent('1');
+
+      const index = buildIndex(cards, [review, reset]);
+
+      expect(index.newCards).toContain('1');
+      expect(index.srsStates.get('1')?.reps).toBe(0);
+    });
+
+    it('should keep suspended cards out of the due and new lists', () => {
+      const base = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [
+        { ...base, id: 'new', suspended: true },
+        { ...base, id: 'due', suspended: true },
+      ];
+      const review: ReviewEvent = {
+        ...createReviewEvent({ cardId: 'due', rating: 'good', mode: 'flashcard' }),
+        ts: Date.now() - 10 * 86400000,
+      };
+
+      const index = buildIndex(cards, [review]);
+
+      expect(index.cards.size).toBe(2);
+      expect(index.srsStates.get('due')?.reps).toBe(1);
+      expect(index.newCards).toEqual([]);
+      expect(index.dueCards).toEqual([]);
+    });
+
+    it('should keep buried cards out of the due and new lists until they are unburied', () => {
+      const base = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [
+        { ...base, id: 'buried', buriedUntil: Date.now() + 3600000 },
+        { ...base, id: 'unburied', buriedUntil: Date.now() - 1000 },
+      ];
+
+      const index = buildIndex(cards, []);
+
+      expect(index.cards.size).toBe(2);
+      expect(index.newCards).toEqual(['unburied']);
+    });
+
+    it('should schedule dictation reviews apart from recognition reviews', () => {
+      const base = createCard({ type: 'word', front: { term: 'test' } });
+      const cards: Card[] = [
+        { ...base, id: 'word' },
+        { ...base, id: 'cloze', type: 'cloze' },
+      ];
+      const at = Date.now() - 10 * 86400000;
+      const events: ReviewEvent[] = [
+        { ...createReviewEvent({ cardId: 'word', rating: 'good', mode: 'flashcard' }), ts: at },
+        { ...createReviewEvent({ cardId: 'word', rating: 'again', mode: 'dictation' }), ts: at },
+      ];
+
+      const recognition = buildIndex(cards, events);
+      const dictation = buildIndex(cards, events, undefined, { dictation: true });
+
+      expect(recognition.srsStates.get('word')).toMatchObject({ reps: 1, lapses: 0 });
+      expect(dictation.srsStates.get('word')).toMatchObject({ reps: 0, lapses: 1 });
+      expect(dictation.srsStates.has('cloze')).toBe(false);
+      expect(dictation.dueCards).toEqual(['word']);
+    });
+
+    it('should spread due dates of cards reviewed together over the forecast load', () => {
+      const base = createCard({ type: 'word', front: { term: 'test' } });
+      const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+      const cards: Card[] = ids.map((id) => ({ ...base, id }));
+      const start = Date.now() - 30 * 86400000;
+      // Reviews 1 and 6 days apart give every card a 15-day interval
+      const events: ReviewEvent[] = [0, 1, 7].flatMap((day) =>
+        ids.map((cardId) => ({
+          ...createReviewEvent({ cardId, rating: 'good', mode: 'flashcard' }),
+          ts: start + day * 86400000,
+        }))
+      );
+      const algorithm = createSchedulingAlgorithm('sm2', { loadBalance: true });
+
+      const plain = buildIndex(cards, events, createSchedulingAlgorithm('sm2'));
+      const balanced = buildIndex(cards, events, algorithm);
+      const dueDays = (index: ReturnType<typeof buildIndex>) =>
+        new Set(ids.map((id) => index.srsStates.get(id)?.dueAt));
+
+      expect(dueDays(plain).size).toBe(1);
+      expect(dueDays(balanced).size).toBeGreaterThan(3);
+      expect(balanced.srsStates.get('a')?.intervalDays).toBe(15);
+      expect(buildIndex(cards, events, algorithm).srsStates).toEqual(balanced.srsStates);
+    });
+
+    it('should leave suspended and deleted cards out of the forecast load', () => {
+      const base = createCard({ type: 'word', front: { term: 'test' } });
+      const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+      const cards: Card[] = ids.map((id) => ({ ...base, id }));
+      const start = Date.now() - 30 * 86400000;
+      const events: ReviewEvent[] = [0, 1, 7].flatMap((day) =>
+        ids.map((cardId) => ({
+          ...createReviewEvent({ cardId, rating: 'good', mode: 'flashcard' }),
+          ts: start + day * 86400000,
+        }))
+      );
+      const algorithm = createSchedulingAlgorithm('sm2', { loadBalance: true });
+      const dueAt = (index: ReturnType<typeof buildIndex>) => index.srsStates.get('b')?.dueAt;
+
+      const alone = buildIndex([cards[1]], events, algorithm);
+      const others = cards.filter((card) => card.id !== 'b');
+      const suspended = others.map((card) => updateCard(card, { suspended: true }));
+      const deleted = others.map((card) => updateCard(card, { deleted: true }));
+
+      // Due dates are re-derived on every build, so removing the other cards
+      // from the load is meant to move this one
+      expect(dueAt(buildIndex(cards, events, algorithm))).not.toBe(dueAt(alone));
+      expect(dueAt(buildIndex([...cards, ...suspended], events, algorithm))).toBe(dueAt(alone));
+      expect(dueAt(buildIndex([...cards, ...deleted], events, algorithm))).toBe(dueAt(alone));
+    });
+  });
+
+  describe('isCardAvailable()', () => {
+    it('should reject suspended cards and cards buried past now', () => {
+      const now = Date.now();
+      const card = createCard({ type: 'word', front: { term: 'test' } });
+
+      expect(isCardAvailable(card, now)).toBe(true);
+      expect(isCardAvailable({ ...card, suspended: true }, now)).toBe(false);
+      expect(isCardAvailable({ ...card, buriedUntil: now + 1 }, now)).toBe(false);
+      expect(isCardAvailable({ ...card, buriedUntil: now }, now)).toBe(true);
+    });
+  });
+
+  describe('getEffectiveReviewEvents()', () => {
+    it('should drop undo events and their targets, keeping order', () => {
+      const a = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+      const b = createReviewEvent({ cardId: '2', rating: 'hard', mode: 'flashcard' });
+      const c = createReviewEvent({ cardId: '1', rating: 'easy', mode: 'flashcard' });
+
+      expect(getEffectiveReviewEvents([a, b, createUndoEvent(b), c])).toEqual([a, c]);
+    });
+
+    it('should ignore undo events for unknown reviews', () => {
+      const a = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+      const orphan = createUndoEvent({ ...a, id: 'missing' });
+
+      expect(getEffectiveReviewEvents([a, orphan])).toEqual([a]);
+    });
+
+    it('should drop reviews of a card up to its latest reset', () => {
+      const before = createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' });
+      const other = createReviewEvent({ cardId: '2', rating: 'good', mode: 'flashcard' });
+      vi.advanceTimersByTime(1000);
+      const reset = createResetEvent('1');
+      vi.advanceTimersByTime(1000);
+      const after = createReviewEvent({ cardId: '1', rating: 'easy', mode: 'flashcard' });
+
+      expect(getEffectiveReviewEvents([before, other, reset, after])).toEqual([other, after]);
+    });
   });
 
   describe('getDueCards()', () => {
@@ -225,6 +452,20 @@ describe('Indexer', () => {
       const card1Due = dueCards.find((c) => c.id === '1');
       expect(card1Due).toBeUndefined();
     });
+
+    it('should skip cards buried past now', () => {
+      const now = Date.now();
+      const base = createCard({ type: 'word', front: { term: 'buried' } });
+      const review: ReviewEvent = {
+        ...createReviewEvent({ cardId: '1', rating: 'good', mode: 'flashcard' }),
+        ts: now - 86400000 * 10,
+      };
+      const index = buildIndex([{ ...base, id: '1' }], [review]);
+
+      index.cards.set('1', { ...base, id: '1', buriedUntil: now + 3600000 });
+      expect(getDueCards(index, now)).toEqual([]);
+      expect(getDueCards(index, now + 3600000).map((c) => c.id)).toEqual(['1']);
+    });
   });
 
   describe('getNewCards()', () => {
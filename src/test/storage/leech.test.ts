@@ -0,0 +1,134 @@
+// Leech tests
+// TDD: Tests for leech marking, lapse history and the dashboard leech report
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { becameLeech, buildLeechReport, getLapseTimes, markLeech } from '../../storage/leech';
+import { buildIndex } from '../../storage/indexer';
+import { sm2Algorithm } from '../../srs/sm2';
+import {
+  createCard,
+  createReviewEvent,
+  type Card,
+  type ReviewEvent,
+  type ReviewRating,
+} from '../../storage/schema';
+
+describe('Leeches', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCard(id: string, term: string, extra: Partial<Card> = {}): Card {
+    return { ...createCard({ type: 'word', front: { term } }), id, ...extra };
+  }
+
+  function reviews(cardId: string, ratings: ReviewRating[]): ReviewEvent[] {
+    return ratings.map((rating, i) => ({
+      ...createReviewEvent({ cardId, rating, mode: 'flashcard' }),
+      ts: Date.now() - (ratings.length - i) * DAY_MS,
+    }));
+  }
+
+  describe('buildIndex() leech marking', () => {
+    it('should mark cards whose lapses reach the threshold', () => {
+      const cards = [makeCard('a', 'a'), makeCard('b', 'b')];
+      const events = [
+        ...reviews('a', ['again', 'good', 'again', 'good', 'again']),
+        ...reviews('b', ['again', 'good']),
+      ];
+
+      const index = buildIndex(cards, events, sm2Algorithm, { leechThreshold: 3 });
+
+      expect(index.srsStates.get('a')?.leech).toBe(true);
+      expect(index.srsStates.get('b')?.leech).toBeUndefined();
+    });
+
+    it('should not mark anything when the threshold is 0', () => {
+      const events = reviews('a', ['again', 'again', 'again']);
+
+      const index = buildIndex([makeCard('a', 'a')], events, sm2Algorithm, { leechThreshold: 0 });
+
+      expect(index.srsStates.get('a')?.leech).toBeUndefined();
+    });
+  });
+
+  describe('becameLeech()', () => {
+    it('should only be true when the leech flag was just set', () => {
+      const index = buildIndex(
+        [makeCard('a', 'a')],
+        reviews('a', ['again', 'again']),
+        sm2Algorithm,
+        { leechThreshold: 2 }
+      );
+      const leech = index.srsStates.get('a')!;
+      const before = { ...leech, leech: undefined };
+
+      expect(becameLeech(before, leech)).toBe(true);
+      expect(becameLeech(leech, leech)).toBe(false);
+      expect(becameLeech(undefined, before)).toBe(false);
+    });
+  });
+
+  describe('markLeech()', () => {
+    it('should add the leech tag as a new version', () => {
+      const marked = markLeech(makeCard('a', 'a', { tags: ['gre'] }), false);
+
+      expect(marked).toMatchObject({ version: 2, tags: ['gre', 'leech'] });
+      expect(marked?.suspended).toBeUndefined();
+    });
+
+    it('should also suspend the card when requested', () => {
+      expect(markLeech(makeCard('a', 'a'), true)).toMatchObject({
+        tags: ['leech'],
+        suspended: true,
+      });
+    });
+
+    it('should return null when the card is already marked', () => {
+      const card = makeCard('a', 'a', { tags: ['leech'], suspended: true });
+
+      expect(markLeech(card, true)).toBeNull();
+      expect(markLeech({ ...card, suspended: false }, false)).toBeNull();
+    });
+  });
+
+  describe('getLapseTimes()', () => {
+    it('should return the times of the lapsing reviews only', () => {
+      const events = reviews('a', ['good', 'again', 'good', 'again']);
+
+      expect(getLapseTimes('a', events, sm2Algorithm)).toEqual([events[1].ts, events[3].ts]);
+    });
+  });
+
+  describe('buildLeechReport()', () => {
+    it('should list leeches with the most lapses first', () => {
+      const cards = [
+        makeCard('a', 'alpha', { back: { translation: '甲' } }),
+        makeCard('b', 'beta', { suspended: true }),
+        makeCard('c', 'gamma'),
+      ];
+      const events = [
+        ...reviews('a', ['again', 'again']),
+        ...reviews('b', ['again', 'again', 'again']),
+        ...reviews('c', ['again', 'good']),
+      ];
+      const index = buildIndex(cards, events, sm2Algorithm, { leechThreshold: 2 });
+
+      const report = buildLeechReport(index, events, sm2Algorithm);
+
+      expect(report.map((r) => [r.cardId, r.lapses, r.suspended])).toEqual([
+        ['b', 3, true],
+        ['a', 2, false],
+      ]);
+      expect(report[1]).toMatchObject({ term: 'alpha', translation: '甲' });
+      expect(report[1].lapseTimes).toHaveLength(2);
+    });
+  });
+});
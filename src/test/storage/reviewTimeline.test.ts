@@ -0,0 +1,77 @@
+// Review timeline tests
+// TDD: Tests for replaying a card's reviews into the card details timeline
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getReviewTimeline } from '../../storage/reviewTimeline';
+import { sm2Algorithm } from '../../srs/sm2';
+import { createReviewEvent, type ReviewEvent, type ReviewRating } from '../../storage/schema';
+
+describe('Review timeline', () => {
+  const DAY_MS = 86400000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function review(
+    cardId: string,
+    daysAgo: number,
+    rating: ReviewRating,
+    extra: Partial<ReviewEvent> = {}
+  ): ReviewEvent {
+    return {
+      ...createReviewEvent({ cardId, rating, mode: 'flashcard', durationMs: 3000 }),
+      ts: Date.now() - daysAgo * DAY_MS,
+      ...extra,
+    };
+  }
+
+  it('should list every review of the card oldest first', () => {
+    const events = [
+      review('a', 9, 'good'),
+      review('b', 9, 'good'),
+      review('a', 10, 'good'),
+      review('a', 2, 'again'),
+    ];
+
+    const timeline = getReviewTimeline('a', events, sm2Algorithm);
+
+    expect(timeline.map((entry) => entry.rating)).toEqual(['good', 'good', 'again']);
+    expect(timeline.map((entry) => entry.eventId)).toEqual([
+      events[2].id,
+      events[0].id,
+      events[3].id,
+    ]);
+    expect(timeline[0]).toMatchObject({ mode: 'flashcard', durationMs: 3000 });
+  });
+
+  it('should record the interval and ease each review led to', () => {
+    const events = [review('a', 10, 'good'), review('a', 9, 'good'), review('a', 2, 'again')];
+
+    const timeline = getReviewTimeline('a', events, sm2Algorithm);
+
+    expect(timeline.map((entry) => entry.intervalDays)).toEqual([1, 6, 1]);
+    expect(timeline.map((entry) => entry.lapse)).toEqual([false, false, true]);
+    expect(timeline[1].easeFactor).toBeCloseTo(2.5);
+  });
+
+  it('should replay directions and dictation separately', () => {
+    const events = [
+      review('a', 10, 'good'),
+      review('a', 9, 'good', { direction: 'reverse' }),
+      review('a', 8, 'good', { mode: 'dictation' }),
+      review('a', 7, 'good'),
+    ];
+
+    const timeline = getReviewTimeline('a', events, sm2Algorithm);
+
+    expect(timeline.map((entry) => entry.intervalDays)).toEqual([1, 1, 1, 6]);
+    expect(timeline[1].direction).toBe('reverse');
+    expect(timeline[2].mode).toBe('dictation');
+  });
+});
@@ -2,7 +2,7 @@
 // TDD: Write tests first, then implement
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createCard, updateCard, createReviewEvent } from '../../storage/schema';
+import { createCard, updateCard, createReviewEvent, createUndoEvent } from '../../storage/schema';
 
 describe('Schema Types', () => {
   beforeEach(() => {
@@ -97,6 +97,20 @@ describe('Schema Types', () => {
       expect(updated.back?.synonyms).toEqual(['exam', 'trial']);
     });
 
+    it('should merge front fields on update and keep the context', () => {
+      const card = createCard({
+        type: 'word',
+        front: { term: 'tset', context: { langId: 'typescript', filePath: '/a.ts' } },
+      });
+
+      const updated = updateCard(card, { front: { term: 'test', phonetic: '/test/' } });
+
+      expect(updated.front.term).toBe('test');
+      expect(updated.front.phonetic).toBe('/test/');
+      expect(updated.front.context).toEqual({ langId: 'typescript', filePath: '/a.ts' });
+      expect(updated.version).toBe(2);
+    });
+
     it('should update tags', () => {
       const card = createCard({
         type: 'word',
@@ -187,4 +201,19 @@ describe('Schema Types', () => {
       expect(event.mode).toBe('quickpeek');
     });
   });
+
+  describe('UndoEvent', () => {
+    it('should reference the review it cancels', () => {
+      const review = createReviewEvent({ cardId: 'card-123', rating: 'again', mode: 'flashcard' });
+      vi.advanceTimersByTime(1000);
+      const undo = createUndoEvent(review);
+
+      expect(undo.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(undo.id).not.toBe(review.id);
+      expect(undo.kind).toBe('undo');
+      expect(undo.cardId).toBe('card-123');
+      expect(undo.targetEventId).toBe(review.id);
+      expect(undo.ts).toBe(review.ts + 1000);
+    });
+  });
 });
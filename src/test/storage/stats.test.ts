@@ -2,9 +2,15 @@
 // PURE MODULE: Tests dashboard statistics and knowledge graph generation
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { calculateDashboardStats, generateKnowledgeGraph } from '../../storage/stats';
+import {
+  calculateDashboardStats,
+  calculateRetentionAnalytics,
+  calculateReviewForecast,
+  calculateStudyTimeStats,
+  generateKnowledgeGraph,
+} from '../../storage/stats';
 import { buildIndex } from '../../storage/indexer';
-import type { Card, ReviewEvent, SrsState } from '../../storage/schema';
+import type { Card, CardIndex, ReviewEvent, SrsState } from '../../storage/schema';
 
 // Helper to create test cards
 function createTestCard(overrides: Partial<Card> = {}): Card {
@@ -211,6 +217,247 @@ describe('Dashboard Statistics', () => {
       // 3 good/easy out of 4 total = 0.75
       expect(todayRetention).toBe(0.75);
     });
+
+    it('should forecast reviews for the next 90 days', () => {
+      const stats = calculateDashboardStats(buildIndex([], []), []);
+
+      expect(stats.forecast).toHaveLength(90);
+      expect(stats.forecast[0]).toEqual({ date: '2024-01-15', learning: 0, mature: 0 });
+    });
+
+    it('should count reviews before the rollover hour towards the previous day', () => {
+      const events = [
+        createTestEvent({ id: 'e1', ts: new Date(2024, 0, 14, 10).getTime() }),
+        createTestEvent({ id: 'e2', ts: new Date(2024, 0, 15, 2).getTime() }),
+      ];
+      const index = buildIndex([], []);
+
+      const atFour = calculateDashboardStats(index, events, undefined, 4);
+      expect(atFour.reviewsPerDay.slice(-2).map((d) => d.count)).toEqual([2, 0]);
+      expect(atFour.reviewsToday).toBe(0);
+      expect(atFour.currentStreak).toBe(1);
+
+      const atMidnight = calculateDashboardStats(index, events, undefined, 0);
+      expect(atMidnight.reviewsPerDay.slice(-2).map((d) => d.count)).toEqual([1, 1]);
+      expect(atMidnight.reviewsToday).toBe(1);
+      expect(atMidnight.currentStreak).toBe(2);
+    });
+  });
+
+  describe('calculateReviewForecast', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    function makeState(cardId: string, dueInDays: number, intervalDays: number): SrsState {
+      return {
+        cardId,
+        dueAt: Date.now() + dueInDays * day,
+        intervalDays,
+        easeFactor: 2.5,
+        reps: 3,
+        lapses: 0,
+        phase: 'review',
+        stepIndex: 0,
+      };
+    }
+
+    function makeIndex(entries: Array<[Card, SrsState]>): CardIndex {
+      return {
+        cards: new Map(entries.map(([card]) => [card.id, card])),
+        srsStates: new Map(entries.map(([card, srs]) => [card.id, srs])),
+        dueCards: [],
+        newCards: [],
+      };
+    }
+
+    it('should split upcoming reviews into learning and mature per day', () => {
+      const index = makeIndex([
+        [createTestCard({ id: 'overdue' }), makeState('overdue', -3, 4)],
+        [createTestCard({ id: 'young' }), makeState('young', 2, 5)],
+        [createTestCard({ id: 'mature' }), makeState('mature', 2, 30)],
+        [createTestCard({ id: 'later' }), makeState('later', 40, 60)],
+      ]);
+
+      const forecast = calculateReviewForecast(index, 30);
+
+      expect(forecast).toHaveLength(30);
+      expect(forecast[0]).toEqual({ date: '2024-01-15', learning: 1, mature: 0 });
+      expect(forecast[2]).toEqual({ date: '2024-01-17', learning: 1, mature: 1 });
+      expect(forecast.reduce((sum, d) => sum + d.learning + d.mature, 0)).toBe(3);
+    });
+
+    it('should skip new and suspended cards and move buried cards', () => {
+      const newState = { ...makeState('new', 0, 0), reps: 0, phase: 'new' as const };
+      const index = makeIndex([
+        [createTestCard({ id: 'new' }), newState],
+        [createTestCard({ id: 'suspended', suspended: true }), makeState('suspended', 1, 5)],
+        [createTestCard({ id: 'buried', buriedUntil: Date.now() + 3 * day }), makeState('buried', -1, 5)],
+      ]);
+
+      const forecast = calculateReviewForecast(index, 7);
+
+      expect(forecast[0].learning + forecast[1].learning).toBe(0);
+      expect(forecast[3]).toEqual({ date: '2024-01-18', learning: 1, mature: 0 });
+    });
+  });
+
+  describe('calculateRetentionAnalytics', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    function review(
+      cardId: string,
+      daysAgo: number,
+      rating: ReviewEvent['rating'] = 'good'
+    ): ReviewEvent {
+      return createTestEvent({
+        id: `${cardId}${daysAgo}`,
+        cardId,
+        ts: Date.now() - daysAgo * day,
+        rating,
+      });
+    }
+
+    function makeEvents(): ReviewEvent[] {
+      return [
+        // a: graduates, lapses at a 15-day interval, then relearns
+        review('a', 40),
+        review('a', 39),
+        review('a', 33),
+        review('a', 18, 'again'),
+        review('a', 17),
+        { ...review('a', 17), id: 'a-repeat', ts: Date.now() - 17 * day + 10 * 60 * 1000 },
+        { ...review('a', 5), mode: 'dictation' },
+        // b: reaches a mature 38-day interval
+        review('b', 100),
+        review('b', 99),
+        review('b', 93),
+        review('b', 78),
+        review('b', 40),
+      ];
+    }
+
+    it('should count reviews of graduated cards by maturity', () => {
+      const analytics = calculateRetentionAnalytics(makeEvents());
+
+      expect(analytics.young).toEqual({ label: 'Young', reviews: 7, passed: 6, rate: 0.86 });
+      expect(analytics.mature).toEqual({ label: 'Mature', reviews: 1, passed: 1, rate: 1 });
+    });
+
+    it('should bucket reviews by the interval and ease before them', () => {
+      const analytics = calculateRetentionAnalytics(makeEvents());
+
+      expect(analytics.byInterval.map((b) => [b.label, b.reviews, b.passed])).toEqual([
+        ['1 day', 3, 3],
+        ['2–6 days', 2, 2],
+        ['1–3 weeks', 2, 1],
+        ['3–8 weeks', 1, 1],
+        ['2–6 months', 0, 0],
+        ['6+ months', 0, 0],
+      ]);
+      expect(analytics.byEase.find((b) => b.label === '2.5–2.8')?.reviews).toBe(8);
+    });
+
+    it('should compare predicted recall with actual outcomes', () => {
+      const { calibration } = calculateRetentionAnalytics(makeEvents());
+
+      expect(calibration.reduce((sum, bin) => sum + bin.reviews, 0)).toBe(8);
+      for (const bin of calibration) {
+        expect(bin.predicted).toBeGreaterThanOrEqual(0);
+        expect(bin.predicted).toBeLessThanOrEqual(1);
+        expect(bin.label).toMatch(/^\d+–\d+%$/);
+      }
+    });
+
+    it('should be empty without reviews of graduated cards', () => {
+      const analytics = calculateRetentionAnalytics([review('a', 1)]);
+
+      expect(analytics.young.reviews + analytics.mature.reviews).toBe(0);
+      expect(analytics.calibration).toEqual([]);
+    });
+  });
+
+  describe('calculateStudyTimeStats', () => {
+    function makeIndex(): CardIndex {
+      return buildIndex(
+        ['a', 'b', 'c'].map((id) => createTestCard({ id, front: { term: `term-${id}` } })),
+        []
+      );
+    }
+
+    function timed(cardId: string, durationMs: number, overrides: Partial<ReviewEvent> = {}) {
+      return createTestEvent({ id: `${cardId}-${durationMs}`, cardId, durationMs, ...overrides });
+    }
+
+    it('should add up capped answer times per day', () => {
+      const events = [
+        timed('a', 30000),
+        timed('b', 90000, { rating: 'again' }),
+        timed('c', 30000, { mode: 'dictation' }),
+        createTestEvent({ id: 'untimed' }),
+      ];
+
+      const studyTime = calculateStudyTimeStats(makeIndex(), events);
+
+      expect(studyTime.minutesToday).toBe(2);
+      expect(studyTime.minutesPerDay).toHaveLength(30);
+      expect(studyTime.minutesPerDay[29]).toEqual({ date: '2024-01-15', minutes: 2 });
+    });
+
+    it('should average answer times per rating without dictation', () => {
+      const events = [
+        timed('a', 4000),
+        timed('b', 8000),
+        timed('c', 90000, { rating: 'again' }),
+        timed('c', 20000, { mode: 'dictation' }),
+      ];
+
+      const { answerTimeByRating } = calculateStudyTimeStats(makeIndex(), events);
+
+      expect(answerTimeByRating).toEqual([
+        { rating: 'again', reviews: 1, averageMs: 60000 },
+        { rating: 'hard', reviews: 0, averageMs: 0 },
+        { rating: 'good', reviews: 2, averageMs: 6000 },
+        { rating: 'easy', reviews: 0, averageMs: 0 },
+      ]);
+    });
+
+    it('should list the slowest cards answered at least twice', () => {
+      const events = [
+        timed('a', 10000),
+        timed('a', 20000),
+        timed('b', 5000),
+        timed('b', 5001),
+        timed('c', 50000),
+        timed('deleted', 40000),
+        timed('deleted', 40001),
+      ];
+
+      const { slowestCards } = calculateStudyTimeStats(makeIndex(), events);
+
+      expect(slowestCards).toEqual([
+        { cardId: 'a', term: 'term-a', reviews: 2, averageMs: 15000 },
+        { cardId: 'b', term: 'term-b', reviews: 2, averageMs: 5001 },
+      ]);
+    });
+
+    it('should group reviews by local weekday and hour', () => {
+      const ts = Date.now();
+      const earlier = ts - 3 * 60 * 60 * 1000;
+      const events = [
+        createTestEvent({ id: 'e1', ts }),
+        createTestEvent({ id: 'e2', ts, rating: 'again' }),
+        createTestEvent({ id: 'e3', ts: earlier }),
+      ];
+
+      const { hourlyPerformance } = calculateStudyTimeStats(makeIndex(), events);
+
+      const cell = (time: number) => ({
+        weekday: new Date(time).getDay(),
+        hour: new Date(time).getHours(),
+      });
+      expect(hourlyPerformance).toContainEqual({ ...cell(ts), reviews: 2, passRate: 0.5 });
+      expect(hourlyPerformance).toContainEqual({ ...cell(earlier), reviews: 1, passRate: 1 });
+      expect(hourlyPerformance).toHaveLength(2);
+    });
   });
 });
 
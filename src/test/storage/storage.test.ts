@@ -6,7 +6,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { JsonlStorage } from '../../storage/storage';
-import { createCard, createReviewEvent } from '../../storage/schema';
+import { createCard, createReviewEvent, createUndoEvent } from '../../storage/schema';
 
 describe('JSONL Storage', () => {
   let tempDir: string;
@@ -86,6 +86,33 @@ describe('JSONL Storage', () => {
     });
   });
 
+  describe('appendCards() / appendEvents()', () => {
+    it('should append several cards in one write', async () => {
+      const card1 = createCard({ type: 'word', front: { term: 'one' } });
+      const card2 = createCard({ type: 'word', front: { term: 'two' } });
+
+      await storage.appendCard(card1);
+      await storage.appendCards([card2, { ...card1, version: 2 }]);
+
+      const cards = await storage.readAllCards();
+      expect(cards.map((c) => [c.front.term, c.version])).toEqual([
+        ['one', 1],
+        ['two', 1],
+        ['one', 2],
+      ]);
+    });
+
+    it('should append several events and ignore empty batches', async () => {
+      const event1 = createReviewEvent({ cardId: 'card-1', rating: 'good', mode: 'flashcard' });
+      const event2 = createReviewEvent({ cardId: 'card-2', rating: 'hard', mode: 'flashcard' });
+
+      await storage.appendEvents([]);
+      await storage.appendEvents([event1, event2]);
+
+      expect(await storage.readAllEvents()).toEqual([event1, event2]);
+    });
+  });
+
   describe('readAllCards()', () => {
     it('should read all cards from file', async () => {
       const card1 = createCard({ type: 'word', front: { term: 'one' } });
@@ -146,6 +173,28 @@ describe('JSONL Storage', () => {
       const events = await storage.readAllEvents();
       expect(events).toEqual([]);
     });
+
+    it('should include undo events', async () => {
+      const review = createReviewEvent({ cardId: 'card-1', rating: 'good', mode: 'flashcard' });
+      await storage.appendEvent(review);
+      await storage.appendEvent(createUndoEvent(review));
+
+      const events = await storage.readAllEvents();
+      expect(events.map((e) => e.kind)).toEqual(['review', 'undo']);
+    });
+  });
+
+  describe('readReviewEvents()', () => {
+    it('should skip undo events and the reviews they cancel', async () => {
+      const undone = createReviewEvent({ cardId: 'card-1', rating: 'again', mode: 'flashcard' });
+      const kept = createReviewEvent({ cardId: 'card-1', rating: 'good', mode: 'flashcard' });
+      await storage.appendEvent(undone);
+      await storage.appendEvent(createUndoEvent(undone));
+      await storage.appendEvent(kept);
+
+      const events = await storage.readReviewEvents();
+      expect(events).toEqual([kept]);
+    });
   });
 
   describe('atomicWriteJson()', () => {
@@ -0,0 +1,69 @@
+// Card browser HTML tests
+// TDD: Tests for the card browser webview template
+
+import { describe, it, expect } from 'vitest';
+import {
+  BROWSER_HTML_BODY,
+  BROWSER_ROW_HEIGHT,
+  BROWSER_SCRIPT,
+  BROWSER_STYLES,
+  generateBrowserHtml,
+} from '../../webview/browserHtml';
+
+describe('browserHtml', () => {
+  describe('BROWSER_STYLES', () => {
+    it('should size rows from the shared row height', () => {
+      expect(BROWSER_STYLES).toContain(`--row-height: ${BROWSER_ROW_HEIGHT}px`);
+    });
+  });
+
+  describe('BROWSER_HTML_BODY', () => {
+    it('should contain search and filter controls', () => {
+      expect(BROWSER_HTML_BODY).toContain('id="search"');
+      expect(BROWSER_HTML_BODY).toContain('id="filter-tag"');
+      expect(BROWSER_HTML_BODY).toContain('id="filter-type"');
+      expect(BROWSER_HTML_BODY).toContain('id="filter-state"');
+    });
+
+    it('should contain a sortable header for each column', () => {
+      for (const key of ['term', 'type', 'tags', 'dueAt', 'intervalDays', 'easeFactor', 'lapses']) {
+        expect(BROWSER_HTML_BODY).toContain(`data-sort="${key}"`);
+      }
+    });
+
+    it('should contain every bulk action', () => {
+      expect(BROWSER_HTML_BODY).toContain("bulkTag('tag')");
+      expect(BROWSER_HTML_BODY).toContain("bulkTag('untag')");
+      for (const kind of ['suspend', 'unsuspend', 'resetProgress', 'delete']) {
+        expect(BROWSER_HTML_BODY).toContain(`bulkAction({ kind: '${kind}' })`);
+      }
+    });
+  });
+
+  describe('BROWSER_SCRIPT', () => {
+    it('should query the extension and render browse results', () => {
+      expect(BROWSER_SCRIPT).toContain("type: 'browse_query'");
+      expect(BROWSER_SCRIPT).toContain("case 'browse_result':");
+    });
+
+    it('should only render rows inside the viewport', () => {
+      expect(BROWSER_SCRIPT).toContain(`const ROW_HEIGHT = ${BROWSER_ROW_HEIGHT}`);
+      expect(BROWSER_SCRIPT).toContain('rows.slice(start, end)');
+    });
+
+    it('should send bulk actions for the selected cards', () => {
+      expect(BROWSER_SCRIPT).toContain("type: 'bulk_action', cardIds: [...selected], action");
+    });
+  });
+
+  describe('generateBrowserHtml', () => {
+    it('should assemble a complete document with a CSP', () => {
+      const html = generateBrowserHtml();
+
+      expect(html).toContain('<!DOCTYPE html>');
+      expect(html).toContain('Content-Security-Policy');
+      expect(html).toContain(BROWSER_HTML_BODY);
+      expect(html).toContain(BROWSER_SCRIPT);
+    });
+  });
+});
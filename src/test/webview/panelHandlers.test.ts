@@ -9,6 +9,9 @@ import {
   createRecentCardsState,
   addToRecentCards,
   clearRecentCards,
+  createUndoHistory,
+  pushUndoEntry,
+  popUndoEntry,
   getSchedulerOptionsFromMode,
   shouldShowSessionComplete,
   getEmptyMessage,
@@ -19,7 +22,7 @@ import {
   type SessionState,
   type RecentCardsState,
 } from '../../webview/panelHandlers';
-import type { SrsState } from '../../storage/schema';
+import { createReviewEvent, type SrsState } from '../../storage/schema';
 
 describe('panelHandlers', () => {
   describe('SessionState management', () => {
@@ -182,7 +185,7 @@ describe('panelHandlers', () => {
       expect(isNewCard(undefined)).toBe(true);
     });
 
-    it('should return true for srs with reps = 0', () => {
+    it('should return true for srs in the new phase', () => {
       const srs: SrsState = {
         cardId: 'test',
         dueAt: Date.now(),
@@ -190,6 +193,8 @@ describe('panelHandlers', () => {
         easeFactor: 2.5,
         reps: 0,
         lapses: 0,
+        phase: 'new',
+        stepIndex: 0,
       };
 
       expect(isNewCard(srs)).toBe(true);
@@ -203,6 +208,24 @@ describe('panelHandlers', () => {
         easeFactor: 2.5,
         reps: 1,
         lapses: 0,
+        phase: 'review',
+        stepIndex: 0,
+      };
+
+      expect(isNewCard(srs)).toBe(false);
+    });
+
+    it('should return false for a card still in its learning steps', () => {
+      const srs: SrsState = {
+        cardId: 'test',
+        dueAt: Date.now(),
+        intervalDays: 0,
+        easeFactor: 2.5,
+        reps: 0,
+        lapses: 0,
+        lastReviewAt: Date.now(),
+        phase: 'learning',
+        stepIndex: 1,
       };
 
       expect(isNewCard(srs)).toBe(false);
@@ -275,6 +298,42 @@ describe('panelHandlers', () => {
     });
   });
 
+  describe('UndoHistoryState management', () => {
+    const makeEntry = (cardId: string) => ({
+      event: createReviewEvent({ cardId, rating: 'good', mode: 'flashcard' }),
+      session: createSessionState(),
+    });
+
+    it('should pop the most recent rating first', () => {
+      let state = createUndoHistory(5);
+      const first = makeEntry('card1');
+      const second = makeEntry('card2');
+      state = pushUndoEntry(state, first);
+      state = pushUndoEntry(state, second);
+
+      const result = popUndoEntry(state);
+
+      expect(result.entry).toBe(second);
+      expect(popUndoEntry(result.state).entry).toBe(first);
+    });
+
+    it('should return null when there is nothing to undo', () => {
+      const result = popUndoEntry(createUndoHistory(5));
+
+      expect(result.entry).toBeNull();
+      expect(result.state.entries).toEqual([]);
+    });
+
+    it('should drop the oldest entries beyond maxSize', () => {
+      let state = createUndoHistory(2);
+      state = pushUndoEntry(state, makeEntry('card1'));
+      state = pushUndoEntry(state, makeEntry('card2'));
+      state = pushUndoEntry(state, makeEntry('card3'));
+
+      expect(state.entries.map((e) => e.event.cardId)).toEqual(['card3', 'card2']);
+    });
+  });
+
   describe('getSchedulerOptionsFromMode', () => {
     it('should return loop options for loop mode', () => {
       const options = getSchedulerOptionsFromMode('loop');
@@ -297,6 +356,20 @@ describe('panelHandlers', () => {
       expect(options.dueOnly).toBe(true);
     });
 
+    it('should keep going like loop mode for quiz mode', () => {
+      const options = getSchedulerOptionsFromMode('quiz');
+
+      expect(options.loopMode).toBe(true);
+      expect(options.dueOnly).toBe(false);
+    });
+
+    it('should study until done in dictation mode', () => {
+      const options = getSchedulerOptionsFromMode('dictation');
+
+      expect(options.loopMode).toBe(false);
+      expect(options.dueOnly).toBe(false);
+    });
+
     it('should default to loop mode for unknown mode', () => {
       const options = getSchedulerOptionsFromMode('unknown' as any);
 
@@ -67,6 +67,15 @@ describe('panelHtml', () => {
       expect(FLASHCARD_HTML_BODY).toContain('id="card-back"');
     });
 
+    it('should contain the card edit form', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('id="card-edit"');
+      expect(FLASHCARD_HTML_BODY).toContain('onclick="startEdit()"');
+      const fields = ['edit-term', 'edit-translation', 'edit-synonyms', 'edit-notes', 'edit-tags'];
+      for (const id of fields) {
+        expect(FLASHCARD_HTML_BODY).toContain(`id="${id}"`);
+      }
+    });
+
     it('should contain term elements', () => {
       expect(FLASHCARD_HTML_BODY).toContain('id="term"');
       expect(FLASHCARD_HTML_BODY).toContain('id="term-back"');
@@ -134,7 +143,9 @@ describe('panelHtml', () => {
     });
 
     it('should define card display functions', () => {
-      expect(FLASHCARD_SCRIPT).toContain('function showCard(card, srs)');
+      expect(FLASHCARD_SCRIPT).toContain(
+        'function showCard(card, srs, direction, field, options, dictation)'
+      );
       expect(FLASHCARD_SCRIPT).toContain('function showEmpty(message)');
       expect(FLASHCARD_SCRIPT).toContain('function showSessionComplete(stats)');
     });
@@ -147,6 +158,78 @@ describe('panelHtml', () => {
       expect(FLASHCARD_SCRIPT).toContain('function revealBack()');
     });
 
+    it('should send undo_last_rating on Ctrl+Z', () => {
+      expect(FLASHCARD_SCRIPT).toContain('function undoLastRating()');
+      expect(FLASHCARD_SCRIPT).toContain("type: 'undo_last_rating'");
+      expect(FLASHCARD_SCRIPT).toContain("addEventListener('keydown'");
+      expect(FLASHCARD_SCRIPT).toContain("event.key.toLowerCase() === 'z'");
+    });
+
+    it('should send update_card from the edit form', () => {
+      expect(FLASHCARD_SCRIPT).toContain('function startEdit()');
+      expect(FLASHCARD_SCRIPT).toContain('function saveEdit()');
+      expect(FLASHCARD_SCRIPT).toContain("type: 'update_card'");
+      expect(FLASHCARD_SCRIPT).toContain("case 'card_updated':");
+      expect(FLASHCARD_SCRIPT).toContain("case 'card_update_error':");
+    });
+
+    it('should send suspend_card and bury_card from the card back', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('onclick="suspendCard()"');
+      expect(FLASHCARD_HTML_BODY).toContain('onclick="buryCard()"');
+      expect(FLASHCARD_SCRIPT).toContain("type: 'suspend_card', cardId: currentCard.id");
+      expect(FLASHCARD_SCRIPT).toContain("type: 'bury_card', cardId: currentCard.id");
+    });
+
+    it('should render cloze cards with a blank on the front and the answer on the back', () => {
+      expect(FLASHCARD_SCRIPT).toContain('function renderCloze(text, index, revealed)');
+      expect(FLASHCARD_SCRIPT).toContain('function stripCloze(text)');
+      expect(FLASHCARD_SCRIPT).toContain('<span class="cloze-blank">');
+      expect(FLASHCARD_SCRIPT).toContain('<span class="cloze-answer">');
+      expect(FLASHCARD_STYLES).toContain('.cloze-blank');
+      expect(FLASHCARD_STYLES).toContain('.cloze-answer');
+    });
+
+    it('should grade typed answers and send the answer time with the rating', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('id="answer-input"');
+      expect(FLASHCARD_HTML_BODY).toContain('id="answer-result"');
+      expect(FLASHCARD_SCRIPT).toContain("type: 'check_answer'");
+      expect(FLASHCARD_SCRIPT).toContain("case 'answer_result':");
+      expect(FLASHCARD_SCRIPT).toContain('durationMs: revealDurationMs');
+      expect(FLASHCARD_SCRIPT).toContain('durationMs: answerDurationMs');
+      expect(FLASHCARD_SCRIPT).toContain('typedAnswer: typedAnswer');
+      expect(FLASHCARD_STYLES).toContain('.diff-missing');
+      expect(FLASHCARD_STYLES).toContain('.buttons button.suggested');
+    });
+
+    it('should answer quiz questions and move on with Next', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('<option value="quiz">');
+      expect(FLASHCARD_HTML_BODY).toContain('id="quiz-options"');
+      expect(FLASHCARD_HTML_BODY).toContain('onclick="nextQuizCard()"');
+      expect(FLASHCARD_SCRIPT).toContain("type: 'answer_quiz'");
+      expect(FLASHCARD_SCRIPT).toContain("case 'quiz_result':");
+      expect(FLASHCARD_STYLES).toContain('.quiz-correct');
+      expect(FLASHCARD_STYLES).toContain('.quiz-wrong');
+    });
+
+    it('should hide the term and play it in dictation mode', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('<option value="dictation">');
+      expect(FLASHCARD_HTML_BODY).toContain('id="dictation-controls"');
+      expect(FLASHCARD_SCRIPT).toContain('if (ttsSettings.autoPlay || dictationMode)');
+      expect(FLASHCARD_SCRIPT).toContain("mode: dictationMode ? 'dictation' : 'flashcard'");
+    });
+
+    it('should show custom study progress and end the session', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('id="custom-study-chip"');
+      expect(FLASHCARD_SCRIPT).toContain('function updateCustomStudyChip(customStudy)');
+      expect(FLASHCARD_SCRIPT).toContain("type: 'end_custom_study'");
+    });
+
+    it('should pick the deck to study', () => {
+      expect(FLASHCARD_HTML_BODY).toContain('id="deck-select"');
+      expect(FLASHCARD_SCRIPT).toContain('function updateDeckSelector(decks, deckId)');
+      expect(FLASHCARD_SCRIPT).toContain('function setDeck(deckId)');
+    });
+
     it('should define study mode function', () => {
       expect(FLASHCARD_SCRIPT).toContain('function setStudyMode(mode)');
     });
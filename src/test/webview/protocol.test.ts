@@ -98,6 +98,65 @@ describe('Webview Protocol', () => {
           })
         ).toBe(false);
       });
+
+      it('should accept a review direction and reject unknown ones', () => {
+        const msg = { type: 'rate_card', cardId: 'card-123', rating: 'good', mode: 'flashcard' };
+
+        expect(isValidUiMessage({ ...msg, direction: 'reverse' })).toBe(true);
+        expect(isValidUiMessage({ ...msg, direction: 'forward' })).toBe(true);
+        expect(isValidUiMessage({ ...msg, direction: 'sideways' })).toBe(false);
+      });
+
+      it('should accept dictation ratings', () => {
+        const msg = { type: 'rate_card', cardId: 'card-123', rating: 'good', mode: 'dictation' };
+
+        expect(isValidUiMessage(msg)).toBe(true);
+        expect(isValidUiMessage({ ...msg, mode: 'quiz' })).toBe(false);
+      });
+
+      it('should accept the answer time and typed answer', () => {
+        const msg = { type: 'rate_card', cardId: 'card-123', rating: 'good', mode: 'flashcard' };
+
+        expect(isValidUiMessage({ ...msg, durationMs: 4200, typedAnswer: 'ephemeral' })).toBe(true);
+        expect(isValidUiMessage({ ...msg, durationMs: '4200' })).toBe(false);
+        expect(isValidUiMessage({ ...msg, typedAnswer: 42 })).toBe(false);
+      });
+    });
+
+    describe('check_answer message', () => {
+      const msg = { type: 'check_answer', cardId: 'card-123', field: 'term', answer: 'ephemral' };
+
+      it('should accept a typed answer for the term or translation', () => {
+        expect(isValidUiMessage(msg)).toBe(true);
+        expect(isValidUiMessage({ ...msg, field: 'translation', durationMs: 3000 })).toBe(true);
+      });
+
+      it('should reject unknown fields and missing answers', () => {
+        expect(isValidUiMessage({ ...msg, field: 'example' })).toBe(false);
+        expect(isValidUiMessage({ ...msg, answer: undefined })).toBe(false);
+        expect(isValidUiMessage({ ...msg, durationMs: 'slow' })).toBe(false);
+      });
+    });
+
+    describe('end_custom_study message', () => {
+      it('should accept valid end_custom_study message', () => {
+        expect(isValidUiMessage({ type: 'end_custom_study' })).toBe(true);
+      });
+    });
+
+    describe('answer_quiz message', () => {
+      const msg = { type: 'answer_quiz', cardId: 'card-123', choice: 2 };
+
+      it('should accept a chosen option with its time', () => {
+        expect(isValidUiMessage(msg)).toBe(true);
+        expect(isValidUiMessage({ ...msg, durationMs: 1500 })).toBe(true);
+      });
+
+      it('should reject a missing or fractional choice', () => {
+        expect(isValidUiMessage({ ...msg, choice: undefined })).toBe(false);
+        expect(isValidUiMessage({ ...msg, choice: 1.5 })).toBe(false);
+        expect(isValidUiMessage({ ...msg, durationMs: 'fast' })).toBe(false);
+      });
     });
 
     describe('reveal_back message', () => {
@@ -128,6 +187,101 @@ describe('Webview Protocol', () => {
       });
     });
 
+    describe('undo_last_rating message', () => {
+      it('should accept valid undo_last_rating message', () => {
+        expect(isValidUiMessage({ type: 'undo_last_rating' })).toBe(true);
+      });
+    });
+
+    describe('update_card message', () => {
+      it('should accept update_card with cardId and edit object', () => {
+        expect(
+          isValidUiMessage({ type: 'update_card', cardId: 'c1', edit: { front: { term: 'x' } } })
+        ).toBe(true);
+      });
+
+      it('should reject update_card without edit', () => {
+        expect(isValidUiMessage({ type: 'update_card', cardId: 'c1' })).toBe(false);
+      });
+
+      it('should reject update_card with non-string cardId', () => {
+        expect(isValidUiMessage({ type: 'update_card', cardId: 1, edit: {} })).toBe(false);
+      });
+    });
+
+    describe('suspend_card and bury_card messages', () => {
+      it('should accept them with a cardId', () => {
+        expect(isValidUiMessage({ type: 'suspend_card', cardId: 'c1' })).toBe(true);
+        expect(isValidUiMessage({ type: 'bury_card', cardId: 'c1' })).toBe(true);
+      });
+
+      it('should reject them without a cardId', () => {
+        expect(isValidUiMessage({ type: 'suspend_card' })).toBe(false);
+        expect(isValidUiMessage({ type: 'bury_card', cardId: 1 })).toBe(false);
+      });
+    });
+
+    describe('leech messages', () => {
+      it('should accept get_leeches', () => {
+        expect(isValidUiMessage({ type: 'get_leeches' })).toBe(true);
+      });
+
+      it('should require a cardId for rewrite_card_back', () => {
+        expect(isValidUiMessage({ type: 'rewrite_card_back', cardId: 'c1' })).toBe(true);
+        expect(isValidUiMessage({ type: 'rewrite_card_back' })).toBe(false);
+      });
+    });
+
+    describe('card history messages', () => {
+      it('should accept get_card_history with cardId', () => {
+        expect(isValidUiMessage({ type: 'get_card_history', cardId: 'c1' })).toBe(true);
+        expect(isValidUiMessage({ type: 'get_card_history' })).toBe(false);
+      });
+
+      it('should accept revert_card with cardId and numeric version', () => {
+        expect(isValidUiMessage({ type: 'revert_card', cardId: 'c1', version: 2 })).toBe(true);
+        expect(isValidUiMessage({ type: 'revert_card', cardId: 'c1', version: '2' })).toBe(false);
+      });
+    });
+
+    describe('card browser messages', () => {
+      it('should accept browse_query with a query object', () => {
+        expect(isValidUiMessage({ type: 'browse_query', query: { search: 'x' } })).toBe(true);
+        expect(isValidUiMessage({ type: 'browse_query' })).toBe(false);
+      });
+
+      it('should accept bulk_action with known actions', () => {
+        for (const action of [
+          { kind: 'tag', tag: 'gre' },
+          { kind: 'untag', tag: 'gre' },
+          { kind: 'suspend' },
+          { kind: 'unsuspend' },
+          { kind: 'delete' },
+          { kind: 'resetProgress' },
+        ]) {
+          expect(isValidUiMessage({ type: 'bulk_action', cardIds: ['a'], action })).toBe(true);
+        }
+      });
+
+      it('should reject bulk_action with invalid ids or actions', () => {
+        const msg = { type: 'bulk_action', cardIds: ['a'] };
+        expect(isValidUiMessage({ ...msg, action: { kind: 'explode' } })).toBe(false);
+        expect(isValidUiMessage({ ...msg, action: { kind: 'tag', tag: ' ' } })).toBe(false);
+        expect(isValidUiMessage({ ...msg, cardIds: [1], action: { kind: 'delete' } })).toBe(false);
+      });
+    });
+
+    describe('set_deck message', () => {
+      it('should accept a deck or all decks', () => {
+        expect(isValidUiMessage({ type: 'set_deck', deckId: 'deck-1' })).toBe(true);
+        expect(isValidUiMessage({ type: 'set_deck' })).toBe(true);
+      });
+
+      it('should reject a non-string deckId', () => {
+        expect(isValidUiMessage({ type: 'set_deck', deckId: 1 })).toBe(false);
+      });
+    });
+
     describe('set_study_mode message', () => {
       it('should accept valid set_study_mode message with loop mode', () => {
         expect(
@@ -156,6 +310,24 @@ describe('Webview Protocol', () => {
         ).toBe(true);
       });
 
+      it('should accept valid set_study_mode message with dictation mode', () => {
+        expect(
+          isValidUiMessage({
+            type: 'set_study_mode',
+            mode: 'dictation',
+          })
+        ).toBe(true);
+      });
+
+      it('should accept valid set_study_mode message with quiz mode', () => {
+        expect(
+          isValidUiMessage({
+            type: 'set_study_mode',
+            mode: 'quiz',
+          })
+        ).toBe(true);
+      });
+
       it('should reject set_study_mode without mode', () => {
         expect(
           isValidUiMessage({
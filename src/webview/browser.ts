@@ -0,0 +1,198 @@
+// Card browser panel - Searchable card table with bulk actions
+// This module contains VS Code API calls
+
+import * as vscode from 'vscode';
+import { JsonlStorage } from '../storage/storage';
+import { applyBulkAction, queryBrowseRows } from '../storage/browse';
+import { buildConfiguredIndex } from '../common/config';
+import type { BrowseQuery, BulkCardAction, Card, CardIndex } from '../storage/schema';
+import { isValidUiMessage, type ExtensionToUiMessage, type UiToExtensionMessage } from './protocol';
+import { logDebug, logError, logWarn } from '../common/logger';
+import { generateBrowserHtml } from './browserHtml';
+import { FlashcardPanel } from './panel';
+
+/**
+ * Actions that need confirmation before they are applied
+ */
+const CONFIRM_ACTIONS: Partial<Record<BulkCardAction['kind'], string>> = {
+  delete: 'Delete',
+  resetProgress: 'Reset Progress',
+};
+
+export class CardBrowserPanel {
+  public static currentPanel: CardBrowserPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _storage: JsonlStorage;
+  private _disposables: vscode.Disposable[] = [];
+  private _cachedIndex: CardIndex | null = null;
+  private _query: BrowseQuery = {};
+
+  private constructor(panel: vscode.WebviewPanel, storage: JsonlStorage) {
+    this._panel = panel;
+    this._storage = storage;
+
+    this._panel.webview.html = generateBrowserHtml();
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => this._handleMessage(message),
+      null,
+      this._disposables
+    );
+
+    // Intervals and due dates depend on the scheduling algorithm
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration('wordslash.srs')) {
+          this._cachedIndex = null;
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+  }
+
+  public static createOrShow(extensionUri: vscode.Uri, storage: JsonlStorage) {
+    const column = vscode.ViewColumn.One;
+
+    if (CardBrowserPanel.currentPanel) {
+      CardBrowserPanel.currentPanel._panel.reveal(column);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel('wordslashBrowser', 'WordSlash Cards', column, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
+    });
+
+    CardBrowserPanel.currentPanel = new CardBrowserPanel(panel, storage);
+  }
+
+  public dispose() {
+    CardBrowserPanel.currentPanel = undefined;
+    this._cachedIndex = null;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private async _handleMessage(message: unknown) {
+    if (!isValidUiMessage(message)) {
+      logWarn('Invalid message received from card browser');
+      return;
+    }
+
+    const msg = message as UiToExtensionMessage;
+
+    switch (msg.type) {
+      case 'browse_query':
+        this._query = msg.query;
+        await this._sendResult();
+        break;
+
+      case 'bulk_action':
+        await this._handleBulkAction(msg.cardIds, msg.action);
+        break;
+
+      case 'refresh':
+        this._cachedIndex = null;
+        await this._sendResult();
+        break;
+    }
+  }
+
+  private async _getOrBuildIndex(): Promise<CardIndex> {
+    if (!this._cachedIndex) {
+      const cards = await this._storage.readAllCards();
+      const events = await this._storage.readAllEvents();
+      const { index } = await buildConfiguredIndex(this._storage, cards, events);
+      this._cachedIndex = index;
+    }
+    return this._cachedIndex;
+  }
+
+  private async _sendResult() {
+    try {
+      const index = await this._getOrBuildIndex();
+      const result = queryBrowseRows(index, this._query, Date.now());
+      this._postMessage({ type: 'browse_result', result });
+    } catch (error) {
+      logError('Error querying cards', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  private async _handleBulkAction(cardIds: string[], action: BulkCardAction) {
+    try {
+      const index = await this._getOrBuildIndex();
+      const cards = cardIds
+        .map((id) => index.cards.get(id))
+        .filter((card): card is Card => card !== undefined);
+
+      if (cards.length === 0) {
+        return;
+      }
+
+      const confirmLabel = CONFIRM_ACTIONS[action.kind];
+      if (confirmLabel) {
+        const answer = await vscode.window.showWarningMessage(
+          `${confirmLabel} ${cards.length} card(s)?`,
+          { modal: true },
+          confirmLabel
+        );
+        if (answer !== confirmLabel) {
+          return;
+        }
+      }
+
+      const changes = applyBulkAction(cards, action);
+      await this._storage.appendCards(changes.cards);
+      await this._storage.appendEvents(changes.events);
+      logDebug('Bulk action applied', action.kind, cards.length);
+
+      this._cachedIndex = null;
+      FlashcardPanel.currentPanel?.notifyDataChanged();
+      await this._sendResult();
+
+      const changed = changes.cards.length + changes.events.length;
+      vscode.window.showInformationMessage(
+        `WordSlash: ${describeBulkAction(action)} ${changed} of ${cards.length} card(s).`
+      );
+    } catch (error) {
+      logError('Error applying bulk action', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`WordSlash: Bulk action failed - ${message}`);
+    }
+  }
+
+  private _postMessage(message: ExtensionToUiMessage) {
+    this._panel.webview.postMessage(message);
+  }
+}
+
+function describeBulkAction(action: BulkCardAction): string {
+  switch (action.kind) {
+    case 'tag':
+      return `Added tag "${action.tag}" to`;
+    case 'untag':
+      return `Removed tag "${action.tag}" from`;
+    case 'suspend':
+      return 'Suspended';
+    case 'unsuspend':
+      return 'Unsuspended';
+    case 'delete':
+      return 'Deleted';
+    case 'resetProgress':
+      return 'Reset progress of';
+  }
+}
@@ -0,0 +1,442 @@
+// Webview card browser - HTML template generation
+// PURE MODULE: No vscode imports allowed - fully testable
+
+/**
+ * Height of one table row in pixels (the table is virtualized on this)
+ */
+export const BROWSER_ROW_HEIGHT = 32;
+
+/**
+ * CSS styles for the card browser
+ */
+export const BROWSER_STYLES = `
+    :root {
+      --vscode-font-family: var(--vscode-editor-font-family, 'Segoe UI', sans-serif);
+      --row-height: ${BROWSER_ROW_HEIGHT}px;
+      --grid-columns: 32px minmax(140px, 2fr) 80px minmax(120px, 1.5fr) 110px 80px 70px 70px 90px;
+    }
+
+    * {
+      box-sizing: border-box;
+      margin: 0;
+      padding: 0;
+    }
+
+    body {
+      font-family: var(--vscode-font-family);
+      background-color: var(--vscode-editor-background);
+      color: var(--vscode-editor-foreground);
+      padding: 16px;
+      height: 100vh;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+
+    .filters, .bulk-bar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+    }
+
+    input, select {
+      font-family: var(--vscode-font-family);
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, rgba(255, 255, 255, 0.15));
+      border-radius: 4px;
+      padding: 5px 8px;
+    }
+
+    #search {
+      flex: 1;
+      min-width: 200px;
+    }
+
+    button {
+      font-family: var(--vscode-font-family);
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      border-radius: 4px;
+      padding: 5px 12px;
+      cursor: pointer;
+    }
+
+    button:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    button.danger {
+      background: var(--vscode-inputValidation-errorBackground, #5a1d1d);
+      color: var(--vscode-errorForeground);
+    }
+
+    .summary {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.9em;
+      margin-left: auto;
+    }
+
+    .table {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      min-height: 0;
+      border: 1px solid var(--vscode-input-border, rgba(255, 255, 255, 0.15));
+      border-radius: 6px;
+      overflow: hidden;
+    }
+
+    .row {
+      display: grid;
+      grid-template-columns: var(--grid-columns);
+      align-items: center;
+      height: var(--row-height);
+      padding: 0 8px;
+      gap: 8px;
+      font-size: 0.92em;
+    }
+
+    .row > div {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .header {
+      font-weight: 600;
+      background: var(--vscode-editorGroupHeader-tabsBackground);
+      border-bottom: 1px solid var(--vscode-input-border, rgba(255, 255, 255, 0.15));
+    }
+
+    .header [data-sort] {
+      cursor: pointer;
+      user-select: none;
+    }
+
+    .header [data-sort].sorted::after {
+      content: ' ▲';
+      font-size: 0.8em;
+    }
+
+    .header [data-sort].sorted.desc::after {
+      content: ' ▼';
+    }
+
+    .scroll {
+      flex: 1;
+      overflow-y: auto;
+      position: relative;
+    }
+
+    .rows {
+      position: absolute;
+      left: 0;
+      right: 0;
+    }
+
+    .body-row:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+
+    .body-row.selected {
+      background: var(--vscode-list-inactiveSelectionBackground);
+    }
+
+    .tag {
+      display: inline-block;
+      padding: 0 6px;
+      margin-right: 4px;
+      border-radius: 8px;
+      font-size: 0.85em;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+
+    .state {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .state-suspended {
+      color: var(--vscode-editorWarning-foreground);
+    }
+
+    .due {
+      color: var(--vscode-editorError-foreground);
+      font-weight: 600;
+    }
+
+    .empty {
+      padding: 24px;
+      text-align: center;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .hidden {
+      display: none;
+    }
+`;
+
+/**
+ * HTML template for the card browser body
+ */
+export const BROWSER_HTML_BODY = `
+  <div class="filters">
+    <input id="search" type="search" placeholder="Search all fields..." oninput="onSearchInput(this.value)">
+    <select id="filter-tag" onchange="setFilter('tag', this.value)">
+      <option value="">All tags</option>
+    </select>
+    <select id="filter-type" onchange="setFilter('type', this.value)">
+      <option value="">All types</option>
+      <option value="word">Word</option>
+      <option value="phrase">Phrase</option>
+      <option value="sentence">Sentence</option>
+      <option value="cloze">Cloze</option>
+    </select>
+    <select id="filter-state" onchange="setFilter('state', this.value)">
+      <option value="">All states</option>
+      <option value="due">Due</option>
+      <option value="new">New</option>
+      <option value="learning">Learning</option>
+      <option value="review">Review</option>
+      <option value="suspended">Suspended</option>
+    </select>
+    <button onclick="refresh()" title="Reload cards">🔄 Refresh</button>
+    <span class="summary" id="summary"></span>
+  </div>
+
+  <div class="bulk-bar">
+    <span id="selection-count">0 selected</span>
+    <input id="bulk-tag" type="text" placeholder="Tag">
+    <button class="bulk-btn" onclick="bulkTag('tag')">🏷️ Tag</button>
+    <button class="bulk-btn" onclick="bulkTag('untag')">Untag</button>
+    <button class="bulk-btn" onclick="bulkAction({ kind: 'suspend' })">⏸️ Suspend</button>
+    <button class="bulk-btn" onclick="bulkAction({ kind: 'unsuspend' })">▶️ Unsuspend</button>
+    <button class="bulk-btn" onclick="bulkAction({ kind: 'resetProgress' })">↺ Reset Progress</button>
+    <button class="bulk-btn danger" onclick="bulkAction({ kind: 'delete' })">🗑️ Delete</button>
+  </div>
+
+  <div class="table">
+    <div class="row header">
+      <div><input type="checkbox" id="select-all" onchange="selectAll(this.checked)" title="Select all matching cards"></div>
+      <div data-sort="term" onclick="sortBy('term')">Term</div>
+      <div data-sort="type" onclick="sortBy('type')">Type</div>
+      <div data-sort="tags" onclick="sortBy('tags')">Tags</div>
+      <div data-sort="dueAt" onclick="sortBy('dueAt')">Due</div>
+      <div data-sort="intervalDays" onclick="sortBy('intervalDays')">Interval</div>
+      <div data-sort="easeFactor" onclick="sortBy('easeFactor')">Ease</div>
+      <div data-sort="lapses" onclick="sortBy('lapses')">Lapses</div>
+      <div>State</div>
+    </div>
+    <div class="scroll" id="scroll" onscroll="renderRows()">
+      <div id="spacer"></div>
+      <div class="rows" id="rows"></div>
+      <div class="empty hidden" id="empty">No cards match the current filters.</div>
+    </div>
+  </div>
+`;
+
+/**
+ * JavaScript code for the card browser (runs in webview)
+ */
+export const BROWSER_SCRIPT = `
+    const vscode = acquireVsCodeApi();
+    const ROW_HEIGHT = ${BROWSER_ROW_HEIGHT};
+    const OVERSCAN = 10;
+
+    let rows = [];
+    let selected = new Set();
+    let query = { sortBy: 'term', sortDir: 'asc' };
+    let searchTimer = null;
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'browse_result':
+          showResult(message.result);
+          break;
+        case 'error':
+          document.getElementById('summary').textContent = 'Error: ' + message.message;
+          break;
+      }
+    });
+
+    function runQuery() {
+      vscode.postMessage({ type: 'browse_query', query });
+    }
+
+    function refresh() {
+      vscode.postMessage({ type: 'refresh' });
+    }
+
+    function onSearchInput(value) {
+      clearTimeout(searchTimer);
+      searchTimer = setTimeout(() => {
+        query.search = value;
+        runQuery();
+      }, 200);
+    }
+
+    function setFilter(key, value) {
+      query[key] = value || undefined;
+      runQuery();
+    }
+
+    function sortBy(key) {
+      if (query.sortBy === key) {
+        query.sortDir = query.sortDir === 'asc' ? 'desc' : 'asc';
+      } else {
+        query.sortBy = key;
+        query.sortDir = 'asc';
+      }
+      updateSortIndicators();
+      runQuery();
+    }
+
+    function updateSortIndicators() {
+      document.querySelectorAll('[data-sort]').forEach(el => {
+        const active = el.dataset.sort === query.sortBy;
+        el.classList.toggle('sorted', active);
+        el.classList.toggle('desc', active && query.sortDir === 'desc');
+      });
+    }
+
+    function showResult(result) {
+      rows = result.rows;
+
+      // Keep only selections that still match the filters
+      const visibleIds = new Set(rows.map(row => row.id));
+      selected = new Set([...selected].filter(id => visibleIds.has(id)));
+
+      updateTagFilter(result.tags);
+      document.getElementById('summary').textContent = rows.length + ' of ' + result.total + ' cards';
+      document.getElementById('spacer').style.height = (rows.length * ROW_HEIGHT) + 'px';
+      document.getElementById('empty').classList.toggle('hidden', rows.length > 0);
+
+      updateSelection();
+      renderRows();
+    }
+
+    function updateTagFilter(tags) {
+      const select = document.getElementById('filter-tag');
+      const current = query.tag || '';
+      select.innerHTML = '<option value="">All tags</option>' +
+        tags.map(tag => '<option value="' + escapeHtml(tag) + '">' + escapeHtml(tag) + '</option>').join('');
+      select.value = tags.includes(current) ? current : '';
+    }
+
+    // Only the rows inside the viewport (plus overscan) are in the DOM
+    function renderRows() {
+      const scroll = document.getElementById('scroll');
+      const start = Math.max(0, Math.floor(scroll.scrollTop / ROW_HEIGHT) - OVERSCAN);
+      const end = Math.min(rows.length, Math.ceil((scroll.scrollTop + scroll.clientHeight) / ROW_HEIGHT) + OVERSCAN);
+
+      const container = document.getElementById('rows');
+      container.style.top = (start * ROW_HEIGHT) + 'px';
+      container.innerHTML = rows.slice(start, end).map(renderRow).join('');
+    }
+
+    function renderRow(row) {
+      const isSelected = selected.has(row.id);
+      const reviewed = row.state !== 'new';
+      return '<div class="row body-row' + (isSelected ? ' selected' : '') + '">' +
+        '<div><input type="checkbox" data-id="' + escapeHtml(row.id) + '"' + (isSelected ? ' checked' : '') +
+        ' onchange="toggleRow(this.dataset.id, this.checked)"></div>' +
+        '<div title="' + escapeHtml(row.term) + '">' + escapeHtml(row.term) + '</div>' +
+        '<div>' + row.type + '</div>' +
+        '<div>' + row.tags.map(tag => '<span class="tag">' + escapeHtml(tag) + '</span>').join('') + '</div>' +
+        '<div class="' + (row.isDue ? 'due' : '') + '">' + (reviewed ? new Date(row.dueAt).toLocaleDateString() : '—') + '</div>' +
+        '<div>' + (reviewed ? formatInterval(row.intervalDays) : '—') + '</div>' +
+        '<div>' + (reviewed ? row.easeFactor.toFixed(2) : '—') + '</div>' +
+        '<div>' + row.lapses + '</div>' +
+        '<div class="state state-' + row.state + '">' + row.state + '</div>' +
+        '</div>';
+    }
+
+    function formatInterval(days) {
+      if (days < 1) return '<1d';
+      if (days < 30) return Math.round(days) + 'd';
+      if (days < 365) return Math.round(days / 30) + 'mo';
+      return (days / 365).toFixed(1) + 'y';
+    }
+
+    function toggleRow(id, checked) {
+      if (checked) {
+        selected.add(id);
+      } else {
+        selected.delete(id);
+      }
+      updateSelection();
+      renderRows();
+    }
+
+    function selectAll(checked) {
+      selected = checked ? new Set(rows.map(row => row.id)) : new Set();
+      updateSelection();
+      renderRows();
+    }
+
+    function updateSelection() {
+      document.getElementById('selection-count').textContent = selected.size + ' selected';
+      document.getElementById('select-all').checked = rows.length > 0 && selected.size === rows.length;
+      document.querySelectorAll('.bulk-btn').forEach(btn => {
+        btn.disabled = selected.size === 0;
+      });
+    }
+
+    function bulkTag(kind) {
+      const tag = document.getElementById('bulk-tag').value.trim();
+      if (!tag) {
+        document.getElementById('bulk-tag').focus();
+        return;
+      }
+      bulkAction({ kind, tag });
+    }
+
+    function bulkAction(action) {
+      if (selected.size === 0) return;
+      vscode.postMessage({ type: 'bulk_action', cardIds: [...selected], action });
+    }
+
+    function escapeHtml(text) {
+      return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+
+    window.addEventListener('resize', renderRows);
+    updateSortIndicators();
+    updateSelection();
+    runQuery();
+`;
+
+/**
+ * Generate the complete HTML content for the card browser webview panel
+ */
+export function generateBrowserHtml(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+  <title>WordSlash Cards</title>
+  <style>${BROWSER_STYLES}</style>
+</head>
+<body>
+${BROWSER_HTML_BODY}
+  <script>${BROWSER_SCRIPT}</script>
+</body>
+</html>`;
+}
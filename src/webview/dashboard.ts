@@ -3,8 +3,19 @@
 
 import * as vscode from 'vscode';
 import { JsonlStorage } from '../storage/storage';
-import { buildIndex } from '../storage/indexer';
+import { applyCardEdit, validateCardEdit } from '../storage/cardEdit';
+import { syncClozeNote, validateClozeEdit } from '../storage/cloze';
+import { buildCardHistory, getCardVersions, revertCardToVersion } from '../storage/cardHistory';
+import { buildLeechReport } from '../storage/leech';
+import { getReviewTimeline } from '../storage/reviewTimeline';
+import { getCardSrsState } from '../storage/directions';
+import {
+  buildConfiguredIndex,
+  getBackContentGenerator,
+  getDayRolloverHour,
+} from '../common/config';
 import { calculateDashboardStats, generateKnowledgeGraph } from '../storage/stats';
+import { applyGeneratedContent } from '../llm/generator';
 import { isValidUiMessage, type ExtensionToUiMessage, type UiToExtensionMessage } from './protocol';
 import { FlashcardPanel } from './panel';
 
@@ -104,6 +115,26 @@ export class DashboardPanel {
         await this._sendCardDetails(msg);
         break;
 
+      case 'update_card':
+        await this._handleUpdateCard(msg);
+        break;
+
+      case 'get_card_history':
+        await this._sendCardHistory(msg.cardId);
+        break;
+
+      case 'revert_card':
+        await this._handleRevertCard(msg);
+        break;
+
+      case 'get_leeches':
+        await this._sendLeeches();
+        break;
+
+      case 'rewrite_card_back':
+        await this._handleRewriteCardBack(msg.cardId);
+        break;
+
       case 'get_tts_settings':
         await this._sendTtsSettings();
         break;
@@ -125,9 +156,9 @@ export class DashboardPanel {
   private async _sendDashboardStats() {
     try {
       const cards = await this._storage.readAllCards();
-      const events = await this._storage.readAllEvents();
-      const index = buildIndex(cards, events);
-      const stats = calculateDashboardStats(index, events);
+      const events = await this._storage.readReviewEvents();
+      const { index, algorithm } = await buildConfiguredIndex(this._storage, cards, events);
+      const stats = calculateDashboardStats(index, events, algorithm, getDayRolloverHour());
       this._postMessage({ type: 'dashboard_stats', stats });
     } catch (error) {
       console.error('[WordSlash] Error:', error);
@@ -139,8 +170,8 @@ export class DashboardPanel {
   private async _sendKnowledgeGraph(msg: UiToExtensionMessage & { type: 'get_knowledge_graph' }) {
     try {
       const cards = await this._storage.readAllCards();
-      const events = await this._storage.readAllEvents();
-      const index = buildIndex(cards, events);
+      const events = await this._storage.readReviewEvents();
+      const { index } = await buildConfiguredIndex(this._storage, cards, events);
 
       const graph = generateKnowledgeGraph(index, {
         maxNodes: msg.maxNodes,
@@ -159,8 +190,8 @@ export class DashboardPanel {
   private async _sendCardDetails(msg: UiToExtensionMessage & { type: 'get_card_details' }) {
     try {
       const cards = await this._storage.readAllCards();
-      const events = await this._storage.readAllEvents();
-      const index = buildIndex(cards, events);
+      const events = await this._storage.readReviewEvents();
+      const { index, algorithm } = await buildConfiguredIndex(this._storage, cards, events);
       
       const card = index.cards.get(msg.cardId);
       if (!card) {
@@ -168,8 +199,60 @@ export class DashboardPanel {
         return;
       }
       
-      const srs = index.srsStates.get(msg.cardId);
-      this._postMessage({ type: 'card_details', card, srs });
+      const srs = getCardSrsState(index, msg.cardId);
+      const reviews = getReviewTimeline(card.id, events, algorithm);
+      this._postMessage({ type: 'card_details', card, srs, reviews });
+    } catch (error) {
+      console.error('[WordSlash] Error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  private async _handleUpdateCard(msg: UiToExtensionMessage & { type: 'update_card' }) {
+    try {
+      const validationError = validateCardEdit(msg.edit);
+      if (validationError) {
+        this._postMessage({ type: 'card_update_error', message: validationError });
+        return;
+      }
+
+      const cards = await this._storage.readAllCards();
+      const events = await this._storage.readReviewEvents();
+      const { index } = await buildConfiguredIndex(this._storage, cards, events);
+
+      const card = index.cards.get(msg.cardId);
+      if (!card) {
+        this._postMessage({ type: 'card_update_error', message: 'Card not found' });
+        return;
+      }
+
+      const clozeError = validateClozeEdit(card, msg.edit);
+      if (clozeError) {
+        this._postMessage({ type: 'card_update_error', message: clozeError });
+        return;
+      }
+
+      // Cloze edits also update, add or delete the sentence's sibling cards
+      const updates = syncClozeNote(applyCardEdit(card, msg.edit), index.cards.values());
+      const updated = updates[0];
+      await this._storage.appendCards(updates);
+      FlashcardPanel.currentPanel?.notifyDataChanged();
+
+      const srs = getCardSrsState(index, msg.cardId);
+      this._postMessage({ type: 'card_updated', card: updated, srs });
+    } catch (error) {
+      console.error('[WordSlash] Error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'card_update_error', message });
+    }
+  }
+
+  private async _sendCardHistory(cardId: string) {
+    try {
+      const cards = await this._storage.readAllCards();
+      const revisions = buildCardHistory(cards, cardId);
+      this._postMessage({ type: 'card_history', cardId, revisions });
     } catch (error) {
       console.error('[WordSlash] Error:', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -177,6 +260,94 @@ export class DashboardPanel {
     }
   }
 
+  private async _handleRevertCard(msg: UiToExtensionMessage & { type: 'revert_card' }) {
+    try {
+      const cards = await this._storage.readAllCards();
+      const events = await this._storage.readReviewEvents();
+      const { index } = await buildConfiguredIndex(this._storage, cards, events);
+
+      const current = index.cards.get(msg.cardId);
+      const target = getCardVersions(cards, msg.cardId).find((c) => c.version === msg.version);
+      if (!current || !target) {
+        this._postMessage({ type: 'card_update_error', message: 'Card version not found' });
+        return;
+      }
+
+      const clozeError = validateClozeEdit(current, target);
+      if (clozeError) {
+        this._postMessage({ type: 'card_update_error', message: clozeError });
+        return;
+      }
+
+      // A reverted cloze sentence is carried over to the siblings like an edit
+      const updates = syncClozeNote(revertCardToVersion(current, target), index.cards.values());
+      const reverted = updates[0];
+      await this._storage.appendCards(updates);
+      FlashcardPanel.currentPanel?.notifyDataChanged();
+
+      const srs = getCardSrsState(index, msg.cardId);
+      this._postMessage({ type: 'card_updated', card: reverted, srs });
+    } catch (error) {
+      console.error('[WordSlash] Error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'card_update_error', message });
+    }
+  }
+
+  private async _sendLeeches() {
+    try {
+      const cards = await this._storage.readAllCards();
+      const events = await this._storage.readReviewEvents();
+      const { index, algorithm } = await buildConfiguredIndex(this._storage, cards, events);
+
+      const leeches = buildLeechReport(index, events, algorithm);
+      this._postMessage({ type: 'leeches', leeches });
+    } catch (error) {
+      console.error('[WordSlash] Error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  /**
+   * Replace a card's back with freshly generated content
+   */
+  private async _handleRewriteCardBack(cardId: string) {
+    try {
+      const cards = await this._storage.readAllCards();
+      const events = await this._storage.readReviewEvents();
+      const { index } = await buildConfiguredIndex(this._storage, cards, events);
+
+      const card = index.cards.get(cardId);
+      if (!card) {
+        this._postMessage({ type: 'card_update_error', message: 'Card not found' });
+        return;
+      }
+
+      const generator = getBackContentGenerator(this._storage);
+      const content = generator ? await generator.generate(card) : null;
+      if (!content) {
+        this._postMessage({
+          type: 'card_update_error',
+          message:
+            'No content generator is configured (wordslash.dictionary or wordslash.llm). Use ✏️ Edit to rewrite the card.',
+        });
+        return;
+      }
+
+      const updated = applyGeneratedContent(card, content);
+      await this._storage.appendCard(updated);
+      FlashcardPanel.currentPanel?.notifyDataChanged();
+
+      const srs = getCardSrsState(index, cardId);
+      this._postMessage({ type: 'card_updated', card: updated, srs });
+    } catch (error) {
+      console.error('[WordSlash] Error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'card_update_error', message });
+    }
+  }
+
   private async _sendTtsSettings() {
     const config = vscode.workspace.getConfiguration('wordslash.tts');
     this._postMessage({
@@ -339,6 +510,46 @@ export class DashboardPanel {
       color: var(--vscode-textLink-foreground);
     }
     
+    /* Leech list */
+    .leech-item {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 10px 0;
+      border-bottom: 1px solid var(--vscode-input-border);
+    }
+    
+    .leech-item:last-child {
+      border-bottom: none;
+    }
+    
+    .leech-info {
+      flex: 1;
+      min-width: 0;
+    }
+    
+    .leech-term {
+      font-weight: 600;
+      cursor: pointer;
+      color: var(--vscode-textLink-foreground);
+    }
+    
+    .leech-meta {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+      margin-top: 4px;
+    }
+    
+    .leech-lapses {
+      font-weight: 600;
+      color: var(--vscode-errorForeground);
+      white-space: nowrap;
+    }
+    
+    .leech-empty {
+      color: var(--vscode-descriptionForeground);
+    }
+    
     /* Chart styles */
     .chart-container {
       height: 200px;
@@ -674,6 +885,101 @@ export class DashboardPanel {
       background: var(--vscode-button-secondaryHoverBackground);
     }
     
+    .modal-edit {
+      background: transparent;
+      border: 1px solid var(--vscode-input-border);
+      color: var(--vscode-foreground);
+      padding: 4px 10px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.9em;
+    }
+    
+    .modal-edit:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+    
+    .modal-edit-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 12px;
+    }
+    
+    .modal-edit-field {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+    
+    .modal-edit-field.wide {
+      grid-column: 1 / -1;
+    }
+    
+    .modal-edit-field label {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .modal-edit-field input, .modal-edit-field textarea, .modal-edit-field select {
+      font-family: var(--vscode-font-family);
+      padding: 6px 8px;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-input-border);
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+    }
+    
+    .modal-edit-field textarea {
+      min-height: 52px;
+      resize: vertical;
+    }
+    
+    .modal-edit-actions {
+      display: flex;
+      justify-content: flex-end;
+      align-items: center;
+      gap: 8px;
+      margin-top: 16px;
+    }
+    
+    .modal-edit-error {
+      flex: 1;
+      color: var(--vscode-errorForeground);
+    }
+    
+    .modal-history-item {
+      padding: 12px;
+      margin-bottom: 10px;
+      background: var(--vscode-input-background);
+      border-radius: 8px;
+    }
+    
+    .modal-history-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 8px;
+      font-weight: 600;
+    }
+    
+    .modal-history-change {
+      font-size: 0.9em;
+      line-height: 1.6;
+    }
+    
+    .modal-history-field {
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .modal-history-before {
+      color: var(--vscode-gitDecoration-deletedResourceForeground, #f48771);
+      text-decoration: line-through;
+    }
+    
+    .modal-history-after {
+      color: var(--vscode-gitDecoration-addedResourceForeground, #81b88b);
+    }
+    
     .modal-body {
       padding: 20px 24px;
       overflow-y: auto;
@@ -764,6 +1070,57 @@ export class DashboardPanel {
       color: var(--vscode-textLink-foreground);
     }
     
+    .interval-svg {
+      width: 100%;
+      height: 140px;
+      padding: 8px;
+      box-sizing: border-box;
+      background: var(--vscode-input-background);
+      border-radius: 8px;
+      margin-bottom: 12px;
+    }
+    
+    .interval-line {
+      fill: none;
+      stroke-width: 2;
+    }
+    
+    .interval-line.forward { stroke: var(--vscode-textLink-foreground); }
+    .interval-line.reverse { stroke: #ab47bc; }
+    .interval-line.dictation { stroke: #26a69a; }
+    
+    .interval-lapse {
+      fill: #d32f2f;
+    }
+    
+    .review-timeline {
+      max-height: 240px;
+      overflow-y: auto;
+    }
+    
+    .review-timeline-item {
+      display: grid;
+      grid-template-columns: 12px 110px 1fr auto;
+      align-items: center;
+      gap: 10px;
+      padding: 6px 0;
+      font-size: 0.85em;
+      border-bottom: 1px solid var(--vscode-input-border);
+    }
+    
+    .review-timeline-item:last-child {
+      border-bottom: none;
+    }
+    
+    .review-timeline-item.lapse {
+      color: #e57373;
+    }
+    
+    .review-timeline-meta {
+      color: var(--vscode-descriptionForeground);
+      text-align: right;
+    }
+    
     .empty-state {
       text-align: center;
       padding: 60px 20px;
@@ -975,96 +1332,323 @@ export class DashboardPanel {
       color: var(--vscode-descriptionForeground);
     }
     
-    .donut-legend {
+    .donut-legend {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+    
+    .donut-legend-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 0.9em;
+      cursor: pointer;
+      transition: opacity 0.2s;
+    }
+    
+    .donut-legend-item:hover {
+      opacity: 0.7;
+    }
+    
+    .donut-legend-dot {
+      width: 12px;
+      height: 12px;
+      border-radius: 3px;
+    }
+    
+    .donut-legend-dot.new { background: #64b5f6; }
+    .donut-legend-dot.learning { background: #ffb74d; }
+    .donut-legend-dot.mastered { background: #81c784; }
+    
+    /* ========== Sparkline Styles ========== */
+    .sparkline-container {
+      position: relative;
+      height: 60px;
+      margin-top: 12px;
+    }
+    
+    .sparkline-svg {
+      width: 100%;
+      height: 100%;
+    }
+    
+    .sparkline-path {
+      fill: none;
+      stroke: var(--vscode-textLink-foreground);
+      stroke-width: 2;
+      stroke-linecap: round;
+      stroke-linejoin: round;
+    }
+    
+    .sparkline-area {
+      fill: url(#sparklineGradient);
+      opacity: 0.3;
+    }
+    
+    .sparkline-dot {
+      fill: var(--vscode-textLink-foreground);
+      transition: r 0.2s ease;
+    }
+    
+    .sparkline-dot:hover {
+      r: 5;
+    }
+    
+    /* ========== Enhanced Bar Chart Styles ========== */
+    .bar-chart-enhanced {
+      display: flex;
+      align-items: flex-end;
+      justify-content: flex-start;
+      height: 100%;
+      gap: 1px;
+      position: relative;
+    }
+    
+    .bar-enhanced {
+      flex: 0 0 auto;
+      width: 8px;
+      background: linear-gradient(180deg, var(--vscode-textLink-foreground) 0%, rgba(0,122,204,0.6) 100%);
+      border-radius: 2px 2px 0 0;
+      min-height: 2px;
+      transition: all 0.3s ease;
+      position: relative;
+      cursor: pointer;
+    }
+    
+    .bar-enhanced:hover {
+      background: linear-gradient(180deg, #4fc3f7 0%, var(--vscode-textLink-foreground) 100%);
+      transform: scaleY(1.05);
+    }
+    
+    .bar-enhanced::after {
+      content: attr(data-tooltip);
+      position: absolute;
+      bottom: calc(100% + 8px);
+      left: 50%;
+      transform: translateX(-50%);
+      background: var(--vscode-editorWidget-background);
+      border: 1px solid var(--vscode-editorWidget-border);
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-size: 0.75em;
+      white-space: nowrap;
+      opacity: 0;
+      pointer-events: none;
+      transition: opacity 0.2s;
+      z-index: 10;
+    }
+    
+    .bar-enhanced:hover::after {
+      opacity: 1;
+    }
+    
+    .chart-avg-line {
+      position: absolute;
+      left: 0;
+      right: 0;
+      border-top: 2px dashed rgba(255, 183, 77, 0.6);
+      z-index: 5;
+    }
+    
+    .chart-avg-label {
+      position: absolute;
+      right: 4px;
+      font-size: 0.7em;
+      color: #ffb74d;
+      transform: translateY(-100%);
+    }
+    
+    /* ========== True Retention ========== */
+    .retention-summary {
+      display: flex;
+      gap: 16px;
+      margin-bottom: 20px;
+    }
+    
+    .retention-stat {
+      flex: 1;
+      padding: 12px 16px;
+      border-radius: 8px;
+      background: var(--vscode-editor-background);
+    }
+    
+    .retention-stat-value {
+      font-size: 1.8em;
+      font-weight: 600;
+      color: var(--vscode-textLink-foreground);
+    }
+    
+    .retention-stat-label {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .retention-grid {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 24px;
+    }
+    
+    @media (max-width: 900px) {
+      .retention-grid {
+        grid-template-columns: 1fr;
+      }
+    }
+    
+    .retention-grid-title {
+      font-weight: 600;
+      margin-bottom: 8px;
+    }
+    
+    .retention-row {
+      display: grid;
+      grid-template-columns: 80px 1fr 90px;
+      align-items: center;
+      gap: 8px;
+      font-size: 0.85em;
+      margin-bottom: 6px;
+    }
+    
+    .retention-track {
+      height: 10px;
+      border-radius: 5px;
+      background: var(--vscode-editor-background);
+      overflow: hidden;
+    }
+    
+    .retention-fill {
+      height: 100%;
+      background: var(--vscode-textLink-foreground);
+    }
+    
+    .retention-count {
+      text-align: right;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .calibration-svg {
+      width: 100%;
+      max-width: 220px;
+      aspect-ratio: 1;
+    }
+    
+    .calibration-axis {
+      stroke: var(--vscode-input-border);
+    }
+    
+    .calibration-ideal {
+      stroke: #ffb74d;
+      stroke-dasharray: 4 3;
+    }
+    
+    .calibration-dot {
+      fill: var(--vscode-textLink-foreground);
+      fill-opacity: 0.7;
+    }
+    
+    /* ========== Study Time ========== */
+    .study-time-grid {
+      display: grid;
+      grid-template-columns: 2fr 1fr 1fr;
+      gap: 24px;
+    }
+    
+    @media (max-width: 900px) {
+      .study-time-grid {
+        grid-template-columns: 1fr;
+      }
+    }
+    
+    .study-time-chart {
       display: flex;
-      flex-direction: column;
-      gap: 8px;
+      align-items: flex-end;
+      height: 120px;
+      gap: 2px;
     }
     
-    .donut-legend-item {
-      display: flex;
-      align-items: center;
-      gap: 8px;
-      font-size: 0.9em;
-      cursor: pointer;
-      transition: opacity 0.2s;
+    .study-time-bar {
+      flex: 1 1 0;
+      min-height: 2px;
+      border-radius: 2px 2px 0 0;
+      background: var(--vscode-textLink-foreground);
     }
     
-    .donut-legend-item:hover {
-      opacity: 0.7;
+    .study-time-bar:hover {
+      filter: brightness(1.2);
     }
     
-    .donut-legend-dot {
-      width: 12px;
-      height: 12px;
-      border-radius: 3px;
+    .hour-heatmap {
+      display: grid;
+      grid-template-columns: 32px repeat(24, 14px);
+      gap: 3px;
+      align-items: center;
+      font-size: 0.7em;
+      color: var(--vscode-descriptionForeground);
+      overflow-x: auto;
     }
     
-    .donut-legend-dot.new { background: #64b5f6; }
-    .donut-legend-dot.learning { background: #ffb74d; }
-    .donut-legend-dot.mastered { background: #81c784; }
-    
-    /* ========== Sparkline Styles ========== */
-    .sparkline-container {
-      position: relative;
-      height: 60px;
-      margin-top: 12px;
+    .hour-heatmap .heatmap-cell {
+      width: 14px;
+      height: 14px;
     }
     
-    .sparkline-svg {
-      width: 100%;
-      height: 100%;
+    /* ========== Review Forecast ========== */
+    .forecast-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-bottom: 16px;
     }
     
-    .sparkline-path {
-      fill: none;
-      stroke: var(--vscode-textLink-foreground);
-      stroke-width: 2;
-      stroke-linecap: round;
-      stroke-linejoin: round;
+    .forecast-header .section-title {
+      margin-bottom: 0;
     }
     
-    .sparkline-area {
-      fill: url(#sparklineGradient);
-      opacity: 0.3;
+    .forecast-range {
+      display: flex;
+      gap: 4px;
     }
     
-    .sparkline-dot {
-      fill: var(--vscode-textLink-foreground);
-      transition: r 0.2s ease;
+    .forecast-range button {
+      padding: 4px 10px;
+      border: 1px solid var(--vscode-input-border);
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.85em;
     }
     
-    .sparkline-dot:hover {
-      r: 5;
+    .forecast-range button.active {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
     }
     
-    /* ========== Enhanced Bar Chart Styles ========== */
-    .bar-chart-enhanced {
+    .forecast-chart {
       display: flex;
       align-items: flex-end;
-      justify-content: flex-start;
       height: 100%;
       gap: 1px;
-      position: relative;
     }
     
-    .bar-enhanced {
-      flex: 0 0 auto;
-      width: 8px;
-      background: linear-gradient(180deg, var(--vscode-textLink-foreground) 0%, rgba(0,122,204,0.6) 100%);
-      border-radius: 2px 2px 0 0;
-      min-height: 2px;
-      transition: all 0.3s ease;
+    .forecast-bar {
+      flex: 1 1 0;
+      display: flex;
+      flex-direction: column-reverse;
+      height: 100%;
       position: relative;
       cursor: pointer;
     }
     
-    .bar-enhanced:hover {
-      background: linear-gradient(180deg, #4fc3f7 0%, var(--vscode-textLink-foreground) 100%);
-      transform: scaleY(1.05);
+    .forecast-segment.learning { background: #ffb74d; }
+    .forecast-segment.mature { background: #388e3c; }
+    
+    .forecast-bar:hover .forecast-segment {
+      filter: brightness(1.2);
     }
     
-    .bar-enhanced::after {
+    .forecast-bar::after {
       content: attr(data-tooltip);
       position: absolute;
       bottom: calc(100% + 8px);
@@ -1082,25 +1666,12 @@ export class DashboardPanel {
       z-index: 10;
     }
     
-    .bar-enhanced:hover::after {
+    .forecast-bar:hover::after {
       opacity: 1;
     }
     
-    .chart-avg-line {
-      position: absolute;
-      left: 0;
-      right: 0;
-      border-top: 2px dashed rgba(255, 183, 77, 0.6);
-      z-index: 5;
-    }
-    
-    .chart-avg-label {
-      position: absolute;
-      right: 4px;
-      font-size: 0.7em;
-      color: #ffb74d;
-      transform: translateY(-100%);
-    }
+    .legend-dot.learning { background-color: #ffb74d; }
+    .legend-dot.mature { background-color: #388e3c; }
     
     /* ========== Rating Pills Enhanced ========== */
     .rating-pill {
@@ -1236,6 +1807,54 @@ export class DashboardPanel {
         <div class="sparkline-container" id="retention-sparkline"></div>
       </div>
       
+      <div class="section" style="grid-column: 1 / -1;">
+        <div class="section-title">🧪 True Retention</div>
+        <div id="retention-analytics"></div>
+      </div>
+      
+      <div class="section" style="grid-column: 1 / -1;">
+        <div class="section-title">⏱️ Study Time</div>
+        <div id="study-time"></div>
+      </div>
+      
+      <div class="section" style="grid-column: 1 / -1;">
+        <div class="section-title">🕐 Performance by Time of Day</div>
+        <div id="hour-heatmap"></div>
+        <div class="heatmap-legend">
+          <span>Lower pass rate</span>
+          <div class="heatmap-cell level-1" style="cursor:default"></div>
+          <div class="heatmap-cell level-2" style="cursor:default"></div>
+          <div class="heatmap-cell level-3" style="cursor:default"></div>
+          <div class="heatmap-cell level-4" style="cursor:default"></div>
+          <div class="heatmap-cell level-5" style="cursor:default"></div>
+          <span>Higher</span>
+          <span id="hour-heatmap-summary" style="margin-left: 12px;"></span>
+        </div>
+      </div>
+      
+      <div class="section" style="grid-column: 1 / -1;">
+        <div class="forecast-header">
+          <div class="section-title">🗓️ Review Forecast</div>
+          <div class="forecast-range">
+            <button id="forecast-30" class="active" onclick="setForecastDays(30)">30 days</button>
+            <button id="forecast-90" onclick="setForecastDays(90)">90 days</button>
+          </div>
+        </div>
+        <div class="chart-container">
+          <div class="forecast-chart" id="forecast-chart"></div>
+        </div>
+        <div class="graph-legend">
+          <div class="legend-item"><div class="legend-dot learning"></div> Learning</div>
+          <div class="legend-item"><div class="legend-dot mature"></div> Mature (≥ 21 days)</div>
+          <div class="legend-item" id="forecast-summary"></div>
+        </div>
+      </div>
+      
+      <div class="section" style="grid-column: 1 / -1;">
+        <div class="section-title">🩹 Leeches</div>
+        <div id="leech-list"></div>
+      </div>
+      
       <div class="section graph-section">
         <div class="section-title">🕸️ Knowledge Graph</div>
         <div class="graph-controls">
@@ -1300,6 +1919,8 @@ export class DashboardPanel {
           </div>
           <div class="modal-phonetic" id="modalPhonetic"></div>
         </div>
+        <button id="modalHistoryBtn" class="modal-edit" onclick="requestCardHistory()" title="Version history">🕘 History</button>
+        <button id="modalEditBtn" class="modal-edit" onclick="startCardEdit()" title="Edit card">✏️ Edit</button>
         <button class="modal-close" onclick="closeCardModal()">&times;</button>
       </div>
       <div class="modal-body" id="modalBody">
@@ -1311,8 +1932,11 @@ export class DashboardPanel {
   <script>
     const vscode = acquireVsCodeApi();
     let currentStats = null;
+    let forecastDays = 30;
     let currentGraph = null;
     let currentCard = null;
+    let currentCardSrs = null;
+    let currentCardReviews = { cardId: null, reviews: [] };
     let graphNodes = [];
     let graphEdges = [];
     let graphScale = 1;
@@ -1351,8 +1975,12 @@ export class DashboardPanel {
         case 'dashboard_stats':
           currentStats = message.stats;
           renderDashboard(message.stats);
-          // Request knowledge graph after stats
+          // Request knowledge graph and leeches after stats
           refreshGraph();
+          vscode.postMessage({ type: 'get_leeches' });
+          break;
+        case 'leeches':
+          renderLeeches(message.leeches);
           break;
         case 'knowledge_graph':
           currentGraph = message.graph;
@@ -1360,8 +1988,28 @@ export class DashboardPanel {
           break;
         case 'card_details':
           currentCard = message.card;
+          currentCardReviews = { cardId: message.card.id, reviews: message.reviews || [] };
           showCardDetails(message.card, message.srs);
           break;
+        case 'card_updated':
+          showCardDetails(message.card, message.srs);
+          // Terms and tags feed the stats and the graph
+          vscode.postMessage({ type: 'get_dashboard_stats' });
+          break;
+        case 'card_update_error': {
+          const editError = document.getElementById('modalEditError');
+          if (editError) {
+            editError.textContent = message.message;
+          } else {
+            showError(message.message);
+          }
+          break;
+        }
+        case 'card_history':
+          if (currentCard && currentCard.id === message.cardId) {
+            showCardHistory(message.revisions);
+          }
+          break;
         case 'error':
           showError(message.message);
           break;
@@ -1437,6 +2085,16 @@ export class DashboardPanel {
       // Render enhanced reviews chart (last 30 days)
       renderReviewsChartEnhanced(stats.reviewsPerDay.slice(-30));
       
+      // Render true retention analytics
+      renderRetentionAnalytics(stats.retentionAnalytics);
+      
+      // Render workload forecast
+      renderForecastChart(stats.forecast || []);
+      
+      // Render answer times and time-of-day performance
+      renderStudyTime(stats.studyTime);
+      renderHourHeatmap(stats.studyTime ? stats.studyTime.hourlyPerformance : []);
+      
       // Render ratings distribution
       renderRatingsChart(stats.ratingsDistribution);
       
@@ -1555,6 +2213,207 @@ export class DashboardPanel {
       container.innerHTML = barsHtml;
     }
     
+    // Young/mature true retention, retention by interval and ease, and calibration
+    function renderRetentionAnalytics(analytics) {
+      const container = document.getElementById('retention-analytics');
+      if (!analytics || analytics.young.reviews + analytics.mature.reviews === 0) {
+        container.innerHTML = '<div class="leech-empty">No reviews of graduated cards yet.</div>';
+        return;
+      }
+      
+      const summary = (bucket, hint) => \`
+        <div class="retention-stat">
+          <div class="retention-stat-value">\${bucket.reviews > 0 ? Math.round(bucket.rate * 100) + '%' : '—'}</div>
+          <div class="retention-stat-label">\${bucket.label} (\${hint}) · \${bucket.reviews} reviews</div>
+        </div>\`;
+      const rows = (buckets) => buckets.map(bucket => \`
+        <div class="retention-row" title="\${bucket.passed} of \${bucket.reviews} passed">
+          <span>\${bucket.label}</span>
+          <div class="retention-track"><div class="retention-fill" style="width: \${bucket.rate * 100}%;"></div></div>
+          <span class="retention-count">\${bucket.reviews > 0 ? Math.round(bucket.rate * 100) + '%' : '—'} (\${bucket.reviews})</span>
+        </div>\`).join('');
+      
+      container.innerHTML = \`
+        <div class="retention-summary">
+          \${summary(analytics.young, 'interval under 21 days')}
+          \${summary(analytics.mature, 'interval of 21+ days')}
+        </div>
+        <div class="retention-grid">
+          <div>
+            <div class="retention-grid-title">By interval</div>
+            \${rows(analytics.byInterval)}
+          </div>
+          <div>
+            <div class="retention-grid-title">By ease factor</div>
+            \${rows(analytics.byEase)}
+          </div>
+          <div>
+            <div class="retention-grid-title">Predicted vs. actual recall</div>
+            \${renderCalibrationPlot(analytics.calibration)}
+          </div>
+        </div>
+      \`;
+    }
+    
+    // Calibration plot: one dot per predicted recall bin, on the diagonal when the forgetting curve is right
+    function renderCalibrationPlot(bins) {
+      const size = 200;
+      const pad = 20;
+      const scale = (rate) => pad + rate * (size - pad * 2);
+      const maxReviews = Math.max(...bins.map(b => b.reviews), 1);
+      
+      const dots = bins.map(bin => {
+        const r = 3 + Math.sqrt(bin.reviews / maxReviews) * 7;
+        const tooltip = \`Predicted \${Math.round(bin.predicted * 100)}%, actual \${Math.round(bin.actual * 100)}% (\${bin.reviews} reviews)\`;
+        return \`<circle class="calibration-dot" cx="\${scale(bin.predicted).toFixed(1)}" cy="\${(size - scale(bin.actual)).toFixed(1)}" r="\${r.toFixed(1)}"><title>\${tooltip}</title></circle>\`;
+      }).join('');
+      
+      return \`
+        <svg class="calibration-svg" viewBox="0 0 \${size} \${size}">
+          <line class="calibration-axis" x1="\${pad}" y1="\${size - pad}" x2="\${size - pad}" y2="\${size - pad}"/>
+          <line class="calibration-axis" x1="\${pad}" y1="\${pad}" x2="\${pad}" y2="\${size - pad}"/>
+          <line class="calibration-ideal" x1="\${pad}" y1="\${size - pad}" x2="\${size - pad}" y2="\${pad}"/>
+          <text x="\${size / 2}" y="\${size - 4}" text-anchor="middle" font-size="10" fill="currentColor">predicted</text>
+          <text x="8" y="\${size / 2}" text-anchor="middle" font-size="10" fill="currentColor" transform="rotate(-90 8 \${size / 2})">actual</text>
+          \${dots}
+        </svg>\`;
+    }
+    
+    // Minutes studied per day, average answer time per rating and the slowest cards
+    function renderStudyTime(studyTime) {
+      const container = document.getElementById('study-time');
+      if (!studyTime || studyTime.answerTimeByRating.every(r => r.reviews === 0)) {
+        container.innerHTML = '<div class="leech-empty">No answer times recorded yet. They are saved as you rate cards.</div>';
+        return;
+      }
+      
+      const seconds = (ms) => (ms / 1000).toFixed(1) + 's';
+      const maxMinutes = Math.max(...studyTime.minutesPerDay.map(d => d.minutes), 1);
+      const totalMinutes = studyTime.minutesPerDay.reduce((sum, d) => sum + d.minutes, 0);
+      const bars = studyTime.minutesPerDay.map(day => \`
+        <div class="study-time-bar" style="height: \${(day.minutes / maxMinutes) * 100}%;" title="\${day.date}: \${day.minutes} min"></div>\`).join('');
+      
+      const maxMs = Math.max(...studyTime.answerTimeByRating.map(r => r.averageMs), 1);
+      const ratingRows = studyTime.answerTimeByRating.map(r => \`
+        <div class="retention-row" title="\${r.reviews} timed reviews">
+          <span>\${r.rating.charAt(0).toUpperCase() + r.rating.slice(1)}</span>
+          <div class="retention-track"><div class="retention-fill" style="width: \${(r.averageMs / maxMs) * 100}%;"></div></div>
+          <span class="retention-count">\${r.reviews > 0 ? seconds(r.averageMs) : '—'}</span>
+        </div>\`).join('');
+      
+      const slowest = studyTime.slowestCards.length === 0
+        ? '<div class="leech-empty">Cards answered at least twice show up here.</div>'
+        : studyTime.slowestCards.map(card => \`
+          <div class="retention-row" title="\${card.reviews} timed reviews">
+            <span class="leech-term" onclick="requestCardDetails('\${escapeHtml(card.cardId)}')">\${escapeHtml(card.term)}</span>
+            <span></span>
+            <span class="retention-count">\${seconds(card.averageMs)}</span>
+          </div>\`).join('');
+      
+      container.innerHTML = \`
+        <div class="retention-summary">
+          <div class="retention-stat">
+            <div class="retention-stat-value">\${Math.round(studyTime.minutesToday)} min</div>
+            <div class="retention-stat-label">Studied today</div>
+          </div>
+          <div class="retention-stat">
+            <div class="retention-stat-value">\${Math.round(totalMinutes)} min</div>
+            <div class="retention-stat-label">Last 30 days · \${Math.round(totalMinutes / 30)} min/day</div>
+          </div>
+        </div>
+        <div class="study-time-grid">
+          <div>
+            <div class="retention-grid-title">Minutes per day</div>
+            <div class="study-time-chart">\${bars}</div>
+          </div>
+          <div>
+            <div class="retention-grid-title">Average answer time</div>
+            \${ratingRows}
+          </div>
+          <div>
+            <div class="retention-grid-title">Slowest cards</div>
+            \${slowest}
+          </div>
+        </div>
+      \`;
+    }
+    
+    // Weekday × hour grid of reviews, shaded by pass rate relative to the other hours
+    function renderHourHeatmap(cells) {
+      const container = document.getElementById('hour-heatmap');
+      const summary = document.getElementById('hour-heatmap-summary');
+      const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+      const byKey = new Map(cells.map(cell => [cell.weekday * 24 + cell.hour, cell]));
+      const rates = cells.map(cell => cell.passRate);
+      const minRate = Math.min(...rates, 1);
+      const rateRange = Math.max(...rates, 0) - minRate;
+      
+      let html = '<span></span>';
+      for (let hour = 0; hour < 24; hour++) {
+        html += \`<span>\${hour % 6 === 0 ? hour : ''}</span>\`;
+      }
+      weekdays.forEach((weekday, day) => {
+        html += \`<span>\${weekday}</span>\`;
+        for (let hour = 0; hour < 24; hour++) {
+          const cell = byKey.get(day * 24 + hour);
+          if (!cell) {
+            html += \`<div class="heatmap-cell level-0" title="\${weekday} \${hour}:00 · no reviews"></div>\`;
+            continue;
+          }
+          const level = rateRange > 0 ? 1 + Math.round(((cell.passRate - minRate) / rateRange) * 4) : 5;
+          html += \`<div class="heatmap-cell level-\${level}" title="\${weekday} \${hour}:00 · \${cell.reviews} reviews · \${Math.round(cell.passRate * 100)}% passed"></div>\`;
+        }
+      });
+      container.innerHTML = \`<div class="hour-heatmap">\${html}</div>\`;
+      
+      // Best hour of the day across weekdays, among hours with enough reviews
+      const byHour = new Map();
+      for (const cell of cells) {
+        const hour = byHour.get(cell.hour) || { reviews: 0, passed: 0 };
+        hour.reviews += cell.reviews;
+        hour.passed += cell.passRate * cell.reviews;
+        byHour.set(cell.hour, hour);
+      }
+      const best = [...byHour.entries()]
+        .filter(([, h]) => h.reviews >= 10)
+        .sort((a, b) => b[1].passed / b[1].reviews - a[1].passed / a[1].reviews)[0];
+      summary.textContent = best
+        ? \`Best hour: \${best[0]}:00 (\${Math.round((best[1].passed / best[1].reviews) * 100)}% passed)\`
+        : '';
+    }
+    
+    // Stacked bars of upcoming reviews: learning below, mature on top
+    function renderForecastChart(forecast) {
+      const container = document.getElementById('forecast-chart');
+      const days = forecast.slice(0, forecastDays);
+      const maxCount = Math.max(...days.map(d => d.learning + d.mature), 1);
+      
+      container.innerHTML = days.map((day, index) => {
+        const total = day.learning + day.mature;
+        const label = index === 0
+          ? 'Today'
+          : new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+        const tooltip = \`\${label}: \${total} (\${day.learning} learning, \${day.mature} mature)\`;
+        return \`<div class="forecast-bar" data-tooltip="\${tooltip}">\` +
+          \`<div class="forecast-segment learning" style="height: \${(day.learning / maxCount) * 100}%;"></div>\` +
+          \`<div class="forecast-segment mature" style="height: \${(day.mature / maxCount) * 100}%;"></div>\` +
+          \`</div>\`;
+      }).join('');
+      
+      const total = days.reduce((sum, d) => sum + d.learning + d.mature, 0);
+      document.getElementById('forecast-summary').textContent =
+        \`\${total} reviews in \${forecastDays} days · \${Math.round(total / Math.max(days.length, 1))}/day\`;
+    }
+    
+    function setForecastDays(days) {
+      forecastDays = days;
+      document.getElementById('forecast-30').classList.toggle('active', days === 30);
+      document.getElementById('forecast-90').classList.toggle('active', days === 90);
+      if (currentStats) {
+        renderForecastChart(currentStats.forecast || []);
+      }
+    }
+    
     function renderReviewsChart(reviewsPerDay) {
       const container = document.getElementById('reviews-chart');
       const maxCount = Math.max(...reviewsPerDay.map(d => d.count), 1);
@@ -1716,6 +2575,7 @@ export class DashboardPanel {
         { key: 'word', label: 'Words' },
         { key: 'phrase', label: 'Phrases' },
         { key: 'sentence', label: 'Sentences' },
+        { key: 'cloze', label: 'Cloze' },
       ];
       
       container.innerHTML = types.map(type => {
@@ -2234,6 +3094,40 @@ export class DashboardPanel {
       };
     }
     
+    // List the cards that keep lapsing, with their lapse history and quick actions
+    function renderLeeches(leeches) {
+      const container = document.getElementById('leech-list');
+      
+      if (leeches.length === 0) {
+        container.innerHTML = '<div class="leech-empty">No leeches. Cards you keep forgetting will show up here.</div>';
+        return;
+      }
+      
+      container.innerHTML = leeches.map(leech => {
+        const cardId = escapeHtml(leech.cardId);
+        const history = leech.lapseTimes
+          .map(ts => new Date(ts).toLocaleDateString())
+          .join(' · ');
+        return \`
+          <div class="leech-item">
+            <div class="leech-info">
+              <span class="leech-term" onclick="requestCardDetails('\${cardId}')">\${escapeHtml(leech.term)}</span>
+              \${leech.translation ? \`<span class="leech-meta"> — \${escapeHtml(leech.translation)}</span>\` : ''}
+              \${leech.direction === 'reverse' ? '<span class="leech-meta"> (reverse)</span>' : ''}
+              \${leech.suspended ? '<span class="leech-meta"> (suspended)</span>' : ''}
+              <div class="leech-meta">Lapsed: \${history || 'n/a'}</div>
+            </div>
+            <div class="leech-lapses">\${leech.lapses} lapses</div>
+            <button class="modal-edit" onclick="rewriteCardBack('\${cardId}')" title="Regenerate the card back">✨ Rewrite</button>
+          </div>
+        \`;
+      }).join('');
+    }
+    
+    function rewriteCardBack(cardId) {
+      vscode.postMessage({ type: 'rewrite_card_back', cardId });
+    }
+    
     // Request card details from extension
     function requestCardDetails(cardId) {
       vscode.postMessage({ type: 'get_card_details', cardId });
@@ -2251,6 +3145,10 @@ export class DashboardPanel {
       const body = document.getElementById('modalBody');
       const playBtn = document.getElementById('playAudioBtn');
       
+      currentCardSrs = srs;
+      document.getElementById('modalEditBtn').style.display = '';
+      document.getElementById('modalHistoryBtn').style.display = '';
+      
       // Set term and phonetic
       term.textContent = card.front.term;
       phonetic.textContent = card.front.phonetic || '';
@@ -2417,10 +3315,223 @@ export class DashboardPanel {
         \`;
       }
       
+      // Review history (card_updated keeps the reviews of the card already shown)
+      const reviews = currentCardReviews.cardId === card.id ? currentCardReviews.reviews : [];
+      if (reviews.length > 0) {
+        bodyHTML += \`
+          <div class="modal-section">
+            <div class="modal-section-title">Review History (\${reviews.length})</div>
+            \${renderIntervalGrowth(reviews)}
+            \${renderReviewTimeline(reviews)}
+          </div>
+        \`;
+      }
+      
       body.innerHTML = bodyHTML;
       modal.classList.add('show');
     }
     
+    // Interval after each review over time, one line per direction, lapses in red
+    function renderIntervalGrowth(reviews) {
+      const width = 400;
+      const height = 120;
+      const first = reviews[0].ts;
+      const span = Math.max(reviews[reviews.length - 1].ts - first, 1);
+      const maxInterval = Math.max(...reviews.map(r => r.intervalDays), 1);
+      const x = (r) => (((r.ts - first) / span) * width).toFixed(1);
+      const y = (r) => (height - (r.intervalDays / maxInterval) * height).toFixed(1);
+      const lineOf = (r) => r.mode === 'dictation' ? 'dictation' : (r.direction || 'forward');
+      
+      const lines = ['forward', 'reverse', 'dictation'].map(line => {
+        const points = reviews.filter(r => lineOf(r) === line).map(r => x(r) + ',' + y(r));
+        return points.length > 0
+          ? \`<polyline class="interval-line \${line}" points="\${points.join(' ')}"><title>\${line}</title></polyline>\`
+          : '';
+      }).join('');
+      const lapses = reviews.filter(r => r.lapse).map(r =>
+        \`<circle class="interval-lapse" cx="\${x(r)}" cy="\${y(r)}" r="4"><title>Lapse on \${new Date(r.ts).toLocaleDateString()}</title></circle>\`
+      ).join('');
+      
+      return \`
+        <svg class="interval-svg" viewBox="-5 -5 \${width + 10} \${height + 10}">
+          \${lines}\${lapses}
+          <text x="0" y="8" font-size="10" fill="currentColor">\${formatTimelineInterval(maxInterval)}</text>
+        </svg>\`;
+    }
+    
+    // Every review, newest first, with the interval and ease it led to
+    function renderReviewTimeline(reviews) {
+      const items = reviews.slice().reverse().map(r => {
+        const mode = r.mode === 'dictation' ? 'dictation' : r.mode === 'quiz' ? 'quiz' : r.direction === 'reverse' ? 'reverse' : 'forward';
+        const seconds = r.durationMs !== undefined ? ' · ' + (r.durationMs / 1000).toFixed(1) + 's' : '';
+        return \`
+          <div class="review-timeline-item\${r.lapse ? ' lapse' : ''}">
+            <span class="rating-pill-dot \${r.rating}"></span>
+            <span>\${new Date(r.ts).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+            <span>\${r.rating.charAt(0).toUpperCase() + r.rating.slice(1)}\${r.lapse ? ' (lapse)' : ''} · \${mode}\${seconds}</span>
+            <span class="review-timeline-meta">→ \${formatTimelineInterval(r.intervalDays)} · EF \${r.easeFactor.toFixed(2)}</span>
+          </div>\`;
+      }).join('');
+      return \`<div class="review-timeline">\${items}</div>\`;
+    }
+    
+    function formatTimelineInterval(days) {
+      if (days < 1) return Math.round(days * 24 * 60) + 'm';
+      return days < 30 ? Math.round(days) + 'd' : (days / 30).toFixed(1) + 'mo';
+    }
+    
+    // Card edit form fields: [input id, label, read value from card, multiline]
+    const CARD_EDIT_FIELDS = [
+      ['editTerm', 'Term', c => c.front.term, false],
+      ['editPhonetic', 'Phonetic', c => c.front.phonetic, false],
+      ['editMorphemes', 'Morphemes (separated by +)', c => (c.front.morphemes || []).join(' + '), false],
+      ['editTranslation', 'Translation', c => c.back?.translation, false],
+      ['editExplanation', 'Explanation', c => c.back?.explanation, true],
+      ['editExplanationCn', '释义（中文）', c => c.back?.explanationCn, true],
+      ['editExample', 'Example', c => c.front.example, true],
+      ['editExampleCn', 'Example (中文)', c => c.front.exampleCn, true],
+      ['editSynonyms', 'Synonyms (comma separated)', c => (c.back?.synonyms || []).join(', '), false],
+      ['editAntonyms', 'Antonyms (comma separated)', c => (c.back?.antonyms || []).join(', '), false],
+      ['editNotes', 'Notes', c => c.back?.notes, true],
+      ['editTags', 'Tags (comma separated)', c => (c.tags || []).join(', '), false],
+    ];
+    
+    // Replace the modal body with an edit form for the current card
+    function startCardEdit() {
+      if (!currentCard) return;
+      
+      const body = document.getElementById('modalBody');
+      const fieldsHTML = CARD_EDIT_FIELDS.map(([id, label, , multiline]) => {
+        const wide = id === 'editTerm' || id === 'editPhonetic' ? '' : ' wide';
+        const input = multiline ? \`<textarea id="\${id}"></textarea>\` : \`<input id="\${id}" type="text">\`;
+        return \`<div class="modal-edit-field\${wide}"><label for="\${id}">\${escapeHtml(label)}</label>\${input}</div>\`;
+      }).join('') + \`
+        <div class="modal-edit-field">
+          <label for="editDirections">Review directions</label>
+          <select id="editDirections">
+            <option value="forward">Forward (term → meaning)</option>
+            <option value="reverse">Reverse (meaning → term)</option>
+            <option value="both">Both</option>
+          </select>
+        </div>
+      \`;
+      
+      body.innerHTML = \`
+        <div class="modal-section">
+          <div class="modal-edit-grid">\${fieldsHTML}</div>
+          <div class="modal-edit-actions">
+            <span class="modal-edit-error" id="modalEditError"></span>
+            <button class="btn-settings" onclick="showCardDetails(currentCard, currentCardSrs)">Cancel</button>
+            <button class="btn-study" onclick="saveCardEdit()">Save</button>
+          </div>
+        </div>
+      \`;
+      
+      // Values are assigned through the DOM so card text is never parsed as HTML
+      for (const [id, , read] of CARD_EDIT_FIELDS) {
+        document.getElementById(id).value = read(currentCard) || '';
+      }
+      document.getElementById('editDirections').value = currentCard.directions || 'forward';
+      document.getElementById('modalEditBtn').style.display = 'none';
+      document.getElementById('modalHistoryBtn').style.display = 'none';
+      document.getElementById('editTerm').focus();
+    }
+    
+    function requestCardHistory() {
+      if (!currentCard) return;
+      vscode.postMessage({ type: 'get_card_history', cardId: currentCard.id });
+    }
+    
+    // Replace the modal body with the card's versions (newest first) and their diffs
+    function showCardHistory(revisions) {
+      const body = document.getElementById('modalBody');
+      const latestVersion = revisions.length > 0 ? revisions[0].version : 0;
+      
+      const itemsHTML = revisions.map(rev => {
+        const changesHTML = rev.changes.length > 0
+          ? rev.changes.map(change => \`
+              <div class="modal-history-change">
+                <span class="modal-history-field">\${escapeHtml(change.field)}:</span>
+                \${change.before !== undefined ? \`<span class="modal-history-before">\${escapeHtml(change.before)}</span>\` : ''}
+                \${change.before !== undefined && change.after !== undefined ? ' → ' : ''}
+                \${change.after !== undefined ? \`<span class="modal-history-after">\${escapeHtml(change.after)}</span>\` : ''}
+              </div>
+            \`).join('')
+          : '<div class="modal-history-change modal-history-field">No content changes</div>';
+        const revertBtn = rev.version === latestVersion
+          ? '<span class="modal-history-field">Current</span>'
+          : \`<button class="modal-edit" onclick="revertCard(\${rev.version})">↩️ Revert</button>\`;
+        
+        return \`
+          <div class="modal-history-item">
+            <div class="modal-history-header">
+              <span>v\${rev.version} · \${new Date(rev.updatedAt).toLocaleString()}</span>
+              \${revertBtn}
+            </div>
+            \${changesHTML}
+          </div>
+        \`;
+      }).join('');
+      
+      body.innerHTML = \`
+        <div class="modal-section">
+          <div class="modal-section-title">Version History</div>
+          \${itemsHTML}
+          <div class="modal-edit-actions">
+            <button class="btn-settings" onclick="showCardDetails(currentCard, currentCardSrs)">Back</button>
+          </div>
+        </div>
+      \`;
+      document.getElementById('modalEditBtn').style.display = 'none';
+      document.getElementById('modalHistoryBtn').style.display = 'none';
+    }
+    
+    function revertCard(version) {
+      if (!currentCard) return;
+      vscode.postMessage({ type: 'revert_card', cardId: currentCard.id, version });
+    }
+    
+    function splitEditList(id, separator) {
+      return document.getElementById(id).value
+        .split(separator)
+        .map(item => item.trim())
+        .filter(item => item.length > 0);
+    }
+    
+    function saveCardEdit() {
+      if (!currentCard) return;
+      
+      const value = id => document.getElementById(id).value;
+      if (!value('editTerm').trim()) {
+        document.getElementById('modalEditError').textContent = 'Term is required';
+        return;
+      }
+      
+      vscode.postMessage({
+        type: 'update_card',
+        cardId: currentCard.id,
+        edit: {
+          front: {
+            term: value('editTerm'),
+            phonetic: value('editPhonetic'),
+            morphemes: splitEditList('editMorphemes', '+'),
+            example: value('editExample'),
+            exampleCn: value('editExampleCn'),
+          },
+          back: {
+            translation: value('editTranslation'),
+            explanation: value('editExplanation'),
+            explanationCn: value('editExplanationCn'),
+            synonyms: splitEditList('editSynonyms', ','),
+            antonyms: splitEditList('editAntonyms', ','),
+            notes: value('editNotes'),
+          },
+          tags: splitEditList('editTags', ','),
+          directions: value('editDirections'),
+        },
+      });
+    }
+    
     // Close modal
     function closeCardModal() {
       const modal = document.getElementById('cardModal');
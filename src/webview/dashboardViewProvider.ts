@@ -3,8 +3,9 @@
 
 import * as vscode from 'vscode';
 import { JsonlStorage } from '../storage/storage';
-import { buildIndex } from '../storage/indexer';
+import { buildConfiguredIndex, getDayRolloverHour } from '../common/config';
 import { calculateDashboardStats } from '../storage/stats';
+import { calculateDeckStats, getLatestDecks } from '../storage/decks';
 import { FlashcardPanel } from './panel';
 import { DashboardPanel } from './dashboard';
 import { logDebug, logError } from '../common/logger';
@@ -48,6 +49,19 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
         case 'startLearning':
           FlashcardPanel.createOrShow(this._extensionUri, this._storage, this._context);
           break;
+        case 'studyDeck':
+          if (typeof message.deckId === 'string') {
+            await FlashcardPanel.openDeck(
+              this._extensionUri,
+              this._storage,
+              this._context,
+              message.deckId
+            );
+          }
+          break;
+        case 'manageDecks':
+          vscode.commands.executeCommand('wordslash.manageDecks');
+          break;
         case 'openDashboard':
           DashboardPanel.createOrShow(this._extensionUri, this._storage, this._context);
           break;
@@ -88,17 +102,19 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
       const cards = await this._storage.readAllCards();
       logDebug('Cards loaded', cards.length);
       
-      const events = await this._storage.readAllEvents();
-      const index = buildIndex(cards, events);
-      const stats = calculateDashboardStats(index, events);
+      const events = await this._storage.readReviewEvents();
+      const { index, algorithm } = await buildConfiguredIndex(this._storage, cards, events);
+      const stats = calculateDashboardStats(index, events, algorithm, getDayRolloverHour());
+      const decks = calculateDeckStats(index, getLatestDecks(await this._storage.readAllDecks()));
 
-      // Send stats including retention rate for gauge
+      // Send stats including retention rate for gauge, and one row per deck
       this._view.webview.postMessage({ 
         type: 'stats', 
         stats: {
           ...stats,
           retentionRate: stats.retentionRate || 0
-        }
+        },
+        decks,
       });
     } catch (error) {
       logError('Error loading dashboard stats', error);
@@ -340,6 +356,58 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
       font-size: 1em;
     }
     
+    .decks {
+      margin-bottom: 16px;
+    }
+    
+    .decks-title {
+      font-size: 0.9em;
+      font-weight: 600;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 6px;
+    }
+    
+    .deck-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      width: 100%;
+      padding: 6px 8px;
+      margin-bottom: 4px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-sideBar-foreground);
+      border: 1px solid var(--vscode-input-border);
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 0.85em;
+      text-align: left;
+    }
+    
+    .deck-row:hover {
+      border-color: var(--vscode-textLink-foreground);
+    }
+    
+    .deck-name {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    
+    .deck-count {
+      min-width: 28px;
+      text-align: right;
+      font-weight: 600;
+    }
+    
+    .deck-count.due {
+      color: var(--vscode-textLink-foreground);
+    }
+    
+    .deck-count.new {
+      color: var(--vscode-descriptionForeground);
+    }
+    
     .loading {
       text-align: center;
       padding: 20px;
@@ -377,7 +445,7 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
     
     <div class="streak">
       <span class="streak-value">🔥 <span id="streak">0</span></span>
-      <div class="streak-label">Day Streak</div>
+      <div class="streak-label">Day Streak · ⏱️ <span id="minutesToday">0</span> min studied today</div>
     </div>
     
     <div class="retention-gauge-container">
@@ -407,6 +475,11 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
       <div class="gauge-label">Good/Easy Reviews</div>
     </div>
     
+    <div class="decks" id="decks" style="display: none;">
+      <div class="decks-title">Decks <span title="Due / New">(due · new)</span></div>
+      <div id="deck-rows"></div>
+    </div>
+    
     <div class="actions">
       <button class="btn btn-primary" onclick="startLearning()">
         <span class="btn-icon">🎴</span> Start Learning
@@ -435,6 +508,9 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
       <a class="secondary-link" onclick="exportTemplate()">
         <span class="link-icon">📄</span> Export Template
       </a>
+      <a class="secondary-link" onclick="manageDecks()">
+        <span class="link-icon">📦</span> Manage Decks
+      </a>
     </div>
   </div>
 
@@ -465,6 +541,7 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
       
       if (message.type === 'stats') {
         showStats(message.stats);
+        showDecks(message.decks || []);
       }
     });
     
@@ -477,11 +554,38 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
       document.getElementById('totalCards').textContent = stats.totalCards || 0;
       document.getElementById('masteredCards').textContent = stats.masteredCards || 0;
       document.getElementById('streak').textContent = stats.currentStreak || 0;
+      document.getElementById('minutesToday').textContent = Math.round(stats.studyTime ? stats.studyTime.minutesToday : 0);
       
       // Update retention rate gauge
       updateRetentionGauge(stats.retentionRate || 0);
     }
     
+    // One row per deck once there is more than the default deck
+    function showDecks(decks) {
+      const rows = document.getElementById('deck-rows');
+      rows.innerHTML = '';
+      decks.forEach(deck => {
+        const row = document.createElement('button');
+        row.className = 'deck-row';
+        row.title = 'Study ' + deck.name + ' (' + deck.totalCards + ' cards)';
+        row.onclick = () => vscode.postMessage({ type: 'studyDeck', deckId: deck.deckId });
+        
+        const name = document.createElement('span');
+        name.className = 'deck-name';
+        name.textContent = '📦 ' + deck.name;
+        const due = document.createElement('span');
+        due.className = 'deck-count due';
+        due.textContent = deck.dueCards;
+        const newCards = document.createElement('span');
+        newCards.className = 'deck-count new';
+        newCards.textContent = deck.newCards;
+        
+        row.append(name, due, newCards);
+        rows.appendChild(row);
+      });
+      document.getElementById('decks').style.display = decks.length > 1 ? 'block' : 'none';
+    }
+    
     function updateRetentionGauge(rate) {
       // Rate is 0-1, convert to percentage
       const percentage = Math.round(rate * 100);
@@ -547,6 +651,10 @@ export class DashboardViewProvider implements vscode.WebviewViewProvider {
     function exportTemplate() {
       vscode.postMessage({ type: 'exportTemplate' });
     }
+    
+    function manageDecks() {
+      vscode.postMessage({ type: 'manageDecks' });
+    }
   </script>
 </body>
 </html>`;
@@ -1,4 +1,5 @@
 export * from './protocol';
 export * from './panel';
 export * from './dashboard';
+export * from './browser';
 export * from './dashboardViewProvider';
@@ -3,17 +3,58 @@
 
 import * as vscode from 'vscode';
 import { JsonlStorage } from '../storage/storage';
-import { buildIndex } from '../storage/indexer';
-import { calculateNextState } from '../srs/sm2';
-import { getNextCard } from '../srs/scheduler';
-import { createReviewEvent, type Card, type ReviewRating, type CardIndex } from '../storage/schema';
-import { isValidUiMessage, type ExtensionToUiMessage, type UiToExtensionMessage, type StudyMode } from './protocol';
+import { applyCardEdit, validateCardEdit } from '../storage/cardEdit';
+import { syncClozeNote, validateClozeEdit } from '../storage/cloze';
+import {
+  buildConfiguredIndex,
+  getDayRolloverHour,
+  getLeechOptions,
+  getNewCardsPerDay,
+  getReviewsPerDay,
+  isTypeAnswerEnabled,
+} from '../common/config';
+import { becameLeech, markLeech } from '../storage/leech';
+import { getCardDirections, getReviewKey } from '../storage/directions';
+import { countNewCardsToday, countReviewsToday, getLatestDecks } from '../storage/decks';
+import { getNextReview, type ReviewFilter } from '../srs/scheduler';
+import { getNextDayStart } from '../common/days';
+import { getAnswerField, gradeTypedAnswer, type AnswerField } from '../srs/grading';
+import { buildQuizQuestion, rateQuizAnswer, type QuizQuestion } from '../srs/quiz';
+import {
+  createCustomStudyPredicate,
+  describeCustomStudy,
+  type CustomStudyFilter,
+} from '../srs/customStudy';
+import { createDeckFilter } from '../srs/decks';
+import {
+  createReviewEvent,
+  createUndoEvent,
+  updateCard,
+  updateDeck,
+  type Card,
+  type CardDirection,
+  type CardEditInput,
+  type CardIndex,
+  type Deck,
+  type CreateReviewEventInput,
+  type UpdateCardInput,
+} from '../storage/schema';
+import {
+  isValidUiMessage,
+  type AnswerQuizMessage,
+  type CheckAnswerMessage,
+  type ExtensionToUiMessage,
+  type RateCardMessage,
+  type UiToExtensionMessage,
+  type StudyMode,
+} from './protocol';
 import { logDebug, logError, logWarn } from '../common/logger';
-import { MAX_RECENT_CARDS } from '../common/constants';
+import { MAX_RECENT_CARDS, MAX_UNDO_HISTORY } from '../common/constants';
 import { generateFlashcardHtml } from './panelHtml';
 import {
   type SessionState,
   type RecentCardsState,
+  type UndoHistoryState,
   createSessionState,
   resetSessionState,
   updateSessionAfterRating,
@@ -22,6 +63,9 @@ import {
   createRecentCardsState,
   addToRecentCards,
   clearRecentCards,
+  createUndoHistory,
+  pushUndoEntry,
+  popUndoEntry,
   getSchedulerOptionsFromMode,
   shouldShowSessionComplete,
   mergeTtsSettings,
@@ -29,6 +73,13 @@ import {
 
 // GlobalState keys
 const STUDY_MODE_KEY = 'wordslash.studyMode';
+const DECK_KEY = 'wordslash.deckId';
+
+// A custom study session and the review keys it has already shown
+interface CustomStudySession {
+  filter: CustomStudyFilter;
+  studiedKeys: Set<string>;
+}
 
 export class FlashcardPanel {
   public static currentPanel: FlashcardPanel | undefined;
@@ -39,13 +90,27 @@ export class FlashcardPanel {
   private readonly _context: vscode.ExtensionContext;
   private _disposables: vscode.Disposable[] = [];
   private _currentCard: Card | null = null;
+  private _currentDirection: CardDirection = 'forward';
+  private _currentQuiz: QuizQuestion | null = null;
+  /** When the current card was sent, to time answers the webview didn't */
+  private _cardShownAt = 0;
   
   // Use extracted state managers
   private _recentCards: RecentCardsState;
   private _session: SessionState;
+  private _undoHistory: UndoHistoryState;
   
   // Study mode state
   private _studyMode: StudyMode = 'loop';
+  private _customStudy: CustomStudySession | null = null;
+
+  // Deck being studied (every deck when null), and the decks with the new
+  // cards each has introduced today (reloaded with the index)
+  private _deckId: string | null = null;
+  private _decks: Map<string, Deck> = getLatestDecks([]);
+  private _newCardsToday: Map<string, number> = new Map();
+  // Reviews of previously studied cards done today, for the daily review limit
+  private _reviewsToday = 0;
   
   // Cache index to avoid rebuilding on every card request
   private _cachedIndex: CardIndex | null = null;
@@ -65,9 +130,11 @@ export class FlashcardPanel {
     // Initialize state managers
     this._recentCards = createRecentCardsState(MAX_RECENT_CARDS);
     this._session = createSessionState();
+    this._undoHistory = createUndoHistory(MAX_UNDO_HISTORY);
     
-    // Load saved study mode from globalState
+    // Load saved study mode and deck from globalState
     this._studyMode = context.globalState.get<StudyMode>(STUDY_MODE_KEY, 'loop');
+    this._deckId = context.globalState.get<string | null>(DECK_KEY, null);
 
     // Set the webview content
     this._panel.webview.html = generateFlashcardHtml();
@@ -79,6 +146,17 @@ export class FlashcardPanel {
       this._disposables
     );
 
+    // Re-derive SRS states when the scheduling algorithm changes
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration('wordslash.srs')) {
+          this._invalidateCache();
+        }
+      },
+      null,
+      this._disposables
+    );
+
     // Handle panel disposal
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
   }
@@ -107,6 +185,54 @@ export class FlashcardPanel {
     FlashcardPanel.currentPanel = new FlashcardPanel(panel, extensionUri, storage, context);
   }
 
+  /**
+   * Open the panel on a custom study session drawn from the cards matching a filter.
+   * The session ends after `filter.limit` reviews, when no card is left, or when
+   * the learner ends it or switches study mode; normal scheduling is unchanged.
+   */
+  public static async startCustomStudy(
+    extensionUri: vscode.Uri,
+    storage: JsonlStorage,
+    context: vscode.ExtensionContext,
+    filter: CustomStudyFilter
+  ) {
+    const existing = FlashcardPanel.currentPanel;
+    FlashcardPanel.createOrShow(extensionUri, storage, context);
+    const panel = FlashcardPanel.currentPanel;
+    if (!panel) {
+      return;
+    }
+
+    panel._customStudy = { filter, studiedKeys: new Set() };
+    panel._session = resetSessionState(panel._session);
+    panel._undoHistory = createUndoHistory(MAX_UNDO_HISTORY);
+    panel._recentCards = clearRecentCards(panel._recentCards);
+    logDebug('Custom study started', describeCustomStudy(filter));
+
+    // A new panel asks for its first card once its webview is ready
+    if (existing) {
+      await panel._sendNextCard();
+    }
+  }
+
+  /**
+   * Open the panel on one deck, with that deck's study mode
+   */
+  public static async openDeck(
+    extensionUri: vscode.Uri,
+    storage: JsonlStorage,
+    context: vscode.ExtensionContext,
+    deckId: string
+  ) {
+    const existing = FlashcardPanel.currentPanel;
+    // A new panel picks up the deck from globalState once its webview is ready
+    await context.globalState.update(DECK_KEY, deckId);
+    FlashcardPanel.createOrShow(extensionUri, storage, context);
+    if (existing) {
+      await existing._handleSetDeck(deckId);
+    }
+  }
+
   public dispose() {
     FlashcardPanel.currentPanel = undefined;
 
@@ -117,6 +243,7 @@ export class FlashcardPanel {
     
     // Reset session stats
     this._session = resetSessionState(this._session);
+    this._undoHistory = createUndoHistory(MAX_UNDO_HISTORY);
 
     this._panel.dispose();
 
@@ -128,6 +255,22 @@ export class FlashcardPanel {
     }
   }
 
+  /**
+   * Drop the cached index after another view changed cards or events
+   */
+  public notifyDataChanged() {
+    this._invalidateCache();
+  }
+
+  /**
+   * Reload the deck picker and study mode after decks were created or edited
+   */
+  public async notifyDecksChanged() {
+    this._invalidateCache();
+    await this._sendDecks();
+    await this._sendStudyMode();
+  }
+
   private async _handleMessage(message: unknown) {
     if (!isValidUiMessage(message)) {
       logWarn('Invalid message received from webview');
@@ -138,8 +281,9 @@ export class FlashcardPanel {
 
     switch (msg.type) {
       case 'ui_ready':
-        // Send TTS settings first, then study mode, then next card
+        // Send TTS settings first, then decks and study mode, then next card
         await this._sendTtsSettings();
+        await this._sendDecks();
         await this._sendStudyMode();
         await this._sendNextCard();
         break;
@@ -150,7 +294,39 @@ export class FlashcardPanel {
         break;
 
       case 'rate_card':
-        await this._handleRateCard(msg.cardId, msg.rating);
+        await this._handleRateCard(msg);
+        break;
+
+      case 'check_answer':
+        await this._handleCheckAnswer(msg);
+        break;
+
+      case 'answer_quiz':
+        await this._handleAnswerQuiz(msg);
+        break;
+
+      case 'undo_last_rating':
+        await this._handleUndoLastRating();
+        break;
+
+      case 'update_card':
+        await this._handleUpdateCard(msg.cardId, msg.edit);
+        break;
+
+      case 'suspend_card':
+        await this._handleHideCard(
+          msg.cardId,
+          { suspended: true },
+          'Card suspended. Unsuspend it from Browse Cards.'
+        );
+        break;
+
+      case 'bury_card':
+        await this._handleHideCard(
+          msg.cardId,
+          { buriedUntil: getNextDayStart(Date.now(), getDayRolloverHour()) },
+          'Card buried until tomorrow.'
+        );
         break;
 
       case 'reveal_back':
@@ -173,10 +349,21 @@ export class FlashcardPanel {
         await this._handleSetStudyMode(msg.mode);
         break;
 
+      case 'set_deck':
+        await this._handleSetDeck(msg.deckId ?? null);
+        break;
+
+      case 'end_custom_study':
+        this._endCustomStudy();
+        await this._sendNextCard();
+        break;
+
       case 'refresh': {
         logDebug('Refresh requested');
         // Clear cache and reload from storage
         this._cachedIndex = null;
+        await this._sendDecks();
+        await this._sendStudyMode();
         this._recentCards = clearRecentCards(this._recentCards);
         const currentCardId = this._currentCard?.id;
         this._currentCard = null;
@@ -189,14 +376,12 @@ export class FlashcardPanel {
           // Get the latest version of the card from the index
           const reloadedCard = index.cards.get(currentCardId);
           
-          if (reloadedCard) {
+          if (reloadedCard && getCardDirections(reloadedCard).includes(this._currentDirection)) {
             logDebug('Card found, reloading', reloadedCard.front.term);
-            this._currentCard = reloadedCard;
-            const srs = index.srsStates.get(reloadedCard.id);
-            this._postMessage({ type: 'card', card: reloadedCard, srs });
+            this._showCard(index, reloadedCard, this._currentDirection);
           } else {
             logDebug('Card not found or deleted, getting next');
-            // Card was deleted, get next one
+            // Card was deleted (or no longer reviewed this way), get next one
             await this._sendNextCard();
           }
         } else {
@@ -231,14 +416,71 @@ export class FlashcardPanel {
     });
   }
 
+  /**
+   * Send the deck picker options, falling back to every deck when the
+   * studied deck no longer exists, and apply the studied deck's study mode
+   */
+  private async _sendDecks() {
+    this._decks = getLatestDecks(await this._storage.readAllDecks());
+    if (this._deckId && !this._decks.has(this._deckId)) {
+      this._deckId = null;
+    }
+
+    const mode = this._getDeckStudyMode();
+    if (mode !== this._studyMode) {
+      this._studyMode = mode;
+      this._invalidateCache();
+    }
+
+    this._postMessage({
+      type: 'decks',
+      decks: [...this._decks.values()].map(({ id, name }) => ({ id, name })),
+      deckId: this._deckId ?? undefined,
+    });
+  }
+
+  /**
+   * Study mode of the studied deck, or the panel's own mode for every deck
+   */
+  private _getDeckStudyMode(): StudyMode {
+    const deck = this._deckId ? this._decks.get(this._deckId) : undefined;
+    return deck?.studyMode ?? this._context.globalState.get<StudyMode>(STUDY_MODE_KEY, 'loop');
+  }
+
+  private async _handleSetDeck(deckId: string | null) {
+    this._deckId = deckId;
+    this._endCustomStudy();
+    await this._context.globalState.update(DECK_KEY, deckId);
+    logDebug('Deck changed to', deckId ?? 'all');
+
+    this._session = resetSessionState(this._session);
+    this._invalidateCache();
+    this._undoHistory = createUndoHistory(MAX_UNDO_HISTORY);
+    this._recentCards = clearRecentCards(this._recentCards);
+
+    await this._sendDecks();
+    await this._sendStudyMode();
+    await this._sendNextCard();
+  }
+
   private async _handleSetStudyMode(mode: StudyMode) {
     this._studyMode = mode;
-    // Save to globalState for persistence within session
-    await this._context.globalState.update(STUDY_MODE_KEY, mode);
+    this._endCustomStudy();
+    // A deck keeps its own study mode; every deck shares the one in globalState
+    const deck = this._deckId ? this._decks.get(this._deckId) : undefined;
+    if (deck) {
+      const updated = updateDeck(deck, { studyMode: mode });
+      await this._storage.appendDeck(updated);
+      this._decks.set(updated.id, updated);
+    } else {
+      await this._context.globalState.update(STUDY_MODE_KEY, mode);
+    }
     logDebug('Study mode changed to', mode);
     
     // Reset session stats when mode changes
     this._session = resetSessionState(this._session);
+    this._invalidateCache();
+    this._undoHistory = createUndoHistory(MAX_UNDO_HISTORY);
     
     // Send confirmation back to UI
     await this._sendStudyMode();
@@ -259,7 +501,26 @@ export class FlashcardPanel {
     logDebug('Building new index');
     const cards = await this._storage.readAllCards();
     const events = await this._storage.readAllEvents();
-    const index = buildIndex(cards, events);
+    // Dictation has its own schedule, and spelling lapses don't make leeches
+    const dictation = this._studyMode === 'dictation';
+    const { index } = await buildConfiguredIndex(this._storage, cards, events, { dictation });
+    this._decks = getLatestDecks(await this._storage.readAllDecks());
+    const rolloverHour = getDayRolloverHour();
+    this._newCardsToday = countNewCardsToday(
+      index.cards,
+      this._decks,
+      events,
+      Date.now(),
+      dictation,
+      rolloverHour
+    );
+    this._reviewsToday = countReviewsToday(
+      index.cards,
+      events,
+      Date.now(),
+      dictation,
+      rolloverHour
+    );
     this._cachedIndex = index;
     return index;
   }
@@ -283,35 +544,73 @@ export class FlashcardPanel {
       logDebug('Recent cards', this._recentCards.cardIds.length);
       logDebug('Study mode', this._studyMode);
 
+      // Custom study draws from any matching card, due or not, up to its limit;
+      // otherwise cards come from the studied deck within each deck's new card
+      // limit and the daily review limit
+      const custom = this._customStudy;
+      if (custom && this._session.reviewCount >= custom.filter.limit) {
+        this._finishCustomStudy();
+        return;
+      }
+
       // Get scheduler options from study mode using extracted function
-      const { loopMode, dueOnly } = getSchedulerOptionsFromMode(this._studyMode);
+      const { loopMode, dueOnly } = custom
+        ? { loopMode: true, dueOnly: false }
+        : getSchedulerOptionsFromMode(this._studyMode);
+      const reviewsPerDay = custom ? undefined : getReviewsPerDay();
 
-      // Use getNextCard with forgetting curve optimization
+      // Use getNextReview with forgetting curve optimization
       // Pass recent cards to avoid immediate repetition
-      const card = getNextCard(index, now, {
+      const next = getNextReview(index, now, {
         loopMode,
         dueOnly,
         excludeCardId: this._currentCard?.id,
         recentCardIds: this._recentCards.cardIds,
+        reviewsPerDay,
+        todayReviewCount: this._reviewsToday,
+        rolloverHour: getDayRolloverHour(),
+        filter: custom
+          ? this._getCustomStudyFilter(custom, now)
+          : createDeckFilter({
+              decks: this._decks,
+              deckId: this._deckId ?? undefined,
+              newCardsToday: this._newCardsToday,
+              defaultNewCardsPerDay: getNewCardsPerDay(),
+            }),
       });
 
-      logDebug('Next card selected', card?.id ?? 'none');
+      logDebug('Next card selected', next?.card.id ?? 'none', next?.direction);
 
       // Track current card as recently seen
       if (this._currentCard) {
         this._recentCards = addToRecentCards(this._recentCards, this._currentCard.id);
       }
 
-      this._currentCard = card;
-
-      if (card) {
-        const srs = index.srsStates.get(card.id);
-        this._postMessage({ type: 'card', card, srs });
+      if (next) {
+        this._showCard(index, next.card, next.direction);
+      } else if (custom) {
+        this._finishCustomStudy();
       } else {
+        this._currentCard = null;
         // Check if we should show session complete using extracted function
+        const deck = this._deckId ? this._decks.get(this._deckId) : undefined;
         if (shouldShowSessionComplete(this._studyMode, false, this._session.reviewCount)) {
           const stats = calculateSessionStats(this._session);
           this._postMessage({ type: 'session_complete', stats });
+        } else if (
+          reviewsPerDay !== undefined &&
+          this._reviewsToday >= reviewsPerDay &&
+          index.dueCards.length > 0
+        ) {
+          this._postMessage({
+            type: 'empty',
+            message: `⏸️ Daily review limit of ${reviewsPerDay} reached. The rest stay due for tomorrow.`,
+          });
+        } else if (deck) {
+          this._postMessage({
+            type: 'empty',
+            message: `📭 Nothing to study in "${deck.name}" right now.`,
+          });
         } else {
           this._postMessage({
             type: 'empty',
@@ -326,52 +625,334 @@ export class FlashcardPanel {
     }
   }
 
-  private async _handleRateCard(cardId: string, rating: ReviewRating) {
+  /**
+   * Scheduler filter for a custom session: matching reviews not yet shown in it
+   */
+  private _getCustomStudyFilter(custom: CustomStudySession, now: number): ReviewFilter {
+    const matches = createCustomStudyPredicate(custom.filter, now);
+    return (card, srs) =>
+      matches(card, srs) && !custom.studiedKeys.has(getReviewKey(srs.cardId, srs.direction));
+  }
+
+  /**
+   * End the custom session with its summary, or a note when nothing matched
+   */
+  private _finishCustomStudy() {
+    this._endCustomStudy();
+    this._currentCard = null;
+    if (this._session.reviewCount > 0) {
+      this._postMessage({ type: 'session_complete', stats: calculateSessionStats(this._session) });
+    } else {
+      this._postMessage({ type: 'empty', message: '🔎 No cards match this custom study.' });
+    }
+  }
+
+  private _endCustomStudy() {
+    if (this._customStudy) {
+      logDebug('Custom study ended');
+      this._customStudy = null;
+    }
+  }
+
+  private async _handleRateCard(msg: RateCardMessage) {
     try {
-      // Check if this was a new card (first review)
-      const index = await this._getOrBuildIndex();
-      const currentSrs = index.srsStates.get(cardId);
-      const wasNewCard = isNewCard(currentSrs);
-      
-      // Update session statistics using extracted function
-      this._session = updateSessionAfterRating(this._session, rating, wasNewCard);
-
-      // Create and save review event
-      const event = createReviewEvent({
-        cardId,
+      await this._recordReview({
+        cardId: msg.cardId,
+        rating: msg.rating,
+        mode: msg.mode,
+        durationMs: msg.durationMs ?? this._getAnswerDuration(msg.cardId),
+        direction: msg.direction === 'reverse' ? msg.direction : undefined,
+        typedAnswer: msg.typedAnswer,
+      });
+
+      // Send next card
+      await this._sendNextCard();
+    } catch (error) {
+      logError('Error handling card rating', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  /**
+   * Time since the rated card was sent, or undefined if it isn't the current card
+   */
+  private _getAnswerDuration(cardId: string): number | undefined {
+    return this._currentCard?.id === cardId && this._cardShownAt > 0
+      ? Date.now() - this._cardShownAt
+      : undefined;
+  }
+
+  /**
+   * Rate a quiz choice by correctness and time, and show which option was right.
+   * The webview moves on to the next card when the learner is ready.
+   */
+  private async _handleAnswerQuiz(msg: AnswerQuizMessage) {
+    try {
+      const quiz = this._currentQuiz;
+      if (!quiz || quiz.cardId !== msg.cardId) {
+        this._postMessage({ type: 'error', message: 'Quiz question not found' });
+        return;
+      }
+      this._currentQuiz = null;
+
+      const rating = rateQuizAnswer(msg.choice === quiz.correctIndex, msg.durationMs);
+      await this._recordReview({
+        cardId: quiz.cardId,
         rating,
-        mode: 'flashcard',
+        mode: 'quiz',
+        durationMs: msg.durationMs,
       });
-      await this._storage.appendEvent(event);
 
-      // Invalidate cache after data change
+      this._postMessage({
+        type: 'quiz_result',
+        cardId: quiz.cardId,
+        choice: msg.choice,
+        correctIndex: quiz.correctIndex,
+        rating,
+      });
+    } catch (error) {
+      logError('Error handling quiz answer', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  /**
+   * Save a review event and update the session, undo history, index and leech state
+   */
+  private async _recordReview(input: CreateReviewEventInput) {
+    // Check if this was a new card (first review)
+    const index = await this._getOrBuildIndex();
+    const key = getReviewKey(input.cardId, input.direction);
+    const currentSrs = index.srsStates.get(key);
+    const wasNewCard = isNewCard(currentSrs);
+    const sessionBefore = this._session;
+
+    // Update session statistics using extracted function
+    this._session = updateSessionAfterRating(this._session, input.rating, wasNewCard);
+
+    // Create and save review event
+    const event = createReviewEvent(input);
+    await this._storage.appendEvent(event);
+    this._customStudy?.studiedKeys.add(key);
+    this._undoHistory = pushUndoEntry(this._undoHistory, { event, session: sessionBefore });
+
+    // Invalidate cache after data change
+    this._invalidateCache();
+
+    // Rebuild index and SRS state
+    const newIndex = await this._getOrBuildIndex();
+
+    // Save updated index (SRS states were re-derived by the configured algorithm)
+    if (newIndex.srsStates.has(key)) {
+      await this._saveIndex(newIndex);
+    }
+
+    const card = newIndex.cards.get(input.cardId);
+    if (card && becameLeech(currentSrs, newIndex.srsStates.get(key))) {
+      await this._handleNewLeech(card, newIndex.srsStates.get(key)?.lapses ?? 0);
+    }
+  }
+
+  /**
+   * Grade an answer typed on the card front and send back the diff and suggested rating
+   */
+  private async _handleCheckAnswer(msg: CheckAnswerMessage) {
+    try {
+      const index = await this._getOrBuildIndex();
+      const card = index.cards.get(msg.cardId);
+      if (!card) {
+        this._postMessage({ type: 'error', message: 'Card not found' });
+        return;
+      }
+
+      const grade = gradeTypedAnswer(card, msg.field, msg.answer, msg.durationMs);
+      logDebug('Typed answer graded', card.id, grade.accuracy, grade.suggestedRating);
+      this._postMessage({ type: 'answer_result', cardId: card.id, grade });
+    } catch (error) {
+      logError('Error checking typed answer', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  /**
+   * Take back the most recent rating of this session: append an undo event,
+   * restore the session stats and show the card again with its prior SrsState
+   */
+  private async _handleUndoLastRating() {
+    try {
+      const { state, entry } = popUndoEntry(this._undoHistory);
+      this._undoHistory = state;
+
+      if (!entry) {
+        vscode.window.showInformationMessage('WordSlash: Nothing to undo.');
+        return;
+      }
+
+      await this._storage.appendEvent(createUndoEvent(entry.event));
+      this._session = entry.session;
+      this._customStudy?.studiedKeys.delete(
+        getReviewKey(entry.event.cardId, entry.event.direction)
+      );
+      logDebug('Rating undone', entry.event.id);
+
       this._invalidateCache();
+      const index = await this._getOrBuildIndex();
+      await this._saveIndex(index);
 
-      // Rebuild index and SRS state
-      const newIndex = await this._getOrBuildIndex();
-
-      // Get current SRS state and calculate next
-      const newSrs = newIndex.srsStates.get(cardId);
-      if (newSrs) {
-        // Note: nextSrs calculation validates the SRS algorithm but index is already rebuilt
-        calculateNextState(newSrs, rating, Date.now());
-        // Save updated index
-        await this._storage.atomicWriteJson('index.json', {
-          version: 1,
-          srsStates: Object.fromEntries(newIndex.srsStates),
-          updatedAt: Date.now(),
-        });
+      const card = index.cards.get(entry.event.cardId);
+      const direction = entry.event.direction ?? 'forward';
+      if (!card || !getCardDirections(card).includes(direction)) {
+        // Card was deleted (or no longer reviewed this way) since it was rated
+        await this._sendNextCard();
+        return;
       }
 
-      // Send next card
+      this._showCard(index, card, direction);
+    } catch (error) {
+      logError('Error undoing rating', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'error', message });
+    }
+  }
+
+  /**
+   * Persist an edit from the card back as a new card version
+   */
+  private async _handleUpdateCard(cardId: string, edit: CardEditInput) {
+    try {
+      const validationError = validateCardEdit(edit);
+      if (validationError) {
+        this._postMessage({ type: 'card_update_error', message: validationError });
+        return;
+      }
+
+      const index = await this._getOrBuildIndex();
+      const card = index.cards.get(cardId);
+      if (!card) {
+        this._postMessage({ type: 'card_update_error', message: 'Card not found' });
+        return;
+      }
+
+      const clozeError = validateClozeEdit(card, edit);
+      if (clozeError) {
+        this._postMessage({ type: 'card_update_error', message: clozeError });
+        return;
+      }
+
+      // Cloze edits also update, add or delete the sentence's sibling cards
+      const updates = syncClozeNote(applyCardEdit(card, edit), index.cards.values());
+      const updated = updates[0];
+      await this._storage.appendCards(updates);
+      logDebug('Card updated', updated.id, updated.version);
+
+      this._invalidateCache();
+      if (this._currentCard?.id === cardId) {
+        this._currentCard = updated;
+      }
+      this._postMessage({ type: 'card_updated', card: updated, srs: index.srsStates.get(cardId) });
+    } catch (error) {
+      logError('Error updating card', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this._postMessage({ type: 'card_update_error', message });
+    }
+  }
+
+  /**
+   * Tag (and optionally suspend) a card that just crossed the leech threshold
+   */
+  private async _handleNewLeech(card: Card, lapses: number) {
+    const { autoSuspend } = getLeechOptions();
+    const updated = markLeech(card, autoSuspend);
+    if (updated) {
+      await this._storage.appendCard(updated);
+      this._invalidateCache();
+    }
+    logDebug('Card became a leech', card.id, lapses);
+
+    const action = autoSuspend ? 'tagged and suspended' : 'tagged';
+    vscode.window.showWarningMessage(
+      `WordSlash: "${card.front.term}" has lapsed ${lapses} times and was ${action} as a leech. ` +
+        'Consider rewriting it from the Dashboard.'
+    );
+  }
+
+  /**
+   * Take a card out of scheduling (suspend or bury) and move on to the next card
+   */
+  private async _handleHideCard(cardId: string, updates: UpdateCardInput, notice: string) {
+    try {
+      const index = await this._getOrBuildIndex();
+      const card = index.cards.get(cardId);
+      if (!card) {
+        this._postMessage({ type: 'error', message: 'Card not found' });
+        return;
+      }
+
+      const updated = updateCard(card, updates);
+      await this._storage.appendCard(updated);
+      logDebug('Card hidden from scheduling', updated.id, updated.version);
+
+      this._invalidateCache();
+      vscode.window.showInformationMessage(`WordSlash: ${notice}`);
       await this._sendNextCard();
     } catch (error) {
-      logError('Error handling card rating', error);
+      logError('Error hiding card', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
       this._postMessage({ type: 'error', message });
     }
   }
 
+  /**
+   * Make a card the current one and send it to the webview in a direction
+   */
+  private _showCard(index: CardIndex, card: Card, direction: CardDirection) {
+    this._currentCard = card;
+    this._currentDirection = direction;
+    this._cardShownAt = Date.now();
+    const srs = index.srsStates.get(getReviewKey(card.id, direction));
+    // Quiz mode asks forward directions as questions; anything else is a flashcard
+    this._currentQuiz =
+      this._studyMode === 'quiz' && direction === 'forward' ? buildQuizQuestion(card, index) : null;
+    const dictation = this._studyMode === 'dictation';
+    let answerField: AnswerField | null = null;
+    if (dictation) {
+      answerField = 'term';
+    } else if (isTypeAnswerEnabled() && !this._currentQuiz) {
+      answerField = getAnswerField(card, direction === 'reverse');
+    }
+    this._postMessage({
+      type: 'card',
+      card,
+      srs,
+      direction: direction === 'reverse' ? direction : undefined,
+      answerField: answerField ?? undefined,
+      quizOptions: this._currentQuiz?.options,
+      dictation: dictation || undefined,
+      customStudy: this._customStudy
+        ? {
+            label: describeCustomStudy(this._customStudy.filter),
+            reviewed: this._session.reviewCount,
+            limit: this._customStudy.filter.limit,
+          }
+        : undefined,
+    });
+  }
+
+  private async _saveIndex(index: CardIndex) {
+    // index.json holds recognition states only, never the dictation schedule
+    if (this._studyMode === 'dictation') {
+      return;
+    }
+    await this._storage.atomicWriteJson('index.json', {
+      version: 1,
+      srsStates: Object.fromEntries(index.srsStates),
+      updatedAt: Date.now(),
+    });
+  }
+
   private _postMessage(message: ExtensionToUiMessage) {
     this._panel.webview.postMessage(message);
   }
@@ -1,7 +1,7 @@
 // Webview panel - Message handlers and session logic
 // PURE MODULE: No vscode imports allowed - fully testable
 
-import type { Card, ReviewRating, SrsState, CardIndex } from '../storage/schema';
+import type { Card, ReviewEvent, ReviewRating, SrsState, CardIndex } from '../storage/schema';
 import type { SessionStats, StudyMode } from './protocol';
 
 /**
@@ -77,7 +77,7 @@ export function calculateSessionStats(state: SessionState, endTime?: number): Se
  * Check if a card is new (never reviewed)
  */
 export function isNewCard(srs: SrsState | undefined): boolean {
-  return !srs || srs.reps === 0;
+  return !srs || srs.phase === 'new';
 }
 
 /**
@@ -125,6 +125,56 @@ export function clearRecentCards(state: RecentCardsState): RecentCardsState {
   };
 }
 
+/**
+ * A rating that can be taken back, with the session stats from before it
+ */
+export interface UndoEntry {
+  event: ReviewEvent;
+  session: SessionState;
+}
+
+/**
+ * Undo history - most recent rating first
+ */
+export interface UndoHistoryState {
+  entries: UndoEntry[];
+  maxSize: number;
+}
+
+/**
+ * Create empty undo history
+ */
+export function createUndoHistory(maxSize: number): UndoHistoryState {
+  return {
+    entries: [],
+    maxSize,
+  };
+}
+
+/**
+ * Record a rating in the undo history, dropping the oldest beyond maxSize
+ */
+export function pushUndoEntry(state: UndoHistoryState, entry: UndoEntry): UndoHistoryState {
+  return {
+    ...state,
+    entries: [entry, ...state.entries].slice(0, state.maxSize),
+  };
+}
+
+/**
+ * Take the most recent rating off the undo history
+ */
+export function popUndoEntry(state: UndoHistoryState): {
+  state: UndoHistoryState;
+  entry: UndoEntry | null;
+} {
+  const [entry, ...rest] = state.entries;
+  return {
+    state: { ...state, entries: rest },
+    entry: entry ?? null,
+  };
+}
+
 /**
  * Get scheduler options based on study mode
  */
@@ -144,6 +194,10 @@ export function getSchedulerOptionsFromMode(mode: StudyMode): SchedulerModeOptio
       return { loopMode: false, dueOnly: false };
     case 'dueOnly':
       return { loopMode: false, dueOnly: true };
+    case 'quiz':
+      return { loopMode: true, dueOnly: false };
+    case 'dictation':
+      return { loopMode: false, dueOnly: false };
     default:
       return { loopMode: true, dueOnly: false };
   }
@@ -198,6 +198,39 @@ export const FLASHCARD_STYLES = `
       letter-spacing: 0.02em;
     }
     
+    .term.cloze {
+      font-size: 1.7em;
+      font-weight: 500;
+      line-height: 1.7;
+      letter-spacing: normal;
+      font-family: var(--vscode-font-family);
+    }
+    
+    .cloze-blank, .cloze-answer {
+      padding: 0 0.3em;
+      border-bottom: 2px dashed var(--accent-blue);
+      -webkit-text-fill-color: var(--accent-blue);
+    }
+    
+    .term.reverse {
+      font-size: 2em;
+      letter-spacing: normal;
+      font-family: var(--vscode-font-family);
+    }
+    
+    .reverse-label {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 10px;
+    }
+    
+    .cloze-answer {
+      font-weight: 700;
+      border-bottom-style: solid;
+      border-bottom-color: var(--accent-green);
+      -webkit-text-fill-color: var(--accent-green);
+    }
+    
     .morphemes {
       font-size: 1.9em;
       background: linear-gradient(90deg, var(--accent-blue) 0%, var(--accent-green) 100%);
@@ -389,6 +422,104 @@ export const FLASHCARD_STYLES = `
       box-shadow: 0 4px 15px rgba(25, 118, 210, 0.3);
     }
     
+    .buttons button.suggested {
+      outline: 3px solid var(--accent-blue);
+      outline-offset: 3px;
+    }
+    
+    .answer-input {
+      display: block;
+      width: 100%;
+      max-width: 420px;
+      margin: 24px auto 0;
+      padding: 10px 14px;
+      font-size: 1.15em;
+      text-align: center;
+      border-radius: 10px;
+      border: 1px solid var(--vscode-input-border, rgba(255, 255, 255, 0.15));
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+    }
+    
+    .answer-result {
+      margin-bottom: 20px;
+    }
+    
+    .answer-diff {
+      font-size: 1.3em;
+      font-family: var(--vscode-editor-font-family), Monaco, Consolas, monospace;
+      letter-spacing: 0.03em;
+    }
+    
+    .diff-missing {
+      color: var(--accent-green);
+      text-decoration: underline;
+    }
+    
+    .diff-extra {
+      color: var(--vscode-errorForeground);
+      text-decoration: line-through;
+    }
+    
+    .answer-meta {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+      margin-top: 6px;
+    }
+    
+    .dictation-controls {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 14px;
+    }
+    
+    .dictation-label {
+      font-size: 1.2em;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .dictation-controls .btn-speak {
+      width: auto;
+      padding: 0 18px;
+      margin: 0 4px;
+      border-radius: 20px;
+      font-size: 1em;
+    }
+    
+    .quiz-options {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 12px;
+      margin-top: 24px;
+    }
+    
+    .quiz-options button {
+      padding: 14px 16px;
+      font-size: 1.05em;
+      border-radius: 12px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      text-align: left;
+    }
+    
+    .quiz-options button:disabled {
+      cursor: default;
+      opacity: 0.7;
+    }
+    
+    .quiz-options button.quiz-correct {
+      background: var(--accent-green);
+      color: white;
+      opacity: 1;
+    }
+    
+    .quiz-options button.quiz-wrong {
+      background: var(--vscode-errorForeground);
+      color: white;
+      opacity: 1;
+    }
+    
     .btn-reveal {
       background: var(--accent-gradient);
       color: white;
@@ -562,6 +693,70 @@ export const FLASHCARD_STYLES = `
       display: none;
     }
     
+    .card-edit {
+      text-align: left;
+    }
+    
+    .edit-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 12px;
+    }
+    
+    .edit-field {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+    
+    .edit-field.wide {
+      grid-column: 1 / -1;
+    }
+    
+    .edit-field label {
+      font-size: 0.85em;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .edit-field input, .edit-field textarea, .edit-field select {
+      font-family: var(--vscode-font-family);
+      font-size: 0.95em;
+      padding: 6px 8px;
+      border-radius: 6px;
+      border: 1px solid var(--vscode-input-border, rgba(255, 255, 255, 0.15));
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+    }
+    
+    .edit-field textarea {
+      min-height: 56px;
+      resize: vertical;
+    }
+    
+    .edit-error {
+      color: var(--vscode-errorForeground);
+      margin-top: 12px;
+      min-height: 1em;
+    }
+    
+    .btn-edit {
+      background: rgba(255, 255, 255, 0.1);
+      color: var(--vscode-button-secondaryForeground);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+    }
+    
+    .btn-save {
+      background: var(--accent-gradient);
+      color: white;
+    }
+    
+    .notes {
+      font-size: 0.95em;
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+      margin-top: 12px;
+    }
+    
     .context-info {
       font-size: 1.2em;
       color: var(--vscode-descriptionForeground);
@@ -574,11 +769,16 @@ export const FLASHCARD_STYLES = `
  */
 export const FLASHCARD_HTML_BODY = `
   <div class="toolbar">
+    <select id="deck-select" class="mode-select hidden" onchange="setDeck(this.value)" title="Deck"></select>
     <select id="mode-select" class="mode-select" onchange="setStudyMode(this.value)" title="Study Mode">
       <option value="loop">🔄 Loop</option>
       <option value="studyUntilEmpty">📚 Until Done</option>
       <option value="dueOnly">⏰ Due Only</option>
+      <option value="quiz">🎯 Quiz</option>
+      <option value="dictation">🎧 Dictation</option>
     </select>
+    <button class="btn-toolbar hidden" id="custom-study-chip" onclick="endCustomStudy()" title="End custom study">🔎 <span id="custom-study-label"></span> ✕</button>
+    <button class="btn-toolbar" onclick="undoLastRating()" title="Undo last rating (Ctrl+Z)">↩️ Undo</button>
     <button class="btn-toolbar" onclick="refresh()" title="Refresh data">🔄 Refresh</button>
     <button class="btn-toolbar" onclick="openSettings()" title="Settings">⚙️</button>
   </div>
@@ -587,9 +787,18 @@ export const FLASHCARD_HTML_BODY = `
     <div class="card" id="card-view">
       <!-- Card Front -->
       <div class="card-side card-front" id="card-front">
-        <div class="term-container">
+        <div class="reverse-label hidden" id="reverse-label">↩️ Recall the term</div>
+        <div class="dictation-controls hidden" id="dictation-controls">
+          <div class="dictation-label">🎧 Type what you hear</div>
+          <div>
+            <button class="btn-speak" onclick="speakTerm()" title="Play the term again">🔊 Play again</button>
+            <button class="btn-speak" id="dictation-example" onclick="speakExample()" title="Play the example sentence">💬 Example</button>
+          </div>
+        </div>
+        <div class="term-container" id="term-container-front">
           <div class="term" id="term"></div>
         </div>
+        <div class="explanation hidden" id="explanation-front"></div>
         <div class="phonetic-container" id="phonetic-container">
           <div class="phonetic" id="phonetic"></div>
           <button class="btn-speak btn-speak-small" onclick="speakTerm()" title="Pronounce term">🔊</button>
@@ -603,13 +812,18 @@ export const FLASHCARD_HTML_BODY = `
           </div>
         </div>
         
-        <div class="buttons">
+        <input class="answer-input hidden" id="answer-input" type="text" autocomplete="off" spellcheck="false" onkeydown="if (event.key === 'Enter') revealBack()">
+        
+        <div class="quiz-options hidden" id="quiz-options"></div>
+        
+        <div class="buttons" id="reveal-buttons">
           <button class="btn-reveal" onclick="revealBack()">Show Answer</button>
         </div>
       </div>
       
       <!-- Card Back -->
       <div class="card-side card-back hidden" id="card-back">
+        <div class="answer-result hidden" id="answer-result"></div>
         <div class="term-container">
           <div class="term" id="term-back"></div>
         </div>
@@ -633,12 +847,44 @@ export const FLASHCARD_HTML_BODY = `
         
         <div class="synonyms" id="synonyms"></div>
         <div class="antonyms" id="antonyms"></div>
+        <div class="notes" id="notes"></div>
         
-        <div class="buttons">
+        <div class="buttons hidden" id="quiz-next">
+          <button class="btn-reveal" onclick="nextQuizCard()">Next →</button>
+        </div>
+        
+        <div class="buttons" id="rating-buttons">
           <button class="btn-again" onclick="rate('again')">Again</button>
           <button class="btn-hard" onclick="rate('hard')">Hard</button>
           <button class="btn-good" onclick="rate('good')">Good</button>
           <button class="btn-easy" onclick="rate('easy')">Easy</button>
+          <button class="btn-edit" onclick="startEdit()" title="Edit this card">✏️ Edit</button>
+          <button class="btn-edit" onclick="buryCard()" title="Hide this card until tomorrow">💤 Bury</button>
+          <button class="btn-edit" onclick="suspendCard()" title="Stop scheduling this card">⏸️ Suspend</button>
+        </div>
+      </div>
+      
+      <!-- Card Edit Form -->
+      <div class="card-side card-edit hidden" id="card-edit">
+        <div class="edit-grid">
+          <div class="edit-field"><label for="edit-term">Term</label><input id="edit-term" type="text"></div>
+          <div class="edit-field"><label for="edit-phonetic">Phonetic</label><input id="edit-phonetic" type="text"></div>
+          <div class="edit-field wide"><label for="edit-morphemes">Morphemes (separated by +)</label><input id="edit-morphemes" type="text"></div>
+          <div class="edit-field wide"><label for="edit-translation">Translation</label><input id="edit-translation" type="text"></div>
+          <div class="edit-field wide"><label for="edit-explanation">Explanation</label><textarea id="edit-explanation"></textarea></div>
+          <div class="edit-field wide"><label for="edit-explanation-cn">Explanation (中文)</label><textarea id="edit-explanation-cn"></textarea></div>
+          <div class="edit-field wide"><label for="edit-example">Example</label><textarea id="edit-example"></textarea></div>
+          <div class="edit-field wide"><label for="edit-example-cn">Example (中文)</label><textarea id="edit-example-cn"></textarea></div>
+          <div class="edit-field"><label for="edit-synonyms">Synonyms (comma separated)</label><input id="edit-synonyms" type="text"></div>
+          <div class="edit-field"><label for="edit-antonyms">Antonyms (comma separated)</label><input id="edit-antonyms" type="text"></div>
+          <div class="edit-field wide"><label for="edit-notes">Notes</label><textarea id="edit-notes"></textarea></div>
+          <div class="edit-field wide"><label for="edit-tags">Tags (comma separated)</label><input id="edit-tags" type="text"></div>
+          <div class="edit-field"><label for="edit-directions">Review directions</label><select id="edit-directions"><option value="forward">Forward (term → meaning)</option><option value="reverse">Reverse (meaning → term)</option><option value="both">Both</option></select></div>
+        </div>
+        <div class="edit-error" id="edit-error"></div>
+        <div class="buttons">
+          <button class="btn-edit" onclick="cancelEdit()">Cancel</button>
+          <button class="btn-save" onclick="saveEdit()">Save</button>
         </div>
       </div>
     </div>
@@ -680,6 +926,20 @@ export const FLASHCARD_HTML_BODY = `
 export const FLASHCARD_SCRIPT = `
     const vscode = acquireVsCodeApi();
     let currentCard = null;
+    let currentDirection = 'forward';
+    
+    // Typed answer mode: field to type (null when off), and what the rating records
+    let answerField = null;
+    let cardShownAt = 0;
+    let revealDurationMs = undefined;
+    let typedAnswer = undefined;
+    
+    // Dictation mode: the front hides the term and plays it instead
+    let dictationMode = false;
+    
+    // Quiz mode: options of the current question (null for flashcards)
+    let quizOptions = null;
+    let quizAnswered = false;
     
     // TTS settings
     let ttsSettings = {
@@ -819,14 +1079,40 @@ export const FLASHCARD_SCRIPT = `
         case 'study_mode':
           updateModeSelector(message.mode);
           break;
+        case 'decks':
+          updateDeckSelector(message.decks, message.deckId);
+          break;
         case 'card':
           console.log('[WordSlash UI] Displaying card:', message.card.front.term);
-          showCard(message.card, message.srs);
+          updateCustomStudyChip(message.customStudy);
+          showCard(message.card, message.srs, message.direction, message.answerField, message.quizOptions, message.dictation);
+          break;
+        case 'quiz_result':
+          if (currentCard && currentCard.id === message.cardId) {
+            showQuizResult(message);
+          }
+          break;
+        case 'answer_result':
+          if (currentCard && currentCard.id === message.cardId) {
+            showAnswerResult(message.grade);
+          }
+          break;
+        case 'card_updated':
+          if (currentCard && currentCard.id === message.card.id) {
+            currentCard = message.card;
+            renderCard(message.card);
+            cancelEdit();
+          }
+          break;
+        case 'card_update_error':
+          document.getElementById('edit-error').textContent = message.message;
           break;
         case 'empty':
+          updateCustomStudyChip(undefined);
           showEmpty(message.message);
           break;
         case 'session_complete':
+          updateCustomStudyChip(undefined);
           showSessionComplete(message.stats);
           break;
         case 'error':
@@ -846,6 +1132,42 @@ export const FLASHCARD_SCRIPT = `
       vscode.postMessage({ type: 'set_study_mode', mode: mode });
     }
     
+    // The deck picker shows once there is more than the default deck
+    function updateDeckSelector(decks, deckId) {
+      const selector = document.getElementById('deck-select');
+      selector.innerHTML = '';
+      const all = document.createElement('option');
+      all.value = '';
+      all.textContent = '🗂️ All decks';
+      selector.appendChild(all);
+      decks.forEach(deck => {
+        const option = document.createElement('option');
+        option.value = deck.id;
+        option.textContent = '📦 ' + deck.name;
+        selector.appendChild(option);
+      });
+      selector.value = deckId || '';
+      selector.classList.toggle('hidden', decks.length < 2 && !deckId);
+    }
+    
+    function setDeck(deckId) {
+      vscode.postMessage({ type: 'set_deck', deckId: deckId || undefined });
+    }
+    
+    // Custom study sessions show their filter and progress in the toolbar
+    function updateCustomStudyChip(customStudy) {
+      const chip = document.getElementById('custom-study-chip');
+      if (customStudy) {
+        document.getElementById('custom-study-label').textContent =
+          customStudy.label + ' · ' + customStudy.reviewed + '/' + customStudy.limit;
+      }
+      chip.classList.toggle('hidden', !customStudy);
+    }
+    
+    function endCustomStudy() {
+      vscode.postMessage({ type: 'end_custom_study' });
+    }
+    
     function showSessionComplete(stats) {
       document.getElementById('card-view').classList.add('hidden');
       document.getElementById('empty-view').classList.add('hidden');
@@ -867,8 +1189,16 @@ export const FLASHCARD_SCRIPT = `
     
     let isTransitioning = false;
     
-    function showCard(card, srs) {
+    function showCard(card, srs, direction, field, options, dictation) {
       currentCard = card;
+      dictationMode = !!dictation;
+      currentDirection = direction || 'forward';
+      answerField = field || null;
+      quizOptions = options || null;
+      quizAnswered = false;
+      cardShownAt = Date.now();
+      revealDurationMs = undefined;
+      typedAnswer = undefined;
       
       const cardView = document.getElementById('card-view');
       
@@ -885,15 +1215,44 @@ export const FLASHCARD_SCRIPT = `
       cardView.classList.remove('flipped');
       document.getElementById('card-front').classList.remove('hidden');
       document.getElementById('card-back').classList.add('hidden');
+      document.getElementById('card-edit').classList.add('hidden');
       document.getElementById('empty-view').classList.add('hidden');
       document.getElementById('session-complete-view').classList.add('hidden');
       
+      renderCard(card);
+      prepareAnswerInput();
+      prepareQuiz();
+      
+      // Dictation plays the term even with auto-play off; it is the question
+      if (ttsSettings.autoPlay || dictationMode) {
+        speak();
+      }
+    }
+    
+    // Fill both card sides from card fields (no view or audio changes)
+    function renderCard(card) {
+      // Cloze cards show their sentence in place of the term, and reverse cards
+      // show the meaning instead; neither shows anything on the front that
+      // would give the answer away
+      const isCloze = isClozeCard(card);
+      const isReverse = isReverseCard(card);
+      const hideFront = isCloze || isReverse || dictationMode;
+      
       // === FRONT SIDE ===
-      document.getElementById('term').textContent = card.front.term;
+      renderTerm(document.getElementById('term'), card, false);
+      document.getElementById('term-container-front').classList.toggle('hidden', dictationMode);
+      document.getElementById('dictation-controls').classList.toggle('hidden', !dictationMode);
+      document.getElementById('dictation-example').classList.toggle('hidden', !card.front.example);
+      
+      document.getElementById('reverse-label').classList.toggle('hidden', !isReverse);
+      const explanationFrontEl = document.getElementById('explanation-front');
+      const reverseExplanation = isReverse && card.back.translation ? card.back.explanation : '';
+      explanationFrontEl.textContent = reverseExplanation || '';
+      explanationFrontEl.classList.toggle('hidden', !reverseExplanation);
       
       const phoneticContainer = document.getElementById('phonetic-container');
       const phoneticEl = document.getElementById('phonetic');
-      if (card.front.phonetic) {
+      if (card.front.phonetic && !hideFront) {
         phoneticEl.textContent = card.front.phonetic;
         phoneticContainer.classList.remove('hidden');
       } else {
@@ -901,7 +1260,7 @@ export const FLASHCARD_SCRIPT = `
       }
       
       const morphemesEl = document.getElementById('morphemes');
-      if (card.front.morphemes && card.front.morphemes.length > 0) {
+      if (card.front.morphemes && card.front.morphemes.length > 0 && !hideFront) {
         morphemesEl.innerHTML = card.front.morphemes
           .map(m => '<span class="morpheme">' + m + '</span>')
           .join('<span class="separator">+</span>');
@@ -912,7 +1271,7 @@ export const FLASHCARD_SCRIPT = `
       
       const exampleContainerFront = document.getElementById('example-container-front');
       const exampleFrontEl = document.getElementById('example-front');
-      if (card.front.example) {
+      if (card.front.example && !hideFront) {
         exampleFrontEl.textContent = card.front.example;
         exampleContainerFront.classList.remove('hidden');
       } else {
@@ -922,7 +1281,7 @@ export const FLASHCARD_SCRIPT = `
       // === BACK SIDE ===
       const back = card.back || {};
       
-      document.getElementById('term-back').textContent = card.front.term;
+      renderTerm(document.getElementById('term-back'), card, true);
       document.getElementById('phonetic-back').textContent = card.front.phonetic || '';
       
       const morphemesBackEl = document.getElementById('morphemes-back');
@@ -945,8 +1304,10 @@ export const FLASHCARD_SCRIPT = `
       const exampleContainer = document.getElementById('example-container');
       const exampleEl = document.getElementById('example');
       const exampleCnEl = document.getElementById('example-cn');
-      if (card.front.example) {
-        exampleEl.textContent = card.front.example;
+      if (card.front.example && !(isCloze && !card.front.exampleCn)) {
+        // A cloze sentence is already the term; only its translation is shown here
+        exampleEl.textContent = isCloze ? '' : card.front.example;
+        exampleEl.parentElement.classList.toggle('hidden', isCloze);
         exampleCnEl.textContent = card.front.exampleCn || '';
         exampleContainer.classList.remove('hidden');
       } else {
@@ -969,10 +1330,266 @@ export const FLASHCARD_SCRIPT = `
         antonymsEl.classList.add('hidden');
       }
       
-      if (ttsSettings.autoPlay) {
-        speak();
+      document.getElementById('notes').textContent = back.notes || '';
+      document.getElementById('notes').classList.toggle('hidden', !back.notes);
+    }
+    
+    // ========== Cloze Rendering ==========
+    const CLOZE_PATTERN = /\\{\\{c(\\d+)::(.*?)(?:::(.*?))?\\}\\}/g;
+    
+    function isClozeCard(card) {
+      return card.type === 'cloze' && !!card.cloze;
+    }
+    
+    function escapeHtml(text) {
+      return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+    
+    // The card's own deletion is blanked (with its hint) on the front and
+    // highlighted on the back; other deletions read as plain text
+    function renderCloze(text, index, revealed) {
+      return escapeHtml(text).replace(CLOZE_PATTERN, (match, n, answer, hint) => {
+        if (Number(n) !== index) {
+          return answer;
+        }
+        if (revealed) {
+          return '<span class="cloze-answer">' + answer + '</span>';
+        }
+        return '<span class="cloze-blank">[' + (hint || '...') + ']</span>';
+      });
+    }
+    
+    function stripCloze(text) {
+      return text.replace(CLOZE_PATTERN, (match, n, answer) => answer);
+    }
+    
+    function renderTerm(el, card, revealed) {
+      const isCloze = isClozeCard(card);
+      const isReverse = !revealed && isReverseCard(card);
+      el.classList.toggle('cloze', isCloze);
+      el.classList.toggle('reverse', isReverse);
+      if (isReverse) {
+        el.textContent = card.back.translation || card.back.explanation;
+      } else if (isCloze) {
+        el.innerHTML = renderCloze(card.front.example || '', card.cloze.index, revealed);
+      } else {
+        el.textContent = card.front.term;
       }
     }
+    // ========== End Cloze Rendering ==========
+    
+    // Reverse cards ask for the term from the translation (or explanation)
+    function isReverseCard(card) {
+      return currentDirection === 'reverse' && !!card.back &&
+        !!(card.back.translation || card.back.explanation);
+    }
+    
+    // ========== Typed Answer ==========
+    const ANSWER_PLACEHOLDERS = {
+      dictation: 'Type what you hear, then press Enter',
+      term: 'Type the term, then press Enter',
+      translation: 'Type the translation, then press Enter'
+    };
+    
+    function prepareAnswerInput() {
+      const input = document.getElementById('answer-input');
+      input.value = '';
+      input.placeholder = answerField ? ANSWER_PLACEHOLDERS[dictationMode ? 'dictation' : answerField] : '';
+      input.classList.toggle('hidden', !answerField);
+      document.getElementById('answer-result').classList.add('hidden');
+      document.querySelectorAll('.buttons .suggested').forEach(btn => btn.classList.remove('suggested'));
+      if (answerField) {
+        input.focus();
+      }
+    }
+    
+    // Send a typed answer for grading; the result arrives as answer_result
+    function checkTypedAnswer() {
+      const input = document.getElementById('answer-input');
+      input.blur();
+      if (!answerField || !input.value.trim()) return;
+      
+      typedAnswer = input.value;
+      vscode.postMessage({
+        type: 'check_answer',
+        cardId: currentCard.id,
+        field: answerField,
+        answer: typedAnswer,
+        durationMs: revealDurationMs
+      });
+    }
+    
+    // Show the character diff and accuracy, and highlight the suggested rating
+    function showAnswerResult(grade) {
+      const diffHTML = grade.diff.map(segment => segment.kind === 'equal'
+        ? escapeHtml(segment.text)
+        : '<span class="diff-' + segment.kind + '">' + escapeHtml(segment.text) + '</span>'
+      ).join('');
+      const seconds = revealDurationMs !== undefined ? ' · ' + (revealDurationMs / 1000).toFixed(1) + 's' : '';
+      
+      const resultEl = document.getElementById('answer-result');
+      resultEl.innerHTML = '<div class="answer-diff">' + diffHTML + '</div>' +
+        '<div class="answer-meta">' + Math.round(grade.accuracy * 100) + '% correct' + seconds +
+        ' · suggested: ' + escapeHtml(grade.suggestedRating) + '</div>';
+      resultEl.classList.remove('hidden');
+      
+      const suggestedBtn = document.querySelector('.btn-' + grade.suggestedRating);
+      if (suggestedBtn) {
+        suggestedBtn.classList.add('suggested');
+      }
+    }
+    // ========== End Typed Answer ==========
+    
+    // ========== Quiz ==========
+    function prepareQuiz() {
+      const optionsEl = document.getElementById('quiz-options');
+      optionsEl.innerHTML = (quizOptions || []).map((option, i) =>
+        '<button onclick="answerQuiz(' + i + ')">' + (i + 1) + '. ' + escapeHtml(option) + '</button>'
+      ).join('');
+      optionsEl.classList.toggle('hidden', !quizOptions);
+      document.getElementById('reveal-buttons').classList.toggle('hidden', !!quizOptions);
+      document.getElementById('rating-buttons').classList.toggle('hidden', !!quizOptions);
+      document.getElementById('quiz-next').classList.add('hidden');
+    }
+    
+    // Choose an option; the extension rates it and replies with quiz_result
+    function answerQuiz(choice) {
+      if (!currentCard || !quizOptions || quizAnswered) return;
+      quizAnswered = true;
+      
+      document.querySelectorAll('#quiz-options button').forEach(btn => { btn.disabled = true; });
+      vscode.postMessage({
+        type: 'answer_quiz',
+        cardId: currentCard.id,
+        choice: choice,
+        durationMs: Date.now() - cardShownAt
+      });
+    }
+    
+    // Mark the right (and a wrong) choice, then show the card back with a Next button
+    function showQuizResult(result) {
+      const buttons = document.querySelectorAll('#quiz-options button');
+      buttons[result.correctIndex]?.classList.add('quiz-correct');
+      if (result.choice !== result.correctIndex) {
+        buttons[result.choice]?.classList.add('quiz-wrong');
+      }
+      
+      const correct = result.choice === result.correctIndex;
+      const resultEl = document.getElementById('answer-result');
+      resultEl.innerHTML = '<div class="answer-diff">' +
+        (correct ? '✅ Correct' : '❌ Not quite: ' + escapeHtml(quizOptions[result.correctIndex])) +
+        '</div><div class="answer-meta">rated ' + escapeHtml(result.rating) + '</div>';
+      resultEl.classList.remove('hidden');
+      document.getElementById('quiz-next').classList.remove('hidden');
+      
+      const cardId = currentCard.id;
+      setTimeout(() => {
+        if (currentCard && currentCard.id === cardId) revealBack();
+      }, correct ? 400 : 1200);
+    }
+    
+    function nextQuizCard() {
+      const cardView = document.getElementById('card-view');
+      cardView.classList.add('slide-out');
+      isTransitioning = true;
+      
+      setTimeout(() => {
+        vscode.postMessage({ type: 'next' });
+      }, 150);
+    }
+    // ========== End Quiz ==========
+    
+    // ========== Card Editing ==========
+    const EDIT_FIELDS = {
+      'edit-term': card => card.front.term,
+      'edit-phonetic': card => card.front.phonetic,
+      'edit-morphemes': card => (card.front.morphemes || []).join(' + '),
+      'edit-example': card => card.front.example,
+      'edit-example-cn': card => card.front.exampleCn,
+      'edit-translation': card => card.back && card.back.translation,
+      'edit-explanation': card => card.back && card.back.explanation,
+      'edit-explanation-cn': card => card.back && card.back.explanationCn,
+      'edit-synonyms': card => ((card.back && card.back.synonyms) || []).join(', '),
+      'edit-antonyms': card => ((card.back && card.back.antonyms) || []).join(', '),
+      'edit-notes': card => card.back && card.back.notes,
+      'edit-tags': card => (card.tags || []).join(', '),
+      'edit-directions': card => card.directions || 'forward'
+    };
+    
+    function editValue(id) {
+      return document.getElementById(id).value;
+    }
+    
+    function splitList(value, separator) {
+      return value.split(separator).map(item => item.trim()).filter(item => item.length > 0);
+    }
+    
+    function startEdit() {
+      if (!currentCard) return;
+      
+      for (const id in EDIT_FIELDS) {
+        document.getElementById(id).value = EDIT_FIELDS[id](currentCard) || '';
+      }
+      document.getElementById('edit-error').textContent = '';
+      
+      document.getElementById('card-back').classList.add('hidden');
+      document.getElementById('card-edit').classList.remove('hidden');
+      document.getElementById('edit-term').focus();
+    }
+    
+    function cancelEdit() {
+      document.getElementById('card-edit').classList.add('hidden');
+      document.getElementById('card-back').classList.remove('hidden');
+    }
+    
+    function saveEdit() {
+      if (!currentCard) return;
+      
+      const term = editValue('edit-term').trim();
+      if (!term) {
+        document.getElementById('edit-error').textContent = 'Term is required';
+        return;
+      }
+      
+      vscode.postMessage({
+        type: 'update_card',
+        cardId: currentCard.id,
+        edit: {
+          front: {
+            term: term,
+            phonetic: editValue('edit-phonetic'),
+            morphemes: splitList(editValue('edit-morphemes'), '+'),
+            example: editValue('edit-example'),
+            exampleCn: editValue('edit-example-cn')
+          },
+          back: {
+            translation: editValue('edit-translation'),
+            explanation: editValue('edit-explanation'),
+            explanationCn: editValue('edit-explanation-cn'),
+            synonyms: splitList(editValue('edit-synonyms'), ','),
+            antonyms: splitList(editValue('edit-antonyms'), ','),
+            notes: editValue('edit-notes')
+          },
+          tags: splitList(editValue('edit-tags'), ','),
+          directions: editValue('edit-directions')
+        }
+      });
+    }
+    // ========== End Card Editing ==========
+    
+    function buryCard() {
+      if (!currentCard) return;
+      vscode.postMessage({ type: 'bury_card', cardId: currentCard.id });
+    }
+    
+    function suspendCard() {
+      if (!currentCard) return;
+      vscode.postMessage({ type: 'suspend_card', cardId: currentCard.id });
+    }
     
     function showEmpty(message) {
       document.getElementById('card-view').classList.add('hidden');
@@ -1161,6 +1778,17 @@ export const FLASHCARD_SCRIPT = `
     
     function speak() {
       if (!currentCard) return;
+      if (isClozeCard(currentCard)) {
+        // Reading a cloze sentence out on the front would give the answer away
+        if (!document.getElementById('card-back').classList.contains('hidden')) {
+          speakText(stripCloze(currentCard.front.example || ''));
+        }
+        return;
+      }
+      // Likewise the term is the answer on the front of a reverse card
+      if (isReverseCard(currentCard) && document.getElementById('card-back').classList.contains('hidden')) {
+        return;
+      }
       speakText(currentCard.front.term);
     }
     
@@ -1171,7 +1799,7 @@ export const FLASHCARD_SCRIPT = `
     
     function speakExample() {
       if (!currentCard || !currentCard.front.example) return;
-      speakText(currentCard.front.example);
+      speakText(stripCloze(currentCard.front.example));
     }
     
     function speakWithTTS(text) {
@@ -1192,6 +1820,11 @@ export const FLASHCARD_SCRIPT = `
     function revealBack() {
       if (!currentCard) return;
       
+      if (revealDurationMs === undefined) {
+        revealDurationMs = Date.now() - cardShownAt;
+      }
+      checkTypedAnswer();
+      
       const cardFront = document.getElementById('card-front');
       const cardBack = document.getElementById('card-back');
       
@@ -1211,17 +1844,41 @@ export const FLASHCARD_SCRIPT = `
       const cardView = document.getElementById('card-view');
       cardView.classList.add('slide-out');
       isTransitioning = true;
+      const answerDurationMs = Date.now() - cardShownAt;
       
       setTimeout(() => {
         vscode.postMessage({
           type: 'rate_card',
           cardId: currentCard.id,
           rating: rating,
-          mode: 'flashcard'
+          mode: dictationMode ? 'dictation' : 'flashcard',
+          direction: currentDirection === 'reverse' ? 'reverse' : undefined,
+          durationMs: answerDurationMs,
+          typedAnswer: typedAnswer
         });
       }, 150);
     }
     
+    function undoLastRating() {
+      vscode.postMessage({ type: 'undo_last_rating' });
+    }
+    
+    // Ctrl+Z / Cmd+Z takes back the last rating (outside text inputs)
+    document.addEventListener('keydown', event => {
+      const target = event.target;
+      const isTyping = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+      if ((event.ctrlKey || event.metaKey) && !event.shiftKey && event.key.toLowerCase() === 'z' && !isTyping) {
+        event.preventDefault();
+        undoLastRating();
+      }
+      
+      // 1-4 choose a quiz option
+      const choice = Number(event.key) - 1;
+      if (quizOptions && !quizAnswered && !isTyping && choice >= 0 && choice < quizOptions.length) {
+        answerQuiz(choice);
+      }
+    });
+    
     function refresh() {
       vscode.postMessage({ type: 'refresh' });
     }
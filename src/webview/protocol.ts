@@ -2,15 +2,38 @@
 // PURE MODULE: No vscode imports allowed
 
 import type {
+  BrowseQuery,
+  BrowseResult,
+  BulkCardAction,
   Card,
+  CardDirection,
+  CardEditInput,
+  CardRevision,
+  LeechReport,
   ReviewRating,
+  ReviewTimelineEntry,
   SrsState,
   DashboardStats,
   KnowledgeGraph,
+  StudyMode,
 } from '../storage/schema';
+import type { AnswerField, TypedAnswerGrade } from '../srs/grading';
 
 // Study mode types
-export type StudyMode = 'loop' | 'studyUntilEmpty' | 'dueOnly';
+export type { StudyMode };
+
+// Deck offered by the deck picker
+export interface DeckOption {
+  id: string;
+  name: string;
+}
+
+// Custom study session shown above the card
+export interface CustomStudyProgress {
+  label: string;
+  reviewed: number;
+  limit: number;
+}
 
 // Session completion statistics
 export interface SessionStats {
@@ -27,10 +50,36 @@ export type RateCardMessage = {
   type: 'rate_card';
   cardId: string;
   rating: ReviewRating;
-  mode: 'flashcard';
+  mode: 'flashcard' | 'dictation';
+  /** Direction the card was shown in (omitted for forward) */
+  direction?: CardDirection;
+  /** Time from showing the card to rating it */
+  durationMs?: number;
+  /** Answer typed before revealing the back */
+  typedAnswer?: string;
+};
+export type CheckAnswerMessage = {
+  type: 'check_answer';
+  cardId: string;
+  field: AnswerField;
+  answer: string;
+  durationMs?: number;
+};
+export type AnswerQuizMessage = {
+  type: 'answer_quiz';
+  cardId: string;
+  /** Index of the chosen option */
+  choice: number;
+  /** Time from showing the question to choosing */
+  durationMs?: number;
 };
 export type RevealBackMessage = { type: 'reveal_back'; cardId: string };
+export type UndoLastRatingMessage = { type: 'undo_last_rating' };
+export type EndCustomStudyMessage = { type: 'end_custom_study' };
 export type NextMessage = { type: 'next' };
+export type UpdateCardMessage = { type: 'update_card'; cardId: string; edit: CardEditInput };
+export type SuspendCardMessage = { type: 'suspend_card'; cardId: string };
+export type BuryCardMessage = { type: 'bury_card'; cardId: string };
 
 // Dashboard messages
 export type GetDashboardStatsMessage = { type: 'get_dashboard_stats' };
@@ -41,35 +90,93 @@ export type GetKnowledgeGraphMessage = {
   filterTag?: string;
 };
 export type GetCardDetailsMessage = { type: 'get_card_details'; cardId: string };
+export type GetCardHistoryMessage = { type: 'get_card_history'; cardId: string };
+export type RevertCardMessage = { type: 'revert_card'; cardId: string; version: number };
+export type GetLeechesMessage = { type: 'get_leeches' };
+export type RewriteCardBackMessage = { type: 'rewrite_card_back'; cardId: string };
 export type StartFlashcardStudyMessage = { type: 'start_flashcard_study' };
 export type OpenSettingsMessage = { type: 'open_settings' };
 export type GetTtsSettingsMessage = { type: 'get_tts_settings' };
 export type RefreshMessage = { type: 'refresh' };
 
+// Card browser messages
+export type BrowseQueryMessage = { type: 'browse_query'; query: BrowseQuery };
+export type BulkActionMessage = {
+  type: 'bulk_action';
+  cardIds: string[];
+  action: BulkCardAction;
+};
+
 // Study mode messages
 export type SetStudyModeMessage = { type: 'set_study_mode'; mode: StudyMode };
 export type GetStudyModeMessage = { type: 'get_study_mode' };
 
+// Deck messages
+/** Study one deck, or every deck when deckId is omitted */
+export type SetDeckMessage = { type: 'set_deck'; deckId?: string };
+
 export type UiToExtensionMessage =
   | UiReadyMessage
   | GetNextCardMessage
   | RateCardMessage
+  | CheckAnswerMessage
+  | AnswerQuizMessage
   | RevealBackMessage
+  | UndoLastRatingMessage
+  | EndCustomStudyMessage
   | NextMessage
+  | UpdateCardMessage
+  | SuspendCardMessage
+  | BuryCardMessage
   | GetDashboardStatsMessage
   | GetKnowledgeGraphMessage
   | GetCardDetailsMessage
+  | GetCardHistoryMessage
+  | RevertCardMessage
+  | GetLeechesMessage
+  | RewriteCardBackMessage
   | StartFlashcardStudyMessage
   | OpenSettingsMessage
   | GetTtsSettingsMessage
   | RefreshMessage
+  | BrowseQueryMessage
+  | BulkActionMessage
   | SetStudyModeMessage
-  | GetStudyModeMessage;
+  | GetStudyModeMessage
+  | SetDeckMessage;
 
 // Extension → UI messages
-export type CardMessage = { type: 'card'; card: Card; srs?: SrsState };
+export type CardMessage = {
+  type: 'card';
+  card: Card;
+  srs?: SrsState;
+  /** Direction to show the card in (omitted for forward) */
+  direction?: CardDirection;
+  /** Field to type before revealing the back (typed answer mode only) */
+  answerField?: AnswerField;
+  /** Translations to choose from (quiz mode only) */
+  quizOptions?: string[];
+  /** Play the term and ask for its spelling (dictation mode only) */
+  dictation?: boolean;
+  /** Progress of the custom study session the card belongs to */
+  customStudy?: CustomStudyProgress;
+};
 export type EmptyMessage = { type: 'empty'; message: string };
 export type ErrorMessage = { type: 'error'; message: string };
+export type CardUpdatedMessage = { type: 'card_updated'; card: Card; srs?: SrsState };
+export type CardUpdateErrorMessage = { type: 'card_update_error'; message: string };
+export type AnswerResultMessage = {
+  type: 'answer_result';
+  cardId: string;
+  grade: TypedAnswerGrade;
+};
+export type QuizResultMessage = {
+  type: 'quiz_result';
+  cardId: string;
+  choice: number;
+  correctIndex: number;
+  rating: ReviewRating;
+};
 
 // Stats message for UI
 export type StatsMessage = {
@@ -82,7 +189,19 @@ export type StatsMessage = {
 // Dashboard messages
 export type DashboardStatsMessage = { type: 'dashboard_stats'; stats: DashboardStats };
 export type KnowledgeGraphMessage = { type: 'knowledge_graph'; graph: KnowledgeGraph };
-export type CardDetailsMessage = { type: 'card_details'; card: Card; srs?: SrsState };
+export type CardDetailsMessage = {
+  type: 'card_details';
+  card: Card;
+  srs?: SrsState;
+  /** Every review of the card (all directions and dictation), oldest first */
+  reviews: ReviewTimelineEntry[];
+};
+export type CardHistoryMessage = {
+  type: 'card_history';
+  cardId: string;
+  revisions: CardRevision[];
+};
+export type LeechesMessage = { type: 'leeches'; leeches: LeechReport[] };
 export type TtsSettingsMessage = {
   type: 'tts_settings';
   settings: {
@@ -95,12 +214,22 @@ export type TtsSettingsMessage = {
   };
 };
 
+// Card browser results
+export type BrowseResultMessage = { type: 'browse_result'; result: BrowseResult };
+
 // Study mode response message
 export type StudyModeMessage = {
   type: 'study_mode';
   mode: StudyMode;
 };
 
+// Decks for the deck picker and the deck being studied (every deck when omitted)
+export type DecksMessage = {
+  type: 'decks';
+  decks: DeckOption[];
+  deckId?: string;
+};
+
 // Session complete message (shown when studyUntilEmpty/dueOnly mode completes)
 export type SessionCompleteMessage = {
   type: 'session_complete';
@@ -111,11 +240,19 @@ export type ExtensionToUiMessage =
   | CardMessage
   | EmptyMessage
   | ErrorMessage
+  | CardUpdatedMessage
+  | CardUpdateErrorMessage
+  | AnswerResultMessage
+  | QuizResultMessage
   | DashboardStatsMessage
   | KnowledgeGraphMessage
   | CardDetailsMessage
+  | CardHistoryMessage
+  | LeechesMessage
   | TtsSettingsMessage
+  | BrowseResultMessage
   | StudyModeMessage
+  | DecksMessage
   | SessionCompleteMessage;
 
 /**
@@ -138,32 +275,99 @@ export function isValidUiMessage(msg: unknown): msg is UiToExtensionMessage {
     case 'get_tts_settings':
     case 'refresh':
     case 'get_study_mode':
+    case 'undo_last_rating':
+    case 'end_custom_study':
+    case 'get_leeches':
       return true;
 
     case 'set_study_mode':
       return (
         typeof m.mode === 'string' &&
-        ['loop', 'studyUntilEmpty', 'dueOnly'].includes(m.mode)
+        ['loop', 'studyUntilEmpty', 'dueOnly', 'quiz', 'dictation'].includes(m.mode)
       );
 
+    case 'set_deck':
+      return m.deckId === undefined || typeof m.deckId === 'string';
+
     case 'get_knowledge_graph':
       // Optional parameters are validated loosely
       return true;
 
     case 'get_card_details':
+    case 'get_card_history':
+    case 'rewrite_card_back':
       return typeof m.cardId === 'string';
 
+    case 'revert_card':
+      return typeof m.cardId === 'string' && typeof m.version === 'number';
+
     case 'rate_card':
       return (
         typeof m.cardId === 'string' &&
         typeof m.rating === 'string' &&
         ['again', 'hard', 'good', 'easy'].includes(m.rating) &&
-        m.mode === 'flashcard'
+        (m.mode === 'flashcard' || m.mode === 'dictation') &&
+        (m.direction === undefined || m.direction === 'forward' || m.direction === 'reverse') &&
+        (m.durationMs === undefined || typeof m.durationMs === 'number') &&
+        (m.typedAnswer === undefined || typeof m.typedAnswer === 'string')
+      );
+
+    case 'check_answer':
+      return (
+        typeof m.cardId === 'string' &&
+        (m.field === 'term' || m.field === 'translation') &&
+        typeof m.answer === 'string' &&
+        (m.durationMs === undefined || typeof m.durationMs === 'number')
+      );
+
+    case 'answer_quiz':
+      return (
+        typeof m.cardId === 'string' &&
+        Number.isInteger(m.choice) &&
+        (m.durationMs === undefined || typeof m.durationMs === 'number')
       );
 
     case 'reveal_back':
+    case 'suspend_card':
+    case 'bury_card':
       return typeof m.cardId === 'string';
 
+    case 'browse_query':
+      // Query fields are optional and validated loosely
+      return !!m.query && typeof m.query === 'object';
+
+    case 'bulk_action':
+      return (
+        Array.isArray(m.cardIds) &&
+        m.cardIds.every((id) => typeof id === 'string') &&
+        isValidBulkAction(m.action)
+      );
+
+    case 'update_card':
+      // Edit fields are validated by the handler so errors can be reported back
+      return typeof m.cardId === 'string' && !!m.edit && typeof m.edit === 'object';
+
+    default:
+      return false;
+  }
+}
+
+function isValidBulkAction(action: unknown): action is BulkCardAction {
+  if (!action || typeof action !== 'object') {
+    return false;
+  }
+
+  const a = action as Record<string, unknown>;
+
+  switch (a.kind) {
+    case 'tag':
+    case 'untag':
+      return typeof a.tag === 'string' && a.tag.trim().length > 0;
+    case 'suspend':
+    case 'unsuspend':
+    case 'delete':
+    case 'resetProgress':
+      return true;
     default:
       return false;
   }